@@ -1,12 +1,54 @@
 import 'dotenv/config';
-import axios from 'axios';
 import OpenAI from 'openai'; // or GoogleGenerativeAI for Gemini
 import { execSync } from 'child_process';
+import { createHash } from 'crypto';
 const fs = require('fs') as typeof import('fs');
 const path = require('path') as typeof import('path');
 const readline = require('readline') as typeof import('readline');
-import { ElevenLabsClient } from 'elevenlabs';
 const ffmpeg = require('fluent-ffmpeg') as typeof import('fluent-ffmpeg');
+import { emitProgress, timemarkToSeconds } from './backend/pipeline/progress';
+import { getTtsProvider, parseVoiceSettings, type TtsVoiceSettings } from './backend/pipeline/tts';
+import { getClipProvider } from './backend/pipeline/clipProviders';
+import { analyzeMusic, pickMusicStartSec } from './backend/pipeline/musicAnalysis';
+import { scenesMissingVoiceover, validateScriptData, type ScriptData } from './backend/pipeline/scriptValidation';
+import {
+  detectSpeechRegions,
+  estimateWordTimings,
+  readWordTimings,
+  wordTimingsPathFor,
+  writeWordTimings,
+  type WordTiming
+} from './backend/pipeline/wordTimings';
+import { assAlignment, getCaptionStyle, toAssColor, toFfmpegColor, type CaptionStyle } from './backend/pipeline/captionStyles';
+import { EXPORT_PROFILES, exportFileName, fitCaptionStyle, isExportProfileId } from './backend/pipeline/exportProfiles';
+import {
+  appendChapterList,
+  buildChapters,
+  evenChapterStarts,
+  MAX_CHAPTER_TITLE_CHARS,
+  targetChapterCount,
+  type Chapter
+} from './backend/pipeline/chapters';
+import {
+  CAPTION_FILE_PATTERN,
+  captionFileName,
+  captionLanguageName,
+  MAX_CAPTION_LANGUAGES,
+  parseCaptionLanguages
+} from './backend/pipeline/captionTracks';
+import { getTransition, resolveSegmentTransitions, type SegmentTransition } from './backend/pipeline/transitions';
+import { buildMotionFilter, MOTION_PRESET_LABELS, pickImageMotions, type ImageMotion } from './backend/pipeline/imageMotion';
+import {
+  buildMusicMixFilter,
+  DEFAULT_DUCKING,
+  DEFAULT_LOUDNESS_RANGE,
+  DEFAULT_LOUDNESS_TARGET_LUFS,
+  DEFAULT_TRUE_PEAK_DB,
+  isLoudnessTarget,
+  normalizeLoudness,
+  type LoudnessResult,
+  type LoudnessSettings
+} from './backend/pipeline/loudness';
 
 const FFMPEG_PATH = process.env.FFMPEG_PATH?.trim() || undefined;
 if (FFMPEG_PATH) {
@@ -27,19 +69,35 @@ function normalizeEnvValue(value: string | undefined): string | undefined {
 // CONFIG (overridable via .env)
 const TEST_MODE = process.env.TEST_MODE === 'true' || process.env.TEST_MODE === '1';
 const REUSE_TEMP = process.env.REUSE_TEMP === 'true' || process.env.REUSE_TEMP === '1';
-const MANUAL_GROK = process.env.MANUAL_GROK !== 'false' && process.env.MANUAL_GROK !== '0'; // true = no xAI API; you create clips in Grok terminal and put them in temp/
+// Clip source for step 3 (ProjectDoc.clipProvider): manual (upload clips), grok (xAI API) or stock (STOCK_FOOTAGE_DIR).
+// Without CLIP_PROVIDER, MANUAL_GROK=false selects grok, anything else manual.
+const CLIP_PROVIDER = getClipProvider(normalizeEnvValue(process.env.CLIP_PROVIDER));
 const BACKGROUND_MUSIC_PATH = process.env.BACKGROUND_MUSIC_PATH || 'temp/background_music.mp3'; // optional; fade in/out applied
+// 'auto' picks a phrase-aligned offset that skips a quiet intro (backend/pipeline/musicAnalysis.ts).
+const BACKGROUND_MUSIC_START_AUTO = process.env.BACKGROUND_MUSIC_START_SEC?.trim().toLowerCase() === 'auto';
 const BACKGROUND_MUSIC_START_SEC = Math.max(0, parseFloat(String(process.env.BACKGROUND_MUSIC_START_SEC || '0')) || 0);
 const RUN_STEP = process.env.RUN_STEP ? parseInt(process.env.RUN_STEP, 10) : null; // 1=script only, 2=voiceover only, 3=clips/prompts only, 4=assembly only; unset = all 4
+// Single-scene action instead of the steps: audio (re-voice), clip (regenerate with CLIP_PROVIDER) or refresh (after a
+// clip was replaced), for scene SCENE_INDEX. Rebuilds audio.mp3, the segment map and the alignment report.
+const SCENE_ACTION = (['audio', 'clip', 'refresh'] as const).find((a) => a === process.env.SCENE_ACTION?.trim()) ?? null;
+const SCENE_INDEX = parseInt(String(process.env.SCENE_INDEX ?? ''), 10);
 const XAI_API_KEY = normalizeEnvValue(process.env.XAI_API_KEY);
 const OPENAI_KEY = normalizeEnvValue(process.env.OPENAI_API_KEY);
-const ELEVEN_KEYS = Array.from(
-  new Set(
-    [normalizeEnvValue(process.env.ELEVEN_API_KEY), normalizeEnvValue(process.env.ELEVENLABS_API_KEY)]
-      .filter((v): v is string => !!v)
-  )
-);
-const ELEVEN_KEY = ELEVEN_KEYS[0];
+// Voiceover provider: elevenlabs (default), openai, or local (offline; espeak or a placeholder tone).
+const TTS_PROVIDER = getTtsProvider(process.env.TTS_PROVIDER);
+// Per-project narrator (set by the backend from ProjectDoc.voiceId / voiceSettings); provider defaults when unset.
+const TTS_VOICE_ID = normalizeEnvValue(process.env.TTS_VOICE_ID);
+const TTS_VOICE_SETTINGS_RAW = normalizeEnvValue(process.env.TTS_VOICE_SETTINGS);
+// Caption look (ProjectDoc.captionStyle): classic, clean, karaoke, bold_center, minimal. Default classic.
+const CAPTION_STYLE = getCaptionStyle(process.env.CAPTION_STYLE);
+// Extra caption tracks (ProjectDoc.captionLanguages), e.g. "es,de": translated captions.<lang>.srt/.vtt next to captions.srt.
+const CAPTION_LANGUAGES = (parseCaptionLanguages(process.env.CAPTION_LANGUAGES ?? '') ?? []).slice(0, MAX_CAPTION_LANGUAGES);
+const CAPTION_SOURCE_LANGUAGE = normalizeEnvValue(process.env.CAPTION_SOURCE_LANGUAGE) ?? 'en';
+// Scene transition (ProjectDoc.transition): cut, crossfade, dip_to_black, whip, slide, glitch. Default cut.
+// A scene's "transition" in script.json overrides it for the cut into the next scene.
+const TRANSITION = getTransition(normalizeEnvValue(process.env.TRANSITION)).id;
+// Narration language of a dubbed variant (ProjectDoc.language); YouTube metadata is written in it. Unset = English.
+const CONTENT_LANGUAGE = normalizeEnvValue(process.env.CONTENT_LANGUAGE);
 
 // Video format: short (~1 min), 5min, or 11min. Drives total length, scene count, aspect ratio, resolution.
 type VideoFormatId = 'short' | '5min' | '11min';
@@ -101,7 +159,31 @@ function getVideoFormatConfig(): VideoFormatConfig {
   }
 }
 
-const VIDEO_FORMAT_CONFIG = getVideoFormatConfig();
+// Preview render (PREVIEW_RENDER=1, assembly only): a quick look at pacing before the final render. Writes preview.mp4 at
+// reduced resolution with a fast encoder preset and a PREVIEW watermark; scenes without a clip or image get a
+// placeholder card. No captions, end blackout, loudness pass or metadata, and the project's segment map is left as is.
+const PREVIEW_RENDER = process.env.PREVIEW_RENDER === '1' || process.env.PREVIEW_RENDER === 'true';
+const PREVIEW_LONG_SIDE_PX = 640;
+// Extra libx264 options for every encode: speed over quality in preview, encoder defaults otherwise.
+const X264_OPTIONS = PREVIEW_RENDER ? ['-preset', 'ultrafast', '-crf', '30'] : [];
+
+// Export render (EXPORT_PROFILE=vertical|square|landscape, assembly only): an assembled project re-rendered into another
+// aspect ratio as export_<id>.mp4, captions refitted to the frame. Scene audio is reused, never synthesized.
+const EXPORT_PROFILE = isExportProfileId(process.env.EXPORT_PROFILE) ? EXPORT_PROFILES[process.env.EXPORT_PROFILE] : null;
+// Preview and export renders write a side file; the audio manifest, segment map, caption sidecars, render report and
+// metadata of the project's final render are left alone.
+const SIDE_RENDER = PREVIEW_RENDER || EXPORT_PROFILE !== null;
+
+/** The format's frame: the export profile's size, or scaled down to PREVIEW_LONG_SIDE_PX (even dimensions) for a preview. */
+function withRenderSize(config: VideoFormatConfig): VideoFormatConfig {
+  if (EXPORT_PROFILE) return { ...config, width: EXPORT_PROFILE.width, height: EXPORT_PROFILE.height };
+  if (!PREVIEW_RENDER) return config;
+  const scale = PREVIEW_LONG_SIDE_PX / Math.max(config.width, config.height);
+  const even = (n: number) => Math.round((n * scale) / 2) * 2;
+  return { ...config, width: even(config.width), height: even(config.height) };
+}
+
+const VIDEO_FORMAT_CONFIG = withRenderSize(getVideoFormatConfig());
 
 // Opening zoom at start of final video (assembly step 4): duration in seconds and end zoom factor (1.0 = no zoom).
 const OPENING_ZOOM_DURATION_SEC = 3;
@@ -111,6 +193,23 @@ const OPENING_ZOOM_END_FACTOR = 1.05; // zoom from ~1.05 at t=0 to 1.0 at t=OPEN
 const END_BLACKOUT_DURATION_SEC = 2;
 const END_BLACKOUT_FPS = 25;
 const END_BLACKOUT_DISABLED = process.env.DISABLE_END_BLACKOUT === '1';
+// Chapter title cards (5min/11min): show each chapter's title for a few seconds where it starts (CHAPTER_CARDS=1).
+const CHAPTER_CARDS = process.env.CHAPTER_CARDS === '1' || process.env.CHAPTER_CARDS === 'true';
+const CHAPTER_CARD_DURATION_SEC = 3;
+
+// Final mix (assembly step 4): background music ducks under the narration (MUSIC_DUCKING=0 for a flat bed), then the
+// video gets two-pass EBU R128 normalization to LOUDNESS_TARGET_LUFS (ProjectDoc.loudnessTargetLufs; DISABLE_LOUDNORM=1 skips it).
+const MUSIC_DUCKING = process.env.MUSIC_DUCKING !== '0' && process.env.MUSIC_DUCKING !== 'false';
+const MUSIC_VOLUME = MUSIC_DUCKING ? 0.3 : 0.18; // ducking pulls the bed down under speech, so it can sit higher in the gaps
+const LOUDNORM_DISABLED = process.env.DISABLE_LOUDNORM === '1';
+const LOUDNESS_SETTINGS: LoudnessSettings = {
+  targetLufs: (() => {
+    const n = envNumber('LOUDNESS_TARGET_LUFS');
+    return isLoudnessTarget(n) ? n : DEFAULT_LOUDNESS_TARGET_LUFS;
+  })(),
+  truePeakDb: Math.min(0, envNumber('LOUDNESS_TRUE_PEAK_DB') ?? DEFAULT_TRUE_PEAK_DB),
+  lra: DEFAULT_LOUDNESS_RANGE
+};
 
 // Clip length in seconds (used for all formats). Drives scene duration and voiceover length per scene.
 const TARGET_CLIP_SECONDS = (() => {
@@ -269,10 +368,12 @@ type ClipSegment = {
   endSec: number;
   source: 'scene-driven' | 'clip-driven';
   sourceClipDurationSec?: number;
+  /** Transition into the next segment; the next segment starts durationSec before this one ends. */
+  transitionOut?: SegmentTransition;
 };
 
-/** Subtitle chunk: one on-screen cue with start/end and text (used for ASS, SRT, drawtext). */
-export type SubChunk = { startSec: number; endSec: number; text: string };
+/** Subtitle chunk: one on-screen cue with start/end and text (used for ASS, SRT, drawtext). `words` are absolute spoken times when known. */
+export type SubChunk = { startSec: number; endSec: number; text: string; words?: WordTiming[] };
 
 const MAX_WORDS_PER_CHUNK = 4;
 const MIN_CHUNK_DURATION_SEC = 0.5;
@@ -329,33 +430,66 @@ function getContiguousClipIndices(tempDir: string): number[] {
   return indices;
 }
 
-/** Create a 9:16 video from a static image with a slow zoom-in effect. */
-async function createVideoFromImageWithZoom(
+/** Create a video in the output format from a static image with a camera-motion preset (pan, zoom, Ken Burns, push). */
+async function createVideoFromImageWithMotion(
   imagePath: string,
   outPath: string,
-  durationSec: number
+  durationSec: number,
+  motion: ImageMotion
 ): Promise<void> {
   const fps = 25;
   const totalFrames = Math.max(1, Math.round(fps * durationSec));
-  const zoomEnd = 1.25;
-  const zoomIncrement = (zoomEnd - 1) / totalFrames;
   const w = VIDEO_FORMAT_CONFIG.width;
   const h = VIDEO_FORMAT_CONFIG.height;
-  const zoompan = `zoompan=z='min(zoom+${zoomIncrement.toFixed(6)},${zoomEnd})':d=${totalFrames}:s=${w}x${h}:fps=${fps}`;
+  // Cover the frame at 2x first: pans need room to travel and zoompan jitters less on a larger source.
+  const cover = `scale=${w * 2}:${h * 2}:force_original_aspect_ratio=increase,crop=${w * 2}:${h * 2}`;
+  const zoompan = buildMotionFilter(motion, totalFrames, w, h, fps);
   await new Promise<void>((resolve, reject) => {
     ffmpeg()
       .input(imagePath)
-      .inputOptions(['-loop', '1'])
-      .videoFilters(zoompan)
-      .outputOptions(['-t', String(durationSec), '-c:v', 'libx264', '-pix_fmt', 'yuv420p'])
+      .videoFilters(`${cover},${zoompan}`)
+      .outputOptions(['-t', String(durationSec), '-c:v', 'libx264', ...X264_OPTIONS, '-pix_fmt', 'yuv420p'])
+      .output(outPath)
+      .on('start', () =>
+        log(
+          'FFMPEG',
+          `Image → video (${MOTION_PRESET_LABELS[motion.preset]}${motion.auto ? ', auto' : ''}, intensity ${motion.intensity}): ${path.basename(imagePath)} → ${durationSec.toFixed(1)}s`
+        )
+      )
+      .on('end', () => resolve())
+      .on('error', (err: Error) => reject(err))
+      .run();
+  });
+}
+
+/** Preview stand-in for a scene with no clip or image yet: a grey card naming the scene, as long as its narration. */
+async function createPlaceholderClip(outPath: string, sceneIndex: number, durationSec: number): Promise<void> {
+  const w = VIDEO_FORMAT_CONFIG.width;
+  const h = VIDEO_FORMAT_CONFIG.height;
+  const label = supportsDrawtextFilter()
+    ? `,drawtext=text='Scene ${sceneIndex + 1} - clip missing':fontsize=${Math.round(Math.min(w, h) / 14)}:fontcolor=white:x=(w-text_w)/2:y=(h-text_h)/2`
+    : '';
+  await new Promise<void>((resolve, reject) => {
+    ffmpeg()
+      .input(`color=c=0x2b2b2b:s=${w}x${h}:r=25:d=${durationSec.toFixed(3)}`)
+      .inputOptions(['-f lavfi'])
+      .videoFilters(`format=yuv420p${label}`)
+      .outputOptions(['-c:v libx264', ...X264_OPTIONS, '-pix_fmt yuv420p'])
       .output(outPath)
-      .on('start', () => log('FFMPEG', `Image → video with zoom: ${path.basename(imagePath)} → ${durationSec.toFixed(1)}s`))
+      .on('start', () => log('FFMPEG', `Scene ${sceneIndex}: no clip or image, placeholder ${durationSec.toFixed(1)}s`))
       .on('end', () => resolve())
       .on('error', (err: Error) => reject(err))
       .run();
   });
 }
 
+/** Red frame plus a large translucent PREVIEW label (the frame alone when drawtext is unavailable). */
+function previewWatermarkFilter(w: number, h: number): string {
+  const frame = `drawbox=x=0:y=0:w=iw:h=ih:color=red@0.8:t=${Math.max(4, Math.round(Math.min(w, h) / 60))}`;
+  if (!supportsDrawtextFilter()) return frame;
+  return `${frame},drawtext=text='PREVIEW':fontsize=${Math.round(Math.min(w, h) / 5)}:fontcolor=white@0.4:borderw=2:bordercolor=black@0.4:x=(w-text_w)/2:y=(h-text_h)/2`;
+}
+
 function splitSentences(text: string): string[] {
   const normalized = text.replace(/\s+/g, ' ').trim();
   if (!normalized) return [];
@@ -452,14 +586,19 @@ function distributeDurationsByWeight(totalSec: number, weights: number[]): numbe
   return rounded;
 }
 
+// transitions[i] (between segment i and i+1) pulls the next segment earlier by its overlap, matching the
+// xfade/acrossfade render, so captions cued from startSec stay on the narration.
 function withTimeline(
-  segments: Array<{ clipIndex: number; text: string; durationSec: number; source: 'scene-driven' | 'clip-driven'; sourceClipDurationSec?: number }>
+  segments: Array<{ clipIndex: number; text: string; durationSec: number; source: 'scene-driven' | 'clip-driven'; sourceClipDurationSec?: number }>,
+  transitions: SegmentTransition[] = []
 ): ClipSegment[] {
   let cursor = 0;
-  return segments.map((seg) => {
+  return segments.map((seg, i) => {
     const startSec = Number(cursor.toFixed(3));
     cursor += seg.durationSec;
     const endSec = Number(cursor.toFixed(3));
+    const transitionOut = transitions[i] && transitions[i].id !== 'cut' ? transitions[i] : undefined;
+    if (transitionOut) cursor -= transitionOut.durationSec;
     return {
       clipIndex: seg.clipIndex,
       text: seg.text,
@@ -467,7 +606,8 @@ function withTimeline(
       startSec,
       endSec,
       source: seg.source,
-      sourceClipDurationSec: seg.sourceClipDurationSec
+      sourceClipDurationSec: seg.sourceClipDurationSec,
+      ...(transitionOut ? { transitionOut } : {})
     };
   });
 }
@@ -483,26 +623,94 @@ function computeCoverageRatio(fullText: string, segmentTexts: string[]): number
   return Math.min(1, joined.length / full.length);
 }
 
+type RenderReport = {
+  generatedAt: string;
+  music: {
+    used: boolean;
+    volume: number;
+    ducking: typeof DEFAULT_DUCKING | null;
+    startSec?: number;
+    startMode?: 'auto' | 'manual';
+    bpm?: number | null;
+  };
+  loudness: LoudnessResult | { skipped: string };
+};
+
+function writeRenderReport(outputDir: string, report: RenderReport): void {
+  fs.writeFileSync(path.join(outputDir, 'render_report.json'), JSON.stringify(report, null, 2));
+}
+
 function writeSegmentMap(outputDir: string, map: ClipSegmentMap): void {
   const segmentMapPath = path.join(outputDir, 'clip_segment_map.json');
   fs.writeFileSync(segmentMapPath, JSON.stringify(map, null, 2));
 }
 
-/** Split segments into small subtitle chunks (by punctuation and/or max words); distribute time proportionally. */
+/**
+ * Cue chunks from per-word timings (relative to the segment start): each chunk starts on its first spoken
+ * word and stays up until the next chunk starts (or briefly after its last word at the end of a segment).
+ */
+function wordTimedSubChunks(seg: ClipSegment, words: WordTiming[], maxWords: number, minDur: number): SubChunk[] {
+  const groups: WordTiming[][] = [];
+  let acc: WordTiming[] = [];
+  for (const w of words) {
+    acc.push(w);
+    // Break on max words or at the end of a clause so a cue never straddles a pause.
+    if (acc.length >= maxWords || /[.,!?;:]$/.test(w.word)) {
+      groups.push(acc);
+      acc = [];
+    }
+  }
+  if (acc.length > 0) groups.push(acc);
+
+  const out: SubChunk[] = [];
+  for (let i = 0; i < groups.length; i++) {
+    const group = groups[i];
+    const start = Math.min(seg.endSec, seg.startSec + group[0].startSec);
+    const spokenEnd = seg.startSec + group[group.length - 1].endSec;
+    const nextStart = i < groups.length - 1 ? seg.startSec + groups[i + 1][0].startSec : seg.endSec;
+    const end = Math.min(nextStart, seg.endSec, Math.max(spokenEnd, start + minDur));
+    if (end > start) {
+      out.push({
+        startSec: start,
+        endSec: end,
+        text: group.map((w) => w.word).join(' '),
+        words: group.map((w) => ({ word: w.word, startSec: seg.startSec + w.startSec, endSec: seg.startSec + w.endSec }))
+      });
+    }
+  }
+  return out;
+}
+
+/**
+ * Split segments into small subtitle chunks (by punctuation and/or max words). Segments with word timings
+ * (segmentWords[i], relative to the segment start) are cued on the spoken words; others get time proportionally.
+ */
 function segmentToSubChunks(
   segments: ClipSegment[],
-  opts?: { maxWordsPerChunk?: number; minChunkDurationSec?: number; maxChunks?: number }
+  opts?: { maxWordsPerChunk?: number; minChunkDurationSec?: number; maxChunks?: number },
+  segmentWords?: Array<WordTiming[] | null | undefined>
 ): SubChunk[] {
   const maxWords = opts?.maxWordsPerChunk ?? MAX_WORDS_PER_CHUNK;
   const minDur = opts?.minChunkDurationSec ?? MIN_CHUNK_DURATION_SEC;
   const maxChunks = opts?.maxChunks ?? MAX_SUBTITLE_CHUNKS;
   const out: SubChunk[] = [];
 
-  for (const seg of segments) {
+  for (let segIdx = 0; segIdx < segments.length; segIdx++) {
+    // With a transition the next segment starts before this one ends; keep cues from overlapping it.
+    const nextStart = segments[segIdx + 1]?.startSec;
+    const seg = nextStart != null && nextStart < segments[segIdx].endSec
+      ? { ...segments[segIdx], endSec: Math.max(segments[segIdx].startSec, nextStart) }
+      : segments[segIdx];
     const raw = (seg.text || '').trim();
     if (!raw) continue;
     if (out.length >= maxChunks) break;
 
+    const words = segmentWords?.[segIdx];
+    if (words && words.length > 0) {
+      out.push(...wordTimedSubChunks(seg, words, maxWords, minDur).slice(0, maxChunks - out.length));
+      continue;
+    }
+
     const segStart = seg.startSec;
     const segEnd = seg.endSec;
     const segDur = Math.max(0.01, segEnd - segStart);
@@ -567,12 +775,39 @@ function stripHyphensForSubtitles(text: string): string {
     .trim();
 }
 
+/** Caption display text: dashes become spaces; uppercased when the caption style asks for it. */
+function captionDisplayText(text: string, style: CaptionStyle): string {
+  const t = stripHyphensForSubtitles(text || '');
+  return style.uppercase ? t.toUpperCase() : t;
+}
+
+type CaptionToken = { text: string; startSec: number; endSec: number };
+
+/** Displayed words of a chunk with their spoken times (spread evenly over the cue when the chunk has no word timings). */
+function captionTokens(ch: SubChunk, style: CaptionStyle): CaptionToken[] {
+  if (ch.words && ch.words.length > 0) {
+    return ch.words.flatMap((w) =>
+      captionDisplayText(w.word, style).split(/\s+/).filter(Boolean).map((text) => ({ text, startSec: w.startSec, endSec: w.endSec }))
+    );
+  }
+  const words = captionDisplayText(ch.text, style).split(/\s+/).filter(Boolean);
+  const step = (ch.endSec - ch.startSec) / Math.max(1, words.length);
+  return words.map((text, i) => ({ text, startSec: ch.startSec + i * step, endSec: ch.startSec + (i + 1) * step }));
+}
+
+/** Two-colour styles split each chunk over two lines (by word count); single-colour styles keep one line. */
+function splitCaptionLines(tokens: CaptionToken[], style: CaptionStyle): CaptionToken[][] {
+  if (style.lineColors.length < 2 || tokens.length < 2) return [tokens];
+  const mid = Math.ceil(tokens.length / 2);
+  return [tokens.slice(0, mid), tokens.slice(mid)];
+}
+
 /** Build SRT file content from subtitle chunks (for soft subtitle track when burn-in unavailable). */
-function buildSrtFromChunks(chunks: SubChunk[]): string {
+function buildSrtFromChunks(chunks: SubChunk[], style: CaptionStyle = CAPTION_STYLE): string {
   const lines: string[] = [];
   let index = 0;
   for (const ch of chunks) {
-    const text = stripHyphensForSubtitles(ch.text || '').toUpperCase().replace(/\r\n/g, '\n').replace(/\n/g, '\n');
+    const text = captionDisplayText(ch.text, style).replace(/\r\n/g, '\n');
     if (!text) continue;
     index += 1;
     lines.push(String(index));
@@ -583,6 +818,29 @@ function buildSrtFromChunks(chunks: SubChunk[]): string {
   return lines.join('\n');
 }
 
+/** Seconds to WebVTT time format HH:MM:SS.mmm */
+function secToVttTime(sec: number): string {
+  const totalMs = Math.max(0, Math.round(sec * 1000));
+  const h = Math.floor(totalMs / 3600000);
+  const m = Math.floor((totalMs % 3600000) / 60000);
+  const s = Math.floor((totalMs % 60000) / 1000);
+  const ms = totalMs % 1000;
+  return `${String(h).padStart(2, '0')}:${String(m).padStart(2, '0')}:${String(s).padStart(2, '0')}.${String(ms).padStart(3, '0')}`;
+}
+
+/** Build WebVTT file content from subtitle chunks (sidecar captions for players and YouTube). */
+function buildVttFromChunks(chunks: SubChunk[], style: CaptionStyle = CAPTION_STYLE): string {
+  const lines: string[] = ['WEBVTT', ''];
+  for (const ch of chunks) {
+    const text = captionDisplayText(ch.text, style).replace(/\r\n/g, '\n');
+    if (!text) continue;
+    lines.push(`${secToVttTime(ch.startSec)} --> ${secToVttTime(ch.endSec)}`);
+    lines.push(text);
+    lines.push('');
+  }
+  return lines.join('\n');
+}
+
 /** Escape text for ASS Dialogue line (backslash, braces, newlines). */
 function escapeAssText(text: string): string {
   return text
@@ -595,44 +853,55 @@ function escapeAssText(text: string): string {
     .trim();
 }
 
-/** Format one chunk as ASS Dialogue text: bold, italic, uppercase; two lines — first line red, second line yellow (split by word count). Use 8-digit &H00BBGGRR& for libass. */
-function formatAssChunkText(text: string): string {
-  const words = stripHyphensForSubtitles(text || '').split(/\s+/).filter(Boolean);
-  if (!words.length) return '';
-  const mid = Math.ceil(words.length / 2);
-  const firstLine = words.slice(0, mid).join(' ').toUpperCase();
-  const secondLine = words.slice(mid).join(' ').toUpperCase();
-  const esc1 = escapeAssText(firstLine);
-  if (!secondLine.trim()) return `{\\1c&H000000FF&\\b1}${esc1}`;
-  const esc2 = escapeAssText(secondLine);
-  return `{\\1c&H000000FF&\\b1}${esc1}\\N{\\1c&H0000FFFF&\\b1}${esc2}`;
-}
-
-// Subtitle layout: max 25% of screen height; font 20% smaller than 128 → 102. Position: between center and bottom (larger bottom margin).
-const SUBTITLE_FONT_SIZE = 102;
-const SUBTITLE_MARGIN_V = 300;
-const SUBTITLE_OUTLINE = 4;
-
-/** Build full ASS file content from subtitle chunks. Style: bold, two lines red/yellow, thick outline, bottom-center; sized to stay within 25% of screen. */
-function buildAssFromChunks(chunks: SubChunk[]): string {
+/**
+ * Format one chunk as ASS Dialogue text in the caption style's line colours (8-digit &H00BBGGRR& for libass).
+ * Karaoke styles switch each word to the highlight colour while it is spoken (\\t times are relative to the cue).
+ */
+function formatAssChunkText(ch: SubChunk, style: CaptionStyle): string {
+  const tokens = captionTokens(ch, style);
+  if (!tokens.length) return '';
+  const highlight = style.highlightColor ? toAssColor(style.highlightColor) : null;
+  return splitCaptionLines(tokens, style)
+    .map((line, li) => {
+      const color = toAssColor(style.lineColors[li] ?? style.lineColors[0]);
+      if (!highlight) return `{\\1c${color}\\b1}${escapeAssText(line.map((t) => t.text).join(' '))}`;
+      const words = line.map((t) => {
+        const from = Math.max(0, Math.round((t.startSec - ch.startSec) * 1000));
+        const to = Math.max(from, Math.round((t.endSec - ch.startSec) * 1000));
+        return `{\\1c${color}\\t(${from},${from},\\1c${highlight})\\t(${to},${to},\\1c${color})}${escapeAssText(t.text)}`;
+      });
+      return `{\\b1}${words.join(' ')}`;
+    })
+    .join('\\N');
+}
+
+/**
+ * Build full ASS file content from subtitle chunks in the given caption style (font, colours, outline, position).
+ * Sizes are in `canvas` pixels; exports pass their own frame together with a style fitted to it.
+ */
+function buildAssFromChunks(
+  chunks: SubChunk[],
+  style: CaptionStyle = CAPTION_STYLE,
+  canvas: { width: number; height: number } = { width: 1080, height: 1920 }
+): string {
   const lines: string[] = [
     '[Script Info]',
     'ScriptType: v4.00+',
-    'PlayResX: 1080',
-    'PlayResY: 1920',
+    `PlayResX: ${canvas.width}`,
+    `PlayResY: ${canvas.height}`,
     '',
     '[V4+ Styles]',
     'Format: Name, Fontname, Fontsize, PrimaryColour, SecondaryColour, OutlineColour, BackColour, Bold, Italic, Underline, StrikeOut, ScaleX, ScaleY, Spacing, Angle, BorderStyle, Outline, Shadow, Alignment, MarginL, MarginR, MarginV, Encoding',
-    `Style: Default,Arial,${SUBTITLE_FONT_SIZE},&H0000FFFF&,&H0000FFFF&,&H00000000&,&H80000000&,-1,-1,0,0,100,100,0,0,1,${SUBTITLE_OUTLINE},2,2,60,60,${SUBTITLE_MARGIN_V},1`,
+    `Style: Default,${style.fontName},${style.fontSize},${toAssColor(style.lineColors[0])},${toAssColor(style.lineColors[0])},${toAssColor(style.outlineColor)},&H80000000&,-1,${style.italic ? -1 : 0},0,0,100,100,0,0,1,${style.outline},${style.shadow},${assAlignment(style.position)},60,60,${style.marginV},1`,
     '',
     '[Events]',
     'Format: Layer, Start, End, Style, Name, MarginL, MarginR, MarginV, Effect, Text'
   ];
   const marginL = 60;
   const marginR = 60;
-  const marginV = SUBTITLE_MARGIN_V;
+  const marginV = style.marginV;
   for (const ch of chunks) {
-    const text = formatAssChunkText(ch.text);
+    const text = formatAssChunkText(ch, style);
     if (!text) continue;
     const start = secToAssTime(ch.startSec);
     const end = secToAssTime(ch.endSec);
@@ -647,24 +916,46 @@ function escapeSubtitlesPathForFfmpeg(filePath: string): string {
   return normalized.replace(/'/g, "\\'").replace(/:/g, '\\:');
 }
 
-/** Build drawtext filter chain from subtitle chunks (fallback when ass/subtitles filter is unavailable). Two lines per chunk: first red, second yellow; sized to stay within 25% of screen. */
-function buildDrawtextSubtitlesFilterFromChunks(chunks: SubChunk[]): string {
+/**
+ * Build drawtext filter chain from subtitle chunks (fallback when ass/subtitles filter is unavailable) in the given
+ * caption style. drawtext cannot colour single words, so karaoke styles highlight the line being spoken instead.
+ * The font family is left to FFmpeg's default (drawtext only resolves names with fontconfig).
+ */
+function buildDrawtextSubtitlesFilterFromChunks(chunks: SubChunk[], style: CaptionStyle = CAPTION_STYLE): string {
   const parts: string[] = [];
   const maxChunks = 80;
-  const fontSize = SUBTITLE_FONT_SIZE;
+  const fontSize = style.fontSize;
   const lineHeight = Math.round(fontSize * 1.35);
-  const secondLineY = `h-${SUBTITLE_MARGIN_V}`;
-  const firstLineY = `h-${SUBTITLE_MARGIN_V + lineHeight}`;
+  const look = [
+    `fontsize=${fontSize}`,
+    'x=(w-text_w)/2',
+    `borderw=${style.outline}`,
+    `bordercolor=${toFfmpegColor(style.outlineColor)}`,
+    ...(style.shadow > 0 ? [`shadowx=${style.shadow}`, `shadowy=${style.shadow}`] : [])
+  ].join(':');
+  const lineY = (li: number, lineCount: number): string => {
+    if (style.position === 'top') return String(style.marginV + li * lineHeight);
+    if (style.position === 'center') return `(h-${lineCount * lineHeight})/2+${li * lineHeight}`;
+    return `h-${style.marginV + (lineCount - 1 - li) * lineHeight}`;
+  };
   for (let i = 0; i < Math.min(chunks.length, maxChunks); i++) {
     const ch = chunks[i];
-    const words = stripHyphensForSubtitles(ch.text || '').split(/\s+/).filter(Boolean);
-    if (!words.length) continue;
-    const mid = Math.ceil(words.length / 2);
-    const firstLine = words.slice(0, mid).join(' ').toUpperCase().replace(/\\/g, '\\\\').replace(/'/g, "\\'");
-    const secondLine = words.slice(mid).join(' ').toUpperCase().replace(/\\/g, '\\\\').replace(/'/g, "\\'");
+    const tokens = captionTokens(ch, style);
+    if (!tokens.length) continue;
+    const lines = splitCaptionLines(tokens, style);
     const en = `between(t\\,${ch.startSec}\\,${ch.endSec})`;
-    if (firstLine) parts.push(`drawtext=text='${firstLine}':enable='${en}':fontsize=${fontSize}:x=(w-text_w)/2:y=${firstLineY}:fontcolor=red:borderw=3:bordercolor=black`);
-    if (secondLine) parts.push(`drawtext=text='${secondLine}':enable='${en}':fontsize=${fontSize}:x=(w-text_w)/2:y=${secondLineY}:fontcolor=yellow:borderw=3:bordercolor=black`);
+    lines.forEach((line, li) => {
+      const text = line.map((t) => t.text).join(' ').replace(/\\/g, '\\\\').replace(/'/g, "\\'");
+      const color = toFfmpegColor(style.lineColors[li] ?? style.lineColors[0]);
+      const y = lineY(li, lines.length);
+      if (!style.highlightColor) {
+        parts.push(`drawtext=text='${text}':enable='${en}':${look}:y=${y}:fontcolor=${color}`);
+        return;
+      }
+      const spoken = `between(t\\,${line[0].startSec.toFixed(3)}\\,${line[line.length - 1].endSec.toFixed(3)})`;
+      parts.push(`drawtext=text='${text}':enable='${en}*not(${spoken})':${look}:y=${y}:fontcolor=${color}`);
+      parts.push(`drawtext=text='${text}':enable='${en}*${spoken}':${look}:y=${y}:fontcolor=${toFfmpegColor(style.highlightColor)}`);
+    });
   }
   return parts.length ? ',' + parts.join(',') : '';
 }
@@ -682,7 +973,7 @@ function buildAlignmentChecks(
   availableClipCount: number,
   requiredClipCount: number
 ): SegmentAlignmentReport {
-  const sumDur = segments.reduce((sum, s) => sum + s.durationSec, 0);
+  const sumDur = segments.reduce((sum, s) => sum + s.durationSec - (s.transitionOut?.durationSec ?? 0), 0);
   const emptySegmentCount = segments.filter((s) => !s.text.trim()).length;
   const stretchRatios = segments.map((s) => {
     const base = s.sourceClipDurationSec && s.sourceClipDurationSec > 0 ? s.sourceClipDurationSec : s.durationSec;
@@ -757,33 +1048,6 @@ function ensureAlignmentOrBlock(
   throw new Error(`ALIGNMENT_BLOCKED:${JSON.stringify(payload)}`);
 }
 
-async function writeAudioFromGeneratedStream(audioPath: string, audioStream: unknown): Promise<void> {
-  const audioFile = fs.createWriteStream(audioPath);
-  if (typeof (audioStream as { pipe?: unknown }).pipe === 'function') {
-    await new Promise<void>((resolve, reject) => {
-      (audioStream as NodeJS.ReadableStream).pipe(audioFile);
-      audioFile.on('finish', () => resolve());
-      audioFile.on('error', reject);
-    });
-    return;
-  }
-  const reader = (audioStream as ReadableStream<Uint8Array>).getReader();
-  try {
-    while (true) {
-      const { done, value } = await reader.read();
-      if (done) break;
-      audioFile.write(Buffer.from(value));
-    }
-  } finally {
-    reader.releaseLock();
-  }
-  audioFile.end();
-  await new Promise<void>((resolve, reject) => {
-    audioFile.on('finish', () => resolve());
-    audioFile.on('error', reject);
-  });
-}
-
 async function concatAudioFiles(audioFiles: string[], outputPath: string): Promise<void> {
   const listPath = path.join(path.dirname(outputPath), 'audio_files.txt');
   const listContent = audioFiles.map((p) => `file '${p.replace(/\\/g, '/')}'`).join('\n');
@@ -799,29 +1063,148 @@ async function concatAudioFiles(audioFiles: string[], outputPath: string): Promi
   });
 }
 
+// Join segment audio with acrossfade where a transition overlaps two segments and plain concat elsewhere.
+async function crossfadeAudioFiles(audioFiles: string[], transitions: SegmentTransition[], outputPath: string): Promise<void> {
+  const parts = audioFiles.map((_, i) => `[${i}:a]aresample=44100,aformat=sample_fmts=fltp:channel_layouts=stereo[a${i}]`);
+  let prev = 'a0';
+  for (let i = 1; i < audioFiles.length; i++) {
+    const t = transitions[i - 1];
+    const out = i === audioFiles.length - 1 ? 'aout' : `ax${i}`;
+    parts.push(
+      t && t.id !== 'cut'
+        ? `[${prev}][a${i}]acrossfade=d=${t.durationSec}:c1=tri:c2=tri[${out}]`
+        : `[${prev}][a${i}]concat=n=2:v=0:a=1[${out}]`
+    );
+    prev = out;
+  }
+  await new Promise<void>((resolve, reject) => {
+    const chain = ffmpeg();
+    for (const f of audioFiles) chain.input(f);
+    chain
+      .outputOptions(['-filter_complex', parts.join(';'), '-map [aout]', '-c:a libmp3lame', '-b:a 192k'])
+      .save(outputPath)
+      .on('end', () => resolve())
+      .on('error', (err: Error) => reject(err));
+  });
+}
+
+// Render the prepared clips into one video with xfade at each transition (concat at hard cuts). Offsets come from
+// the segment timeline, so the joined video lines up with the crossfaded narration.
+async function joinClipsWithTransitions(tempDir: string, clipPaths: string[], segments: ClipSegment[]): Promise<string> {
+  const outPath = path.join(tempDir, 'joined_transitions.mp4');
+  const vw = VIDEO_FORMAT_CONFIG.width;
+  const vh = VIDEO_FORMAT_CONFIG.height;
+  // xfade needs identical size, frame rate and timebase on both inputs.
+  const parts = clipPaths.map(
+    (_, i) => `[${i}:v]scale=${vw}:${vh}:force_original_aspect_ratio=increase,crop=${vw}:${vh},fps=${END_BLACKOUT_FPS},format=yuv420p,settb=AVTB,setpts=PTS-STARTPTS[v${i}]`
+  );
+  let prev = 'v0';
+  for (let i = 1; i < clipPaths.length; i++) {
+    const t = segments[i - 1].transitionOut;
+    const out = i === clipPaths.length - 1 ? 'vout' : `vx${i}`;
+    parts.push(
+      t?.xfade
+        ? `[${prev}][v${i}]xfade=transition=${t.xfade}:duration=${t.durationSec}:offset=${segments[i].startSec.toFixed(3)}[${out}]`
+        : `[${prev}][v${i}]concat=n=2:v=1:a=0[${out}]`
+    );
+    prev = out;
+  }
+  const filterScriptPath = path.join(tempDir, 'ffmpeg_transitions.txt');
+  fs.writeFileSync(filterScriptPath, parts.join(';'), 'utf-8');
+  const transitionCount = segments.filter((s) => s.transitionOut).length;
+  await new Promise<void>((resolve, reject) => {
+    const chain = ffmpeg();
+    for (const p of clipPaths) chain.input(p);
+    chain
+      .outputOptions(['-filter_complex_script', filterScriptPath, '-map [vout]', '-c:v libx264', ...X264_OPTIONS, '-pix_fmt yuv420p'])
+      .output(outPath)
+      .on('start', () => log('FFMPEG', `Joining ${clipPaths.length} clips with ${transitionCount} transition(s)`))
+      .on('end', () => resolve())
+      .on('error', (err: Error) => reject(err))
+      .run();
+  });
+  return outPath;
+}
+
+const SCENE_AUDIO_MANIFEST = 'audio_scenes.json';
+
+function segmentContext(texts: string[], i: number): { previousText?: string; nextText?: string } {
+  return {
+    previousText: i > 0 ? texts[i - 1] : undefined,
+    nextText: i < texts.length - 1 ? texts[i + 1] : undefined
+  };
+}
+
+/**
+ * What a scene's narration was voiced from: its text and the voice. Neighbours are only a prosody hint, so editing
+ * one scene does not re-voice the scenes around it.
+ */
+function sceneAudioFingerprint(text: string): string {
+  return createHash('sha1')
+    .update(JSON.stringify([TTS_PROVIDER.id, TTS_VOICE_ID ?? '', getVoiceSettings(), text]))
+    .digest('hex');
+}
+
+/**
+ * Fingerprints of the audio_scene_{i}.mp3 files voiced with context. Step 2 writes the baseline for every scene;
+ * single-voiceover step 2 audio has none, so assembly re-voices it.
+ */
+function readSceneAudioManifest(tempDir: string): Array<string | null> {
+  try {
+    const data = JSON.parse(fs.readFileSync(path.join(tempDir, SCENE_AUDIO_MANIFEST), 'utf-8')) as { scenes?: unknown };
+    return Array.isArray(data.scenes) ? data.scenes.map((f) => (typeof f === 'string' ? f : null)) : [];
+  } catch {
+    return [];
+  }
+}
+
+function writeSceneAudioManifest(tempDir: string, fingerprints: Array<string | null>): void {
+  fs.writeFileSync(path.join(tempDir, SCENE_AUDIO_MANIFEST), JSON.stringify({ scenes: fingerprints }, null, 2));
+}
+
+/** Voice audio_scene_{i}.mp3 with its neighbouring segments as context; returns the measured duration. */
+async function synthesizeSceneAudio(tempDir: string, texts: string[], i: number): Promise<number> {
+  const segmentAudioPath = path.join(tempDir, `audio_scene_${i}.mp3`);
+  const text = texts[i].trim() || '.'; // Empty segment: use placeholder so TTS returns minimal audio
+  await synthesizeVoiceover(text, segmentAudioPath, segmentContext(texts, i));
+  return getAudioDurationSeconds(segmentAudioPath);
+}
+
 async function regenerateSegmentAudio(
   tempDir: string,
-  segments: ClipSegment[]
+  segments: ClipSegment[],
+  sceneTransitions?: Array<string | undefined>
 ): Promise<ClipSegment[]> {
-  validateApiKeysForStep('audio');
+  const texts = segments.map((seg) => seg.text);
+  const fingerprints = texts.map(sceneAudioFingerprint);
+  // Re-assembly keeps scenes whose narration and voice are unchanged (e.g. after re-voicing one scene).
+  const previous = REUSE_TEMP ? readSceneAudioManifest(tempDir) : [];
+  // A preview or export takes whatever scene audio exists (even step 2's context-free takes) rather than paying for new TTS.
+  const isCurrent = (i: number) =>
+    (SIDE_RENDER || previous[i] === fingerprints[i]) && fs.existsSync(path.join(tempDir, `audio_scene_${i}.mp3`));
+  const keptCount = texts.filter((_, i) => isCurrent(i)).length;
+  if (EXPORT_PROFILE && keptCount < segments.length) {
+    throw new Error('Export needs the voiceover of every scene from assembly; assemble the project again first.');
+  }
+  if (keptCount < segments.length) validateApiKeysForStep('audio');
+  if (keptCount > 0) log('AUDIO', `Keeping ${keptCount} unchanged scene voiceover(s)`);
   const segmentAudioPaths: string[] = [];
   const measuredDurations: number[] = [];
   const runSegment = async (i: number): Promise<void> => {
-    const rawText = segments[i].text.trim();
-    const text = rawText || '.'; // Empty segment: use placeholder so TTS returns minimal audio
     const segmentAudioPath = path.join(tempDir, `audio_scene_${i}.mp3`);
-    const requestPayload: Record<string, unknown> = {
-      voice: 'PlmstgXEUNQWiPyS27i2',
-      text,
-      model_id: 'eleven_multilingual_v2',
-      voice_settings: getElevenVoiceSettings()
-    };
-    if (i > 0) requestPayload.previous_text = segments[i - 1].text;
-    if (i < segments.length - 1) requestPayload.next_text = segments[i + 1].text;
-    const stream = await generateElevenAudio(requestPayload);
-    await writeAudioFromGeneratedStream(segmentAudioPath, stream);
+    if (isCurrent(i)) {
+      if (!readWordTimings(segmentAudioPath)) await saveWordTimings(texts[i].trim() || '.', segmentAudioPath);
+      measuredDurations.push(await getAudioDurationSeconds(segmentAudioPath));
+    } else {
+      measuredDurations.push(await synthesizeSceneAudio(tempDir, texts, i));
+    }
     segmentAudioPaths.push(segmentAudioPath);
-    measuredDurations.push(await getAudioDurationSeconds(segmentAudioPath));
+    emitProgress({
+      step: 'assembly',
+      message: `Scene ${i + 1}/${segments.length} voiceover done`,
+      current: i + 1,
+      total: segments.length
+    });
   };
   for (let i = 0; i < segments.length; i++) {
     try {
@@ -836,6 +1219,7 @@ async function regenerateSegmentAudio(
         for (const p of segmentAudioPaths) {
           try {
             if (fs.existsSync(p)) fs.unlinkSync(p);
+            fs.rmSync(wordTimingsPathFor(p), { force: true });
           } catch {
             /* ignore */
           }
@@ -844,16 +1228,35 @@ async function regenerateSegmentAudio(
       }
     }
   }
-  await concatAudioFiles(segmentAudioPaths, path.join(tempDir, 'audio.mp3'));
-  const withMeasured = withTimeline(
+  if (!SIDE_RENDER) writeSceneAudioManifest(tempDir, fingerprints);
+  return combineSegmentAudio(tempDir, segments, measuredDurations, sceneTransitions);
+}
+
+/** Join audio_scene_{i}.mp3 into audio.mp3 (crossfaded at non-cut transitions) and lay the segments out on the measured durations. */
+async function combineSegmentAudio(
+  tempDir: string,
+  segments: ClipSegment[],
+  measuredDurations: number[],
+  sceneTransitions?: Array<string | undefined>
+): Promise<ClipSegment[]> {
+  const segmentAudioPaths = segments.map((_, i) => path.join(tempDir, `audio_scene_${i}.mp3`));
+  const durations = segments.map((seg, idx) => Math.max(0.1, measuredDurations[idx] || seg.durationSec));
+  const transitions = resolveSegmentTransitions(durations, TRANSITION, sceneTransitions);
+  if (transitions.some((t) => t.id !== 'cut')) {
+    log('AUDIO', `Crossfading narration at ${transitions.filter((t) => t.id !== 'cut').length} scene transition(s)`);
+    await crossfadeAudioFiles(segmentAudioPaths, transitions, path.join(tempDir, 'audio.mp3'));
+  } else {
+    await concatAudioFiles(segmentAudioPaths, path.join(tempDir, 'audio.mp3'));
+  }
+  return withTimeline(
     segments.map((seg, idx) => ({
       clipIndex: seg.clipIndex,
       text: seg.text,
-      durationSec: Math.max(0.1, measuredDurations[idx] || seg.durationSec),
+      durationSec: durations[idx],
       source: seg.source
-    }))
+    })),
+    transitions
   );
-  return withMeasured;
 }
 
 // Trim or pad each clip to target durations so clip boundaries align with narration beats.
@@ -873,14 +1276,16 @@ async function prepareClipsToTargetDurations(
     const adjustedSetPts = speedRatio > 1
       ? `setpts=${speedRatio}*PTS`
       : 'setpts=PTS-STARTPTS';
-    const vf = `trim=duration=${dur > 0 ? Math.min(dur, targetSec) : targetSec},${adjustedSetPts},trim=duration=${targetSec},setpts=PTS-STARTPTS`;
+    const vf = `trim=duration=${dur > 0 ? Math.min(dur, targetSec) : targetSec},${adjustedSetPts},trim=duration=${targetSec},setpts=PTS-STARTPTS` +
+      // Preview: shrink here so every later filter works on small frames.
+      (PREVIEW_RENDER ? `,scale=${VIDEO_FORMAT_CONFIG.width}:${VIDEO_FORMAT_CONFIG.height}:force_original_aspect_ratio=increase,crop=${VIDEO_FORMAT_CONFIG.width}:${VIDEO_FORMAT_CONFIG.height}` : '');
     await new Promise<void>((resolve, reject) => {
       const chain = ffmpeg();
       chain.input(clipPath);
       chain
         .noAudio()
         .videoFilters(vf)
-        .outputOptions(['-c:v libx264', '-pix_fmt yuv420p'])
+        .outputOptions(['-c:v libx264', ...X264_OPTIONS, '-pix_fmt yuv420p'])
         .output(outPath)
         .on('start', () => log('FFMPEG', `Clip ${seg.clipIndex}: trim/stretch to ${targetSec}s (was ${dur.toFixed(1)}s)`))
         .on('end', () => resolve())
@@ -888,6 +1293,12 @@ async function prepareClipsToTargetDurations(
         .run();
     });
     trimmedPaths.push(outPath);
+    emitProgress({
+      step: 'assembly',
+      message: `Clip ${trimmedPaths.length}/${segments.length} prepared`,
+      current: trimmedPaths.length,
+      total: segments.length
+    });
   }
   return trimmedPaths;
 }
@@ -907,8 +1318,8 @@ function validateApiKeysForStep(step: 'script' | 'audio' | 'video') {
     if (SCRIPT_PROVIDER === 'grok') requireEnv('XAI_API_KEY', XAI_API_KEY);
     else requireEnv('OPENAI_API_KEY', OPENAI_KEY);
   }
-  if (step === 'audio') requireEnv('ELEVEN_API_KEY or ELEVENLABS_API_KEY', ELEVEN_KEY);
-  if (step === 'video') requireEnv('XAI_API_KEY', XAI_API_KEY);
+  if (step === 'audio' && TTS_PROVIDER.requiredEnv) requireEnv(TTS_PROVIDER.requiredEnv.name, TTS_PROVIDER.requiredEnv.value);
+  if (step === 'video' && CLIP_PROVIDER.requiredEnv) requireEnv(CLIP_PROVIDER.requiredEnv.name, CLIP_PROVIDER.requiredEnv.value);
 }
 
 function validateTopic(topic: string): void {
@@ -918,34 +1329,11 @@ function validateTopic(topic: string): void {
   }
 }
 
-type ScriptData = {
-  voiceover: string;
-  scenes: Array<{
-    prompt: string;
-    duration?: number;
-    /**
-     * Narration lines that should play over this visual scene.
-     * When all scene voiceovers are concatenated in order, they should roughly match the full `voiceover` above.
-     */
-    voiceover?: string;
-  }>;
-};
-function validateScriptData(data: unknown): data is ScriptData {
-  if (!data || typeof data !== 'object') return false;
-  const d = data as Record<string, unknown>;
-  if (typeof d.voiceover !== 'string' || d.voiceover.trim() === '') return false;
-  if (!Array.isArray(d.scenes) || d.scenes.length === 0) return false;
-  return d.scenes.every((s: unknown) => s && typeof s === 'object' && typeof (s as Record<string, unknown>).prompt === 'string');
-}
-
 /** Fail early if any scene has empty or whitespace-only voiceover (needed for scene-lock and TTS). */
 function validateSceneVoiceovers(scriptData: ScriptData): void {
-  const bad = scriptData.scenes
-    .map((s, i) => ({ i, v: String((s as { voiceover?: string }).voiceover ?? '').trim() }))
-    .filter(({ v }) => !v);
-  if (bad.length > 0) {
-    const indices = bad.map(({ i }) => i).join(', ');
-    log('MAIN', `Script invalid: every scene must have non-empty "voiceover". Missing or empty in scene(s): ${indices}.`);
+  const missing = scenesMissingVoiceover(scriptData);
+  if (missing.length > 0) {
+    log('MAIN', `Script invalid: every scene must have non-empty "voiceover". Missing or empty in scene(s): ${missing.join(', ')}.`);
     process.exit(1);
   }
 }
@@ -982,52 +1370,70 @@ const GROK_SCRIPT_MODEL = 'grok-3-latest';
 /** Client and model for script (and developments context): Grok when SCRIPT_PROVIDER=grok, else OpenAI. */
 const scriptClient = SCRIPT_PROVIDER === 'grok' ? grokScriptClient : openai;
 const scriptModel = SCRIPT_PROVIDER === 'grok' ? GROK_SCRIPT_MODEL : 'gpt-4o';
-const elevenClients = ELEVEN_KEYS.map((apiKey) => new ElevenLabsClient({ apiKey }));
-
-function isElevenUnauthorized(err: unknown): boolean {
-  const e = err as {
-    statusCode?: number;
-    status?: number;
-    response?: { status?: number };
-    message?: string;
-  };
-  const status = e.statusCode ?? e.status ?? e.response?.status;
-  if (status === 401) return true;
-  const msg = String(e.message ?? '');
-  return /(^|\s)401(\s|$)|unauthorized|invalid api key/i.test(msg);
+function envNumber(name: string): number | undefined {
+  const raw = process.env[name];
+  if (raw === undefined || raw.trim() === '') return undefined;
+  const n = parseFloat(raw);
+  return Number.isFinite(n) ? n : undefined;
 }
 
-async function generateElevenAudio(requestPayload: Record<string, unknown>): Promise<unknown> {
-  if (elevenClients.length === 0) {
-    throw new Error('Missing ElevenLabs API key (set ELEVEN_API_KEY or ELEVENLABS_API_KEY).');
-  }
-  let lastErr: unknown;
-  for (let i = 0; i < elevenClients.length; i++) {
+/**
+ * Format defaults (slightly slower, more laid-back voice for 5min/11min), then the global ELEVEN_* env values,
+ * then the project's own settings from TTS_VOICE_SETTINGS.
+ */
+let voiceSettings: TtsVoiceSettings | null = null;
+
+function getVoiceSettings(): TtsVoiceSettings {
+  if (voiceSettings) return voiceSettings;
+  const isLongFormat = VIDEO_FORMAT === '5min' || VIDEO_FORMAT === '11min';
+  const settings: TtsVoiceSettings = {
+    stability: envNumber('ELEVEN_STABILITY') ?? (isLongFormat ? 0.58 : 0.5),
+    similarity: envNumber('ELEVEN_SIMILARITY_BOOST') ?? 0.4,
+    style: envNumber('ELEVEN_STYLE') ?? 0,
+    speed: envNumber('ELEVEN_SPEED') ?? (isLongFormat ? 0.92 : 0.99)  // slightly slower for 5/11 min
+  };
+  if (TTS_VOICE_SETTINGS_RAW) {
+    let parsed: ReturnType<typeof parseVoiceSettings>;
     try {
-      return await elevenClients[i].generate(requestPayload as never);
-    } catch (err) {
-      lastErr = err;
-      const canRetry = i < elevenClients.length - 1;
-      if (canRetry && isElevenUnauthorized(err)) {
-        log('AUDIO', 'ElevenLabs 401 with current key; retrying with alternate key.');
-        continue;
-      }
-      throw err;
+      parsed = parseVoiceSettings(JSON.parse(TTS_VOICE_SETTINGS_RAW));
+    } catch {
+      parsed = { ok: false, error: 'not valid JSON' };
     }
+    if (parsed.ok) Object.assign(settings, parsed.settings);
+    else log('AUDIO', `Ignoring TTS_VOICE_SETTINGS: ${parsed.error}`);
   }
-  throw lastErr instanceof Error ? lastErr : new Error(String(lastErr ?? 'ElevenLabs generate failed'));
+  voiceSettings = settings;
+  return settings;
 }
 
-/** Slightly slower, more laid-back voice for 5min (and 11min); default for shorts. */
-function getElevenVoiceSettings(): { stability: number; similarity_boost: number; style: number; use_speaker_boost: boolean; speed: number } {
-  const isLongFormat = VIDEO_FORMAT === '5min' || VIDEO_FORMAT === '11min';
-  return {
-    stability: isLongFormat ? 0.58 : 0.5,
-    similarity_boost: 0.4,
-    style: 0,
-    use_speaker_boost: true,
-    speed: isLongFormat ? 0.92 : 0.99  // slightly slower for 5/11 min
-  };
+/**
+ * Synthesize one narration file with the configured TTS provider and save its word timings next to it
+ * (from the provider when it returns them, otherwise estimated from the audio's speech regions).
+ */
+async function synthesizeVoiceover(
+  text: string,
+  outputPath: string,
+  context: { previousText?: string; nextText?: string } = {}
+): Promise<void> {
+  const result = await TTS_PROVIDER.synthesize({ text, voiceId: TTS_VOICE_ID, settings: getVoiceSettings(), ...context }, outputPath);
+  await saveWordTimings(text, outputPath, result.words);
+}
+
+/** Word timings sidecar for a narration file: the provider's when given, otherwise estimated from its speech regions. */
+async function saveWordTimings(text: string, outputPath: string, providerWords?: WordTiming[]): Promise<void> {
+  try {
+    const durationSec = await getAudioDurationSeconds(outputPath);
+    if (providerWords && providerWords.length > 0) {
+      writeWordTimings(outputPath, { source: 'tts', durationSec, words: providerWords });
+    } else {
+      const regions = await detectSpeechRegions(outputPath, durationSec).catch(() => undefined);
+      writeWordTimings(outputPath, { source: 'estimated', durationSec, words: estimateWordTimings(text, durationSec, regions) });
+    }
+  } catch (e) {
+    // Captions fall back to proportional timing without the sidecar.
+    fs.rmSync(wordTimingsPathFor(outputPath), { force: true });
+    log('AUDIO', `Word timings unavailable for ${path.basename(outputPath)}: ${(e as Error).message}`);
+  }
 }
 
 const CURRENT_DEVELOPMENTS_FILE = path.join(TEMP_DIR, 'current_developments.txt');
@@ -1187,7 +1593,159 @@ async function shortenVoiceoversToFit(
   return items.map((_, i) => (typeof shortened[i] === 'string' && shortened[i].trim() ? shortened[i].trim() : items[i].voiceover));
 }
 
-async function generateYouTubeMetadata(topic: string, scriptData: ScriptData) {
+/** Translate narration segments for a caption track; returns one string per input, in order. */
+async function translateSegmentTexts(texts: string[], language: string): Promise<string[]> {
+  validateApiKeysForStep('script');
+  if (!scriptClient) throw new Error('Script client not available for caption translation');
+  const languageName = captionLanguageName(language);
+  const list = texts.map((t, i) => `${i}: ${JSON.stringify(t)}`).join('\n');
+  const completion = await scriptClient.chat.completions.create({
+    model: scriptModel,
+    messages: [
+      {
+        role: 'system',
+        content: `You translate video narration into ${languageName} for closed captions. Keep meaning, names and numbers; natural spoken ${languageName}; similar length. Return ONLY valid JSON: { "segments": ["...", ...] } with exactly one entry per input line, same order. No markdown.`
+      },
+      { role: 'user', content: `Translate each numbered segment into ${languageName}:\n\n${list}` }
+    ],
+    response_format: { type: 'json_object' }
+  });
+  const content = completion.choices[0].message.content;
+  if (!content) throw new Error(`Empty translation response for ${language}`);
+  const parsed = JSON.parse(content) as { segments?: unknown[] };
+  const segments = Array.isArray(parsed.segments) ? parsed.segments : [];
+  if (segments.length !== texts.length) {
+    throw new Error(`Translation to ${language} returned ${segments.length} segment(s), expected ${texts.length}`);
+  }
+  return segments.map((s, i) => (typeof s === 'string' && s.trim() ? s.trim() : texts[i]));
+}
+
+/** Closed captions are sentence case with longer cues than the burned-in captions, and never truncated. */
+const CLOSED_CAPTION_WORDS_PER_CHUNK = 7;
+const CLOSED_CAPTION_MAX_CHUNKS = 5000;
+
+/**
+ * Write captions.srt / captions.vtt for the narration and captions.<lang>.srt / .vtt for each CAPTION_LANGUAGES
+ * entry. Translated tracks keep each segment's timing and spread the translated text over it. A failed
+ * translation skips that language only.
+ */
+async function writeCaptionFiles(
+  outputDir: string,
+  segments: ClipSegment[],
+  segmentWords: Array<WordTiming[] | null>
+): Promise<void> {
+  for (const name of fs.readdirSync(outputDir)) {
+    if (CAPTION_FILE_PATTERN.test(name)) fs.rmSync(path.join(outputDir, name), { force: true });
+  }
+  const style: CaptionStyle = { ...CAPTION_STYLE, uppercase: false };
+  const chunkOpts = { maxWordsPerChunk: CLOSED_CAPTION_WORDS_PER_CHUNK, maxChunks: CLOSED_CAPTION_MAX_CHUNKS };
+  const chunks = segmentToSubChunks(segments, chunkOpts, segmentWords);
+  fs.writeFileSync(path.join(outputDir, captionFileName(null, 'srt')), buildSrtFromChunks(chunks, style), 'utf-8');
+  fs.writeFileSync(path.join(outputDir, captionFileName(null, 'vtt')), buildVttFromChunks(chunks, style), 'utf-8');
+  log('CAPTIONS', `Wrote captions.srt / captions.vtt (${chunks.length} cues, ${CAPTION_SOURCE_LANGUAGE})`);
+
+  const languages = CAPTION_LANGUAGES.filter((l) => l !== CAPTION_SOURCE_LANGUAGE);
+  for (let i = 0; i < languages.length; i++) {
+    const language = languages[i];
+    try {
+      const translated = await translateSegmentTexts(segments.map((s) => s.text), language);
+      const translatedChunks = segmentToSubChunks(
+        segments.map((s, idx) => ({ ...s, text: translated[idx] })),
+        chunkOpts
+      );
+      fs.writeFileSync(path.join(outputDir, captionFileName(language, 'srt')), buildSrtFromChunks(translatedChunks, style), 'utf-8');
+      fs.writeFileSync(path.join(outputDir, captionFileName(language, 'vtt')), buildVttFromChunks(translatedChunks, style), 'utf-8');
+      log('CAPTIONS', `Wrote ${language} caption track (${translatedChunks.length} cues)`);
+    } catch (e) {
+      log('CAPTIONS', `Skipping ${language} captions: ${(e as Error).message}`);
+    }
+    emitProgress({
+      step: 'assembly',
+      message: `Caption track ${i + 1}/${languages.length} (${language})`,
+      current: i + 1,
+      total: languages.length
+    });
+  }
+}
+
+/**
+ * Group the assembled segments into YouTube chapters (long formats only) and write chapters.json. The script model
+ * proposes where chapters start and names them; when that fails or breaks YouTube's rules, scenes are split into
+ * chapters of about equal length titled from their opening words.
+ */
+async function generateChapters(segments: ClipSegment[], durationSec: number): Promise<Chapter[] | null> {
+  const count = targetChapterCount(durationSec);
+  let chapters: Chapter[] | null = null;
+  if (scriptClient && segments.length >= count) {
+    try {
+      const sceneList = segments
+        .map((seg, i) => `[${i}] at ${Math.floor(seg.startSec)}s: ${seg.text.replace(/\s+/g, ' ').trim()}`)
+        .join('\n');
+      const completion = await scriptClient.chat.completions.create({
+        model: scriptModel,
+        messages: [
+          {
+            role: 'system',
+            content: 'You split documentary narration into YouTube chapters. Return strict JSON only; no markdown or comments.'
+          },
+          {
+            role: 'user',
+            content: [
+              `Scenes of a ${Math.round(durationSec / 60)} minute video, with start times:`,
+              sceneList,
+              '',
+              `Group consecutive scenes into about ${count} chapters that follow the story's turns. Each chapter must last at least 10 seconds; the first starts at scene 0.`,
+              `Give each a short, specific title (at most ${MAX_CHAPTER_TITLE_CHARS} characters, no numbering, no timestamps)${CONTENT_LANGUAGE ? ` in ${captionLanguageName(CONTENT_LANGUAGE)}` : ''}.`,
+              'Return ONLY valid JSON: {"chapters":[{"scene":0,"title":"..."}]}'
+            ].join('\n')
+          }
+        ],
+        response_format: { type: 'json_object' }
+      });
+      const parsed = JSON.parse(completion.choices[0].message.content || '{}') as { chapters?: Array<{ scene?: unknown; title?: unknown }> };
+      const proposals = (Array.isArray(parsed.chapters) ? parsed.chapters : []).map((c) => ({
+        sceneIndex: typeof c.scene === 'number' ? c.scene : -1,
+        title: typeof c.title === 'string' ? c.title : ''
+      }));
+      chapters = buildChapters(proposals, segments, durationSec);
+      if (!chapters) log('CHAPTERS', 'Proposed chapters did not meet YouTube rules; splitting evenly.');
+    } catch (err) {
+      log('CHAPTERS', `Chapter titles failed (${(err as Error).message}); splitting evenly.`);
+    }
+  }
+  if (!chapters) {
+    const proposals = evenChapterStarts(segments, durationSec, count).map((i) => ({
+      sceneIndex: i,
+      title: segments[i].text.replace(/\s+/g, ' ').trim().split(' ').slice(0, 6).join(' ').replace(/[.,;:!?]+$/, '')
+    }));
+    chapters = buildChapters(proposals, segments, durationSec);
+  }
+  if (!chapters) {
+    log('CHAPTERS', 'Video is too short or has too few scenes for chapters.');
+    return null;
+  }
+  fs.writeFileSync(path.join(OUTPUT_DIR, 'chapters.json'), JSON.stringify({ durationSec, chapters }, null, 2));
+  log('CHAPTERS', `Wrote ${chapters.length} chapters to chapters.json`);
+  return chapters;
+}
+
+/** drawtext title cards fading in and out at every chapter start after the first (the opening keeps its hook). */
+function buildChapterCardsFilter(chapters: Chapter[], vh: number): string {
+  const fontSize = Math.round(vh / 16);
+  const d = CHAPTER_CARD_DURATION_SEC;
+  return chapters
+    .slice(1)
+    .map((c) => {
+      const s = c.startSec.toFixed(2);
+      const e = (c.startSec + d).toFixed(2);
+      const text = c.title.replace(/\\/g, '\\\\').replace(/'/g, "\\'");
+      const alpha = `if(lt(t\\,${s}+0.4)\\,(t-${s})/0.4\\,if(gt(t\\,${e}-0.4)\\,(${e}-t)/0.4\\,1))`;
+      return `drawtext=text='${text}':expansion=none:enable='between(t\\,${s}\\,${e})':alpha='${alpha}':fontsize=${fontSize}:fontcolor=white:x=(w-text_w)/2:y=h*0.12:box=1:boxcolor=black@0.55:boxborderw=${Math.round(fontSize / 2)}`;
+    })
+    .join(',');
+}
+
+async function generateYouTubeMetadata(topic: string, scriptData: ScriptData, chapters: { list: Chapter[]; durationSec: number } | null = null) {
   validateApiKeysForStep('script');
   log('YT_META', 'Generating YouTube titles, description, and tags');
 
@@ -1200,7 +1758,8 @@ ${scriptData.voiceover}
 TASK:
 - 20 titles: direct, fact-based, curiosity-driven. Match the script's tone—no hype, no fake claims. One clear fact or hook per title.
 - One description: first line states what the story is. Next 2–3 sentences give concrete details (names, dates, what happened). Optional one-line hook at the end. Plain language.
-- 20–30 tags: specific to this story (names, events, themes). No generic filler.
+- 20–30 tags: specific to this story (names, events, themes). No generic filler.${CONTENT_LANGUAGE ? `
+- Write every title, the description and the tags in ${captionLanguageName(CONTENT_LANGUAGE)}.` : ''}
 
 Return ONLY valid JSON:
 { "titles": ["...", ...], "description": "...", "tags": ["...", ...] }`;
@@ -1233,10 +1792,12 @@ Return ONLY valid JSON:
     return;
   }
 
+  const description = typeof parsed.description === 'string' ? parsed.description : '';
   const out = {
     titles: Array.isArray(parsed.titles) ? parsed.titles : [],
-    description: typeof parsed.description === 'string' ? parsed.description : '',
-    tags: Array.isArray(parsed.tags) ? parsed.tags : []
+    description: chapters ? appendChapterList(description, chapters.list, chapters.durationSec) : description,
+    tags: Array.isArray(parsed.tags) ? parsed.tags : [],
+    ...(chapters ? { chapters: chapters.list } : {})
   };
 
   const metaPath = path.join(OUTPUT_DIR, 'youtube_meta.json');
@@ -1441,90 +2002,16 @@ function enrichScenePromptsForGrok(scriptData: ScriptData, topic: string): Scrip
   return { ...scriptData, scenes };
 }
 
-// 2. Generate Video Clip with Grok (Polling Method)
-async function generateGrokClip(prompt: string, index: number) {
-  if (!prompt || typeof prompt !== 'string' || prompt.trim() === '') {
-    log('GROK', `Clip ${index}: empty prompt — cannot call API`);
-    throw new Error(`Clip ${index}: scene prompt is required`);
-  }
-  validateApiKeysForStep('video');
-  log('GROK', `Clip ${index}: starting generation — "${prompt.substring(0, 30)}..."`);
-
-  // A. Start Generation
-  log('GROK', `Clip ${index}: submitting request to xAI API`);
-  let startResponse: { data: { request_id: string } };
-  try {
-    startResponse = await axios.post(
-      'https://api.x.ai/v1/videos/generations',
-      {
-        model: "grok-imagine-video", // verify current model at x.ai/docs
-        prompt: prompt,
-        aspect_ratio: VIDEO_FORMAT_CONFIG.aspectRatio === '16:9' ? "16:9" : "9:16",
-        duration: 5,
-        resolution: "720p"
-      },
-      { headers: { 'Authorization': `Bearer ${XAI_API_KEY}` } }
-    );
-  } catch (err: unknown) {
-    const status = axios.isAxiosError(err) ? err.response?.status : null;
-    const body = axios.isAxiosError(err) ? err.response?.data : null;
-    if (status === 403) {
-      log('GROK', '403 Forbidden from xAI. Common causes:');
-      log('GROK', '  • XAI_API_KEY invalid, expired, or missing video access');
-      log('GROK', '  • Video API may be limited beta — check https://x.ai or console.x.ai');
-      log('GROK', `  • Response: ${JSON.stringify(body ?? err)}`);
-    } else {
-      log('GROK', `Request failed: ${status ?? ''} ${body ?? (err as Error).message}`);
-    }
-    throw err;
-  }
-
-  const requestId = startResponse.data.request_id;
-  log('GROK', `Clip ${index}: request_id=${requestId}, polling for completion`);
-
-  // B. Poll for Completion (xAI returns { video: { url }, model } when done; no "status" field)
-  let videoUrl: string | null = null;
-  let pollCount = 0;
-
-  while (!videoUrl) {
-    await new Promise(r => setTimeout(r, 5000)); // Wait 5s
-    pollCount++;
-    const statusCheck = await axios.get(
-      `https://api.x.ai/v1/videos/${requestId}`,
-      { headers: { 'Authorization': `Bearer ${XAI_API_KEY}` } }
-    );
-    const data = statusCheck.data as Record<string, unknown>;
-    const status = (data.status ?? data.state ?? data.job_status) as string | undefined;
-    const video = data.video as { url?: string } | undefined;
-    const url = video?.url ?? (data.output_url as string) ?? (data.url as string) ?? (data.video_url as string);
-
-    if (url) {
-      videoUrl = url;
-      log('GROK', `Clip ${index}: poll #${pollCount} — done, video URL received`);
-      break;
-    }
-
-    log('GROK', `Clip ${index}: poll #${pollCount} — status=${status ?? 'pending'}`);
-
-    if (status === 'failed' || status === 'error') {
-      const errMsg = (data.error as { message?: string })?.message ?? (data.message as string) ?? 'unknown';
-      log('GROK', `Clip ${index}: generation failed — ${errMsg}`);
-      throw new Error(`Grok generation failed: ${errMsg}`);
-    }
-    // else pending/processing — keep polling
-  }
-
-  // C. Download
-  const clipPath = `./temp/clip_${index}.mp4`;
-  log('GROK', `Clip ${index}: downloading to ${clipPath}`);
-  const writer = fs.createWriteStream(clipPath);
-  const response = await axios({ url: videoUrl, method: 'GET', responseType: 'stream' });
-  response.data.pipe(writer);
-  await new Promise((resolve, reject) => {
-    writer.on('finish', resolve);
-    writer.on('error', reject);
-  });
-  log('GROK', `Clip ${index}: download finished`);
+/** fluent-ffmpeg 'progress' handler that reports encode percent against the expected output length. */
+function onEncodeProgress(expectedSec: number): (p: { timemark?: string }) => void {
+  let lastPercent = -1;
+  return (p) => {
+    if (!(expectedSec > 0)) return;
+    const percent = Math.min(99, Math.floor((timemarkToSeconds(p.timemark) / expectedSec) * 100));
+    if (percent <= lastPercent) return;
+    lastPercent = percent;
+    emitProgress({ step: 'assembly', message: `FFmpeg ${percent}%`, percent });
+  };
 }
 
 // 3. Main Orchestrator
@@ -1548,6 +2035,105 @@ function appendUsedTopicToFile(topic: string): void {
   fs.writeFileSync(USED_TOPICS_FILE, toWrite, 'utf-8');
 }
 
+type SceneLockBaseSegment = {
+  clipIndex: number;
+  text: string;
+  durationSec: number;
+  source: 'scene-driven';
+  sourceClipDurationSec?: number;
+};
+
+/** Scene-lock segments before voicing: each scene's narration over its own clip (a still lasts the scene duration). */
+async function buildSceneLockBase(tempDir: string, scenes: ScriptData['scenes'], clipIndices: number[]): Promise<SceneLockBaseSegment[]> {
+  const base: SceneLockBaseSegment[] = [];
+  for (const clipIndex of clipIndices) {
+    const sceneDur = Math.max(0.1, scenes[clipIndex].duration || SCENE_DURATION_DEFAULT);
+    const imagePath = getImagePathForIndex(tempDir, clipIndex);
+    const clipPath = path.join(tempDir, `clip_${clipIndex}.mp4`);
+    const clipDur = imagePath ? 0 : (fs.existsSync(clipPath) ? await getVideoDurationSeconds(clipPath) : 0);
+    base.push({
+      clipIndex,
+      text: String(scenes[clipIndex].voiceover || '').trim() || String(scenes[clipIndex].prompt || '').trim(),
+      durationSec: sceneDur,
+      source: 'scene-driven' as const,
+      sourceClipDurationSec: imagePath ? sceneDur : (clipDur > 0 ? clipDur : undefined)
+    });
+  }
+  return base;
+}
+
+/**
+ * SCENE_ACTION for one scene: re-voice it or regenerate its clip (or nothing for 'refresh', after a clip upload),
+ * then rebuild audio.mp3, the segment map and the alignment report from the scene files on disk. Other scenes'
+ * audio and clips are left as they are; the next assembly keeps them too.
+ */
+async function runSceneAction(scriptData: ScriptData, action: 'audio' | 'clip' | 'refresh', index: number): Promise<void> {
+  const tempDir = TEMP_DIR;
+  const scenes = scriptData.scenes;
+  if (!Number.isInteger(index) || index < 0 || index >= scenes.length) {
+    throw new Error(`SCENE_INDEX must be a scene index from 0 to ${scenes.length - 1}`);
+  }
+  const missingAudio = scenes.map((_, i) => i).filter((i) => !fs.existsSync(path.join(tempDir, `audio_scene_${i}.mp3`)));
+  if (missingAudio.length > 0) {
+    throw new Error(`Per-scene audio missing for scene(s) ${missingAudio.join(', ')}; run the voiceover step first`);
+  }
+  const texts = scenes.map((s) => String(s.voiceover || '').trim() || String(s.prompt || '').trim());
+
+  if (action === 'audio') {
+    validateApiKeysForStep('audio');
+    log('AUDIO', `Scene ${index}: regenerating voiceover (${TTS_PROVIDER.label})`);
+    emitProgress({ step: 'audio', message: `Scene ${index + 1}: regenerating voiceover` });
+    await synthesizeSceneAudio(tempDir, texts, index);
+    const manifest = readSceneAudioManifest(tempDir);
+    manifest[index] = sceneAudioFingerprint(texts[index]);
+    writeSceneAudioManifest(tempDir, Array.from(manifest, (f) => f ?? null));
+  } else if (action === 'clip') {
+    if (!CLIP_PROVIDER.automatic) throw new Error(`${CLIP_PROVIDER.label} clips are uploaded, not generated`);
+    validateApiKeysForStep('video');
+    const prompt = String(scenes[index].prompt || '');
+    const generatedPath = path.join(tempDir, `clip_${index}.regenerated.mp4`);
+    log('VIDEO', `Clip ${index}: regenerating — "${prompt.substring(0, 30)}..."`);
+    const result = await CLIP_PROVIDER.generateClip(
+      {
+        prompt,
+        index,
+        aspectRatio: VIDEO_FORMAT_CONFIG.aspectRatio,
+        usedSources: new Set<string>(),
+        onStatus: (message) => {
+          log('VIDEO', `Clip ${index}: ${message}`);
+          emitProgress({ step: 'clips', message: `Clip ${index + 1}: ${message}` });
+        }
+      },
+      generatedPath
+    );
+    // A still image takes precedence over a clip, so the new clip replaces it.
+    const imagePath = getImagePathForIndex(tempDir, index);
+    if (imagePath) fs.rmSync(imagePath, { force: true });
+    fs.rmSync(path.join(tempDir, `from_image_${index}.mp4`), { force: true });
+    fs.renameSync(generatedPath, path.join(tempDir, `clip_${index}.mp4`));
+    log('VIDEO', `Clip ${index}: done${result.source ? ` (${result.source})` : ''}`);
+  }
+
+  const clipIndices = getContiguousClipIndices(tempDir).filter((i) => i < scenes.length);
+  const base = await buildSceneLockBase(tempDir, scenes, scenes.map((_, i) => i));
+  const measuredDurations: number[] = [];
+  for (let i = 0; i < scenes.length; i++) {
+    measuredDurations.push(await getAudioDurationSeconds(path.join(tempDir, `audio_scene_${i}.mp3`)));
+  }
+  let segments = await combineSegmentAudio(tempDir, withTimeline(base), measuredDurations, scenes.map((s) => s.transition));
+  segments = segments.map((seg, idx) => ({ ...seg, sourceClipDurationSec: base[idx].sourceClipDurationSec }));
+  const mergedAudioSec = await getAudioDurationSeconds(path.join(tempDir, 'audio.mp3'));
+  const alignment = buildAlignmentChecks('scene-driven', scriptData.voiceover, segments, mergedAudioSec, clipIndices.length, scenes.length);
+  writeSegmentMap(OUTPUT_DIR, {
+    mode: 'scene-driven',
+    clipCount: segments.length,
+    audioDurationSec: Number(mergedAudioSec.toFixed(3)),
+    segments
+  });
+  writeSegmentAlignment(OUTPUT_DIR, alignment);
+  log('MAIN', `Scene ${index} ${action} done: audio.mp3, segment map and alignment rebuilt (${alignment.passed ? 'aligned' : alignment.reasons.join(', ')})`);
+}
+
 async function main() {
   let topic: string;
   const envTopic = process.env.SHORT_TOPIC_OVERRIDE?.trim();
@@ -1576,6 +2162,11 @@ async function main() {
   if (!fs.existsSync(TEMP_DIR)) fs.mkdirSync(TEMP_DIR, { recursive: true });
   if (!fs.existsSync(OUTPUT_DIR)) fs.mkdirSync(OUTPUT_DIR, { recursive: true });
 
+  if (SCENE_ACTION) {
+    await runSceneAction(enrichScenePromptsForGrok(loadScriptFromTemp(), topic), SCENE_ACTION, SCENE_INDEX);
+    return;
+  }
+
   if (RUN_STEP === null && !REUSE_TEMP && hasExistingProjectData()) {
     log('MAIN', '');
     log('MAIN', 'Existing project data found in temp/.');
@@ -1605,8 +2196,10 @@ async function main() {
       log('MAIN', 'Step 1 done: script loaded');
     } else {
       log('MAIN', 'Generating script (OpenAI)');
+      emitProgress({ step: 'script', message: 'Generating script', percent: 0 });
       scriptData = await getScript(topic);
       fs.writeFileSync(scriptPath, JSON.stringify(scriptData, null, 2));
+      emitProgress({ step: 'script', message: 'Script generated', percent: 100 });
       log('MAIN', 'Step 1 done: script saved to temp/script.json');
     }
     if (RUN_STEP === 1) {
@@ -1651,45 +2244,25 @@ async function main() {
 
     if (!REUSE_TEMP || !fs.existsSync(audioPath)) {
       validateApiKeysForStep('audio');
+      fs.rmSync(path.join(TEMP_DIR, SCENE_AUDIO_MANIFEST), { force: true });
 
       if (usePerSceneVoiceover) {
-        log('MAIN', 'Generating per-scene voiceover (ElevenLabs)');
-        // Generate one audio file per scene: temp/audio_scene_{i}.mp3
+        log('MAIN', `Generating per-scene voiceover (${TTS_PROVIDER.label})`);
+        // Generate one audio file per scene: temp/audio_scene_{i}.mp3, voiced with its neighbours as context like
+        // assembly does, so assembly and single-scene fixes can keep it.
+        const sceneTexts = scenes.map((s) => String((s as { voiceover?: string }).voiceover || '').trim());
         for (let i = 0; i < scenes.length; i++) {
-          const sceneVo = (scenes[i] as { voiceover?: string }).voiceover!;
           const sceneAudioPath = path.join(TEMP_DIR, `audio_scene_${i}.mp3`);
           log('AUDIO', `Scene ${i}: generating voiceover`);
-          const audioStream = await generateElevenAudio({
-            voice: "PlmstgXEUNQWiPyS27i2",
-            text: sceneVo,
-            model_id: "eleven_multilingual_v2",
-            voice_settings: getElevenVoiceSettings()
-          });
-          const audioFile = fs.createWriteStream(sceneAudioPath);
-          if (typeof (audioStream as { pipe?: unknown }).pipe === 'function') {
-            await new Promise<void>((resolve, reject) => {
-              (audioStream as NodeJS.ReadableStream).pipe(audioFile);
-              audioFile.on('finish', () => resolve());
-              audioFile.on('error', reject);
-            });
-          } else {
-            const reader = (audioStream as unknown as ReadableStream<Uint8Array>).getReader();
-            try {
-              while (true) {
-                const { done, value } = await reader.read();
-                if (done) break;
-                audioFile.write(Buffer.from(value));
-              }
-            } finally {
-              reader.releaseLock();
-            }
-            audioFile.end();
-            await new Promise<void>((resolve, reject) => {
-              audioFile.on('finish', () => resolve());
-              audioFile.on('error', reject);
-            });
-          }
+          await synthesizeSceneAudio(TEMP_DIR, sceneTexts, i);
           log('AUDIO', `Scene ${i}: voiceover saved to ${sceneAudioPath}`);
+          emitProgress({
+            step: 'audio',
+            message: `Scene ${i + 1}/${scenes.length} voiceover done`,
+            current: i + 1,
+            total: scenes.length,
+            percent: ((i + 1) / scenes.length) * 100
+          });
         }
 
         // Concatenate per-scene audio files into a single temp/audio.mp3
@@ -1714,41 +2287,14 @@ async function main() {
             })
             .on('error', (err: Error) => reject(err));
         });
+        writeSceneAudioManifest(TEMP_DIR, sceneTexts.map(sceneAudioFingerprint));
         log('MAIN', 'Step 2 done: per-scene + combined audio ready');
       } else {
-        log('MAIN', 'Generating single voiceover (ElevenLabs)');
-        const audioStream = await generateElevenAudio({
-          voice: "PlmstgXEUNQWiPyS27i2",
-          text: scriptData.voiceover,
-          model_id: "eleven_multilingual_v2",
-          voice_settings: getElevenVoiceSettings()
-        });
-        const audioFile = fs.createWriteStream(audioPath);
-        log('AUDIO', 'Streaming to ./temp/audio.mp3');
-        if (typeof (audioStream as { pipe?: unknown }).pipe === 'function') {
-          await new Promise<void>((resolve, reject) => {
-            (audioStream as NodeJS.ReadableStream).pipe(audioFile);
-            audioFile.on('finish', () => resolve());
-            audioFile.on('error', reject);
-          });
-        } else {
-          const reader = (audioStream as unknown as ReadableStream<Uint8Array>).getReader();
-          try {
-            while (true) {
-              const { done, value } = await reader.read();
-              if (done) break;
-              audioFile.write(Buffer.from(value));
-            }
-          } finally {
-            reader.releaseLock();
-          }
-          audioFile.end();
-          await new Promise<void>((resolve, reject) => {
-            audioFile.on('finish', () => resolve());
-            audioFile.on('error', reject);
-          });
-        }
+        log('MAIN', `Generating single voiceover (${TTS_PROVIDER.label})`);
+        emitProgress({ step: 'audio', message: 'Generating voiceover', percent: 0 });
+        await synthesizeVoiceover(scriptData.voiceover, audioPath);
         log('AUDIO', 'Voiceover file written');
+        emitProgress({ step: 'audio', message: 'Voiceover done', percent: 100 });
         log('MAIN', 'Step 2 done: audio saved to temp/audio.mp3');
       }
     }
@@ -1764,7 +2310,7 @@ async function main() {
   const allClipsExist = scenes.every((_, i) => segmentHasClipOrImage(tempDirForClips, i));
   if (RUN_STEP === null || RUN_STEP === 3) {
     stepBanner(3, 'VIDEO CLIPS');
-  if (MANUAL_GROK) {
+  if (!CLIP_PROVIDER.automatic) {
     const promptsPath = path.join(tempDirForClips, 'clip_prompts.json');
     const promptsTxtPath = path.join(tempDirForClips, 'clip_prompts.txt');
     const promptsList = scenes.map((s, i) => ({ index: i, prompt: s.prompt, filename: `clip_${i}.mp4` }));
@@ -1794,6 +2340,14 @@ async function main() {
         const required = scenes.map((_, i) => `clip_${i}.mp4`);
         const waitingPath = path.join(tempDirForClips, 'waiting_for_clips.json');
         fs.writeFileSync(waitingPath, JSON.stringify({ required }, null, 2));
+        const present = scenes.filter((_, i) => segmentHasClipOrImage(tempDirForClips, i)).length;
+        emitProgress({
+          step: 'clips',
+          message: `Waiting for clips (${present}/${scenes.length} present)`,
+          current: present,
+          total: scenes.length,
+          percent: (present / scenes.length) * 100
+        });
         log('MAIN', 'NON_INTERACTIVE: wrote temp/waiting_for_clips.json — add clips then call POST /api/jobs/:id/continue');
         process.exit(0);
       }
@@ -1806,12 +2360,38 @@ async function main() {
     }
     log('MAIN', 'Step 3 done: all clips found in temp/');
   } else if (REUSE_TEMP && allClipsExist) {
-    log('MAIN', `Step 3: using existing clip(s) in ./temp (skipping Grok API)`);
+    log('MAIN', `Step 3: using existing clip(s) in ./temp (skipping ${CLIP_PROVIDER.label})`);
     log('MAIN', 'Step 3 done: all clips ready');
   } else {
-    log('MAIN', `Generating ${scenes.length} clip(s) with Grok API`);
+    validateApiKeysForStep('video');
+    // With REUSE_TEMP, scenes that already have a clip or image keep it; only the gaps are filled.
+    const usedSources = new Set<string>();
+    log('MAIN', `Generating ${scenes.length} clip(s) with ${CLIP_PROVIDER.label}`);
     for (let i = 0; i < scenes.length; i++) {
-      await generateGrokClip(scenes[i].prompt, i);
+      if (REUSE_TEMP && segmentHasClipOrImage(tempDirForClips, i)) continue;
+      const prompt = String(scenes[i].prompt || '');
+      log('VIDEO', `Clip ${i}: starting — "${prompt.substring(0, 30)}..."`);
+      const result = await CLIP_PROVIDER.generateClip(
+        {
+          prompt,
+          index: i,
+          aspectRatio: VIDEO_FORMAT_CONFIG.aspectRatio,
+          usedSources,
+          onStatus: (message) => {
+            log('VIDEO', `Clip ${i}: ${message}`);
+            emitProgress({ step: 'clips', message: `Clip ${i + 1}: ${message}`, current: i + 1, total: scenes.length });
+          }
+        },
+        path.join(tempDirForClips, `clip_${i}.mp4`)
+      );
+      log('VIDEO', `Clip ${i}: done${result.source ? ` (${result.source})` : ''}`);
+      emitProgress({
+        step: 'clips',
+        message: `Clip ${i + 1}/${scenes.length} done`,
+        current: i + 1,
+        total: scenes.length,
+        percent: ((i + 1) / scenes.length) * 100
+      });
     }
     log('MAIN', 'Step 3 done: all clips ready');
   }
@@ -1824,7 +2404,10 @@ async function main() {
   // ─── STEP 4: ASSEMBLY ───
   if (RUN_STEP === null || RUN_STEP === 4) stepBanner(4, 'ASSEMBLY');
   const tempDir = TEMP_DIR;
-  const outputPath = path.join(OUTPUT_DIR, 'final_short.mp4');
+  const outputPath = path.join(
+    OUTPUT_DIR,
+    PREVIEW_RENDER ? 'preview.mp4' : EXPORT_PROFILE ? exportFileName(EXPORT_PROFILE.id) : 'final_short.mp4'
+  );
   const audioFilePath = path.join(tempDir, 'audio.mp3');
   if (RUN_STEP === null || RUN_STEP === 4) {
     if (!fs.existsSync(audioFilePath)) {
@@ -1832,15 +2415,28 @@ async function main() {
       process.exit(1);
     }
     const availableClipIndices = getContiguousClipIndices(tempDir);
-    if (availableClipIndices.length === 0) {
+    if (availableClipIndices.length === 0 && !PREVIEW_RENDER) {
       log('MAIN', 'No clips found (expected clip_0.mp4, clip_1.mp4, ...). Run step 3 first.');
       process.exit(1);
     }
   }
   const musicPath = path.resolve(process.cwd(), BACKGROUND_MUSIC_PATH);
   const useBackgroundMusic = fs.existsSync(musicPath);
-  if (useBackgroundMusic && BACKGROUND_MUSIC_START_SEC > 0) {
-    log('FFMPEG', `Background music will start at ${BACKGROUND_MUSIC_START_SEC}s into the track.`);
+  let musicStartSec = BACKGROUND_MUSIC_START_SEC;
+  let musicBpm: number | null | undefined;
+  if (useBackgroundMusic && BACKGROUND_MUSIC_START_AUTO) {
+    try {
+      const analysis = await analyzeMusic(musicPath);
+      const neededSec = (await getAudioDurationSeconds(audioFilePath)) + (END_BLACKOUT_DISABLED ? 0 : END_BLACKOUT_DURATION_SEC);
+      musicStartSec = pickMusicStartSec(analysis, neededSec);
+      musicBpm = analysis.bpm;
+      log('FFMPEG', `Background music: ${analysis.bpm ? `${analysis.bpm} BPM` : 'no clear beat'}, auto start at ${musicStartSec}s of ${analysis.durationSec}s.`);
+    } catch (err) {
+      log('FFMPEG', `Background music analysis failed (${(err as Error).message}); starting from 0s.`);
+      musicStartSec = 0;
+    }
+  } else if (useBackgroundMusic && musicStartSec > 0) {
+    log('FFMPEG', `Background music will start at ${musicStartSec}s into the track.`);
   }
   // Scale and crop to format resolution (9:16 or 16:9); no black bars
   const vw = VIDEO_FORMAT_CONFIG.width;
@@ -1856,11 +2452,12 @@ async function main() {
 
   // Normalize every clip to its scene duration so visual scene changes line up with narration beats.
   // If per-scene audio files (audio_scene_i.mp3) exist, align each clip to its exact audio duration.
-  const availableClipIndices = getContiguousClipIndices(tempDir);
+  // Preview: every scene gets a slot; scenes without a clip or image get a placeholder card further down.
+  const availableClipIndices = PREVIEW_RENDER ? scenes.map((_, i) => i) : getContiguousClipIndices(tempDir);
   const allClipNames = fs.readdirSync(tempDir).filter((n) => /^clip_\d+\.mp4$/.test(n));
   const allClipIndices = allClipNames.map((n) => parseInt(n.replace(/^clip_(\d+)\.mp4$/, '$1'), 10));
   const maxContiguous = availableClipIndices.length === 0 ? -1 : Math.max(...availableClipIndices);
-  if (allClipIndices.some((idx) => idx > maxContiguous)) {
+  if (!PREVIEW_RENDER && allClipIndices.some((idx) => idx > maxContiguous)) {
     log('MAIN', 'Clips must be contiguous (clip_0.mp4, clip_1.mp4, ...). Found gaps.');
     process.exit(1);
   }
@@ -1888,21 +2485,9 @@ async function main() {
     if (availableClipIndices.length > scenes.length) {
       log('MAIN', `Using first ${scenes.length} of ${availableClipIndices.length} clips (scene-lock; extra clips ignored).`);
     }
-    const base: Array<{ clipIndex: number; text: string; durationSec: number; source: 'scene-driven'; sourceClipDurationSec?: number }> = [];
-    for (const clipIndex of clipIndicesForAssembly) {
-      const sceneDur = Math.max(0.1, scenes[clipIndex].duration || SCENE_DURATION_DEFAULT);
-      const imagePath = getImagePathForIndex(tempDir, clipIndex);
-      const clipPath = path.join(tempDir, `clip_${clipIndex}.mp4`);
-      const clipDur = imagePath ? 0 : (fs.existsSync(clipPath) ? await getVideoDurationSeconds(clipPath) : 0);
-      base.push({
-        clipIndex,
-        text: sceneVoiceovers[clipIndex] || String(scenes[clipIndex].prompt || '').trim(),
-        durationSec: sceneDur,
-        source: 'scene-driven' as const,
-        sourceClipDurationSec: imagePath ? sceneDur : (clipDur > 0 ? clipDur : undefined)
-      });
-    }
-    segments = await regenerateSegmentAudio(tempDir, withTimeline(base));
+    const base = await buildSceneLockBase(tempDir, scenes, clipIndicesForAssembly);
+    const sceneTransitions = base.map((b) => scenes[b.clipIndex].transition);
+    segments = await regenerateSegmentAudio(tempDir, withTimeline(base), sceneTransitions);
     segments = segments.map((seg, idx) => ({ ...seg, sourceClipDurationSec: base[idx].sourceClipDurationSec }));
 
     // Optional: if any segment is much longer than its clip, shorten voiceover via LLM and re-run TTS once.
@@ -1914,7 +2499,7 @@ async function main() {
         return ratio > stretchThreshold ? idx : -1;
       })
       .filter((i) => i >= 0);
-    if (AUTO_SHORTEN_VOICEOVER && overflowIndices.length > 0) {
+    if (AUTO_SHORTEN_VOICEOVER && !SIDE_RENDER && overflowIndices.length > 0) {
       const toShorten = overflowIndices.map((idx) => ({
         sceneIndex: idx,
         voiceover: base[idx].text,
@@ -1928,7 +2513,7 @@ async function main() {
         scriptData.scenes[idx] = { ...scriptData.scenes[idx], voiceover: newText } as (typeof scriptData.scenes)[0];
         base[idx] = { ...base[idx], text: newText };
       }
-      segments = await regenerateSegmentAudio(tempDir, withTimeline(base));
+      segments = await regenerateSegmentAudio(tempDir, withTimeline(base), sceneTransitions);
       segments = segments.map((seg, idx) => ({ ...seg, sourceClipDurationSec: base[idx].sourceClipDurationSec }));
     }
 
@@ -1978,24 +2563,44 @@ async function main() {
     clipIndicesForAssembly.length,
     scenes.length
   );
-  writeSegmentMap(OUTPUT_DIR, {
-    mode,
-    clipCount: segments.length,
-    audioDurationSec: Number((mergedAudioSec || fullAudioSec || 0).toFixed(3)),
-    segments
-  });
-  ensureAlignmentOrBlock(alignment, OUTPUT_DIR, scenes.length);
+  if (SIDE_RENDER) {
+    if (!alignment.passed) {
+      log('MAIN', `${PREVIEW_RENDER ? 'Preview' : 'Export'}: the final render would be blocked (${alignment.reasons.join(', ')})`);
+    }
+  } else {
+    writeSegmentMap(OUTPUT_DIR, {
+      mode,
+      clipCount: segments.length,
+      audioDurationSec: Number((mergedAudioSec || fullAudioSec || 0).toFixed(3)),
+      segments
+    });
+    ensureAlignmentOrBlock(alignment, OUTPUT_DIR, scenes.length);
+  }
+  // Long formats get chapters from the final timeline, for the description and optionally as on-screen cards.
+  const chapterDurationSec = mergedAudioSec || fullAudioSec || 0;
+  const chapters = VIDEO_FORMAT !== 'short' && !SIDE_RENDER ? await generateChapters(segments, chapterDurationSec) : null;
   const sourcePathOverrides = new Map<number, string>();
-  for (const seg of segments) {
-    const imagePath = getImagePathForIndex(tempDir, seg.clipIndex);
-    if (imagePath) {
-      const fromImagePath = path.join(tempDir, `from_image_${seg.clipIndex}.mp4`);
-      await createVideoFromImageWithZoom(imagePath, fromImagePath, Math.max(0.1, seg.durationSec));
-      sourcePathOverrides.set(seg.clipIndex, fromImagePath);
+  const imageSegments = segments.filter((seg) => getImagePathForIndex(tempDir, seg.clipIndex));
+  const imageMotions = pickImageMotions(imageSegments.map((seg) => scenes[seg.clipIndex] ?? {}));
+  for (let i = 0; i < imageSegments.length; i++) {
+    const seg = imageSegments[i];
+    const imagePath = getImagePathForIndex(tempDir, seg.clipIndex)!;
+    const fromImagePath = path.join(tempDir, `from_image_${seg.clipIndex}.mp4`);
+    await createVideoFromImageWithMotion(imagePath, fromImagePath, Math.max(0.1, seg.durationSec), imageMotions[i]);
+    sourcePathOverrides.set(seg.clipIndex, fromImagePath);
+  }
+  if (PREVIEW_RENDER) {
+    for (const seg of segments.filter((sg) => !segmentHasClipOrImage(tempDir, sg.clipIndex))) {
+      const placeholderPath = path.join(tempDir, `placeholder_${seg.clipIndex}.mp4`);
+      await createPlaceholderClip(placeholderPath, seg.clipIndex, Math.max(0.1, seg.durationSec));
+      sourcePathOverrides.set(seg.clipIndex, placeholderPath);
     }
   }
   log('FFMPEG', 'Preparing clips: trim/pad each scene to its target duration for better audio sync');
   const trimmedPaths = await prepareClipsToTargetDurations(tempDir, segments, sourcePathOverrides.size > 0 ? sourcePathOverrides : undefined);
+  const joinedPath = segments.length > 1 && segments.some((s) => s.transitionOut)
+    ? await joinClipsWithTransitions(tempDir, trimmedPaths, segments)
+    : null;
 
   // Subtitles: chunk segments into small cues, then build ASS (red/yellow bold) and SRT. Use absolute path so FFmpeg finds the file.
   const subtitlesPath = path.resolve(tempDir, 'subtitles.ass');
@@ -2003,10 +2608,20 @@ async function main() {
   let subtitlesFilter = '';
   let softSubtitlesPath: string | null = null;
   const segmentsWithText = segments.filter((s) => (s.text || '').trim());
-  if (segmentsWithText.length > 0) {
+  // Word timings are saved per segment by regenerateSegmentAudio (audio_scene_{i} follows segment order).
+  const segmentWords = segments.map((_, i) => readWordTimings(path.join(tempDir, `audio_scene_${i}.mp3`))?.words ?? null);
+  // Burned-in captions follow the export frame; the project's SRT/VTT sidecars are not rewritten by an export.
+  const burnedCaptionStyle = EXPORT_PROFILE ? fitCaptionStyle(CAPTION_STYLE, EXPORT_PROFILE) : CAPTION_STYLE;
+  if (PREVIEW_RENDER) {
+    log('FFMPEG', 'Preview: rendering without captions.');
+  } else if (segmentsWithText.length > 0) {
     try {
-      const chunks = segmentToSubChunks(segments);
-      const assContent = buildAssFromChunks(chunks);
+      const chunks = segmentToSubChunks(segments, { maxWordsPerChunk: CAPTION_STYLE.wordsPerChunk }, segmentWords);
+      const timedCount = segmentWords.filter((w) => w && w.length > 0).length;
+      if (timedCount > 0) log('FFMPEG', `Caption cues timed from word timings for ${timedCount}/${segments.length} segment(s).`);
+      const assContent = EXPORT_PROFILE
+        ? buildAssFromChunks(chunks, burnedCaptionStyle, EXPORT_PROFILE)
+        : buildAssFromChunks(chunks);
       fs.writeFileSync(subtitlesPath, assContent, 'utf-8');
       const srtContent = buildSrtFromChunks(chunks);
       fs.writeFileSync(srtPath, srtContent, 'utf-8');
@@ -2016,7 +2631,7 @@ async function main() {
         subtitlesFilter = `,${subFilter}='${escapedPath}'`;
         log('FFMPEG', `Wrote subtitles.ass (${chunks.length} cues) for burned-in captions (${subFilter} filter).`);
       } else if (canUseDrawtext) {
-        subtitlesFilter = buildDrawtextSubtitlesFilterFromChunks(chunks);
+        subtitlesFilter = buildDrawtextSubtitlesFilterFromChunks(chunks, burnedCaptionStyle);
         if (subtitlesFilter) {
           log('FFMPEG', `Burning in captions via drawtext (${chunks.length} cues; no ass/subtitles filter).`);
         } else {
@@ -2032,6 +2647,11 @@ async function main() {
     } catch (e) {
       log('FFMPEG', `Could not write subtitles: ${(e as Error).message}; continuing without.`);
     }
+    try {
+      if (!SIDE_RENDER) await writeCaptionFiles(OUTPUT_DIR, segments, segmentWords);
+    } catch (e) {
+      log('CAPTIONS', `Could not write caption files: ${(e as Error).message}; continuing without.`);
+    }
   } else {
     log('FFMPEG', 'No segment text for subtitles; skipping burned-in captions.');
   }
@@ -2051,7 +2671,9 @@ async function main() {
     ',' +
     zoomFilter +
     (canUseDrawtext ? ',' + disclaimerDrawtext : '');
-  const videoFilterFull = videoFilterNoSubs + (subtitlesFilter || '');
+  const chapterCardsFilter = CHAPTER_CARDS && chapters && canUseDrawtext ? buildChapterCardsFilter(chapters, vh) : '';
+  if (chapterCardsFilter) log('FFMPEG', `Burning in ${chapters!.length - 1} chapter title card(s).`);
+  const videoFilterFull = videoFilterNoSubs + (chapterCardsFilter ? ',' + chapterCardsFilter : '') + (subtitlesFilter || '');
   if (subtitlesFilter) {
     log('FFMPEG', 'Burning in subtitles.');
   }
@@ -2060,7 +2682,10 @@ async function main() {
   await new Promise<void>((resolve, reject) => {
     const chain = ffmpeg();
 
-    if (segments.length === 1) {
+    if (joinedPath) {
+      log('FFMPEG', `Clips joined with transitions: muxing + audio → ${outputPath}`);
+      chain.input(joinedPath);
+    } else if (segments.length === 1) {
       log('FFMPEG', `Single clip: muxing + audio${useBackgroundMusic ? ' + background music (fade in/out)' : ''}${END_BLACKOUT_DISABLED ? '' : ` + ${END_BLACKOUT_DURATION_SEC}s blackout`} → ${outputPath} (9:16)`);
       chain.input(trimmedPaths[0]);
     } else {
@@ -2075,8 +2700,8 @@ async function main() {
 
     chain.input(audioFilePath);
     if (useBackgroundMusic) {
-      const musicInputOpts = BACKGROUND_MUSIC_START_SEC > 0
-        ? ['-ss', String(BACKGROUND_MUSIC_START_SEC), '-stream_loop', '-1']
+      const musicInputOpts = musicStartSec > 0
+        ? ['-ss', String(musicStartSec), '-stream_loop', '-1']
         : ['-stream_loop', '-1'];
       chain.input(musicPath).inputOptions(musicInputOpts);
     }
@@ -2091,14 +2716,19 @@ async function main() {
         fetch('http://127.0.0.1:7243/ingest/5e7b5b2b-23bc-4e56-a664-d2d1fb861811', { method: 'POST', headers: { 'Content-Type': 'application/json' }, body: JSON.stringify(pathPayload) }).catch(() => {});
         try { const logPath = process.env.CURSOR_DEBUG_LOG_PATH || path.join(__dirname, '.cursor', 'debug.log'); fs.appendFileSync(logPath, JSON.stringify(pathPayload) + '\n'); } catch (_) {}
         // #endregion
-        if (END_BLACKOUT_DISABLED) {
-          log('FFMPEG', 'End blackout disabled (DISABLE_END_BLACKOUT=1); using simple mux (scale+crop only, no zoom/subtitles/disclaimer).');
-          const simpleFilter = `[0:v:0]${videoFilterScale}[v]`;
+        if (END_BLACKOUT_DISABLED || PREVIEW_RENDER) {
+          log(
+            'FFMPEG',
+            PREVIEW_RENDER
+              ? `Preview: simple mux at ${vw}x${vh} with watermark (no zoom/subtitles/disclaimer/blackout).`
+              : 'End blackout disabled (DISABLE_END_BLACKOUT=1); using simple mux (scale+crop only, no zoom/subtitles/disclaimer).'
+          );
+          const simpleFilter = `[0:v:0]${videoFilterScale}${PREVIEW_RENDER ? `,${previewWatermarkFilter(vw, vh)}` : ''}[v]`;
           const audioFilters = useBackgroundMusic
             ? [
                 '[1:a]volume=1[vo]',
-                `[2:a]atrim=0:${voiceDur.toFixed(3)},asetpts=PTS-STARTPTS,volume=0.18,afade=t=in:st=0:d=2,afade=t=out:st=${Math.max(0, voiceDur - 2).toFixed(2)}:d=2[bg]`,
-                '[vo][bg]amix=inputs=2:duration=first:dropout_transition=0[aout]'
+                `[2:a]atrim=0:${voiceDur.toFixed(3)},asetpts=PTS-STARTPTS,volume=${MUSIC_VOLUME},afade=t=in:st=0:d=2,afade=t=out:st=${Math.max(0, voiceDur - 2).toFixed(2)}:d=2[bg]`,
+                ...buildMusicMixFilter('vo', 'bg', 'aout', MUSIC_DUCKING ? DEFAULT_DUCKING : null)
               ]
             : ['[1:a]volume=1[aout]'];
           const filter = [simpleFilter, ...audioFilters].join(';');
@@ -2107,6 +2737,7 @@ async function main() {
           chain
             .outputOptions([
               '-c:v libx264',
+              ...X264_OPTIONS,
               '-pix_fmt yuv420p',
               '-shortest',
               '-filter_complex', filter,
@@ -2116,6 +2747,7 @@ async function main() {
             ])
             .save(outputPath)
             .on('stderr', (line: string) => { simpleStderr.push(line); log('FFMPEG', line); })
+            .on('progress', onEncodeProgress(voiceDur))
             .on('end', () => {
               // #region agent log
               const endPayload = { location: 'automate_shorts.ts:simple_path_ffmpeg_end', message: 'Simple path FFmpeg finished', data: { runId: 'simple', outputPath }, timestamp: Date.now() };
@@ -2123,6 +2755,7 @@ async function main() {
               try { const logPath = process.env.CURSOR_DEBUG_LOG_PATH || path.join(__dirname, '.cursor', 'debug.log'); fs.appendFileSync(logPath, JSON.stringify(endPayload) + '\n'); } catch (_) {}
               // #endregion
               log('FFMPEG', 'Encode finished');
+              emitProgress({ step: 'assembly', message: 'FFmpeg 100%', percent: 100 });
               log('MAIN', `Pipeline complete. Output: ${outputPath}`);
               resolve();
             })
@@ -2157,8 +2790,8 @@ async function main() {
             blackPart,
             concatPart,
             `${voicePadBase}[vo]`,
-            `[2:a]atrim=0:${totalDurStr},asetpts=PTS-STARTPTS,volume=0.18,afade=t=in:st=0:d=2,afade=t=out:st=${fadeOutStart.toFixed(2)}:d=${END_BLACKOUT_DURATION_SEC}[bg]`,
-            '[vo][bg]amix=inputs=2:duration=first:dropout_transition=0[aout]'
+            `[2:a]atrim=0:${totalDurStr},asetpts=PTS-STARTPTS,volume=${MUSIC_VOLUME},afade=t=in:st=0:d=2,afade=t=out:st=${fadeOutStart.toFixed(2)}:d=${END_BLACKOUT_DURATION_SEC}[bg]`,
+            ...buildMusicMixFilter('vo', 'bg', 'aout', MUSIC_DUCKING ? DEFAULT_DUCKING : null)
           ];
         }
 
@@ -2207,6 +2840,7 @@ async function main() {
             stderrLines.push(line);
             log('FFMPEG', line);
           })
+          .on('progress', onEncodeProgress(totalDur))
           .on('start', (commandLine: string) => {
             // #region agent log
             fetch('http://127.0.0.1:7243/ingest/5e7b5b2b-23bc-4e56-a664-d2d1fb861811', {
@@ -2229,6 +2863,7 @@ async function main() {
           })
           .on('end', () => {
             log('FFMPEG', 'Encode finished');
+            emitProgress({ step: 'assembly', message: 'FFmpeg 100%', percent: 100 });
             log('MAIN', `Pipeline complete. Output: ${outputPath}`);
             resolve();
           })
@@ -2257,9 +2892,53 @@ async function main() {
       .catch(reject);
   });
 
+  if (PREVIEW_RENDER) {
+    log('MAIN', `Preview complete. Output: ${outputPath}`);
+    return;
+  }
+
+  // Two-pass loudness normalization of the finished video; the measured values go into render_report.json.
+  let loudness: RenderReport['loudness'];
+  if (LOUDNORM_DISABLED) {
+    loudness = { skipped: 'DISABLE_LOUDNORM=1' };
+  } else {
+    const normalizedPath = outputPath.replace(/\.mp4$/, '.loudnorm.mp4');
+    try {
+      emitProgress({ step: 'assembly', message: `Normalizing loudness to ${LOUDNESS_SETTINGS.targetLufs} LUFS` });
+      loudness = await normalizeLoudness(outputPath, normalizedPath, LOUDNESS_SETTINGS);
+      fs.renameSync(normalizedPath, outputPath);
+      log(
+        'FFMPEG',
+        `Loudness ${loudness.measured.integratedLufs} → ${loudness.output.integratedLufs} LUFS (true peak ${loudness.output.truePeakDb} dBTP, ${loudness.normalizationType})`
+      );
+    } catch (err) {
+      fs.rmSync(normalizedPath, { force: true });
+      loudness = { skipped: `loudnorm failed: ${(err as Error).message}` };
+      log('FFMPEG', `Loudness normalization failed: ${(err as Error).message}; keeping the unnormalized mix.`);
+    }
+  }
+  if (EXPORT_PROFILE) {
+    log('MAIN', `Export complete (${EXPORT_PROFILE.aspectRatio}). Output: ${outputPath}`);
+    return;
+  }
+  writeRenderReport(OUTPUT_DIR, {
+    generatedAt: new Date().toISOString(),
+    music: {
+      used: useBackgroundMusic,
+      volume: MUSIC_VOLUME,
+      ducking: useBackgroundMusic && MUSIC_DUCKING ? DEFAULT_DUCKING : null,
+      ...(useBackgroundMusic
+        ? { startSec: musicStartSec, startMode: BACKGROUND_MUSIC_START_AUTO ? 'auto' as const : 'manual' as const }
+        : {}),
+      ...(musicBpm !== undefined ? { bpm: musicBpm } : {})
+    },
+    loudness
+  });
+
   // ─── STEP 5: YOUTUBE METADATA (TITLES / DESCRIPTION / TAGS) ───
   try {
-    await generateYouTubeMetadata(topic, scriptData);
+    emitProgress({ step: 'metadata', message: 'Generating YouTube metadata' });
+    await generateYouTubeMetadata(topic, scriptData, chapters ? { list: chapters, durationSec: chapterDurationSec } : null);
   } catch (err) {
     log('YT_META', `Metadata generation failed: ${(err as Error).message}`);
   }
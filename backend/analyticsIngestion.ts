@@ -0,0 +1,104 @@
+import { config } from './config';
+import { logger } from './logger';
+import type { ProjectDoc } from './db';
+import { listPublishedProjects, updateProject } from './projects';
+import { getLatestVideoStats, recordVideoStats, releasedAt } from './videoStats';
+import { classifyTopicCategory } from './topicCategories';
+import { fetchVideoAnalytics, fetchVideoStatistics, getYoutubeAccessToken, isYoutubeConfigured } from './youtubePublisher';
+
+/**
+ * Periodic stats snapshots of our own published videos: views, likes and comments from the Data API, view duration
+ * and retention from YouTube Analytics, read with each owner's linked channel. Runs in the API process; a video
+ * captured recently (by this or another process) is skipped, so overlapping runs do not double the series.
+ */
+
+let timer: NodeJS.Timeout | null = null;
+let running = false;
+/** First run shortly after start-up rather than at once, so it does not compete with resumed pipeline jobs. */
+const STARTUP_DELAY_MS = 60 * 1000;
+
+export type IngestResult = { videos: number; skipped: number; errors: string[] };
+
+/**
+ * Take a snapshot of every published video (or one user's). Videos captured within half the ingest interval are
+ * skipped unless `force`; a scheduled video is skipped until its release time.
+ */
+export async function ingestVideoStats(opts: { userId?: string; force?: boolean } = {}): Promise<IngestResult> {
+  const result: IngestResult = { videos: 0, skipped: 0, errors: [] };
+  if (!isYoutubeConfigured()) return result;
+  const now = Date.now();
+  const byUser = new Map<string, ProjectDoc[]>();
+  for (const project of await listPublishedProjects(opts.userId)) {
+    const release = releasedAt(project);
+    const latest = opts.force ? null : await getLatestVideoStats(project.projectId);
+    if ((release && release.getTime() > now) || (latest && now - latest.capturedAt.getTime() < config.analytics.intervalMs / 2)) {
+      result.skipped++;
+      continue;
+    }
+    const userId = String(project.userId);
+    byUser.set(userId, [...(byUser.get(userId) ?? []), project]);
+  }
+
+  for (const [userId, projects] of byUser) {
+    try {
+      const { accessToken } = await getYoutubeAccessToken(userId);
+      const statistics = await fetchVideoStatistics(accessToken, projects.map((p) => p.youtubeVideoId!));
+      for (const project of projects) {
+        const videoId = project.youtubeVideoId!;
+        const stats = statistics.get(videoId);
+        if (!stats) {
+          result.errors.push(`${project.projectId}: video ${videoId} not found on YouTube`);
+          continue;
+        }
+        const since = (releasedAt(project) ?? project.updatedAt).toISOString().slice(0, 10);
+        const analytics = await fetchVideoAnalytics(accessToken, videoId, since).catch((err) => {
+          result.errors.push(`${project.projectId}: ${(err as Error).message}`);
+          return { averageViewDurationSec: null, averageViewPercentage: null, retention: null };
+        });
+        if (!project.topicCategory) {
+          await updateProject(project.projectId, userId, { topicCategory: await classifyTopicCategory(project.topic) });
+        }
+        await recordVideoStats({
+          projectId: project.projectId,
+          userId: project.userId,
+          videoId,
+          capturedAt: new Date(),
+          ...stats,
+          ...analytics
+        });
+        result.videos++;
+      }
+    } catch (err) {
+      // Usually an unlinked or revoked channel; the other users' videos still get their snapshot.
+      result.errors.push(`user ${userId}: ${(err as Error).message}`);
+    }
+  }
+  if (result.errors.length) logger.warn('Video stats ingestion had errors', { errors: result.errors.slice(0, 20) });
+  return result;
+}
+
+function scheduleRun(delayMs: number): void {
+  if (!running) return;
+  timer = setTimeout(() => {
+    ingestVideoStats()
+      .then((r) => {
+        if (r.videos) logger.info('Video stats ingested', { videos: r.videos, skipped: r.skipped });
+      })
+      .catch((err) => logger.error('Video stats ingestion failed', err))
+      .finally(() => scheduleRun(config.analytics.intervalMs));
+  }, delayMs);
+}
+
+export function startAnalyticsIngestion(): void {
+  if (running) return;
+  running = true;
+  scheduleRun(STARTUP_DELAY_MS);
+}
+
+export function stopAnalyticsIngestion(): void {
+  running = false;
+  if (timer) {
+    clearTimeout(timer);
+    timer = null;
+  }
+}
@@ -23,7 +23,9 @@ export function authMiddleware(req: AuthRequest, res: Response, next: NextFuncti
     return;
   }
   try {
-    const decoded = jwt.verify(token, config.jwt.secret) as { userId: string; username: string };
+    const decoded = jwt.verify(token, config.jwt.secret) as { userId: string; username: string; purpose?: string };
+    // Single-purpose tokens (OAuth link state, download and event-stream links) share the secret but are not sessions.
+    if (decoded.purpose !== undefined) throw new Error('Not a session token');
     req.user = { id: decoded.userId, username: decoded.username };
     next();
   } catch {
@@ -0,0 +1,161 @@
+import fs from 'fs';
+import path from 'path';
+import { config } from './config';
+import { logger } from './logger';
+import type { CalendarItemDoc, ContentCalendar, ProjectDoc } from './db';
+import { claimDueCalendarItem, finishCalendarItem, getContentCalendar, waitForCalendarPublish } from './contentCalendar';
+import { getAssetUrl, getProjectByProjectId, getProjectOutputDir, updateProject } from './projects';
+import { enqueueJob, getActiveJobForProject, getJob } from './jobQueue';
+import { getObjectJson } from './r2';
+import { buildPublishRequest, getYoutubeLink, isYoutubeConfigured } from './youtubePublisher';
+import { postWebhook } from './webhooks';
+
+/**
+ * Releases calendar items when their time comes. Runs in the API process next to the job worker; items are claimed
+ * atomically, so several processes can run it. A release either queues a publish job for the linked YouTube channel
+ * or hands the project off (webhook, or marked ready to post by hand), depending on the user's calendar. A YouTube
+ * release stays `releasing` until its publish job finishes; the job settles the item (see finishCalendarPublish).
+ */
+
+/** A release that has not finished in this long is taken to be abandoned by a stopped process and retried. */
+const STALE_RELEASE_MS = 5 * 60 * 1000;
+const WEBHOOK_TIMEOUT_MS = 10000;
+
+let timer: NodeJS.Timeout | null = null;
+let running = false;
+
+class ReleaseDeferred extends Error {}
+
+async function loadYoutubeMeta(project: ProjectDoc): Promise<Record<string, unknown> | null> {
+  const localPath = path.join(getProjectOutputDir(project.projectId), 'youtube_meta.json');
+  if (fs.existsSync(localPath)) {
+    try {
+      return JSON.parse(fs.readFileSync(localPath, 'utf-8')) as Record<string, unknown>;
+    } catch {
+      /* fall through to R2 */
+    }
+  }
+  return project.youtubeMetaKey ? getObjectJson<Record<string, unknown>>(project.youtubeMetaKey) : null;
+}
+
+/** Queue the publish job; returns its id. */
+async function releaseToYoutube(item: CalendarItemDoc, project: ProjectDoc, calendar: ContentCalendar): Promise<string> {
+  const userId = String(item.userId);
+  if (!isYoutubeConfigured()) throw new Error('YouTube publishing is not configured on this server');
+  if (!(await getYoutubeLink(userId))) throw new Error('No YouTube account linked');
+  if (project.youtubeVideoId) throw new Error('Project is already on YouTube');
+  const publish = buildPublishRequest(project, await loadYoutubeMeta(project), { privacyStatus: calendar.privacyStatus });
+  if (!publish.title) throw new Error('Project has no title to publish with');
+  await updateProject(project.projectId, userId, { publish });
+  const { job } = await enqueueJob({ userId, projectId: project.projectId, kind: 'publish' });
+  return job.jobId;
+}
+
+/**
+ * An item reclaimed while waiting for its publish job. The job normally settles the item itself; this covers jobs
+ * that never ran to the end (cancelled while queued, abandoned after lease expiry).
+ */
+async function followPublishJob(item: CalendarItemDoc, publishJobId: string): Promise<void> {
+  const job = await getJob(publishJobId, String(item.userId));
+  if (job?.status === 'queued' || job?.status === 'running') {
+    await waitForCalendarPublish(item.itemId, publishJobId);
+  } else if (job?.status === 'done') {
+    await finishCalendarItem(item.itemId, { status: 'released', releasedVia: 'youtube' });
+  } else {
+    await finishCalendarItem(item.itemId, { status: 'failed', error: job?.errorMessage ?? 'Publish job not found' });
+  }
+}
+
+async function handOff(item: CalendarItemDoc, project: ProjectDoc, webhookUrl: string): Promise<void> {
+  const meta = await loadYoutubeMeta(project);
+  const payload = {
+    event: 'calendar.release',
+    itemId: item.itemId,
+    projectId: project.projectId,
+    topic: project.topic,
+    releaseAt: item.releaseAt.toISOString(),
+    videoUrl: await getAssetUrl(project.finalVideoKey),
+    thumbnailUrl: await getAssetUrl(project.thumbnailKey),
+    title: Array.isArray(meta?.titles) && typeof meta.titles[0] === 'string' ? meta.titles[0] : project.topic,
+    description: typeof meta?.description === 'string' ? meta.description : '',
+    tags: Array.isArray(meta?.tags) ? meta.tags : []
+  };
+  // The item's error is shown to the user; how the target answered (status, refused, timed out) stays in the log.
+  let status = 0;
+  try {
+    status = await postWebhook(webhookUrl, payload, WEBHOOK_TIMEOUT_MS);
+  } catch (err) {
+    logger.warn('Hand-off webhook failed', { itemId: item.itemId, message: (err as Error).message });
+  }
+  if (status < 200 || status >= 300) {
+    if (status) logger.warn('Hand-off webhook rejected the release', { itemId: item.itemId, status });
+    throw new Error('Hand-off webhook did not accept the release');
+  }
+}
+
+async function releaseItem(item: CalendarItemDoc): Promise<void> {
+  const userId = String(item.userId);
+  try {
+    if (item.publishJobId) return await followPublishJob(item, item.publishJobId);
+    const project = await getProjectByProjectId(item.projectId, userId);
+    if (!project) throw new Error('Project not found');
+    if (project.status !== 'assembly_done') throw new Error('Project is no longer assembled');
+    // Re-renders and uploads started by hand finish first; the item is picked up again on a later tick.
+    if (await getActiveJobForProject(item.projectId)) throw new ReleaseDeferred();
+    const calendar = await getContentCalendar(userId);
+    if (!calendar) throw new Error('Calendar settings not found');
+    if (calendar.release === 'youtube') {
+      await waitForCalendarPublish(item.itemId, await releaseToYoutube(item, project, calendar));
+    } else if (calendar.handoffWebhookUrl) {
+      await handOff(item, project, calendar.handoffWebhookUrl);
+      await finishCalendarItem(item.itemId, { status: 'released', releasedVia: 'webhook' });
+    } else {
+      await finishCalendarItem(item.itemId, { status: 'released', releasedVia: 'manual' });
+    }
+    logger.info('Calendar item released', { itemId: item.itemId, projectId: item.projectId, release: calendar.release });
+  } catch (err) {
+    if (err instanceof ReleaseDeferred) {
+      await finishCalendarItem(item.itemId, { status: 'scheduled' });
+      return;
+    }
+    logger.warn('Calendar release failed', { itemId: item.itemId, projectId: item.projectId, message: (err as Error).message });
+    await finishCalendarItem(item.itemId, { status: 'failed', error: (err as Error).message });
+  }
+}
+
+async function tick(): Promise<void> {
+  const seen = new Set<string>();
+  try {
+    while (running) {
+      // Deferred items stay due; skipping what this tick already handled leaves them for the next one.
+      const item = await claimDueCalendarItem(new Date(Date.now() - STALE_RELEASE_MS), [...seen]);
+      if (!item) break;
+      seen.add(item.itemId);
+      await releaseItem(item);
+    }
+  } catch (err) {
+    logger.error('Calendar scheduler poll failed', err);
+  }
+}
+
+function scheduleTick(delayMs: number): void {
+  if (!running) return;
+  timer = setTimeout(() => {
+    tick().finally(() => scheduleTick(config.calendar.pollMs));
+  }, delayMs);
+}
+
+export function startCalendarScheduler(): void {
+  if (running) return;
+  running = true;
+  logger.info('Calendar scheduler started', { pollMs: config.calendar.pollMs });
+  scheduleTick(0);
+}
+
+export function stopCalendarScheduler(): void {
+  running = false;
+  if (timer) {
+    clearTimeout(timer);
+    timer = null;
+  }
+}
@@ -1,6 +1,9 @@
 /**
  * Central config from environment. Validates required vars in production.
  */
+import { resolveTtsProviderId } from './pipeline/ttsProviderIds';
+import { resolveClipProviderId } from './pipeline/clipProviderIds';
+
 const NODE_ENV = process.env.NODE_ENV || 'development';
 const isProd = NODE_ENV === 'production';
 
@@ -42,6 +45,64 @@ export const config = {
     bucketName: process.env.R2_BUCKET_NAME
   },
 
+  /** Pipeline job queue (MongoDB-backed). Concurrency limits apply across all workers sharing the DB. */
+  queue: {
+    concurrency: Math.max(1, parseInt(process.env.QUEUE_CONCURRENCY || '2', 10) || 2),
+    perUserConcurrency: Math.max(1, parseInt(process.env.QUEUE_PER_USER_CONCURRENCY || '1', 10) || 1),
+    /** A running job whose lease is not renewed within this window is treated as abandoned and re-queued. */
+    leaseMs: parseInt(process.env.QUEUE_LEASE_MS || '60000', 10) || 60000,
+    heartbeatMs: parseInt(process.env.QUEUE_HEARTBEAT_MS || '15000', 10) || 15000,
+    pollMs: parseInt(process.env.QUEUE_POLL_MS || '2000', 10) || 2000,
+    maxAttempts: Math.max(1, parseInt(process.env.QUEUE_MAX_ATTEMPTS || '3', 10) || 3)
+  },
+
+  /** Content calendar: how often due releases are checked for. */
+  calendar: {
+    pollMs: Math.max(1000, parseInt(process.env.CALENDAR_POLL_MS || '30000', 10) || 30000)
+  },
+
+  /** Stats ingestion for published videos: a snapshot per video every intervalMs (default 6 hours). */
+  analytics: {
+    intervalMs: Math.max(60000, parseInt(process.env.ANALYTICS_INTERVAL_MS || '21600000', 10) || 21600000)
+  },
+
+  /** Default voiceover provider for projects that do not pick one (elevenlabs, openai, local). */
+  tts: {
+    provider: resolveTtsProviderId(process.env.TTS_PROVIDER)
+  },
+
+  /** Default clip source (manual, grok, stock). Without CLIP_PROVIDER, MANUAL_GROK=false means grok. */
+  clips: {
+    provider: resolveClipProviderId(process.env.CLIP_PROVIDER)
+  },
+
+  /** Language of the narration, used to label the untranslated caption track. */
+  captions: {
+    sourceLanguage: (process.env.CAPTION_SOURCE_LANGUAGE || 'en').trim()
+  },
+
+  /**
+   * YouTube publishing (OAuth account linking and uploads). The URLs can point at a local mock server
+   * (npm run mock:youtube) instead of Google.
+   */
+  youtube: {
+    clientId: process.env.YOUTUBE_CLIENT_ID?.trim() || '',
+    clientSecret: process.env.YOUTUBE_CLIENT_SECRET?.trim() || '',
+    /** Must match a redirect URI of the OAuth client, e.g. https://api.example.com/api/youtube/callback */
+    redirectUri: process.env.YOUTUBE_REDIRECT_URI?.trim() || `http://localhost:${process.env.PORT || '4000'}/api/youtube/callback`,
+    /** Where the callback sends the browser after linking (the frontend). */
+    linkedRedirectUrl: process.env.YOUTUBE_LINKED_REDIRECT_URL?.trim() || '',
+    authUrl: process.env.YOUTUBE_OAUTH_AUTH_URL?.trim() || 'https://accounts.google.com/o/oauth2/v2/auth',
+    tokenUrl: process.env.YOUTUBE_OAUTH_TOKEN_URL?.trim() || 'https://oauth2.googleapis.com/token',
+    revokeUrl: process.env.YOUTUBE_OAUTH_REVOKE_URL?.trim() || 'https://oauth2.googleapis.com/revoke',
+    /** Serves /youtube/v3/... and /upload/youtube/v3/... */
+    apiBaseUrl: (process.env.YOUTUBE_API_BASE_URL?.trim() || 'https://www.googleapis.com').replace(/\/+$/, ''),
+    /** YouTube Analytics API (/v2/reports), for view duration and retention of published videos. */
+    analyticsBaseUrl: (process.env.YOUTUBE_ANALYTICS_BASE_URL?.trim() || 'https://youtubeanalytics.googleapis.com').replace(/\/+$/, ''),
+    /** Resumable upload chunk size; YouTube needs a multiple of 256 KiB. */
+    uploadChunkBytes: Math.max(1, Math.floor((parseInt(process.env.YOUTUBE_UPLOAD_CHUNK_BYTES || '', 10) || 8 * 1024 * 1024) / (256 * 1024))) * 256 * 1024
+  },
+
   /** Base path for temp and output (defaults to cwd) */
   workspaceRoot: process.cwd()
 } as const;
@@ -0,0 +1,290 @@
+import { ObjectId } from 'mongodb';
+import { nanoid } from 'nanoid';
+import {
+  CALENDAR_COLL,
+  CalendarItemDoc,
+  ContentCalendar,
+  getDb,
+  USERS_COLL,
+  UserDoc,
+  type CalendarReleaseMode
+} from './db';
+
+// ——— Slots ———
+
+export type CalendarSlot = {
+  spec: string;
+  /** 0 = Sunday … 6 = Saturday. */
+  weekdays: number[];
+  hour: number;
+  minute: number;
+  timeZone: string;
+};
+
+export const MAX_CALENDAR_SLOTS = 28;
+export const CALENDAR_RELEASE_MODES: CalendarReleaseMode[] = ['youtube', 'handoff'];
+/** How far ahead free slot times are looked for. */
+const SLOT_HORIZON_DAYS = 400;
+
+const WEEKDAY_NAMES = ['sunday', 'monday', 'tuesday', 'wednesday', 'thursday', 'friday', 'saturday'];
+const DAY_GROUPS: Record<string, number[]> = {
+  daily: [0, 1, 2, 3, 4, 5, 6],
+  weekdays: [1, 2, 3, 4, 5],
+  weekends: [0, 6]
+};
+
+export function isTimeZone(value: string): boolean {
+  try {
+    new Intl.DateTimeFormat('en-US', { timeZone: value });
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * "daily 18:00 Europe/Berlin", "weekdays 07:30 UTC", "mon,wed,fri 12:00 America/New_York". The time zone is an IANA
+ * name and defaults to UTC. Returns an error message when the spec does not parse.
+ */
+export function parseCalendarSlot(spec: string): CalendarSlot | string {
+  const m = /^([a-z]+(?:\s*,\s*[a-z]+)*)\s+(\d{1,2}):(\d{2})(?:\s+(\S+))?$/i.exec(spec.trim());
+  if (!m) return `"${spec}": expected "<days> HH:MM [time zone]", e.g. "daily 18:00 Europe/Berlin"`;
+  const weekdays = new Set<number>();
+  for (const day of m[1].toLowerCase().split(/\s*,\s*/)) {
+    const group = DAY_GROUPS[day];
+    const index = day.length >= 3 ? WEEKDAY_NAMES.findIndex((name) => name.startsWith(day)) : -1;
+    if (group) group.forEach((d) => weekdays.add(d));
+    else if (index !== -1) weekdays.add(index);
+    else return `"${spec}": unknown day "${day}" (use daily, weekdays, weekends or mon…sun)`;
+  }
+  const hour = parseInt(m[2], 10);
+  const minute = parseInt(m[3], 10);
+  if (hour > 23 || minute > 59) return `"${spec}": time must be between 00:00 and 23:59`;
+  const timeZone = m[4] ?? 'UTC';
+  if (!isTimeZone(timeZone)) return `"${spec}": unknown time zone "${timeZone}"`;
+  return { spec: spec.trim(), weekdays: [...weekdays].sort(), hour, minute, timeZone };
+}
+
+/** Wall-clock fields of `at` in `timeZone`. */
+function zonedParts(at: number, timeZone: string): { year: number; month: number; day: number; hour: number; minute: number; second: number } {
+  const parts = new Intl.DateTimeFormat('en-US', {
+    timeZone,
+    hourCycle: 'h23',
+    year: 'numeric',
+    month: 'numeric',
+    day: 'numeric',
+    hour: 'numeric',
+    minute: 'numeric',
+    second: 'numeric'
+  }).formatToParts(new Date(at));
+  const get = (type: string) => parseInt(parts.find((p) => p.type === type)?.value ?? '0', 10);
+  return { year: get('year'), month: get('month'), day: get('day'), hour: get('hour'), minute: get('minute'), second: get('second') };
+}
+
+function zoneOffsetMs(at: number, timeZone: string): number {
+  const p = zonedParts(at, timeZone);
+  return Date.UTC(p.year, p.month - 1, p.day, p.hour, p.minute, p.second) - Math.floor(at / 1000) * 1000;
+}
+
+/** The instant a wall-clock time happens in `timeZone` (a time skipped by a DST change lands just after the gap). */
+function zonedTimeToUtc(year: number, month: number, day: number, hour: number, minute: number, timeZone: string): number {
+  const asUtc = Date.UTC(year, month - 1, day, hour, minute);
+  const first = asUtc - zoneOffsetMs(asUtc, timeZone);
+  return asUtc - zoneOffsetMs(first, timeZone);
+}
+
+/** Slot times after `after`, earliest first, skipping `taken` (epoch ms); at most `limit`. */
+export function nextSlotTimes(slots: CalendarSlot[], after: Date, limit: number, taken: Set<number> = new Set()): Date[] {
+  const found = new Set<number>();
+  for (const slot of slots) {
+    const start = zonedParts(after.getTime(), slot.timeZone);
+    let perSlot = 0;
+    for (let offset = 0; offset <= SLOT_HORIZON_DAYS && perSlot < limit; offset++) {
+      // Calendar arithmetic on the local date; Date.UTC normalizes day overflow into the next month.
+      const local = new Date(Date.UTC(start.year, start.month - 1, start.day + offset));
+      if (!slot.weekdays.includes(local.getUTCDay())) continue;
+      const at = zonedTimeToUtc(local.getUTCFullYear(), local.getUTCMonth() + 1, local.getUTCDate(), slot.hour, slot.minute, slot.timeZone);
+      if (at <= after.getTime() || taken.has(at) || found.has(at)) continue;
+      found.add(at);
+      perSlot++;
+    }
+  }
+  return [...found]
+    .sort((a, b) => a - b)
+    .slice(0, limit)
+    .map((t) => new Date(t));
+}
+
+export function parseCalendarSlots(calendar: Pick<ContentCalendar, 'slots'> | undefined): CalendarSlot[] {
+  return (calendar?.slots ?? []).map(parseCalendarSlot).filter((s): s is CalendarSlot => typeof s !== 'string');
+}
+
+// ——— Calendar settings ———
+
+async function usersColl() {
+  const db = await getDb();
+  return db.collection<UserDoc>(USERS_COLL);
+}
+
+async function itemsColl() {
+  const db = await getDb();
+  return db.collection<CalendarItemDoc>(CALENDAR_COLL);
+}
+
+export async function getContentCalendar(userId: string): Promise<ContentCalendar | null> {
+  if (!ObjectId.isValid(userId)) return null;
+  const coll = await usersColl();
+  const user = await coll.findOne({ _id: new ObjectId(userId) }, { projection: { contentCalendar: 1 } });
+  return user?.contentCalendar ?? null;
+}
+
+/** Save the calendar. Items already scheduled keep their times; only newly added items use the new slots. */
+export async function saveContentCalendar(userId: string, calendar: Omit<ContentCalendar, 'updatedAt'>): Promise<ContentCalendar> {
+  const doc: ContentCalendar = { ...calendar, updatedAt: new Date().toISOString() };
+  if (!doc.handoffWebhookUrl) delete doc.handoffWebhookUrl;
+  const coll = await usersColl();
+  await coll.updateOne({ _id: new ObjectId(userId) }, { $set: { contentCalendar: doc } });
+  return doc;
+}
+
+// ——— Items ———
+
+/** Items that are still waiting for their time; they are the ones the calendar can move. */
+const PENDING = { status: 'scheduled' as const };
+
+export async function listCalendarItems(userId: string, opts: { includePast?: boolean } = {}): Promise<CalendarItemDoc[]> {
+  const coll = await itemsColl();
+  const filter = opts.includePast
+    ? { userId: new ObjectId(userId) }
+    : { userId: new ObjectId(userId), status: { $in: ['scheduled', 'releasing'] as CalendarItemDoc['status'][] } };
+  return coll.find(filter).sort({ releaseAt: 1 }).toArray();
+}
+
+/** The project's latest calendar entry, if any. */
+export async function getCalendarItemForProject(projectId: string, userId: string): Promise<CalendarItemDoc | null> {
+  const coll = await itemsColl();
+  return coll.findOne({ projectId, userId: new ObjectId(userId) }, { sort: { createdAt: -1 } });
+}
+
+/** Times of the user's pending items, for finding free slot times. */
+async function takenTimes(userId: string): Promise<Set<number>> {
+  const coll = await itemsColl();
+  const items = await coll.find({ userId: new ObjectId(userId), ...PENDING }, { projection: { releaseAt: 1 } }).toArray();
+  return new Set(items.map((i) => i.releaseAt.getTime()));
+}
+
+/** The next `count` slot times no pending item uses. */
+export async function freeSlotTimes(userId: string, calendar: ContentCalendar | null, count: number): Promise<Date[]> {
+  return nextSlotTimes(parseCalendarSlots(calendar ?? undefined), new Date(), count, await takenTimes(userId));
+}
+
+/**
+ * Put a project on the calendar at `releaseAt`, or at the next free slot time. Returns null when there is no free
+ * slot (no slots configured).
+ */
+export async function addCalendarItem(userId: string, projectId: string, releaseAt?: Date): Promise<CalendarItemDoc | null> {
+  let at = releaseAt;
+  if (!at) {
+    [at] = await freeSlotTimes(userId, await getContentCalendar(userId), 1);
+    if (!at) return null;
+  }
+  const now = new Date();
+  const doc: CalendarItemDoc = {
+    _id: new ObjectId(),
+    itemId: nanoid(),
+    userId: new ObjectId(userId),
+    projectId,
+    releaseAt: at,
+    status: 'scheduled',
+    createdAt: now,
+    updatedAt: now
+  };
+  const coll = await itemsColl();
+  await coll.insertOne(doc);
+  return doc;
+}
+
+export async function rescheduleCalendarItem(itemId: string, userId: string, releaseAt: Date): Promise<CalendarItemDoc | null> {
+  const coll = await itemsColl();
+  return coll.findOneAndUpdate(
+    { itemId, userId: new ObjectId(userId), ...PENDING },
+    { $set: { releaseAt, updatedAt: new Date() }, $unset: { error: '' } },
+    { returnDocument: 'after' }
+  );
+}
+
+/**
+ * Reorder pending items: `itemIds` lists all of them in the new order, and they take the same set of times, earliest
+ * first. Returns an error message when the list does not match the pending items.
+ */
+export async function reorderCalendarItems(userId: string, itemIds: string[]): Promise<CalendarItemDoc[] | string> {
+  const coll = await itemsColl();
+  const pending = await coll.find({ userId: new ObjectId(userId), ...PENDING }).sort({ releaseAt: 1 }).toArray();
+  const known = new Set(pending.map((i) => i.itemId));
+  if (itemIds.length !== pending.length || new Set(itemIds).size !== itemIds.length || !itemIds.every((id) => known.has(id))) {
+    return 'itemIds must list every scheduled item exactly once';
+  }
+  const times = pending.map((i) => i.releaseAt);
+  const now = new Date();
+  for (let i = 0; i < itemIds.length; i++) {
+    await coll.updateOne({ itemId: itemIds[i], userId: new ObjectId(userId), ...PENDING }, { $set: { releaseAt: times[i], updatedAt: now } });
+  }
+  return listCalendarItems(userId);
+}
+
+export async function removeCalendarItem(itemId: string, userId: string): Promise<boolean> {
+  const coll = await itemsColl();
+  const result = await coll.deleteOne({ itemId, userId: new ObjectId(userId), ...PENDING });
+  return result.deletedCount > 0;
+}
+
+export async function deleteCalendarItems(projectId: string, userId: string): Promise<void> {
+  const coll = await itemsColl();
+  await coll.deleteMany({ projectId, userId: new ObjectId(userId) });
+}
+
+/** Scheduler side: take a due item, or one whose release was abandoned by a stopped process. */
+export async function claimDueCalendarItem(staleBefore: Date, skipItemIds: string[] = []): Promise<CalendarItemDoc | null> {
+  const coll = await itemsColl();
+  const now = new Date();
+  return coll.findOneAndUpdate(
+    {
+      itemId: { $nin: skipItemIds },
+      $or: [{ status: 'scheduled', releaseAt: { $lte: now } }, { status: 'releasing', updatedAt: { $lt: staleBefore } }]
+    },
+    { $set: { status: 'releasing', updatedAt: now } },
+    { sort: { releaseAt: 1 }, returnDocument: 'after' }
+  );
+}
+
+export async function finishCalendarItem(
+  itemId: string,
+  outcome: { status: 'scheduled' } | { status: 'released'; releasedVia: NonNullable<CalendarItemDoc['releasedVia']> } | { status: 'failed'; error: string }
+): Promise<void> {
+  const coll = await itemsColl();
+  const now = new Date();
+  if (outcome.status === 'released') {
+    await coll.updateOne(
+      { itemId },
+      { $set: { status: 'released', releasedVia: outcome.releasedVia, releasedAt: now, updatedAt: now }, $unset: { error: '', publishJobId: '' } }
+    );
+  } else if (outcome.status === 'failed') {
+    await coll.updateOne({ itemId }, { $set: { status: 'failed', error: outcome.error, updatedAt: now }, $unset: { publishJobId: '' } });
+  } else {
+    await coll.updateOne({ itemId }, { $set: { status: 'scheduled', updatedAt: now }, $unset: { publishJobId: '' } });
+  }
+}
+
+/** Scheduler side: the item stays `releasing` until its publish job finishes. Also renews the claim while it waits. */
+export async function waitForCalendarPublish(itemId: string, publishJobId: string): Promise<void> {
+  const coll = await itemsColl();
+  await coll.updateOne({ itemId, status: 'releasing' }, { $set: { publishJobId, updatedAt: new Date() } });
+}
+
+/** Publish side: settle the calendar item waiting for this job, if a calendar release queued it. */
+export async function finishCalendarPublish(publishJobId: string, outcome: { status: 'released' } | { status: 'failed'; error: string }): Promise<void> {
+  const coll = await itemsColl();
+  const item = await coll.findOne({ publishJobId, status: 'releasing' }, { projection: { itemId: 1 } });
+  if (!item) return;
+  await finishCalendarItem(item.itemId, outcome.status === 'released' ? { status: 'released', releasedVia: 'youtube' } : outcome);
+}
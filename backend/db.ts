@@ -1,5 +1,15 @@
 import { MongoClient, Db } from 'mongodb';
 import { config } from './config';
+import type { TtsProviderId, TtsVoiceSettings } from './pipeline/tts';
+import type { ClipProviderId } from './pipeline/clipProviders';
+import type { CaptionStyleId } from './pipeline/captionStyles';
+import type { TransitionId } from './pipeline/transitions';
+import type { ThumbnailStyle } from './pipeline/thumbnails';
+import type { MediaKind } from './pipeline/mediaProbe';
+import type { MusicMood } from './pipeline/musicAnalysis';
+import type { ScriptData } from './pipeline/scriptValidation';
+import type { ExportProfileId } from './pipeline/exportProfiles';
+import type { TopicCategory } from './topicCategories';
 
 let client: MongoClient | null = null;
 let db: Db | null = null;
@@ -12,6 +22,22 @@ export async function getDb(): Promise<Db> {
   await db.collection(USERS_COLL).createIndex({ username: 1 }, { unique: true }).catch(() => {});
   await db.collection(PROJECTS_COLL).createIndex({ projectId: 1 }, { unique: true }).catch(() => {});
   await db.collection(PROJECTS_COLL).createIndex({ userId: 1, idempotencyKey: 1 }).catch(() => {});
+  await db.collection(PROJECTS_COLL).createIndex({ userId: 1, parentProjectId: 1 }).catch(() => {});
+  await db.collection(JOBS_COLL).createIndex({ jobId: 1 }, { unique: true }).catch(() => {});
+  await db.collection(JOBS_COLL).createIndex({ status: 1, createdAt: 1 }).catch(() => {});
+  await db.collection(JOBS_COLL).createIndex({ projectId: 1, status: 1 }).catch(() => {});
+  await db.collection(JOBS_COLL).createIndex({ userId: 1, createdAt: -1 }).catch(() => {});
+  await db.collection(MEDIA_COLL).createIndex({ assetId: 1 }, { unique: true }).catch(() => {});
+  await db.collection(MEDIA_COLL).createIndex({ userId: 1, kind: 1, createdAt: -1, _id: -1 }).catch(() => {});
+  await db.collection(MEDIA_COLL).createIndex({ userId: 1, tags: 1 }).catch(() => {});
+  await db.collection(MEDIA_COLL).createIndex({ userId: 1, 'music.moods': 1 }).catch(() => {});
+  await db.collection(SCRIPT_VERSIONS_COLL).createIndex({ projectId: 1, version: -1 }, { unique: true }).catch(() => {});
+  await db.collection(CALENDAR_COLL).createIndex({ itemId: 1 }, { unique: true }).catch(() => {});
+  await db.collection(CALENDAR_COLL).createIndex({ userId: 1, releaseAt: 1 }).catch(() => {});
+  await db.collection(CALENDAR_COLL).createIndex({ status: 1, releaseAt: 1 }).catch(() => {});
+  await db.collection(CALENDAR_COLL).createIndex({ projectId: 1 }).catch(() => {});
+  await db.collection(VIDEO_STATS_COLL).createIndex({ projectId: 1, capturedAt: -1 }).catch(() => {});
+  await db.collection(VIDEO_STATS_COLL).createIndex({ userId: 1, capturedAt: -1 }).catch(() => {});
   return db;
 }
 
@@ -28,9 +54,23 @@ export interface UserDoc {
   username: string;
   passwordHash: string;
   competitorIntel?: CompetitorIntelSnapshot;
+  /** Linked YouTube channel for publishing. */
+  youtube?: YoutubeAccountLink;
+  contentCalendar?: ContentCalendar;
   createdAt: Date;
 }
 
+export interface YoutubeAccountLink {
+  channelId: string;
+  channelTitle: string;
+  accessToken: string;
+  refreshToken: string;
+  /** When accessToken stops working (ISO); it is refreshed shortly before. */
+  accessTokenExpiresAt: string;
+  scope: string;
+  linkedAt: string;
+}
+
 export interface CompetitorIntelSnapshot {
   updatedAt: string;
   channels: Array<{
@@ -89,10 +129,28 @@ export interface ProjectDoc {
   youtubeMetaKey?: string;
   segmentMapKey?: string;
   segmentAlignmentKey?: string;
+  /** R2 key for audio_scenes.json: what each scene's audio was voiced from, so re-assembly only re-voices changed scenes. */
+  audioManifestKey?: string;
+  /** Last preview render (low resolution, watermarked); kept until the next preview. */
+  preview?: PreviewRender;
+  /** Re-renders of the assembled video in other aspect ratios, keyed by export profile. */
+  exports?: Partial<Record<ExportProfileId, ProjectExport>>;
+  /** Id of the video on YouTube once uploaded. */
+  youtubeVideoId?: string;
+  /** Last publish request and how far it got. */
+  publish?: PublishState;
+  /** Broad subject of the topic (history, science, …), set when analytics first ingests the published video. */
+  topicCategory?: TopicCategory;
+  /** R2 key for render_report.json (music ducking and measured loudness of the last assembly). */
+  renderReportKey?: string;
   /** R2 key for optional per-project background music (assembly step 4). */
   backgroundMusicKey?: string;
-  /** Start background music from this many seconds into the track (0 = from start). */
-  backgroundMusicStartSec?: number;
+  /** Start background music from this many seconds into the track (unset: 0); 'auto' lets assembly pick a phrase-aligned offset. */
+  backgroundMusicStartSec?: number | 'auto';
+  /** When no background music was uploaded, assembly picks one from the user's music library. Opt-in: unset means off. */
+  autoMusic?: boolean;
+  /** Library track chosen by auto music; kept so re-assembly and variants use the same track. */
+  musicSelection?: MusicSelection;
   requiredFiles?: string[];
   errorMessage?: string;
   /** Video format: short (~1 min), 5min, or 11min. Default short. */
@@ -103,9 +161,238 @@ export interface ProjectDoc {
   useWebResearch?: boolean;
   /** Provider for script (and topic if chosen at create): openai (GPT) or grok. */
   scriptProvider?: 'openai' | 'grok';
+  /** Voiceover provider; unset uses TTS_PROVIDER from env (default elevenlabs). */
+  ttsProvider?: TtsProviderId;
+  /** Where step 3 gets clips: manual upload, grok or the stock library; unset uses CLIP_PROVIDER from env. */
+  clipProvider?: ClipProviderId;
+  /** Narrator voice for the project's TTS provider; unset uses the provider default. */
+  voiceId?: string;
+  /** Per-project voice settings layered over the format defaults. */
+  voiceSettings?: TtsVoiceSettings;
+  /** Caption look preset for burned-in subtitles; unset uses classic. */
+  captionStyle?: CaptionStyleId;
+  /** Extra caption languages to translate the voiceover into at assembly (e.g. ["es", "de"]). */
+  captionLanguages?: string[];
+  /** Default transition between scene clips; a scene's `transition` in script.json overrides it. Unset = cut. */
+  transition?: TransitionId;
+  /** Integrated loudness target for the final mix in LUFS; unset uses LOUDNESS_TARGET_LUFS (default -14). */
+  loudnessTargetLufs?: number;
+  /** Long formats: show each chapter's title on screen where it starts (chapters always go into the description). */
+  chapterCards?: boolean;
+  /** Thumbnail stage: candidate stills, the rendered thumbnail and what it was made from. */
+  thumbnailCandidates?: ThumbnailCandidate[];
+  thumbnailKey?: string;
+  thumbnailSelection?: { candidateIndex: number; title: string };
+  /** Title typography over the defaults (font, size, colours, position). */
+  thumbnailStyle?: Partial<ThumbnailStyle>;
+  /** Sidecar caption files from the last assembly; the untranslated track first. */
+  captionTracks?: CaptionTrack[];
+  /** Set on a dubbed language variant: the project whose approved script and clips it reuses. */
+  parentProjectId?: string;
+  /** Narration language of a variant (e.g. "es"); unset on original projects. */
+  language?: string;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+export interface CaptionTrack {
+  language: string;
+  /** False for the narration-language track, true for machine-translated ones. */
+  translated: boolean;
+  srtKey: string;
+  vttKey: string;
+}
+
+export interface ThumbnailCandidate {
+  index: number;
+  source: 'frame' | 'image';
+  /** Position in final_short.mp4 for frame candidates. */
+  timeSec?: number;
+  sceneIndex?: number;
+  fileName: string;
+  key?: string;
+}
+
+export interface MusicSelection {
+  assetId: string;
+  title: string;
+  /** Script moods the track was matched against, strongest first. */
+  scriptMoods: MusicMood[];
+  score: number;
+  selectedAt: string;
+}
+
+export interface PreviewRender {
+  /** R2 key for preview.mp4; unset when R2 is off (the file stays in the output dir). */
+  videoKey?: string;
+  /** Scenes rendered as placeholder cards because they had no clip or image. */
+  placeholderScenes: number[];
+  renderedAt: string;
+}
+
+export interface ProjectExport {
+  /** R2 key for export_<profile>.mp4; unset when R2 is off (the file stays in the output dir). */
+  videoKey?: string;
+  renderedAt: string;
+}
+
+export type YoutubePrivacyStatus = 'public' | 'unlisted' | 'private';
+
+export type PublishStatus = 'queued' | 'uploading' | 'published' | 'scheduled' | 'failed';
+
+export interface PublishState {
+  status: PublishStatus;
+  title: string;
+  description: string;
+  tags: string[];
+  categoryId: string;
+  privacyStatus: YoutubePrivacyStatus;
+  /** Scheduled release (ISO); the video stays private until then. */
+  publishAt?: string;
+  channelId?: string;
+  /** Resumable upload session, so a retried job continues where the last attempt stopped. */
+  uploadUrl?: string;
+  /** Thumbnail and caption uploads that failed after the video went up. */
+  warnings?: string[];
+  error?: string;
+  requestedAt: string;
+  updatedAt: string;
+  publishedAt?: string;
+}
+
+/** A user's release cadence: projects added to the calendar take the next free slot time. */
+export interface ContentCalendar {
+  /** Slot specs as entered, e.g. "daily 18:00 Europe/Berlin" or "mon,thu 09:30 America/New_York". */
+  slots: string[];
+  /** youtube: publish to the linked channel when the slot arrives; handoff: notify the webhook, or leave it to post by hand. */
+  release: CalendarReleaseMode;
+  /** Privacy for videos the calendar publishes to YouTube. */
+  privacyStatus: YoutubePrivacyStatus;
+  handoffWebhookUrl?: string;
+  updatedAt: string;
+}
+
+export type CalendarReleaseMode = 'youtube' | 'handoff';
+
+export type CalendarItemStatus = 'scheduled' | 'releasing' | 'released' | 'failed';
+
+/** An assembled project waiting for (or past) its release time on the user's calendar. */
+export interface CalendarItemDoc {
+  _id: import('mongodb').ObjectId;
+  itemId: string;
+  userId: import('mongodb').ObjectId;
+  projectId: string;
+  releaseAt: Date;
+  status: CalendarItemStatus;
+  /** How the item went out: a YouTube publish job, a webhook hand-off, or marked ready to post by hand. */
+  releasedVia?: 'youtube' | 'webhook' | 'manual';
+  releasedAt?: Date;
+  /** While a YouTube release is `releasing`: the publish job it waits for. */
+  publishJobId?: string;
+  error?: string;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+/** One snapshot of a published video's performance; the snapshots of a project form its time series. */
+export interface VideoStatsDoc {
+  _id: import('mongodb').ObjectId;
+  projectId: string;
+  userId: import('mongodb').ObjectId;
+  videoId: string;
+  capturedAt: Date;
+  views: number;
+  likes: number | null;
+  comments: number | null;
+  /** From YouTube Analytics: null until YouTube has data, or when the channel link lacks the analytics scope. */
+  averageViewDurationSec: number | null;
+  averageViewPercentage: number | null;
+  retention: Array<{ at: number; watchRatio: number }> | null;
+}
+
+/** Catalog metadata for a music asset: tempo and energy are detected locally at upload, moods are tagged or suggested. */
+export interface MusicMetadata {
+  bpm: number | null;
+  energy?: number;
+  moods: MusicMood[];
+}
+
+/** A clip, image or music track in a user's media library; the file lives in R2 under users/<id>/media/<assetId>/. */
+export interface MediaAssetDoc {
+  _id: import('mongodb').ObjectId;
+  assetId: string;
+  userId: import('mongodb').ObjectId;
+  kind: MediaKind;
+  /** Original upload name, for display. */
+  fileName: string;
+  title?: string;
+  /** Lower-case tags used by search. */
+  tags: string[];
+  key: string;
+  thumbnailKey?: string;
+  sizeBytes: number;
+  durationSec?: number;
+  width?: number;
+  height?: number;
+  music?: MusicMetadata;
+  /** Times the asset was attached to a project, and the last one. */
+  usageCount: number;
+  lastUsedAt?: Date;
+  lastProjectId?: string;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+export type ScriptVersionReason = 'generated' | 'regenerate' | 'reject_feedback' | 'manual_edit' | 'restore' | 'localize';
+
+/** An immutable snapshot of a project's script.json, written whenever the script is generated or changed. */
+export interface ScriptVersionDoc {
+  _id: import('mongodb').ObjectId;
+  projectId: string;
+  userId: import('mongodb').ObjectId;
+  /** 1, 2, 3 … per project. */
+  version: number;
+  reason: ScriptVersionReason;
+  /** Who produced this script: the pipeline (generate, regenerate, translate) or the user (edit, restore). */
+  author: 'pipeline' | 'user';
+  /** Regeneration remarks, a description of the edit, or the restored version. */
+  note?: string;
+  restoredFrom?: number;
+  script: ScriptData;
+  createdAt: Date;
+}
+
+/** Kinds of work the pipeline queue knows how to run (one handler per kind). */
+export type PipelineJobKind = 'script' | 'regenerate_script' | 'localize' | 'audio' | 'clips' | 'assembly' | 'thumbnail' | 'scene' | 'preview' | 'export' | 'publish' | 'legacy';
+
+export type PipelineJobStatus = 'queued' | 'running' | 'done' | 'error' | 'cancelled';
+
+export interface PipelineJobDoc {
+  _id: import('mongodb').ObjectId;
+  jobId: string;
+  userId: import('mongodb').ObjectId;
+  /** Set for project stage jobs; absent for legacy /api/jobs runs. */
+  projectId?: string;
+  kind: PipelineJobKind;
+  status: PipelineJobStatus;
+  payload?: Record<string, unknown>;
+  result?: Record<string, unknown>;
+  /** Number of times a worker has claimed this job (incremented on every claim, including lease recovery). */
+  attempts: number;
+  leaseOwner?: string;
+  leaseExpiresAt?: Date;
+  heartbeatAt?: Date;
+  errorMessage?: string;
   createdAt: Date;
+  startedAt?: Date;
+  finishedAt?: Date;
   updatedAt: Date;
 }
 
 export const USERS_COLL = 'users';
 export const PROJECTS_COLL = 'projects';
+export const JOBS_COLL = 'pipeline_jobs';
+export const MEDIA_COLL = 'media_assets';
+export const SCRIPT_VERSIONS_COLL = 'script_versions';
+export const CALENDAR_COLL = 'calendar_items';
+export const VIDEO_STATS_COLL = 'video_stats';
@@ -0,0 +1,448 @@
+import os from 'os';
+import { ObjectId } from 'mongodb';
+import { nanoid } from 'nanoid';
+import { getDb, JOBS_COLL, PipelineJobDoc, PipelineJobKind, PipelineJobStatus } from './db';
+import { config } from './config';
+import { logger } from './logger';
+
+/**
+ * MongoDB-backed queue for pipeline work (script, audio, clips, assembly).
+ * Jobs survive restarts: a running job holds a lease that its worker renews on a heartbeat; when a
+ * process dies the lease expires and the next worker picks the job up again.
+ */
+
+/** The signal aborts when the job is cancelled; handlers pass it down to runShortPipeline. */
+export type JobHandler = (job: PipelineJobDoc, signal: AbortSignal) => Promise<Record<string, unknown> | void>;
+
+const WORKER_ID = `${os.hostname()}:${process.pid}:${nanoid(6)}`;
+const TERMINAL_STATUSES: PipelineJobStatus[] = ['done', 'error', 'cancelled'];
+/** Abort reason when this process shuts down: the job goes back to the queue instead of counting as cancelled. */
+const SHUTDOWN_REASON = 'worker shutdown';
+/** How long shutdown or a project delete waits for aborted jobs to unwind; pipeline children get SIGKILL after a 5 s grace period. */
+const SHUTDOWN_WAIT_MS = 8000;
+
+const handlers = new Map<PipelineJobKind, JobHandler>();
+/** Jobs running in this process, with the controller that cancels them. */
+const activeJobs = new Map<string, { controller: AbortController; projectId?: string; settled: Promise<void> }>();
+let pollTimer: NodeJS.Timeout | null = null;
+let running = false;
+let ticking = false;
+
+async function jobsColl() {
+  const db = await getDb();
+  return db.collection<PipelineJobDoc>(JOBS_COLL);
+}
+
+export function registerJobHandler(kind: PipelineJobKind, handler: JobHandler): void {
+  handlers.set(kind, handler);
+}
+
+/** True when the job was aborted because the worker is stopping, not because the user cancelled it. */
+export function isShutdownAbort(signal: AbortSignal): boolean {
+  return signal.aborted && signal.reason === SHUTDOWN_REASON;
+}
+
+/**
+ * Queue a job. For project jobs, an already queued/running job of the same kind is returned instead of
+ * creating a duplicate (double-clicks and retried requests stay idempotent).
+ */
+export async function enqueueJob(input: {
+  userId: string;
+  kind: PipelineJobKind;
+  projectId?: string;
+  payload?: Record<string, unknown>;
+}): Promise<{ job: PipelineJobDoc; created: boolean }> {
+  const coll = await jobsColl();
+  if (input.projectId) {
+    const existing = await coll.findOne({
+      projectId: input.projectId,
+      kind: input.kind,
+      status: { $in: ['queued', 'running'] }
+    });
+    if (existing) return { job: existing, created: false };
+  }
+  const now = new Date();
+  const doc: PipelineJobDoc = {
+    _id: new ObjectId(),
+    jobId: nanoid(),
+    userId: new ObjectId(input.userId),
+    projectId: input.projectId,
+    kind: input.kind,
+    status: 'queued',
+    payload: input.payload,
+    attempts: 0,
+    createdAt: now,
+    updatedAt: now
+  };
+  await coll.insertOne(doc);
+  kickJobWorker();
+  return { job: doc, created: true };
+}
+
+/** Put a finished job back on the queue with a new payload (legacy /api/jobs continue). */
+export async function requeueJob(
+  jobId: string,
+  userId: string,
+  payload: Record<string, unknown>
+): Promise<PipelineJobDoc | null> {
+  const coll = await jobsColl();
+  const result = await coll.findOneAndUpdate(
+    { jobId, userId: new ObjectId(userId), status: { $in: TERMINAL_STATUSES } },
+    {
+      $set: { status: 'queued', payload, attempts: 0, updatedAt: new Date() },
+      $unset: { result: '', errorMessage: '', leaseOwner: '', leaseExpiresAt: '', finishedAt: '' }
+    },
+    { returnDocument: 'after' }
+  );
+  if (result) kickJobWorker();
+  return result ?? null;
+}
+
+/**
+ * Mark a queued or running job cancelled. A job running in this process is aborted right away; one running
+ * in another process notices on its next heartbeat. Returns the job as it was before cancellation.
+ */
+export async function cancelJob(jobId: string, userId: string): Promise<PipelineJobDoc | null> {
+  const coll = await jobsColl();
+  const now = new Date();
+  const before = await coll.findOneAndUpdate(
+    { jobId, userId: new ObjectId(userId), status: { $in: ['queued', 'running'] } },
+    {
+      $set: { status: 'cancelled', errorMessage: 'Cancelled by user', finishedAt: now, updatedAt: now },
+      $unset: { leaseOwner: '', leaseExpiresAt: '' }
+    },
+    { returnDocument: 'before' }
+  );
+  if (!before) return null;
+  activeJobs.get(jobId)?.controller.abort();
+  logger.info('Pipeline job cancelled', { jobId, kind: before.kind, projectId: before.projectId, was: before.status });
+  return before;
+}
+
+/** Cancel every queued or running job of a project (normally at most one). */
+export async function cancelProjectJobs(projectId: string, userId: string): Promise<PipelineJobDoc[]> {
+  const coll = await jobsColl();
+  const jobs = await coll
+    .find({ projectId, userId: new ObjectId(userId), status: { $in: ['queued', 'running'] } })
+    .sort({ createdAt: 1 })
+    .toArray();
+  const cancelled: PipelineJobDoc[] = [];
+  for (const job of jobs) {
+    const before = await cancelJob(job.jobId, userId);
+    if (before) cancelled.push(before);
+  }
+  return cancelled;
+}
+
+/**
+ * Cancel every queued or running job of these projects and wait for the ones running in this process to unwind,
+ * so their pipeline children have exited. A job running in another process stops on its next heartbeat.
+ */
+export async function cancelProjectJobsAndWait(projectIds: string[], userId: string): Promise<void> {
+  const settled: Promise<void>[] = [];
+  for (const projectId of projectIds) {
+    for (const job of await cancelProjectJobs(projectId, userId)) {
+      const active = activeJobs.get(job.jobId);
+      if (active) settled.push(active.settled);
+    }
+  }
+  if (!settled.length) return;
+  let timer: NodeJS.Timeout | undefined;
+  await Promise.race([Promise.all(settled), new Promise((r) => (timer = setTimeout(r, SHUTDOWN_WAIT_MS)))]);
+  clearTimeout(timer);
+}
+
+export async function getJob(jobId: string, userId: string): Promise<PipelineJobDoc | null> {
+  const coll = await jobsColl();
+  return coll.findOne({ jobId, userId: new ObjectId(userId) });
+}
+
+export async function listJobs(
+  userId: string,
+  opts: { projectId?: string; status?: PipelineJobStatus; limit?: number } = {}
+): Promise<PipelineJobDoc[]> {
+  const coll = await jobsColl();
+  const query: Record<string, unknown> = { userId: new ObjectId(userId) };
+  if (opts.projectId) query.projectId = opts.projectId;
+  if (opts.status) query.status = opts.status;
+  return coll
+    .find(query)
+    .sort({ createdAt: -1 })
+    .limit(Math.max(1, Math.min(100, opts.limit ?? 20)))
+    .toArray();
+}
+
+/** The queued or running job for a project, if any. */
+export async function getActiveJobForProject(projectId: string): Promise<PipelineJobDoc | null> {
+  const coll = await jobsColl();
+  return coll.findOne(
+    { projectId, status: { $in: ['queued', 'running'] } },
+    { sort: { createdAt: 1 } }
+  );
+}
+
+/** Queue-wide counters plus this user's position, for the status API. */
+export async function getQueueStats(userId: string): Promise<{
+  queued: number;
+  running: number;
+  userQueued: number;
+  userRunning: number;
+  limits: { concurrency: number; perUserConcurrency: number };
+}> {
+  const coll = await jobsColl();
+  const uid = new ObjectId(userId);
+  const [queued, runningCount, userQueued, userRunning] = await Promise.all([
+    coll.countDocuments({ status: 'queued' }),
+    coll.countDocuments({ status: 'running' }),
+    coll.countDocuments({ status: 'queued', userId: uid }),
+    coll.countDocuments({ status: 'running', userId: uid })
+  ]);
+  return {
+    queued,
+    running: runningCount,
+    userQueued,
+    userRunning,
+    limits: {
+      concurrency: config.queue.concurrency,
+      perUserConcurrency: config.queue.perUserConcurrency
+    }
+  };
+}
+
+export function toJobSummary(job: PipelineJobDoc): Record<string, unknown> {
+  return {
+    jobId: job.jobId,
+    kind: job.kind,
+    status: job.status,
+    projectId: job.projectId ?? null,
+    attempts: job.attempts,
+    errorMessage: job.errorMessage ?? null,
+    createdAt: job.createdAt.toISOString(),
+    startedAt: job.startedAt?.toISOString() ?? null,
+    finishedAt: job.finishedAt?.toISOString() ?? null
+  };
+}
+
+// ——— Worker ———
+
+/**
+ * Atomically claim the oldest runnable job that fits the global and per-user concurrency limits.
+ * Jobs whose lease expired (worker crashed or was restarted) are reclaimed like queued ones.
+ * Only one job per project runs at a time so stages never overlap on the same workspace.
+ */
+async function claimNextJob(): Promise<PipelineJobDoc | null> {
+  const coll = await jobsColl();
+  const now = new Date();
+  const live = await coll
+    .find({ status: 'running', leaseExpiresAt: { $gt: now } }, { projection: { userId: 1, projectId: 1 } })
+    .toArray();
+  if (live.length >= config.queue.concurrency) return null;
+  const runningByUser = new Map<string, number>();
+  const busyProjects = new Set<string>();
+  for (const j of live) {
+    const uid = String(j.userId);
+    runningByUser.set(uid, (runningByUser.get(uid) ?? 0) + 1);
+    if (j.projectId) busyProjects.add(j.projectId);
+  }
+  // A cancelled job stays active here until its child process has exited; keep its project blocked until then.
+  for (const { projectId } of activeJobs.values()) {
+    if (projectId) busyProjects.add(projectId);
+  }
+
+  const candidates = await coll
+    .find({
+      $or: [
+        { status: 'queued' },
+        { status: 'running', leaseExpiresAt: { $lte: now } }
+      ]
+    })
+    .sort({ createdAt: 1 })
+    .limit(50)
+    .toArray();
+
+  for (const job of candidates) {
+    if (!handlers.has(job.kind)) continue;
+    if ((runningByUser.get(String(job.userId)) ?? 0) >= config.queue.perUserConcurrency) continue;
+    if (job.projectId && busyProjects.has(job.projectId)) continue;
+    if (job.status === 'running' && job.attempts >= config.queue.maxAttempts) {
+      await coll.updateOne(
+        { _id: job._id, updatedAt: job.updatedAt },
+        {
+          $set: {
+            status: 'error',
+            errorMessage: `Job abandoned after ${job.attempts} attempt(s) (worker lease expired)`,
+            finishedAt: now,
+            updatedAt: now
+          },
+          $unset: { leaseOwner: '', leaseExpiresAt: '' }
+        }
+      );
+      continue;
+    }
+    if (job.status === 'running') {
+      logger.warn('Reclaiming pipeline job with expired lease', { jobId: job.jobId, previousOwner: job.leaseOwner });
+    }
+    // updatedAt acts as a version: if another worker touched the job since we read it, the claim misses.
+    const claimed = await coll.findOneAndUpdate(
+      { _id: job._id, status: job.status, updatedAt: job.updatedAt },
+      {
+        $set: {
+          status: 'running',
+          leaseOwner: WORKER_ID,
+          leaseExpiresAt: new Date(now.getTime() + config.queue.leaseMs),
+          heartbeatAt: now,
+          startedAt: now,
+          updatedAt: now
+        },
+        $inc: { attempts: 1 },
+        $unset: { errorMessage: '' }
+      },
+      { returnDocument: 'after' }
+    );
+    if (claimed) return claimed;
+  }
+  return null;
+}
+
+async function renewLease(jobId: string): Promise<boolean> {
+  const coll = await jobsColl();
+  const now = new Date();
+  const res = await coll.updateOne(
+    { jobId, status: 'running', leaseOwner: WORKER_ID },
+    { $set: { leaseExpiresAt: new Date(now.getTime() + config.queue.leaseMs), heartbeatAt: now, updatedAt: now } }
+  );
+  return res.matchedCount > 0;
+}
+
+/** Called when a heartbeat could not renew the lease: abort if the job was cancelled from another process. */
+async function checkCancelled(jobId: string): Promise<void> {
+  const coll = await jobsColl();
+  const job = await coll.findOne({ jobId }, { projection: { status: 1 } });
+  if (job?.status === 'cancelled') activeJobs.get(jobId)?.controller.abort();
+  else logger.warn('Pipeline job lease lost', { jobId });
+}
+
+async function finishJob(
+  jobId: string,
+  status: 'done' | 'error',
+  fields: { result?: Record<string, unknown>; errorMessage?: string }
+): Promise<void> {
+  const coll = await jobsColl();
+  const now = new Date();
+  await coll.updateOne(
+    { jobId, status: 'running', leaseOwner: WORKER_ID },
+    {
+      $set: { status, ...fields, finishedAt: now, updatedAt: now },
+      $unset: { leaseOwner: '', leaseExpiresAt: '' }
+    }
+  );
+}
+
+async function runJob(job: PipelineJobDoc): Promise<void> {
+  const handler = handlers.get(job.kind);
+  if (!handler) return;
+  const controller = new AbortController();
+  let settle!: () => void;
+  activeJobs.set(job.jobId, { controller, projectId: job.projectId, settled: new Promise<void>((r) => (settle = r)) });
+  logger.info('Pipeline job started', { jobId: job.jobId, kind: job.kind, projectId: job.projectId, attempt: job.attempts });
+  const heartbeat = setInterval(() => {
+    renewLease(job.jobId)
+      .then((ok) => (ok ? undefined : checkCancelled(job.jobId)))
+      .catch((err) => logger.error('Pipeline job heartbeat failed', err, { jobId: job.jobId }));
+  }, config.queue.heartbeatMs);
+  try {
+    const result = await handler(job, controller.signal);
+    await finishJob(job.jobId, 'done', result ? { result } : {});
+    logger.info('Pipeline job done', { jobId: job.jobId, kind: job.kind, projectId: job.projectId });
+  } catch (err) {
+    if (isShutdownAbort(controller.signal)) {
+      logger.info('Pipeline job interrupted by shutdown', { jobId: job.jobId, kind: job.kind, projectId: job.projectId });
+    } else if (controller.signal.aborted) {
+      logger.info('Pipeline job stopped after cancel', { jobId: job.jobId, kind: job.kind, projectId: job.projectId });
+    } else {
+      await finishJob(job.jobId, 'error', { errorMessage: (err as Error).message }).catch(() => {});
+      logger.error('Pipeline job failed', err, { jobId: job.jobId, kind: job.kind, projectId: job.projectId });
+    }
+  } finally {
+    clearInterval(heartbeat);
+    activeJobs.delete(job.jobId);
+    settle();
+    kickJobWorker();
+  }
+}
+
+async function tick(): Promise<void> {
+  if (!running || ticking) return;
+  ticking = true;
+  try {
+    while (running && activeJobs.size < config.queue.concurrency) {
+      const job = await claimNextJob();
+      if (!job) break;
+      void runJob(job);
+    }
+  } catch (err) {
+    logger.error('Pipeline queue poll failed', err);
+  } finally {
+    ticking = false;
+  }
+}
+
+function scheduleTick(delayMs: number): void {
+  if (!running) return;
+  if (pollTimer) clearTimeout(pollTimer);
+  pollTimer = setTimeout(() => {
+    tick().finally(() => scheduleTick(config.queue.pollMs));
+  }, delayMs);
+}
+
+/** Poll immediately instead of waiting for the next interval (after enqueue or when a slot frees up). */
+export function kickJobWorker(): void {
+  if (running) scheduleTick(0);
+}
+
+export function startJobWorker(): void {
+  if (running) return;
+  running = true;
+  logger.info('Pipeline job worker started', {
+    workerId: WORKER_ID,
+    concurrency: config.queue.concurrency,
+    perUserConcurrency: config.queue.perUserConcurrency
+  });
+  scheduleTick(0);
+}
+
+/**
+ * Stop polling, abort this worker's running jobs and hand them back to the queue so the next process picks them
+ * up right away instead of waiting for their leases to expire. A job is only requeued once its handler has
+ * unwound (and its pipeline child has exited), so two pipelines never write to the same workspace; one that does
+ * not stop in time keeps its lease and is reclaimed when the lease expires.
+ */
+export async function stopJobWorker(): Promise<void> {
+  running = false;
+  if (pollTimer) {
+    clearTimeout(pollTimer);
+    pollTimer = null;
+  }
+  if (activeJobs.size === 0) return;
+  const jobIds = Array.from(activeJobs.keys());
+  const settled = Array.from(activeJobs.values()).map((j) => {
+    j.controller.abort(SHUTDOWN_REASON);
+    return j.settled;
+  });
+  let timer: NodeJS.Timeout | undefined;
+  await Promise.race([Promise.all(settled), new Promise((r) => (timer = setTimeout(r, SHUTDOWN_WAIT_MS)))]);
+  clearTimeout(timer);
+  const stopped = jobIds.filter((id) => !activeJobs.has(id));
+  if (stopped.length < jobIds.length) {
+    logger.warn('Pipeline jobs still running at shutdown; leaving them to lease expiry', {
+      jobIds: jobIds.filter((id) => activeJobs.has(id))
+    });
+  }
+  if (stopped.length === 0) return;
+  const coll = await jobsColl();
+  await coll.updateMany(
+    { jobId: { $in: stopped }, status: 'running', leaseOwner: WORKER_ID },
+    { $set: { status: 'queued', updatedAt: new Date() }, $unset: { leaseOwner: '', leaseExpiresAt: '' } }
+  );
+  logger.info('Released running pipeline jobs back to the queue', { count: stopped.length });
+}
@@ -0,0 +1,65 @@
+import OpenAI from 'openai';
+import { captionLanguageName } from './pipeline/captionTracks';
+
+type ScriptScene = {
+  prompt: string;
+  voiceover?: string;
+  duration?: number;
+  [key: string]: unknown;
+};
+
+type ScriptData = {
+  voiceover: string;
+  scenes: ScriptScene[];
+  [key: string]: unknown;
+};
+
+const OPENAI_KEY = process.env.OPENAI_API_KEY;
+const LOCALIZE_MODEL = process.env.LOCALIZE_MODEL || 'gpt-4o';
+
+const openai = OPENAI_KEY ? new OpenAI({ apiKey: OPENAI_KEY }) : null;
+
+/**
+ * Translate an approved script's narration into `language`, one entry per scene so scene count, order and
+ * clip prompts stay aligned with the parent project's clips. Durations are kept; assembly re-times from audio.
+ */
+export async function translateScriptScenes(script: ScriptData, language: string): Promise<ScriptData> {
+  if (!openai) throw new Error('OPENAI_API_KEY is required to localize scripts');
+  if (!Array.isArray(script.scenes) || script.scenes.length === 0) throw new Error('Script has no scenes to translate');
+  const languageName = captionLanguageName(language);
+  const scenes = script.scenes.map((s, i) => ({ index: i, voiceover: String(s.voiceover ?? '').trim() }));
+  const completion = await openai.chat.completions.create({
+    model: LOCALIZE_MODEL,
+    temperature: 0.3,
+    messages: [
+      {
+        role: 'system',
+        content:
+          `You dub short-form video narration into ${languageName}. Translate each scene's voiceover so it sounds natural when spoken by a native narrator, ` +
+          'keeps facts, names and numbers, and has roughly the same spoken length as the original so it fits the same clip. ' +
+          'Return ONLY valid JSON: { "scenes": ["scene 0 voiceover", "scene 1 voiceover", ...] } with exactly one entry per input scene, same order. No markdown.'
+      },
+      { role: 'user', content: JSON.stringify({ language: languageName, scenes }) }
+    ],
+    response_format: { type: 'json_object' }
+  });
+  const content = completion.choices[0].message.content;
+  if (!content) throw new Error(`Empty translation response for ${language}`);
+  const parsed = JSON.parse(content) as { scenes?: unknown[] };
+  const translated = Array.isArray(parsed.scenes) ? parsed.scenes : [];
+  if (translated.length !== scenes.length) {
+    throw new Error(`Translation to ${language} returned ${translated.length} scene(s), expected ${scenes.length}`);
+  }
+  const outScenes = script.scenes.map((scene, i) => {
+    const text = translated[i];
+    if (!scenes[i].voiceover) return scene;
+    if (typeof text !== 'string' || !text.trim()) throw new Error(`Translation to ${language} left scene ${i} empty`);
+    return { ...scene, voiceover: text.trim() };
+  });
+  return {
+    ...script,
+    voiceover: outScenes.map((s) => String(s.voiceover ?? '').trim()).filter(Boolean).join(' '),
+    scenes: outScenes,
+    language
+  };
+}
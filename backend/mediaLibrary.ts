@@ -0,0 +1,286 @@
+import fs from 'fs';
+import path from 'path';
+import { ObjectId, type Filter } from 'mongodb';
+import { nanoid } from 'nanoid';
+import { getDb, MEDIA_COLL, MediaAssetDoc, MusicMetadata, ProjectDoc } from './db';
+import { copyObject, deleteObject, isR2Enabled, mediaKey, projectKey, uploadFile } from './r2';
+import { getProjectWorkspaceDir, updateProject } from './projects';
+import { probeMedia, writeMediaThumbnail, type MediaKind } from './pipeline/mediaProbe';
+import { analyzeMusic, isMusicMood, pickMusicTrack, suggestMoods, type MusicMood } from './pipeline/musicAnalysis';
+import { logger } from './logger';
+
+const MAX_TAGS = 20;
+const MAX_TAG_LENGTH = 40;
+export const MAX_LIBRARY_PAGE = 100;
+
+async function mediaColl() {
+  const db = await getDb();
+  return db.collection<MediaAssetDoc>(MEDIA_COLL);
+}
+
+/** Tags from an API body or form field: an array or a comma-separated string. Null when malformed. */
+export function parseMediaTags(value: unknown): string[] | null {
+  const raw = Array.isArray(value) ? value : typeof value === 'string' ? value.split(',') : null;
+  if (!raw || raw.some((t) => typeof t !== 'string')) return null;
+  const tags = Array.from(new Set((raw as string[]).map((t) => t.trim().toLowerCase()).filter(Boolean)));
+  if (tags.length > MAX_TAGS || tags.some((t) => t.length > MAX_TAG_LENGTH)) return null;
+  return tags;
+}
+
+/** Moods from an API body or form field, same shapes as tags. Null when malformed or not a known mood. */
+export function parseMusicMoods(value: unknown): MusicMood[] | null {
+  const moods = parseMediaTags(value);
+  if (!moods || !moods.every(isMusicMood)) return null;
+  return moods as MusicMood[];
+}
+
+/**
+ * Tempo and energy detected from the file; moods are the explicit ones, else mood words among the tags, else
+ * suggested from tempo and energy. Analysis failures keep the upload with whatever moods are known.
+ */
+async function analyzeMusicAsset(localPath: string, tags: string[], moods?: MusicMood[]): Promise<MusicMetadata> {
+  const tagged = moods?.length ? moods : tags.filter(isMusicMood);
+  try {
+    const analysis = await analyzeMusic(localPath);
+    return {
+      bpm: analysis.bpm,
+      energy: analysis.energy,
+      moods: tagged.length ? tagged : suggestMoods(analysis.bpm, analysis.energy)
+    };
+  } catch (err) {
+    logger.warn('Music analysis failed', { error: (err as Error).message });
+    return { bpm: null, moods: tagged };
+  }
+}
+
+function safeFileName(name: string): string {
+  return path.basename(name).replace(/[^a-zA-Z0-9._-]+/g, '_').slice(-120) || 'file';
+}
+
+/**
+ * Store an uploaded file in the library: probe it, render a preview, upload both to R2 and index the asset.
+ * The caller removes `localPath` afterwards. Requires R2.
+ */
+export async function createMediaAsset(
+  userId: string,
+  input: { localPath: string; fileName: string; kind: MediaKind; title?: string; tags: string[]; moods?: MusicMood[] }
+): Promise<MediaAssetDoc> {
+  if (!isR2Enabled()) throw new Error('Media library requires R2 storage');
+  const assetId = nanoid();
+  const fileName = safeFileName(input.fileName);
+  const probe = await probeMedia(input.localPath);
+  const music = input.kind === 'music' ? await analyzeMusicAsset(input.localPath, input.tags, input.moods) : undefined;
+  const key = mediaKey(userId, assetId, fileName);
+  await uploadFile(key, input.localPath);
+
+  let thumbnailKey: string | undefined;
+  const thumbPath = `${input.localPath}.thumb.jpg`;
+  try {
+    await writeMediaThumbnail(input.kind, input.localPath, thumbPath, probe.durationSec);
+    thumbnailKey = mediaKey(userId, assetId, 'thumbnail.jpg');
+    await uploadFile(thumbnailKey, thumbPath);
+  } catch {
+    // A missing preview should not lose the upload.
+    thumbnailKey = undefined;
+  } finally {
+    fs.rmSync(thumbPath, { force: true });
+  }
+
+  const now = new Date();
+  const doc: MediaAssetDoc = {
+    _id: new ObjectId(),
+    assetId,
+    userId: new ObjectId(userId),
+    kind: input.kind,
+    fileName,
+    ...(input.title ? { title: input.title } : {}),
+    tags: input.tags,
+    key,
+    ...(thumbnailKey ? { thumbnailKey } : {}),
+    sizeBytes: fs.statSync(input.localPath).size,
+    ...probe,
+    ...(music ? { music } : {}),
+    usageCount: 0,
+    createdAt: now,
+    updatedAt: now
+  };
+  const coll = await mediaColl();
+  await coll.insertOne(doc);
+  return doc;
+}
+
+export async function getMediaAsset(assetId: string, userId: string): Promise<MediaAssetDoc | null> {
+  const coll = await mediaColl();
+  return coll.findOne({ assetId, userId: new ObjectId(userId) });
+}
+
+function escapeRegex(text: string): string {
+  return text.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+}
+
+/** Position after an asset in the newest-first listing: its createdAt, then its _id to order assets sharing a timestamp. */
+export type MediaCursor = { createdAt: Date; id?: ObjectId };
+
+/** Opaque page cursor for the asset listed last: `<createdAt ISO>_<_id>`. */
+export function encodeMediaCursor(asset: Pick<MediaAssetDoc, 'createdAt' | '_id'>): string {
+  return `${asset.createdAt.toISOString()}_${asset._id.toHexString()}`;
+}
+
+/** Parse a page cursor; a bare ISO date (the older cursor) is accepted too. Null when malformed. */
+export function parseMediaCursor(value: string): MediaCursor | null {
+  const m = /^(.+)_([0-9a-f]{24})$/i.exec(value);
+  const createdAt = new Date(m ? m[1] : value);
+  if (Number.isNaN(createdAt.getTime())) return null;
+  return m ? { createdAt, id: new ObjectId(m[2]) } : { createdAt };
+}
+
+/**
+ * Search a user's library, newest first. `q` matches title, file name or a tag (case-insensitive);
+ * `tags` requires all of them and `mood` limits to music tagged with it. `before` is the position of the last
+ * asset on the previous page; assets are ordered by createdAt then _id so ties are neither skipped nor repeated.
+ */
+export async function listMediaAssets(
+  userId: string,
+  opts: { kind?: MediaKind; q?: string; tags?: string[]; mood?: MusicMood; limit?: number; before?: MediaCursor } = {}
+): Promise<MediaAssetDoc[]> {
+  const filter: Filter<MediaAssetDoc> = { userId: new ObjectId(userId) };
+  const and: Filter<MediaAssetDoc>[] = [];
+  if (opts.kind) filter.kind = opts.kind;
+  if (opts.mood) filter['music.moods'] = opts.mood;
+  if (opts.tags?.length) filter.tags = { $all: opts.tags };
+  if (opts.before) {
+    const { createdAt, id } = opts.before;
+    and.push(id ? { $or: [{ createdAt: { $lt: createdAt } }, { createdAt, _id: { $lt: id } }] } : { createdAt: { $lt: createdAt } });
+  }
+  if (opts.q?.trim()) {
+    const re = new RegExp(escapeRegex(opts.q.trim()), 'i');
+    and.push({ $or: [{ title: re }, { fileName: re }, { tags: re }] });
+  }
+  if (and.length) filter.$and = and;
+  const coll = await mediaColl();
+  return coll
+    .find(filter)
+    .sort({ createdAt: -1, _id: -1 })
+    .limit(Math.min(MAX_LIBRARY_PAGE, Math.max(1, opts.limit ?? 30)))
+    .toArray();
+}
+
+export async function updateMediaAsset(
+  assetId: string,
+  userId: string,
+  update: { title?: string | null; tags?: string[]; moods?: MusicMood[] }
+): Promise<MediaAssetDoc | null> {
+  const coll = await mediaColl();
+  const $set: Partial<MediaAssetDoc> & { 'music.moods'?: MusicMood[] } = { updatedAt: new Date() };
+  if (update.tags) $set.tags = update.tags;
+  if (update.title) $set.title = update.title;
+  if (update.moods) $set['music.moods'] = update.moods;
+  return coll.findOneAndUpdate(
+    { assetId, userId: new ObjectId(userId) },
+    { $set, ...(update.title === null ? { $unset: { title: '' } } : {}) },
+    { returnDocument: 'after' }
+  );
+}
+
+/** Delete the asset and its R2 objects. Projects it was attached to keep their own copies. */
+export async function deleteMediaAsset(assetId: string, userId: string): Promise<boolean> {
+  const asset = await getMediaAsset(assetId, userId);
+  if (!asset) return false;
+  await deleteObject(asset.key);
+  if (asset.thumbnailKey) await deleteObject(asset.thumbnailKey);
+  const coll = await mediaColl();
+  await coll.deleteOne({ assetId, userId: new ObjectId(userId) });
+  return true;
+}
+
+/**
+ * Copy a library asset into a project: a clip or image becomes the file for `sceneIndex`, music becomes the
+ * background track. The copy is independent of the library, so deleting the asset later does not break the project.
+ * Returns the project file name.
+ */
+export async function attachMediaAsset(
+  userId: string,
+  asset: MediaAssetDoc,
+  project: ProjectDoc,
+  opts: { sceneIndex?: number; backgroundMusicStartSec?: number }
+): Promise<string> {
+  const projectId = project.projectId;
+  const workspace = getProjectWorkspaceDir(projectId);
+  const ext = asset.fileName.split('.').pop()?.toLowerCase() ?? '';
+  let fileName: string;
+  if (asset.kind === 'music') fileName = 'background_music.mp3';
+  else if (asset.kind === 'clip') fileName = `clip_${opts.sceneIndex}.mp4`;
+  else fileName = `image_${opts.sceneIndex}.${ext}`;
+
+  const destKey = projectKey(userId, projectId, fileName);
+  await copyObject(asset.key, destKey);
+
+  if (asset.kind === 'music') {
+    await updateProject(projectId, userId, {
+      backgroundMusicKey: destKey,
+      musicSelection: undefined,
+      ...(opts.backgroundMusicStartSec !== undefined ? { backgroundMusicStartSec: opts.backgroundMusicStartSec } : {})
+    });
+    fs.rmSync(path.join(workspace, fileName), { force: true });
+  } else {
+    const idx = opts.sceneIndex!;
+    // An image wins over a clip at assembly, so attaching a clip drops the scene's image (and vice versa for stale files).
+    const sceneImage = new RegExp(`/image_${idx}\\.(jpg|jpeg|png|webp)$`, 'i');
+    const imageKeys = (project.imageKeys ?? []).filter((k) => k && !sceneImage.test(k));
+    const clipKeys = [...(project.clipKeys ?? [])];
+    if (asset.kind === 'clip') clipKeys[idx] = destKey;
+    else imageKeys.push(destKey);
+    await updateProject(projectId, userId, { clipKeys, imageKeys: imageKeys.length ? imageKeys : undefined });
+    if (fs.existsSync(workspace)) {
+      for (const name of fs.readdirSync(workspace)) {
+        if (name === `clip_${idx}.mp4` || /^image_(\d+)\.(jpg|jpeg|png|webp)$/i.exec(name)?.[1] === String(idx)) {
+          fs.rmSync(path.join(workspace, name), { force: true });
+        }
+      }
+    }
+  }
+
+  await recordMediaUse(asset.assetId, projectId);
+  return fileName;
+}
+
+async function recordMediaUse(assetId: string, projectId: string): Promise<void> {
+  const coll = await mediaColl();
+  await coll.updateOne({ assetId }, { $inc: { usageCount: 1 }, $set: { lastUsedAt: new Date(), lastProjectId: projectId } });
+}
+
+/** Music tracks considered by auto selection; older tracks past this are ignored. */
+const MAX_MUSIC_CANDIDATES = 200;
+
+/**
+ * Pick background music for a project from the user's music library: the track whose moods match the script and
+ * whose length covers `targetSec` best, counted as a use of the track. Returns null when the library has no music.
+ */
+export async function pickLibraryMusic(
+  userId: string,
+  projectId: string,
+  scriptText: string,
+  targetSec: number
+): Promise<{ asset: MediaAssetDoc; score: number; scriptMoods: MusicMood[] } | null> {
+  const coll = await mediaColl();
+  const assets = await coll
+    .find({ userId: new ObjectId(userId), kind: 'music' })
+    .sort({ createdAt: -1 })
+    .limit(MAX_MUSIC_CANDIDATES)
+    .toArray();
+  const picked = pickMusicTrack(
+    assets.map((asset) => ({
+      id: asset.assetId,
+      moods: asset.music?.moods ?? asset.tags.filter(isMusicMood),
+      bpm: asset.music?.bpm ?? null,
+      durationSec: asset.durationSec,
+      usageCount: asset.usageCount,
+      asset
+    })),
+    scriptText,
+    targetSec
+  );
+  if (!picked) return null;
+  await recordMediaUse(picked.track.id, projectId);
+  return { asset: picked.track.asset, score: picked.score, scriptMoods: picked.moods };
+}
@@ -0,0 +1,238 @@
+/**
+ * Stand-in for Google's OAuth and YouTube Data API endpoints used by youtubePublisher, for trying account linking and
+ * publishing without a real channel: `npm run mock:youtube`, then point the YOUTUBE_* URLs at it (see .env.example).
+ * Everything is kept in memory; uploaded bytes are counted, not stored. GET /mock/videos lists what was published.
+ *
+ * Statistics and Analytics reports are synthesized from each video's age, so repeated ingests see the numbers grow.
+ *
+ * MOCK_YOUTUBE_FAIL_CHUNK=n answers the n-th upload chunk with a 503 once, to exercise resuming an upload.
+ */
+import express, { Request, Response } from 'express';
+import { randomBytes } from 'crypto';
+import { logger } from './logger';
+
+const PORT = parseInt(process.env.MOCK_YOUTUBE_PORT || '4100', 10);
+const BASE_URL = `http://localhost:${PORT}`;
+const FAIL_CHUNK = parseInt(process.env.MOCK_YOUTUBE_FAIL_CHUNK || '', 10) || 0;
+const CHANNEL = { id: 'UCmockchannel0000000000', title: 'Mock Channel' };
+
+type UploadSession = { id: string; resource: Record<string, unknown>; size: number; received: number; videoId?: string };
+type MockVideo = {
+  id: string;
+  snippet: Record<string, unknown>;
+  status: Record<string, unknown>;
+  sizeBytes: number;
+  uploadedAt: number;
+  thumbnailBytes?: number;
+  captions: Array<{ id: string; language: string; name: string; bytes: number }>;
+};
+
+const codes = new Set<string>();
+const accessTokens = new Set<string>();
+const refreshTokens = new Set<string>();
+const sessions = new Map<string, UploadSession>();
+const videos = new Map<string, MockVideo>();
+let chunkCount = 0;
+
+const token = (prefix: string) => `${prefix}_${randomBytes(12).toString('hex')}`;
+
+function apiError(res: Response, status: number, message: string) {
+  return res.status(status).json({ error: { code: status, message } });
+}
+
+function authorized(req: Request, res: Response): boolean {
+  const bearer = req.headers.authorization?.replace(/^Bearer\s+/i, '');
+  if (bearer && accessTokens.has(bearer)) return true;
+  apiError(res, 401, 'Invalid Credentials');
+  return false;
+}
+
+function issueTokens(refresh?: string) {
+  const access = token('mock_access');
+  accessTokens.add(access);
+  const body: Record<string, unknown> = { access_token: access, expires_in: 3600, token_type: 'Bearer', scope: 'youtube.upload youtube.force-ssl' };
+  if (!refresh) {
+    const newRefresh = token('mock_refresh');
+    refreshTokens.add(newRefresh);
+    body.refresh_token = newRefresh;
+  }
+  return body;
+}
+
+const app = express();
+
+// ——— OAuth ———
+
+/** Consent is implied: redirect straight back with a code. */
+app.get('/o/oauth2/v2/auth', (req: Request, res: Response) => {
+  const redirectUri = typeof req.query.redirect_uri === 'string' ? req.query.redirect_uri : '';
+  if (!redirectUri) return res.status(400).send('Missing redirect_uri');
+  const code = token('mock_code');
+  codes.add(code);
+  const url = new URL(redirectUri);
+  url.searchParams.set('code', code);
+  if (typeof req.query.state === 'string') url.searchParams.set('state', req.query.state);
+  res.redirect(url.toString());
+});
+
+app.post('/token', express.urlencoded({ extended: false }), (req: Request, res: Response) => {
+  const body = req.body as Record<string, string | undefined>;
+  if (body.grant_type === 'authorization_code' && body.code && codes.delete(body.code)) {
+    return res.json(issueTokens());
+  }
+  if (body.grant_type === 'refresh_token' && body.refresh_token && refreshTokens.has(body.refresh_token)) {
+    return res.json(issueTokens(body.refresh_token));
+  }
+  res.status(400).json({ error: 'invalid_grant', error_description: 'Unknown or used code / refresh token' });
+});
+
+app.post('/revoke', (req: Request, res: Response) => {
+  const t = typeof req.query.token === 'string' ? req.query.token : '';
+  refreshTokens.delete(t);
+  accessTokens.delete(t);
+  res.json({});
+});
+
+// ——— Data API ———
+
+app.get('/youtube/v3/channels', (req: Request, res: Response) => {
+  if (!authorized(req, res)) return;
+  res.json({ items: [{ id: CHANNEL.id, snippet: { title: CHANNEL.title } }] });
+});
+
+app.post('/upload/youtube/v3/videos', express.json(), (req: Request, res: Response) => {
+  if (!authorized(req, res)) return;
+  if (req.query.uploadType !== 'resumable') return apiError(res, 400, 'Only resumable uploads are supported');
+  const size = parseInt(String(req.headers['x-upload-content-length'] ?? ''), 10);
+  if (!Number.isFinite(size) || size <= 0) return apiError(res, 400, 'X-Upload-Content-Length is required');
+  const resource = (req.body ?? {}) as { snippet?: { title?: unknown } };
+  if (typeof resource.snippet?.title !== 'string' || !resource.snippet.title) return apiError(res, 400, 'snippet.title is required');
+  const id = token('upload');
+  sessions.set(id, { id, resource: req.body as Record<string, unknown>, size, received: 0 });
+  res.setHeader('Location', `${BASE_URL}/upload/youtube/v3/videos?uploadType=resumable&upload_id=${id}`);
+  res.status(200).end();
+});
+
+function finishedVideo(session: UploadSession): MockVideo {
+  if (!session.videoId) {
+    const resource = session.resource as { snippet?: Record<string, unknown>; status?: Record<string, unknown> };
+    const video: MockVideo = {
+      id: randomBytes(6).toString('base64url').slice(0, 11),
+      snippet: { ...(resource.snippet ?? {}), channelId: CHANNEL.id },
+      status: { ...(resource.status ?? {}), uploadStatus: 'uploaded' },
+      sizeBytes: session.size,
+      uploadedAt: Date.now(),
+      captions: []
+    };
+    videos.set(video.id, video);
+    session.videoId = video.id;
+  }
+  return videos.get(session.videoId)!;
+}
+
+function incomplete(res: Response, session: UploadSession) {
+  if (session.received > 0) res.setHeader('Range', `bytes=0-${session.received - 1}`);
+  res.status(308).end();
+}
+
+app.put('/upload/youtube/v3/videos', express.raw({ type: () => true, limit: '512mb' }), (req: Request, res: Response) => {
+  if (!authorized(req, res)) return;
+  const session = sessions.get(String(req.query.upload_id ?? ''));
+  if (!session) return apiError(res, 404, 'Upload session not found');
+  const range = String(req.headers['content-range'] ?? '');
+  const status = /^bytes \*\/(\d+)$/.exec(range);
+  if (status) {
+    if (session.received >= session.size) return res.status(200).json(finishedVideo(session));
+    return incomplete(res, session);
+  }
+  const m = /^bytes (\d+)-(\d+)\/(\d+)$/.exec(range);
+  const chunk = req.body as Buffer;
+  if (!m || parseInt(m[3], 10) !== session.size) return apiError(res, 400, 'Invalid Content-Range');
+  const start = parseInt(m[1], 10);
+  const end = parseInt(m[2], 10);
+  if (start !== session.received || end - start + 1 !== chunk.length) return apiError(res, 400, 'Chunk does not continue the upload');
+  chunkCount++;
+  if (FAIL_CHUNK && chunkCount === FAIL_CHUNK) return apiError(res, 503, 'Backend Error (simulated)');
+  session.received = end + 1;
+  if (session.received >= session.size) return res.status(201).json(finishedVideo(session));
+  incomplete(res, session);
+});
+
+app.post('/upload/youtube/v3/thumbnails/set', express.raw({ type: () => true, limit: '10mb' }), (req: Request, res: Response) => {
+  if (!authorized(req, res)) return;
+  const video = videos.get(String(req.query.videoId ?? ''));
+  if (!video) return apiError(res, 404, 'Video not found');
+  video.thumbnailBytes = (req.body as Buffer).length;
+  res.json({ kind: 'youtube#thumbnailSetResponse', items: [{ default: { url: `${BASE_URL}/mock/thumbnails/${video.id}.jpg` } }] });
+});
+
+app.post('/upload/youtube/v3/captions', express.raw({ type: () => true, limit: '10mb' }), (req: Request, res: Response) => {
+  if (!authorized(req, res)) return;
+  const raw = (req.body as Buffer).toString('utf8');
+  const json = /\{[\s\S]*?\}\s*\}/.exec(raw);
+  let snippet: { videoId?: string; language?: string; name?: string } = {};
+  try {
+    snippet = (JSON.parse(json?.[0] ?? '{}') as { snippet?: typeof snippet }).snippet ?? {};
+  } catch {
+    return apiError(res, 400, 'Invalid caption metadata');
+  }
+  const video = videos.get(snippet.videoId ?? '');
+  if (!video) return apiError(res, 404, 'Video not found');
+  const caption = { id: token('caption'), language: snippet.language ?? '', name: snippet.name ?? '', bytes: raw.length };
+  video.captions.push(caption);
+  res.json({ kind: 'youtube#caption', id: caption.id, snippet: { ...snippet, status: 'serving' } });
+});
+
+app.get('/youtube/v3/videos', (req: Request, res: Response) => {
+  if (!authorized(req, res)) return;
+  const ids = String(req.query.id ?? '').split(',').filter(Boolean);
+  const items = ids.flatMap((id) => {
+    const video = videos.get(id);
+    if (!video) return [];
+    const views = syntheticViews(video);
+    return [{ id, statistics: { viewCount: String(views), likeCount: String(Math.floor(views * 0.04)), commentCount: String(Math.floor(views * 0.005)) } }];
+  });
+  res.json({ kind: 'youtube#videoListResponse', items });
+});
+
+/** A view every few seconds since upload, plus a per-video offset so groups differ. */
+function syntheticViews(video: MockVideo): number {
+  const offset = video.id.charCodeAt(0) * 3;
+  return offset + Math.floor((Date.now() - video.uploadedAt) / 5000);
+}
+
+// ——— Analytics API ———
+
+app.get('/v2/reports', (req: Request, res: Response) => {
+  if (!authorized(req, res)) return;
+  const video = videos.get(/^video==(.+)$/.exec(String(req.query.filters ?? ''))?.[1] ?? '');
+  if (!video) return apiError(res, 403, 'Forbidden');
+  const keep = 0.35 + (video.id.charCodeAt(1) % 30) / 100;
+  if (req.query.dimensions === 'elapsedVideoTimeRatio') {
+    const rows = Array.from({ length: 20 }, (_, i) => {
+      const at = (i + 1) / 20;
+      return [at, Math.round((1 - (1 - keep) * at) * 1000) / 1000];
+    });
+    return res.json({ columnHeaders: [{ name: 'elapsedVideoTimeRatio' }, { name: 'audienceWatchRatio' }], rows });
+  }
+  res.json({
+    columnHeaders: [{ name: 'averageViewDuration' }, { name: 'averageViewPercentage' }],
+    rows: [[Math.round(40 * keep), Math.round(keep * 1000) / 10]]
+  });
+});
+
+// ——— Inspection ———
+
+app.get('/mock/videos', (_req: Request, res: Response) => {
+  res.json({ videos: [...videos.values()], openSessions: [...sessions.values()].filter((s) => !s.videoId).length });
+});
+
+app.listen(PORT, () => {
+  logger.info(`Mock YouTube API on ${BASE_URL}`, {
+    YOUTUBE_OAUTH_AUTH_URL: `${BASE_URL}/o/oauth2/v2/auth`,
+    YOUTUBE_OAUTH_TOKEN_URL: `${BASE_URL}/token`,
+    YOUTUBE_OAUTH_REVOKE_URL: `${BASE_URL}/revoke`,
+    YOUTUBE_API_BASE_URL: BASE_URL,
+    YOUTUBE_ANALYTICS_BASE_URL: BASE_URL
+  });
+});
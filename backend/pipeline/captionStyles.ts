@@ -0,0 +1,138 @@
+/**
+ * Named caption looks for burned-in subtitles. A project stores the preset id (ProjectDoc.captionStyle);
+ * automate_shorts.js reads it from CAPTION_STYLE and applies it to both the ASS and the drawtext paths.
+ */
+
+export type CaptionStyleId = 'classic' | 'clean' | 'karaoke' | 'bold_center' | 'minimal';
+
+export type CaptionPosition = 'bottom' | 'center' | 'top';
+
+export type CaptionStyle = {
+  id: CaptionStyleId;
+  label: string;
+  fontName: string;
+  /** Font size on the 1080x1920 caption canvas. */
+  fontSize: number;
+  /** Text colour per line (#RRGGBB). With two colours each chunk is split over two lines. */
+  lineColors: [string] | [string, string];
+  outlineColor: string;
+  outline: number;
+  shadow: number;
+  position: CaptionPosition;
+  /** Distance from the anchored edge (ignored for center). */
+  marginV: number;
+  wordsPerChunk: number;
+  uppercase: boolean;
+  italic: boolean;
+  /** Colour of the word being spoken; unset disables karaoke highlighting. */
+  highlightColor?: string;
+};
+
+export const CAPTION_STYLES: Record<CaptionStyleId, CaptionStyle> = {
+  classic: {
+    id: 'classic',
+    label: 'Classic (red/yellow, bold)',
+    fontName: 'Arial',
+    fontSize: 102,
+    lineColors: ['#FF0000', '#FFFF00'],
+    outlineColor: '#000000',
+    outline: 4,
+    shadow: 2,
+    position: 'bottom',
+    marginV: 300,
+    wordsPerChunk: 4,
+    uppercase: true,
+    italic: true
+  },
+  clean: {
+    id: 'clean',
+    label: 'Clean (white, sentence case)',
+    fontName: 'Helvetica',
+    fontSize: 84,
+    lineColors: ['#FFFFFF'],
+    outlineColor: '#000000',
+    outline: 3,
+    shadow: 1,
+    position: 'bottom',
+    marginV: 260,
+    wordsPerChunk: 5,
+    uppercase: false,
+    italic: false
+  },
+  karaoke: {
+    id: 'karaoke',
+    label: 'Karaoke (spoken word highlighted)',
+    fontName: 'Arial',
+    fontSize: 96,
+    lineColors: ['#FFFFFF', '#FFFFFF'],
+    outlineColor: '#000000',
+    outline: 5,
+    shadow: 2,
+    position: 'bottom',
+    marginV: 320,
+    wordsPerChunk: 4,
+    uppercase: true,
+    italic: false,
+    highlightColor: '#FFD400'
+  },
+  bold_center: {
+    id: 'bold_center',
+    label: 'Bold center (yellow, mid-screen)',
+    fontName: 'Impact',
+    fontSize: 120,
+    lineColors: ['#FFE600'],
+    outlineColor: '#000000',
+    outline: 6,
+    shadow: 3,
+    position: 'center',
+    marginV: 0,
+    wordsPerChunk: 2,
+    uppercase: true,
+    italic: false
+  },
+  minimal: {
+    id: 'minimal',
+    label: 'Minimal (small, lower third)',
+    fontName: 'Helvetica',
+    fontSize: 64,
+    lineColors: ['#FFFFFF'],
+    outlineColor: '#000000',
+    outline: 2,
+    shadow: 0,
+    position: 'bottom',
+    marginV: 180,
+    wordsPerChunk: 7,
+    uppercase: false,
+    italic: false
+  }
+};
+
+export const CAPTION_STYLE_IDS = Object.keys(CAPTION_STYLES) as CaptionStyleId[];
+
+export const DEFAULT_CAPTION_STYLE: CaptionStyleId = 'classic';
+
+export function isCaptionStyleId(value: unknown): value is CaptionStyleId {
+  return typeof value === 'string' && (CAPTION_STYLE_IDS as string[]).includes(value);
+}
+
+/** Preset by id; unknown or empty ids fall back to the classic look. */
+export function getCaptionStyle(id: string | undefined): CaptionStyle {
+  const key = (id ?? '').trim().toLowerCase();
+  return isCaptionStyleId(key) ? CAPTION_STYLES[key] : CAPTION_STYLES[DEFAULT_CAPTION_STYLE];
+}
+
+/** #RRGGBB to the 8-digit &H00BBGGRR& form libass expects. */
+export function toAssColor(hex: string): string {
+  const h = hex.replace(/^#/, '').padStart(6, '0').toUpperCase();
+  return `&H00${h.slice(4, 6)}${h.slice(2, 4)}${h.slice(0, 2)}&`;
+}
+
+/** #RRGGBB to FFmpeg's 0xRRGGBB colour syntax (drawtext fontcolor/bordercolor). */
+export function toFfmpegColor(hex: string): string {
+  return '0x' + hex.replace(/^#/, '').padStart(6, '0').toUpperCase();
+}
+
+/** ASS numpad alignment: 2 bottom-center, 5 middle-center, 8 top-center. */
+export function assAlignment(position: CaptionPosition): number {
+  return position === 'top' ? 8 : position === 'center' ? 5 : 2;
+}
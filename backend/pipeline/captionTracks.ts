@@ -0,0 +1,48 @@
+/**
+ * Closed-caption sidecar files written next to final_short.mp4: `captions.srt` / `captions.vtt` in the
+ * narration language, plus `captions.<lang>.srt` / `.vtt` for each translated track (ProjectDoc.captionLanguages).
+ */
+
+export type CaptionFormat = 'srt' | 'vtt';
+
+/** BCP 47-ish language tag: "es", "de", "pt-BR", "zh-Hans". */
+const LANGUAGE_TAG = /^[a-z]{2,3}(-[A-Za-z0-9]{2,8})?$/;
+
+export const MAX_CAPTION_LANGUAGES = 5;
+
+/** Matches caption sidecars; group 1 is the language of a translated track (absent for the source track). */
+export const CAPTION_FILE_PATTERN = /^captions(?:\.([a-z]{2,3}(?:-[A-Za-z0-9]{2,8})?))?\.(srt|vtt)$/;
+
+export function isCaptionLanguage(value: unknown): value is string {
+  return typeof value === 'string' && LANGUAGE_TAG.test(value);
+}
+
+/**
+ * Parse a language list from an API body (array) or env (comma-separated). Returns null when any entry is
+ * invalid; duplicates are dropped.
+ */
+export function parseCaptionLanguages(value: unknown): string[] | null {
+  const raw = Array.isArray(value) ? value : typeof value === 'string' ? value.split(',') : null;
+  if (!raw) return null;
+  const out: string[] = [];
+  for (const entry of raw) {
+    const tag = typeof entry === 'string' ? entry.trim() : entry;
+    if (tag === '') continue;
+    if (!isCaptionLanguage(tag)) return null;
+    if (!out.includes(tag)) out.push(tag);
+  }
+  return out;
+}
+
+export function captionFileName(language: string | null, format: CaptionFormat): string {
+  return language ? `captions.${language}.${format}` : `captions.${format}`;
+}
+
+/** English display name for prompts and UI ("es" → "Spanish"); falls back to the tag. */
+export function captionLanguageName(language: string): string {
+  try {
+    return new Intl.DisplayNames(['en'], { type: 'language' }).of(language) ?? language;
+  } catch {
+    return language;
+  }
+}
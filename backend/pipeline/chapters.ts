@@ -0,0 +1,82 @@
+/**
+ * YouTube chapters for the long formats (5min, 11min). automate_shorts.js groups scenes into chapters at assembly,
+ * takes each chapter's start from the segment map, writes chapters.json and appends the list to the description.
+ * YouTube only shows chapters when the list starts at 00:00, has at least three entries and every chapter lasts
+ * at least ten seconds.
+ */
+
+export type Chapter = {
+  /** First scene (segment) of the chapter. */
+  sceneIndex: number;
+  startSec: number;
+  title: string;
+};
+
+export const MIN_CHAPTERS = 3;
+export const MIN_CHAPTER_SEC = 10;
+export const MAX_CHAPTER_TITLE_CHARS = 60;
+
+/** Roughly one chapter per minute and a half of video, within YouTube's minimum and a readable maximum. */
+export function targetChapterCount(durationSec: number): number {
+  return Math.max(MIN_CHAPTERS, Math.min(12, Math.round(durationSec / 90)));
+}
+
+/**
+ * Build chapters from proposed first scenes and titles, timed by the segments' start times. The first chapter
+ * always starts at 00:00; starts out of order or out of range are dropped and a chapter shorter than
+ * MIN_CHAPTER_SEC is merged into the one before it. Returns null when fewer than MIN_CHAPTERS remain.
+ */
+export function buildChapters(
+  proposals: Array<{ sceneIndex: number; title: string }>,
+  segments: Array<{ startSec: number }>,
+  durationSec: number
+): Chapter[] | null {
+  const chapters: Chapter[] = [];
+  for (const p of [...proposals].sort((a, b) => a.sceneIndex - b.sceneIndex)) {
+    const title = cleanChapterTitle(p.title);
+    if (!title || !Number.isInteger(p.sceneIndex) || p.sceneIndex < 0 || p.sceneIndex >= segments.length) continue;
+    const startSec = chapters.length === 0 ? 0 : segments[p.sceneIndex].startSec;
+    const prev = chapters[chapters.length - 1];
+    if (prev && (p.sceneIndex <= prev.sceneIndex || startSec - prev.startSec < MIN_CHAPTER_SEC)) continue;
+    chapters.push({ sceneIndex: chapters.length === 0 ? 0 : p.sceneIndex, startSec, title });
+  }
+  const last = chapters[chapters.length - 1];
+  if (last && chapters.length > 1 && durationSec - last.startSec < MIN_CHAPTER_SEC) chapters.pop();
+  return chapters.length >= MIN_CHAPTERS ? chapters : null;
+}
+
+/** Split scenes into `count` groups of about equal running time; returns each group's first scene. */
+export function evenChapterStarts(segments: Array<{ startSec: number }>, durationSec: number, count: number): number[] {
+  const starts = [0];
+  for (let k = 1; k < count; k++) {
+    const target = (durationSec * k) / count;
+    let best = -1;
+    for (let i = 1; i < segments.length; i++) {
+      if (best === -1 || Math.abs(segments[i].startSec - target) < Math.abs(segments[best].startSec - target)) best = i;
+    }
+    if (best > starts[starts.length - 1]) starts.push(best);
+  }
+  return starts;
+}
+
+function cleanChapterTitle(title: unknown): string {
+  if (typeof title !== 'string') return '';
+  const oneLine = title.replace(/\s+/g, ' ').trim();
+  return oneLine.length > MAX_CHAPTER_TITLE_CHARS ? `${oneLine.slice(0, MAX_CHAPTER_TITLE_CHARS - 1).trimEnd()}…` : oneLine;
+}
+
+/** 75.4 → "01:15"; hours are added (h:mm:ss) only for videos of an hour or more. */
+export function formatChapterTimestamp(sec: number, durationSec: number): string {
+  const total = Math.floor(sec);
+  const h = Math.floor(total / 3600);
+  const m = Math.floor((total % 3600) / 60);
+  const s = total % 60;
+  const pad = (n: number) => String(n).padStart(2, '0');
+  return durationSec >= 3600 ? `${h}:${pad(m)}:${pad(s)}` : `${pad(m + h * 60)}:${pad(s)}`;
+}
+
+/** The description with the chapter list appended, one `00:00 Title` line per chapter. */
+export function appendChapterList(description: string, chapters: Chapter[], durationSec: number): string {
+  const list = chapters.map((c) => `${formatChapterTimestamp(c.startSec, durationSec)} ${c.title}`).join('\n');
+  return description.trim() ? `${description.trim()}\n\nChapters:\n${list}` : `Chapters:\n${list}`;
+}
@@ -0,0 +1,18 @@
+/**
+ * Clip provider ids without the providers, so config can resolve the default provider without loading them.
+ */
+
+export type ClipProviderId = 'manual' | 'grok' | 'stock';
+
+export const CLIP_PROVIDER_IDS: ClipProviderId[] = ['manual', 'grok', 'stock'];
+
+export function isClipProviderId(value: unknown): value is ClipProviderId {
+  return typeof value === 'string' && (CLIP_PROVIDER_IDS as string[]).includes(value);
+}
+
+/** CLIP_PROVIDER when set; otherwise MANUAL_GROK decides between manual (the default) and grok. */
+export function resolveClipProviderId(raw: string | undefined, manualGrok = process.env.MANUAL_GROK): ClipProviderId {
+  const v = (raw ?? '').trim().toLowerCase();
+  if (isClipProviderId(v)) return v;
+  return manualGrok === 'false' || manualGrok === '0' ? 'grok' : 'manual';
+}
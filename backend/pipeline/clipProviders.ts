@@ -0,0 +1,275 @@
+import fs from 'fs';
+import path from 'path';
+import axios from 'axios';
+import { resolveClipProviderId, type ClipProviderId } from './clipProviderIds';
+
+/**
+ * Clip sources for step 3. Every automatic provider writes `clip_N.mp4` into the workspace for scene N, the same
+ * file a manual upload would be, so assembly does not care where a clip came from.
+ */
+
+export { CLIP_PROVIDER_IDS, isClipProviderId, resolveClipProviderId, type ClipProviderId } from './clipProviderIds';
+
+export type ClipRequest = {
+  /** Scene prompt from script.json. */
+  prompt: string;
+  index: number;
+  aspectRatio: '9:16' | '16:9';
+  /** Source files already used for earlier scenes, so a provider can avoid repeating footage. */
+  usedSources?: Set<string>;
+  /** Status lines while a clip is in progress (polling, downloading). */
+  onStatus?: (message: string) => void;
+};
+
+export type ClipResult = {
+  /** Where the clip came from: a remote request id or a library file. */
+  source?: string;
+  /** Stock match score; 0 means no tag matched and the least-used clip was taken. */
+  score?: number;
+};
+
+export interface ClipProvider {
+  id: ClipProviderId;
+  label: string;
+  requiresNetwork: boolean;
+  /** False for the manual provider: clips are uploaded by a person and the pipeline waits for them. */
+  automatic: boolean;
+  /** Env var that must be set for this provider, if any (checked before the clips step). */
+  requiredEnv?: { name: string; value: string | undefined };
+  generateClip(request: ClipRequest, outputPath: string): Promise<ClipResult>;
+}
+
+function normalizeEnvValue(value: string | undefined): string | undefined {
+  if (!value) return undefined;
+  const trimmed = value.trim();
+  if (!trimmed) return undefined;
+  return trimmed.replace(/^['"]|['"]$/g, '');
+}
+
+// ——— Manual ———
+
+const manualProvider: ClipProvider = {
+  id: 'manual',
+  label: 'Manual upload',
+  requiresNetwork: false,
+  automatic: false,
+  async generateClip(request) {
+    throw new Error(`Clip ${request.index}: the manual provider does not generate clips; upload clip_${request.index}.mp4`);
+  }
+};
+
+// ——— Grok (xAI) ———
+
+const XAI_API_KEY = normalizeEnvValue(process.env.XAI_API_KEY);
+const GROK_POLL_MS = 5000;
+
+const grokProvider: ClipProvider = {
+  id: 'grok',
+  label: 'Grok (xAI video)',
+  requiresNetwork: true,
+  automatic: true,
+  requiredEnv: { name: 'XAI_API_KEY', value: XAI_API_KEY },
+  async generateClip(request, outputPath) {
+    const { prompt, index } = request;
+    const status = request.onStatus ?? (() => {});
+    if (!prompt || prompt.trim() === '') throw new Error(`Clip ${index}: scene prompt is required`);
+    if (!XAI_API_KEY) throw new Error('Missing XAI_API_KEY for Grok video generation.');
+    const headers = { Authorization: `Bearer ${XAI_API_KEY}` };
+
+    let requestId: string;
+    try {
+      const startResponse = await axios.post<{ request_id: string }>(
+        'https://api.x.ai/v1/videos/generations',
+        {
+          model: 'grok-imagine-video', // verify current model at x.ai/docs
+          prompt,
+          aspect_ratio: request.aspectRatio,
+          duration: 5,
+          resolution: '720p'
+        },
+        { headers }
+      );
+      requestId = startResponse.data.request_id;
+    } catch (err: unknown) {
+      const code = axios.isAxiosError(err) ? err.response?.status : null;
+      const body = axios.isAxiosError(err) ? err.response?.data : null;
+      if (code === 403) {
+        status('403 Forbidden from xAI: XAI_API_KEY invalid, expired, or missing video access (the video API may be limited beta)');
+      }
+      status(`Request failed: ${code ?? ''} ${body ? JSON.stringify(body) : (err as Error).message}`);
+      throw err;
+    }
+    status(`request_id=${requestId}, polling for completion`);
+
+    // xAI returns { video: { url }, model } when done; no "status" field.
+    let videoUrl: string | null = null;
+    for (let poll = 1; !videoUrl; poll++) {
+      await new Promise((r) => setTimeout(r, GROK_POLL_MS));
+      const { data } = await axios.get<Record<string, unknown>>(`https://api.x.ai/v1/videos/${requestId}`, { headers });
+      const state = (data.status ?? data.state ?? data.job_status) as string | undefined;
+      const video = data.video as { url?: string } | undefined;
+      videoUrl = video?.url ?? (data.output_url as string) ?? (data.url as string) ?? (data.video_url as string) ?? null;
+      if (videoUrl) break;
+      status(`poll #${poll} — status=${state ?? 'pending'}`);
+      if (state === 'failed' || state === 'error') {
+        const errMsg = (data.error as { message?: string })?.message ?? (data.message as string) ?? 'unknown';
+        throw new Error(`Grok generation failed: ${errMsg}`);
+      }
+    }
+
+    status(`downloading to ${outputPath}`);
+    const writer = fs.createWriteStream(outputPath);
+    const response = await axios({ url: videoUrl, method: 'GET', responseType: 'stream' });
+    response.data.pipe(writer);
+    await new Promise((resolve, reject) => {
+      writer.on('finish', resolve);
+      writer.on('error', reject);
+    });
+    return { source: requestId };
+  }
+};
+
+// ——— Stock footage (local library) ———
+
+/**
+ * A library clip. Tags come from a `<name>.json` sidecar (`{ "tags": [...], "description": "..." }`), a `tags.json`
+ * manifest in the folder (`{ "<file>.mp4": ["tag", ...] }`), the folder names and the file name.
+ */
+export type StockClip = {
+  path: string;
+  /** Path relative to the library root; what `usedSources` holds. */
+  relPath: string;
+  tags: string[];
+  words: string[];
+  orientation?: 'portrait' | 'landscape';
+};
+
+const STOCK_STOPWORDS = new Set(
+  'a an and are as at be by for from in into is it its of on or over the their this to under with while cinematic shot scene video clip camera vertical horizontal 9 16 close up wide slow motion 4k hd'.split(' ')
+);
+
+export function tokenize(text: string): string[] {
+  return text
+    .toLowerCase()
+    .split(/[^a-z0-9]+/)
+    .map((w) => (w.length > 3 && w.endsWith('s') && !w.endsWith('ss') ? w.slice(0, -1) : w))
+    .filter((w) => w.length > 1 && !STOCK_STOPWORDS.has(w));
+}
+
+function readJson(filePath: string): unknown {
+  try {
+    return JSON.parse(fs.readFileSync(filePath, 'utf-8'));
+  } catch {
+    return null;
+  }
+}
+
+/** Walk `root` for mp4s and collect their tags. Unreadable sidecars are ignored. */
+export function indexStockLibrary(root: string): StockClip[] {
+  const clips: StockClip[] = [];
+  const walk = (dir: string, folderTags: string[]) => {
+    let entries: fs.Dirent[];
+    try {
+      entries = fs.readdirSync(dir, { withFileTypes: true });
+    } catch {
+      return;
+    }
+    const manifest = readJson(path.join(dir, 'tags.json')) as Record<string, unknown> | null;
+    for (const entry of entries.sort((a, b) => a.name.localeCompare(b.name))) {
+      const full = path.join(dir, entry.name);
+      if (entry.isDirectory()) {
+        if (!entry.name.startsWith('.')) walk(full, [...folderTags, ...tokenize(entry.name)]);
+        continue;
+      }
+      if (!/\.mp4$/i.test(entry.name)) continue;
+      const base = entry.name.replace(/\.mp4$/i, '');
+      const sidecar = readJson(path.join(dir, `${base}.json`)) as { tags?: unknown; description?: unknown; orientation?: unknown } | null;
+      const listed = manifest?.[entry.name];
+      const tags = [
+        ...(Array.isArray(sidecar?.tags) ? sidecar!.tags : []),
+        ...(Array.isArray(listed) ? listed : [])
+      ].filter((t): t is string => typeof t === 'string');
+      const orientation = sidecar?.orientation === 'portrait' || sidecar?.orientation === 'landscape' ? sidecar.orientation : undefined;
+      clips.push({
+        path: full,
+        relPath: path.relative(root, full),
+        tags: Array.from(new Set(tags.flatMap(tokenize))),
+        words: Array.from(new Set([...folderTags, ...tokenize(base), ...tokenize(typeof sidecar?.description === 'string' ? sidecar.description : '')])),
+        ...(orientation ? { orientation } : {})
+      });
+    }
+  };
+  walk(root, []);
+  return clips;
+}
+
+/** Tag hits count three times a name/description hit; footage in the wrong orientation and reused footage lose points. */
+export function scoreStockClip(clip: StockClip, promptWords: Set<string>, aspectRatio: '9:16' | '16:9', usedCount: number): number {
+  let score = 0;
+  for (const tag of clip.tags) if (promptWords.has(tag)) score += 3;
+  for (const word of clip.words) if (promptWords.has(word) && !clip.tags.includes(word)) score += 1;
+  if (score === 0) return 0;
+  const wanted = aspectRatio === '16:9' ? 'landscape' : 'portrait';
+  if (clip.orientation && clip.orientation !== wanted) score -= 1;
+  return Math.max(0.1, score - usedCount * 2);
+}
+
+/** Best match for a prompt, or the least-used clip when nothing matches. Null for an empty library. */
+export function pickStockClip(
+  library: StockClip[],
+  prompt: string,
+  aspectRatio: '9:16' | '16:9',
+  usedSources: Set<string> | undefined
+): { clip: StockClip; score: number } | null {
+  if (library.length === 0) return null;
+  const promptWords = new Set(tokenize(prompt));
+  const used = (c: StockClip) => (usedSources?.has(c.relPath) ? 1 : 0);
+  let best: { clip: StockClip; score: number } | null = null;
+  for (const clip of library) {
+    const score = scoreStockClip(clip, promptWords, aspectRatio, used(clip));
+    if (!best || score > best.score) best = { clip, score };
+  }
+  if (best && best.score > 0) return best;
+  const fresh = library.find((c) => !used(c)) ?? library[0];
+  return { clip: fresh, score: 0 };
+}
+
+const STOCK_FOOTAGE_DIR = normalizeEnvValue(process.env.STOCK_FOOTAGE_DIR);
+let stockLibrary: StockClip[] | null = null;
+
+export function getStockLibrary(): StockClip[] {
+  if (!STOCK_FOOTAGE_DIR) return [];
+  stockLibrary ??= indexStockLibrary(path.resolve(STOCK_FOOTAGE_DIR));
+  return stockLibrary;
+}
+
+const stockProvider: ClipProvider = {
+  id: 'stock',
+  label: 'Stock footage library',
+  requiresNetwork: false,
+  automatic: true,
+  requiredEnv: { name: 'STOCK_FOOTAGE_DIR', value: STOCK_FOOTAGE_DIR },
+  async generateClip(request, outputPath) {
+    const library = getStockLibrary();
+    const pick = pickStockClip(library, request.prompt, request.aspectRatio, request.usedSources);
+    if (!pick) throw new Error(`No .mp4 files found in STOCK_FOOTAGE_DIR (${STOCK_FOOTAGE_DIR ?? 'unset'})`);
+    request.onStatus?.(
+      pick.score > 0
+        ? `matched ${pick.clip.relPath} (score ${pick.score})`
+        : `no tag matched; using ${pick.clip.relPath}`
+    );
+    fs.copyFileSync(pick.clip.path, outputPath);
+    request.usedSources?.add(pick.clip.relPath);
+    return { source: pick.clip.relPath, score: pick.score };
+  }
+};
+
+const PROVIDERS: Record<ClipProviderId, ClipProvider> = {
+  manual: manualProvider,
+  grok: grokProvider,
+  stock: stockProvider
+};
+
+export function getClipProvider(id: string | undefined): ClipProvider {
+  return PROVIDERS[resolveClipProviderId(id)];
+}
@@ -0,0 +1,61 @@
+/**
+ * Extra aspect ratios for an assembled project. An export re-renders step 4 from the project's existing script,
+ * scene audio and clips into export_<id>.mp4 (env EXPORT_PROFILE), with captions refitted to the frame.
+ */
+
+import type { CaptionStyle } from './captionStyles';
+
+export type ExportProfileId = 'vertical' | 'square' | 'landscape';
+
+export type ExportProfile = {
+  id: ExportProfileId;
+  label: string;
+  aspectRatio: '9:16' | '1:1' | '16:9';
+  width: number;
+  height: number;
+  /**
+   * Caption distance from the anchored edge as a share of the frame height. Vertical keeps the style's own margin,
+   * which leaves room for the Shorts UI; feed and landscape players cover much less of the frame.
+   */
+  captionMargin?: number;
+};
+
+export const EXPORT_PROFILES: Record<ExportProfileId, ExportProfile> = {
+  vertical: { id: 'vertical', label: 'Vertical 9:16 (Shorts, Reels, TikTok)', aspectRatio: '9:16', width: 1080, height: 1920 },
+  square: { id: 'square', label: 'Square 1:1 (feed post)', aspectRatio: '1:1', width: 1080, height: 1080, captionMargin: 0.09 },
+  landscape: { id: 'landscape', label: 'Landscape 16:9 (teaser)', aspectRatio: '16:9', width: 1920, height: 1080, captionMargin: 0.08 }
+};
+
+export const EXPORT_PROFILE_IDS = Object.keys(EXPORT_PROFILES) as ExportProfileId[];
+
+export function isExportProfileId(value: unknown): value is ExportProfileId {
+  return typeof value === 'string' && (EXPORT_PROFILE_IDS as string[]).includes(value);
+}
+
+export function exportFileName(id: ExportProfileId): string {
+  return `export_${id}.mp4`;
+}
+
+/** Caption style sizes are set on the 1080x1920 canvas. */
+const CAPTION_CANVAS = { width: 1080, height: 1920 };
+
+/**
+ * The caption style laid out on the profile's frame: text and outline scale with the frame's tighter side so a line
+ * still fits, and the margin moves to the profile's safe area.
+ */
+export function fitCaptionStyle(style: CaptionStyle, profile: ExportProfile): CaptionStyle {
+  const scale = Math.min(profile.width / CAPTION_CANVAS.width, profile.height / CAPTION_CANVAS.height);
+  const marginV =
+    style.position === 'center'
+      ? style.marginV
+      : profile.captionMargin !== undefined
+        ? Math.round(profile.height * profile.captionMargin)
+        : Math.round(style.marginV * (profile.height / CAPTION_CANVAS.height));
+  return {
+    ...style,
+    fontSize: Math.round(style.fontSize * scale),
+    outline: Math.max(1, Math.round(style.outline * scale)),
+    shadow: Math.round(style.shadow * scale),
+    marginV
+  };
+}
@@ -0,0 +1,110 @@
+/**
+ * Camera motion for still-image scenes (image_N.jpg/png → from_image_N.mp4 at assembly). A scene in script.json
+ * can set `"motion"` and `"motionIntensity"` (0–1); scenes without one get an automatic, non-repeating motion.
+ */
+
+export type MotionPresetId = 'zoom_in' | 'zoom_out' | 'pan_left' | 'pan_right' | 'ken_burns' | 'parallax_push';
+
+export const MOTION_PRESET_IDS: MotionPresetId[] = ['zoom_in', 'zoom_out', 'pan_left', 'pan_right', 'ken_burns', 'parallax_push'];
+
+export const MOTION_PRESET_LABELS: Record<MotionPresetId, string> = {
+  zoom_in: 'Slow zoom in',
+  zoom_out: 'Slow zoom out',
+  pan_left: 'Pan left',
+  pan_right: 'Pan right',
+  ken_burns: 'Diagonal Ken Burns',
+  parallax_push: 'Parallax push'
+};
+
+export const DEFAULT_MOTION_INTENSITY = 0.5;
+
+/** Order used for automatic picks; neighbours differ in direction so consecutive stills never look alike. */
+const AUTO_ORDER: MotionPresetId[] = ['zoom_in', 'pan_right', 'zoom_out', 'ken_burns', 'pan_left', 'parallax_push'];
+
+export function isMotionPresetId(value: unknown): value is MotionPresetId {
+  return typeof value === 'string' && (MOTION_PRESET_IDS as string[]).includes(value);
+}
+
+/** Intensity in 0.1–1, or null when not a number. */
+export function parseMotionIntensity(value: unknown): number | null {
+  const n = typeof value === 'number' ? value : typeof value === 'string' && value.trim() ? Number(value) : NaN;
+  if (!Number.isFinite(n)) return null;
+  return Math.min(1, Math.max(0.1, Number(n.toFixed(2))));
+}
+
+export type ImageMotion = { preset: MotionPresetId; intensity: number; auto: boolean };
+
+/**
+ * Resolve the motion for each still-image scene, in timeline order. Explicit presets are kept; the rest walk
+ * AUTO_ORDER, skipping whatever the previous still used.
+ */
+export function pickImageMotions(requested: Array<{ motion?: unknown; motionIntensity?: unknown }>): ImageMotion[] {
+  const out: ImageMotion[] = [];
+  let cursor = 0;
+  for (const r of requested) {
+    const intensity = parseMotionIntensity(r.motionIntensity) ?? DEFAULT_MOTION_INTENSITY;
+    if (isMotionPresetId(r.motion)) {
+      out.push({ preset: r.motion, intensity, auto: false });
+      continue;
+    }
+    const previous = out[out.length - 1]?.preset;
+    let preset = AUTO_ORDER[cursor % AUTO_ORDER.length];
+    if (preset === previous) {
+      cursor += 1;
+      preset = AUTO_ORDER[cursor % AUTO_ORDER.length];
+    }
+    cursor += 1;
+    out.push({ preset, intensity, auto: true });
+  }
+  return out;
+}
+
+/**
+ * zoompan filter for a preset. The input is expected pre-scaled to cover the output frame, so pans have room to
+ * travel once zoomed. Intensity 1 means up to 1.5x zoom; 0.5 matches the original 1.25x slow zoom.
+ */
+export function buildMotionFilter(motion: ImageMotion, totalFrames: number, width: number, height: number, fps: number): string {
+  const amount = (0.5 * motion.intensity).toFixed(4);
+  const last = Math.max(1, totalFrames - 1);
+  // Progress 0→1 over the clip; eased variant for the push so it accelerates into the subject.
+  const p = `(on/${last})`;
+  const eased = `(${p}*${p}*(3-2*${p}))`;
+  const cx = `(iw/2-(iw/zoom/2))`;
+  const cy = `(ih/2-(ih/zoom/2))`;
+  let z: string;
+  let x: string;
+  let y: string;
+  switch (motion.preset) {
+    case 'zoom_out':
+      z = `1+${amount}*(1-${p})`;
+      x = cx;
+      y = cy;
+      break;
+    case 'pan_left':
+      z = `1+${amount}`;
+      x = `(iw-iw/zoom)*(1-${p})`;
+      y = cy;
+      break;
+    case 'pan_right':
+      z = `1+${amount}`;
+      x = `(iw-iw/zoom)*${p}`;
+      y = cy;
+      break;
+    case 'ken_burns':
+      z = `1+${amount}*${p}`;
+      x = `(iw-iw/zoom)*${p}`;
+      y = `(ih-ih/zoom)*${p}`;
+      break;
+    case 'parallax_push':
+      z = `1+${amount}*${eased}`;
+      x = cx;
+      // Drift up while pushing in, like a camera rising toward the subject.
+      y = `(ih-ih/zoom)*(0.5-0.3*${eased})`;
+      break;
+    default:
+      z = `1+${amount}*${p}`;
+      x = cx;
+      y = cy;
+  }
+  return `zoompan=z='${z}':x='${x}':y='${y}':d=${totalFrames}:s=${width}x${height}:fps=${fps}`;
+}
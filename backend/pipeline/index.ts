@@ -1,11 +1,26 @@
 import path from 'path';
-import { spawn } from 'child_process';
+import { spawn, type ChildProcess } from 'child_process';
+import { isProgressMessage, type PipelineProgressEvent } from './progress';
+import type { TtsProviderId, TtsVoiceSettings } from './tts';
+import type { ClipProviderId } from './clipProviders';
+import type { CaptionStyleId } from './captionStyles';
+import type { TransitionId } from './transitions';
+import type { ExportProfileId } from './exportProfiles';
 
 export type RunShortOptions = {
   topic?: string;
   testMode?: boolean;
   reuseTemp?: boolean;
   runStep?: 1 | 2 | 3 | 4;
+  /**
+   * Instead of the steps: re-voice one scene, regenerate its clip, or just refresh after its clip was replaced; then
+   * rebuild audio.mp3, the segment map and alignment. Sets env SCENE_ACTION and SCENE_INDEX (implies reuseTemp).
+   */
+  sceneAction?: { action: SceneActionKind; index: number };
+  /** Step 4 as a quick preview.mp4 (low resolution, watermark, placeholders for missing clips). Sets env PREVIEW_RENDER. */
+  preview?: boolean;
+  /** Step 4 re-rendered into another aspect ratio as export_<id>.mp4, reusing scene audio. Sets env EXPORT_PROFILE. */
+  exportProfile?: ExportProfileId;
   /** When set, pipeline uses project workspace and output dirs */
   projectTempDir?: string;
   projectOutputDir?: string;
@@ -15,10 +30,36 @@ export type RunShortOptions = {
   scriptProvider?: 'openai' | 'grok';
   /** Optional absolute path to background music for assembly (step 4). Sets env BACKGROUND_MUSIC_PATH. */
   backgroundMusicPath?: string;
-  /** Start background music from this many seconds into the track (0 = from start). Sets env BACKGROUND_MUSIC_START_SEC. */
-  backgroundMusicStartSec?: number;
+  /** Start background music from this many seconds into the track (0 = from start), or 'auto' to pick a phrase-aligned offset. Sets env BACKGROUND_MUSIC_START_SEC. */
+  backgroundMusicStartSec?: number | 'auto';
+  /** Voiceover provider for steps 2 and 4. Sets env TTS_PROVIDER. */
+  ttsProvider?: TtsProviderId;
+  /** Clip source for step 3. Sets env CLIP_PROVIDER. */
+  clipProvider?: ClipProviderId;
+  /** Narrator voice id for the TTS provider. Sets env TTS_VOICE_ID. */
+  voiceId?: string;
+  /** Per-project voice settings. Sets env TTS_VOICE_SETTINGS (JSON). */
+  voiceSettings?: TtsVoiceSettings;
+  /** Caption look preset for burned-in subtitles (step 4). Sets env CAPTION_STYLE. */
+  captionStyle?: CaptionStyleId;
+  /** Default transition between scene clips (step 4). Sets env TRANSITION. */
+  transition?: TransitionId;
+  /** Integrated loudness target of the final mix in LUFS (step 4). Sets env LOUDNESS_TARGET_LUFS. */
+  loudnessTargetLufs?: number;
+  /** Burn chapter title cards into 5min/11min videos (step 4). Sets env CHAPTER_CARDS. */
+  chapterCards?: boolean;
+  /** Extra caption languages to translate into (step 4). Sets env CAPTION_LANGUAGES (comma-separated). */
+  captionLanguages?: string[];
+  /** Narration language of a dubbed variant. Sets env CONTENT_LANGUAGE and CAPTION_SOURCE_LANGUAGE. */
+  language?: string;
+  /** Receives structured progress events emitted by the child over IPC. */
+  onProgress?: (event: PipelineProgressEvent) => void;
+  /** Aborting kills the child process tree and rejects with a PIPELINE_CANCELLED error. */
+  signal?: AbortSignal;
 };
 
+export type SceneActionKind = 'audio' | 'clip' | 'refresh';
+
 export type RunShortResult = {
   topic: string;
   outputPath: string;
@@ -27,6 +68,39 @@ export type RunShortResult = {
   requiredFiles?: string[];
 };
 
+/** Message prefix of the error thrown when a run is stopped through RunShortOptions.signal. */
+export const PIPELINE_CANCELLED_PREFIX = 'PIPELINE_CANCELLED:';
+
+export function isPipelineCancelled(err: unknown): boolean {
+  return err instanceof Error && err.message.startsWith(PIPELINE_CANCELLED_PREFIX);
+}
+
+const KILL_GRACE_MS = 5000;
+
+/**
+ * Stop automate_shorts.js and everything it started (ffmpeg, ffprobe). On POSIX the child leads its own
+ * process group, so signalling the negative pid reaches the whole tree; SIGKILL follows if it ignores SIGTERM.
+ */
+function killProcessTree(child: ChildProcess): void {
+  const pid = child.pid;
+  if (!pid) return;
+  if (process.platform === 'win32') {
+    spawn('taskkill', ['/pid', String(pid), '/T', '/F'], { stdio: 'ignore' }).on('error', () => child.kill());
+    return;
+  }
+  const signalTree = (signal: NodeJS.Signals) => {
+    try {
+      process.kill(-pid, signal);
+    } catch {
+      child.kill(signal);
+    }
+  };
+  signalTree('SIGTERM');
+  setTimeout(() => {
+    if (child.exitCode === null && child.signalCode === null) signalTree('SIGKILL');
+  }, KILL_GRACE_MS).unref();
+}
+
 export async function runShortPipeline(opts: RunShortOptions = {}): Promise<RunShortResult> {
   const env = { ...process.env };
 
@@ -46,6 +120,17 @@ export async function runShortPipeline(opts: RunShortOptions = {}): Promise<RunS
     env.RUN_STEP = String(opts.runStep);
     if (opts.runStep === 4) env.REUSE_TEMP = '1';
   }
+  if (opts.sceneAction) {
+    env.SCENE_ACTION = opts.sceneAction.action;
+    env.SCENE_INDEX = String(opts.sceneAction.index);
+    env.REUSE_TEMP = '1';
+  }
+  if (opts.preview) {
+    env.PREVIEW_RENDER = '1';
+  }
+  if (opts.exportProfile) {
+    env.EXPORT_PROFILE = opts.exportProfile;
+  }
   if (opts.topic) {
     env.SHORT_TOPIC_OVERRIDE = opts.topic;
   }
@@ -55,10 +140,41 @@ export async function runShortPipeline(opts: RunShortOptions = {}): Promise<RunS
   if (opts.scriptProvider && (opts.scriptProvider === 'openai' || opts.scriptProvider === 'grok')) {
     env.SCRIPT_PROVIDER = opts.scriptProvider;
   }
+  if (opts.ttsProvider) {
+    env.TTS_PROVIDER = opts.ttsProvider;
+  }
+  if (opts.clipProvider) {
+    env.CLIP_PROVIDER = opts.clipProvider;
+  }
+  if (opts.voiceId) {
+    env.TTS_VOICE_ID = opts.voiceId;
+  }
+  if (opts.voiceSettings && Object.keys(opts.voiceSettings).length > 0) {
+    env.TTS_VOICE_SETTINGS = JSON.stringify(opts.voiceSettings);
+  }
+  if (opts.captionStyle) {
+    env.CAPTION_STYLE = opts.captionStyle;
+  }
+  if (opts.transition) {
+    env.TRANSITION = opts.transition;
+  }
+  if (opts.chapterCards) {
+    env.CHAPTER_CARDS = '1';
+  }
+  if (opts.loudnessTargetLufs != null) {
+    env.LOUDNESS_TARGET_LUFS = String(opts.loudnessTargetLufs);
+  }
+  if (opts.captionLanguages?.length) {
+    env.CAPTION_LANGUAGES = opts.captionLanguages.join(',');
+  }
+  if (opts.language) {
+    env.CONTENT_LANGUAGE = opts.language;
+    env.CAPTION_SOURCE_LANGUAGE = opts.language;
+  }
   if (opts.backgroundMusicPath) {
     env.BACKGROUND_MUSIC_PATH = opts.backgroundMusicPath;
   }
-  if (opts.backgroundMusicStartSec != null && opts.backgroundMusicStartSec > 0) {
+  if (opts.backgroundMusicStartSec === 'auto' || (opts.backgroundMusicStartSec != null && opts.backgroundMusicStartSec > 0)) {
     env.BACKGROUND_MUSIC_START_SEC = String(opts.backgroundMusicStartSec);
   }
   env.CURSOR_DEBUG_LOG_PATH = path.resolve(process.cwd(), '.cursor', 'debug.log');
@@ -67,15 +183,36 @@ export async function runShortPipeline(opts: RunShortOptions = {}): Promise<RunS
   const youtubeMetaPath = path.join(outputDir, 'youtube_meta.json');
   const waitingFile = path.join(tempDir, 'waiting_for_clips.json');
 
+  if (opts.signal?.aborted) {
+    throw new Error(`${PIPELINE_CANCELLED_PREFIX} cancelled before start`);
+  }
+
   await new Promise<void>((resolve, reject) => {
     const child = spawn('node', ['automate_shorts.js'], {
       cwd: process.cwd(),
       env,
-      stdio: ['ignore', 'inherit', 'inherit']
+      stdio: ['ignore', 'inherit', 'inherit', 'ipc'],
+      detached: process.platform !== 'win32'
     });
+    let cancelled = false;
+    const onAbort = () => {
+      cancelled = true;
+      killProcessTree(child);
+    };
+    opts.signal?.addEventListener('abort', onAbort, { once: true });
 
+    child.on('message', (msg) => {
+      if (!opts.onProgress || !isProgressMessage(msg)) return;
+      try {
+        opts.onProgress(msg.event);
+      } catch {
+        /* listener errors must not break the run */
+      }
+    });
     child.on('error', reject);
-    child.on('exit', (code) => {
+    child.on('exit', (code, signal) => {
+      opts.signal?.removeEventListener('abort', onAbort);
+      if (cancelled) return reject(new Error(`${PIPELINE_CANCELLED_PREFIX} automate_shorts.js stopped (${signal ?? code})`));
       if (code === 0) return resolve();
       reject(new Error(`automate_shorts.js exited with code ${code}`));
     });
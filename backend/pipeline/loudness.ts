@@ -0,0 +1,132 @@
+/**
+ * Final-mix audio: sidechain ducking of background music under the narration, and two-pass EBU R128 loudness
+ * normalization (FFmpeg loudnorm) of the assembled video. Results go into output/render_report.json.
+ */
+const ffmpeg = require('fluent-ffmpeg') as typeof import('fluent-ffmpeg');
+
+/** YouTube plays back at about -14 LUFS integrated; louder uploads are turned down. */
+export const DEFAULT_LOUDNESS_TARGET_LUFS = -14;
+export const DEFAULT_TRUE_PEAK_DB = -1.5;
+export const DEFAULT_LOUDNESS_RANGE = 11;
+export const MIN_LOUDNESS_TARGET_LUFS = -30;
+export const MAX_LOUDNESS_TARGET_LUFS = -5;
+
+export type LoudnessSettings = { targetLufs: number; truePeakDb: number; lra: number };
+
+export type DuckingSettings = {
+  /** Voice level (linear, 0–1) above which the music starts ducking. */
+  threshold: number;
+  ratio: number;
+  attackMs: number;
+  releaseMs: number;
+};
+
+export const DEFAULT_DUCKING: DuckingSettings = { threshold: 0.03, ratio: 8, attackMs: 20, releaseMs: 350 };
+
+export type LoudnessStats = {
+  integratedLufs: number;
+  truePeakDb: number;
+  lra: number;
+  thresholdLufs: number;
+  /** loudnorm's target offset from pass 1, fed back into pass 2. */
+  targetOffset: number;
+};
+
+export type LoudnessResult = {
+  settings: LoudnessSettings;
+  measured: LoudnessStats;
+  output: Omit<LoudnessStats, 'targetOffset'>;
+  /** linear when the whole file could be gained evenly; dynamic when loudnorm had to compress. */
+  normalizationType: string;
+};
+
+export function isLoudnessTarget(value: unknown): value is number {
+  return typeof value === 'number' && Number.isFinite(value) && value >= MIN_LOUDNESS_TARGET_LUFS && value <= MAX_LOUDNESS_TARGET_LUFS;
+}
+
+/**
+ * Filter parts that mix `[voice]` and `[music]` into `[out]`. With ducking the voice also keys a sidechain
+ * compressor on the music, so the bed drops under speech and comes back up in the gaps.
+ */
+export function buildMusicMixFilter(voice: string, music: string, out: string, ducking: DuckingSettings | null): string[] {
+  if (!ducking) return [`[${voice}][${music}]amix=inputs=2:duration=first:dropout_transition=0[${out}]`];
+  const fmt = 'aresample=44100,aformat=sample_fmts=fltp:channel_layouts=stereo';
+  return [
+    `[${voice}]${fmt},asplit=2[duck_vo][duck_key]`,
+    `[${music}]${fmt}[duck_bg]`,
+    `[duck_bg][duck_key]sidechaincompress=threshold=${ducking.threshold}:ratio=${ducking.ratio}:attack=${ducking.attackMs}:release=${ducking.releaseMs}[duck_bg_out]`,
+    `[duck_vo][duck_bg_out]amix=inputs=2:duration=first:dropout_transition=0[${out}]`
+  ];
+}
+
+function loudnormFilter(settings: LoudnessSettings, measured?: LoudnessStats): string {
+  const base = `loudnorm=I=${settings.targetLufs}:TP=${settings.truePeakDb}:LRA=${settings.lra}`;
+  if (!measured) return `${base}:print_format=json`;
+  return (
+    `${base}:measured_I=${measured.integratedLufs}:measured_TP=${measured.truePeakDb}:measured_LRA=${measured.lra}` +
+    `:measured_thresh=${measured.thresholdLufs}:offset=${measured.targetOffset}:linear=true:print_format=json`
+  );
+}
+
+/** Pull the JSON block loudnorm prints at the end of stderr. */
+export function parseLoudnormOutput(stderr: string): Record<string, string> | null {
+  const blocks = stderr.match(/\{[^{}]*"input_i"[^{}]*\}/g);
+  if (!blocks?.length) return null;
+  try {
+    return JSON.parse(blocks[blocks.length - 1]) as Record<string, string>;
+  } catch {
+    return null;
+  }
+}
+
+function toNumber(value: string | undefined): number {
+  const n = parseFloat(String(value));
+  // loudnorm reports -inf for silence.
+  return Number.isFinite(n) ? n : -99;
+}
+
+function runLoudnorm(inputPath: string, filter: string, outputPath: string | null): Promise<Record<string, string>> {
+  return new Promise((resolve, reject) => {
+    const stderr: string[] = [];
+    const chain = ffmpeg(inputPath).audioFilters(filter);
+    if (outputPath) {
+      // Keep video and subtitle streams as they are; only the audio is re-encoded.
+      chain.outputOptions(['-map', '0', '-c:v', 'copy', '-c:s', 'copy', '-c:a', 'aac', '-b:a', '192k', '-ar', '48000']).output(outputPath);
+    } else {
+      chain.outputOptions(['-vn']).format('null').output('-');
+    }
+    chain
+      .on('stderr', (line: string) => stderr.push(line))
+      .on('end', () => {
+        const stats = parseLoudnormOutput(stderr.join('\n'));
+        if (!stats) reject(new Error('loudnorm did not report loudness stats'));
+        else resolve(stats);
+      })
+      .on('error', (err: Error) => reject(err))
+      .run();
+  });
+}
+
+/** Two-pass loudnorm: measure `inputPath`, then write the normalized copy to `outputPath`. */
+export async function normalizeLoudness(inputPath: string, outputPath: string, settings: LoudnessSettings): Promise<LoudnessResult> {
+  const first = await runLoudnorm(inputPath, loudnormFilter(settings), null);
+  const measured: LoudnessStats = {
+    integratedLufs: toNumber(first.input_i),
+    truePeakDb: toNumber(first.input_tp),
+    lra: toNumber(first.input_lra),
+    thresholdLufs: toNumber(first.input_thresh),
+    targetOffset: toNumber(first.target_offset)
+  };
+  const second = await runLoudnorm(inputPath, loudnormFilter(settings, measured), outputPath);
+  return {
+    settings,
+    measured,
+    output: {
+      integratedLufs: toNumber(second.output_i),
+      truePeakDb: toNumber(second.output_tp),
+      lra: toNumber(second.output_lra),
+      thresholdLufs: toNumber(second.output_thresh)
+    },
+    normalizationType: String(second.normalization_type ?? 'unknown')
+  };
+}
@@ -0,0 +1,67 @@
+/**
+ * Metadata and preview images for media library uploads: duration and resolution from ffprobe, a JPEG poster for
+ * clips and images, and a waveform strip for music.
+ */
+const ffmpeg = require('fluent-ffmpeg') as typeof import('fluent-ffmpeg');
+
+export type MediaKind = 'clip' | 'image' | 'music';
+
+export const MEDIA_KINDS: MediaKind[] = ['clip', 'image', 'music'];
+
+/** Accepted extensions per kind; clips must be mp4 like project uploads. */
+export const MEDIA_EXTENSIONS: Record<MediaKind, string[]> = {
+  clip: ['mp4'],
+  image: ['jpg', 'jpeg', 'png', 'webp'],
+  music: ['mp3', 'm4a', 'wav', 'aac', 'ogg']
+};
+
+export function isMediaKind(value: unknown): value is MediaKind {
+  return typeof value === 'string' && (MEDIA_KINDS as string[]).includes(value);
+}
+
+/** Kind from the file extension, or null for a file the pipeline cannot use. */
+export function mediaKindForFile(fileName: string): MediaKind | null {
+  const ext = fileName.split('.').pop()?.toLowerCase() ?? '';
+  for (const kind of MEDIA_KINDS) {
+    if (MEDIA_EXTENSIONS[kind].includes(ext)) return kind;
+  }
+  return null;
+}
+
+export type MediaProbe = { durationSec?: number; width?: number; height?: number };
+
+export function probeMedia(filePath: string): Promise<MediaProbe> {
+  return new Promise((resolve) => {
+    ffmpeg.ffprobe(filePath, (err: Error | null, data: { format?: { duration?: number }; streams?: Array<{ codec_type?: string; width?: number; height?: number }> }) => {
+      if (err) return resolve({});
+      const video = data?.streams?.find((s) => s.codec_type === 'video' && s.width && s.height);
+      const duration = Number(data?.format?.duration);
+      resolve({
+        ...(Number.isFinite(duration) && duration > 0 ? { durationSec: Number(duration.toFixed(2)) } : {}),
+        ...(video ? { width: video.width, height: video.height } : {})
+      });
+    });
+  });
+}
+
+const THUMB_WIDTH = 320;
+
+/** Write a JPEG preview: a frame 10% into a clip, a scaled image, or the waveform of a music track. */
+export function writeMediaThumbnail(kind: MediaKind, inputPath: string, outPath: string, durationSec?: number): Promise<void> {
+  return new Promise((resolve, reject) => {
+    const chain = ffmpeg(inputPath);
+    if (kind === 'clip') {
+      chain.seekInput(Math.min(1, (durationSec ?? 0) * 0.1)).videoFilters(`scale=${THUMB_WIDTH}:-2`);
+    } else if (kind === 'image') {
+      chain.videoFilters(`scale=${THUMB_WIDTH}:-2`);
+    } else {
+      chain.complexFilter(`[0:a]showwavespic=s=${THUMB_WIDTH}x80:colors=#4f8cff[wave]`, 'wave');
+    }
+    chain
+      .outputOptions(['-frames:v', '1', '-q:v', '4'])
+      .output(outPath)
+      .on('end', () => resolve())
+      .on('error', (err: Error) => reject(err))
+      .run();
+  });
+}
@@ -0,0 +1,236 @@
+/**
+ * Background music catalog helpers: local tempo/energy analysis of a track, the mood of a script, track scoring
+ * against a video, and a start offset that skips quiet intros and lands on a phrase boundary.
+ */
+const ffmpeg = require('fluent-ffmpeg') as typeof import('fluent-ffmpeg');
+
+export type MusicMood = 'calm' | 'dark' | 'mysterious' | 'epic' | 'upbeat' | 'inspiring' | 'sad' | 'tense';
+
+export const MUSIC_MOODS: MusicMood[] = ['calm', 'dark', 'mysterious', 'epic', 'upbeat', 'inspiring', 'sad', 'tense'];
+
+/** Tempo range that suits each mood, in BPM. */
+const MOOD_TEMPO: Record<MusicMood, [number, number]> = {
+  calm: [60, 95],
+  sad: [60, 90],
+  mysterious: [70, 110],
+  dark: [60, 110],
+  epic: [80, 140],
+  inspiring: [90, 130],
+  upbeat: [110, 150],
+  tense: [110, 170]
+};
+
+const MOOD_WORDS: Record<MusicMood, string[]> = {
+  dark: ['murder', 'death', 'dead', 'killed', 'killer', 'blood', 'crime', 'victim', 'horror', 'haunted', 'curse', 'cursed', 'evil', 'demon', 'massacre', 'body', 'corpse', 'grave'],
+  mysterious: ['mystery', 'mysterious', 'unknown', 'secret', 'unexplained', 'strange', 'vanished', 'disappeared', 'legend', 'hidden', 'ancient', 'cryptic', 'puzzle', 'riddle', 'myth', 'ghost'],
+  epic: ['empire', 'battle', 'war', 'conquer', 'king', 'queen', 'giant', 'massive', 'greatest', 'legendary', 'army', 'warrior', 'kingdom', 'colossal', 'dynasty'],
+  upbeat: ['fun', 'funny', 'amazing', 'cool', 'happy', 'party', 'hack', 'easy', 'tips', 'awesome', 'crazy', 'wild', 'surprising', 'weird'],
+  inspiring: ['dream', 'overcome', 'success', 'hope', 'achieve', 'journey', 'triumph', 'discovery', 'breakthrough', 'invented', 'first', 'record', 'hero', 'brave'],
+  sad: ['tragic', 'tragedy', 'loss', 'grief', 'lonely', 'mourning', 'tears', 'heartbreaking', 'orphan', 'forgotten', 'abandoned', 'suffering'],
+  calm: ['nature', 'peaceful', 'ocean', 'forest', 'relax', 'quiet', 'gentle', 'sleep', 'garden', 'meditation', 'river', 'stars'],
+  tense: ['chase', 'escape', 'danger', 'dangerous', 'threat', 'panic', 'hunt', 'hunted', 'attack', 'countdown', 'trapped', 'explosion', 'deadly', 'survive']
+};
+
+export function isMusicMood(value: unknown): value is MusicMood {
+  return typeof value === 'string' && (MUSIC_MOODS as string[]).includes(value);
+}
+
+export type MusicAnalysis = {
+  durationSec: number;
+  /** Detected tempo; null when the track has no clear beat (ambient pads, silence). */
+  bpm: number | null;
+  /** Overall loudness mapped to 0–1 (about -40 dBFS → 0, -6 dBFS → 1). */
+  energy: number;
+  /** RMS level per second in dBFS, used to pick a start offset. */
+  energyCurve: number[];
+};
+
+const ANALYSIS_RATE = 11025;
+const HOP = 256;
+/** Only the first ten minutes are decoded; longer files are not typical background beds. */
+const MAX_ANALYSIS_SEC = 600;
+
+function decodeMono(filePath: string): Promise<Int16Array> {
+  return new Promise((resolve, reject) => {
+    const chunks: Buffer[] = [];
+    const stream = ffmpeg(filePath)
+      .noVideo()
+      .outputOptions(['-t', String(MAX_ANALYSIS_SEC)])
+      .audioChannels(1)
+      .audioFrequency(ANALYSIS_RATE)
+      .format('s16le')
+      .on('error', (err: Error) => reject(err))
+      .pipe();
+    stream.on('data', (chunk: Buffer) => chunks.push(chunk));
+    stream.on('end', () => {
+      const buf = Buffer.concat(chunks);
+      resolve(new Int16Array(buf.buffer, buf.byteOffset, Math.floor(buf.length / 2)));
+    });
+    stream.on('error', reject);
+  });
+}
+
+function toDb(meanSquare: number): number {
+  return meanSquare > 0 ? 10 * Math.log10(meanSquare) : -90;
+}
+
+/**
+ * Tempo from the autocorrelation of an onset envelope (positive jumps in log frame energy), searched between
+ * 60 and 180 BPM with a mild preference for ~120. A half-time winner is doubled when the doubled tempo correlates
+ * nearly as well, since off-beats would be silent if the slower tempo were right.
+ */
+export function estimateBpm(frameDb: number[], framesPerSec: number): number | null {
+  if (frameDb.length < framesPerSec * 8) return null;
+  const rawOnset = frameDb.map((v, i) => (i === 0 ? 0 : Math.max(0, v - frameDb[i - 1])));
+  // Light smoothing so a beat that falls between frames still lines up at fractional lags.
+  const onset = rawOnset.map((v, i) => (2 * v + (rawOnset[i - 1] ?? 0) + (rawOnset[i + 1] ?? 0)) / 4);
+  const mean = onset.reduce((a, b) => a + b, 0) / onset.length;
+  const centered = onset.map((v) => v - mean);
+  let energy = 0;
+  for (const v of centered) energy += v * v;
+  if (energy <= 0) return null;
+  const correlation = (bpm: number) => {
+    const lag = (60 * framesPerSec) / bpm;
+    const l0 = Math.floor(lag);
+    const frac = lag - l0;
+    let sum = 0;
+    for (let i = 0; i + l0 + 1 < centered.length; i++) {
+      sum += centered[i] * (centered[i + l0] * (1 - frac) + centered[i + l0 + 1] * frac);
+    }
+    return sum / energy;
+  };
+  let best = { bpm: 0, score: 0, raw: 0 };
+  for (let bpm = 60; bpm <= 180; bpm += 0.5) {
+    const raw = correlation(bpm);
+    const score = raw * Math.exp(-0.5 * Math.pow(Math.log2(bpm / 120) / 0.9, 2));
+    if (score > best.score) best = { bpm, score, raw };
+  }
+  // Weak periodicity: no steady beat to report.
+  if (best.score <= 0.05) return null;
+  if (best.bpm * 2 <= 180) {
+    let doubled = { bpm: 0, raw: -Infinity };
+    for (let bpm = best.bpm * 2 - 3; bpm <= Math.min(180, best.bpm * 2 + 3); bpm += 0.5) {
+      const raw = correlation(bpm);
+      if (raw > doubled.raw) doubled = { bpm, raw };
+    }
+    if (doubled.raw >= 0.7 * best.raw) return Math.round(doubled.bpm);
+  }
+  return Math.round(best.bpm);
+}
+
+export async function analyzeMusic(filePath: string): Promise<MusicAnalysis> {
+  const samples = await decodeMono(filePath);
+  const frameDb: number[] = [];
+  for (let start = 0; start + HOP <= samples.length; start += HOP) {
+    let sq = 0;
+    for (let i = start; i < start + HOP; i++) {
+      const s = samples[i] / 32768;
+      sq += s * s;
+    }
+    frameDb.push(toDb(sq / HOP));
+  }
+  const energyCurve: number[] = [];
+  for (let start = 0; start < samples.length; start += ANALYSIS_RATE) {
+    const end = Math.min(samples.length, start + ANALYSIS_RATE);
+    let sq = 0;
+    for (let i = start; i < end; i++) {
+      const s = samples[i] / 32768;
+      sq += s * s;
+    }
+    energyCurve.push(Number(toDb(sq / Math.max(1, end - start)).toFixed(1)));
+  }
+  const audible = energyCurve.filter((v) => v > -60);
+  const meanDb = audible.length ? audible.reduce((a, b) => a + b, 0) / audible.length : -90;
+  return {
+    durationSec: Number((samples.length / ANALYSIS_RATE).toFixed(2)),
+    bpm: estimateBpm(frameDb, ANALYSIS_RATE / HOP),
+    energy: Number(Math.min(1, Math.max(0, (meanDb + 40) / 34)).toFixed(2)),
+    energyCurve
+  };
+}
+
+/** Default moods for an untagged track, from tempo and energy. */
+export function suggestMoods(bpm: number | null, energy: number): MusicMood[] {
+  if (bpm === null) return energy < 0.5 ? ['calm', 'mysterious'] : ['dark', 'mysterious'];
+  if (bpm < 90) return energy < 0.5 ? ['calm', 'sad'] : ['dark', 'mysterious'];
+  if (bpm < 115) return energy < 0.55 ? ['mysterious', 'inspiring'] : ['epic', 'inspiring'];
+  return energy < 0.6 ? ['upbeat', 'inspiring'] : ['tense', 'upbeat'];
+}
+
+/** Moods of a script ranked by keyword hits (strongest first); empty when nothing matches. */
+export function inferScriptMoods(text: string): MusicMood[] {
+  const words = text.toLowerCase().split(/[^a-z]+/).filter(Boolean);
+  const counts = new Map<MusicMood, number>();
+  for (const mood of MUSIC_MOODS) {
+    const lexicon = new Set(MOOD_WORDS[mood]);
+    const hits = words.filter((w) => lexicon.has(w)).length;
+    if (hits > 0) counts.set(mood, hits);
+  }
+  return Array.from(counts.entries())
+    .sort((a, b) => b[1] - a[1])
+    .slice(0, 3)
+    .map(([mood]) => mood);
+}
+
+export type MusicCandidate = { id: string; moods: MusicMood[]; bpm: number | null; durationSec?: number; usageCount?: number };
+
+/**
+ * Score a track for a video: mood overlap (weighted by the script's mood ranking), tempo that suits the top mood,
+ * enough length to cover the video without looping, and a small nudge toward tracks used less often.
+ */
+export function scoreMusicTrack(track: MusicCandidate, wanted: MusicMood[], targetSec: number): number {
+  const rankWeights = [1, 0.6, 0.4];
+  let score = 0;
+  wanted.forEach((mood, i) => {
+    if (track.moods.includes(mood)) score += rankWeights[i] ?? 0.3;
+  });
+  if (wanted[0] && track.bpm !== null) {
+    const [lo, hi] = MOOD_TEMPO[wanted[0]];
+    if (track.bpm >= lo && track.bpm <= hi) score += 0.3;
+  }
+  if (track.durationSec) {
+    score += track.durationSec >= targetSec ? 0.5 : -0.5 * (1 - track.durationSec / targetSec);
+  }
+  score -= 0.05 * Math.min(5, track.usageCount ?? 0);
+  return Number(score.toFixed(3));
+}
+
+export function pickMusicTrack<T extends MusicCandidate>(
+  tracks: T[],
+  scriptText: string,
+  targetSec: number
+): { track: T; score: number; moods: MusicMood[] } | null {
+  if (tracks.length === 0) return null;
+  const moods = inferScriptMoods(scriptText);
+  let best: { track: T; score: number } | null = null;
+  for (const track of tracks) {
+    const score = scoreMusicTrack(track, moods, targetSec);
+    if (!best || score > best.score) best = { track, score };
+  }
+  return best ? { ...best, moods } : null;
+}
+
+/**
+ * Start offset for a track under a video of `neededSec`: candidates every 16 beats (a 4-bar phrase, or 8 s with no
+ * tempo), scored against a quiet opening, a window far from the track's typical level, and starting late.
+ * Returns 0 when the track is not much longer than the video.
+ */
+export function pickMusicStartSec(analysis: Pick<MusicAnalysis, 'durationSec' | 'bpm' | 'energyCurve'>, neededSec: number): number {
+  const { durationSec, bpm, energyCurve } = analysis;
+  if (!(durationSec > neededSec + 2) || energyCurve.length === 0) return 0;
+  const phrase = bpm ? (60 / bpm) * 16 : 8;
+  const sorted = [...energyCurve].sort((a, b) => a - b);
+  const median = sorted[Math.floor(sorted.length / 2)];
+  const meanOver = (from: number, len: number) => {
+    const slice = energyCurve.slice(Math.floor(from), Math.max(Math.floor(from) + 1, Math.floor(from + len)));
+    return slice.reduce((a, b) => a + b, 0) / slice.length;
+  };
+  let best = { t: 0, score: -Infinity };
+  for (let t = 0; t + neededSec <= durationSec && t <= durationSec * 0.6; t += phrase) {
+    const intro = meanOver(t, 3);
+    const body = meanOver(t, neededSec);
+    const score = -Math.max(0, median - 4 - intro) - 0.3 * Math.abs(body - median) - 0.5 * (t / durationSec);
+    if (score > best.score) best = { t, score };
+  }
+  return Number(best.t.toFixed(1));
+}
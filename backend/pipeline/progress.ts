@@ -0,0 +1,46 @@
+/**
+ * Structured progress events sent from automate_shorts.js to the API process over the IPC channel
+ * opened by runShortPipeline. When the script runs standalone (no IPC channel) emitProgress is a no-op.
+ */
+
+export type PipelineProgressStep = 'script' | 'audio' | 'clips' | 'assembly' | 'metadata' | 'publish';
+
+export type PipelineProgressEvent = {
+  step: PipelineProgressStep;
+  /** Human-readable line, e.g. "Scene 3/8 voiceover done", "Clip 2 polling #4", "FFmpeg 63%". */
+  message: string;
+  /** 1-based item counter within the step (scene, clip). */
+  current?: number;
+  total?: number;
+  /** 0-100 progress of the step, when known. */
+  percent?: number;
+};
+
+const PROGRESS_MESSAGE_TYPE = 'pipeline_progress';
+
+type ProgressMessage = { type: typeof PROGRESS_MESSAGE_TYPE; event: PipelineProgressEvent };
+
+export function emitProgress(event: PipelineProgressEvent): void {
+  if (typeof process.send !== 'function' || !process.connected) return;
+  const percent = event.percent != null ? Math.max(0, Math.min(100, Math.round(event.percent))) : undefined;
+  const message: ProgressMessage = { type: PROGRESS_MESSAGE_TYPE, event: { ...event, percent } };
+  try {
+    process.send(message);
+  } catch {
+    /* parent went away; progress is best-effort */
+  }
+}
+
+export function isProgressMessage(msg: unknown): msg is ProgressMessage {
+  if (!msg || typeof msg !== 'object') return false;
+  const m = msg as { type?: unknown; event?: { step?: unknown; message?: unknown } };
+  return m.type === PROGRESS_MESSAGE_TYPE && !!m.event && typeof m.event.step === 'string' && typeof m.event.message === 'string';
+}
+
+/** Parse an FFmpeg timemark ("00:01:02.50") into seconds; returns 0 when unparseable. */
+export function timemarkToSeconds(timemark: string | undefined): number {
+  if (!timemark) return 0;
+  const parts = timemark.split(':').map((p) => parseFloat(p));
+  if (parts.some((p) => !Number.isFinite(p))) return 0;
+  return parts.reduce((acc, p) => acc * 60 + p, 0);
+}
@@ -0,0 +1,56 @@
+/**
+ * Shape and validation of script.json, shared by the pipeline (which refuses to run on a bad script) and the
+ * script editing API (which refuses to save one).
+ */
+
+export type ScriptScene = {
+  prompt: string;
+  duration?: number;
+  /**
+   * Narration lines that should play over this visual scene.
+   * When all scene voiceovers are concatenated in order, they should roughly match the full `voiceover` above.
+   */
+  voiceover?: string;
+  /** Transition into the next scene (cut, crossfade, dip_to_black, whip, slide, glitch); overrides the project default. */
+  transition?: string;
+  /** Camera motion when this scene is a still image (zoom_in, zoom_out, pan_left, pan_right, ken_burns, parallax_push); unset = automatic. */
+  motion?: string;
+  /** Motion strength 0.1–1 (default 0.5). */
+  motionIntensity?: number;
+};
+
+export type ScriptData = {
+  voiceover: string;
+  scenes: ScriptScene[];
+};
+
+/** Longest scene an edit may set; generated scenes use the format's clip length (a few seconds). */
+export const MAX_SCENE_DURATION_SEC = 60;
+
+export function validateScriptData(data: unknown): data is ScriptData {
+  if (!data || typeof data !== 'object') return false;
+  const d = data as Record<string, unknown>;
+  if (typeof d.voiceover !== 'string' || d.voiceover.trim() === '') return false;
+  if (!Array.isArray(d.scenes) || d.scenes.length === 0) return false;
+  return d.scenes.every((s: unknown) => s && typeof s === 'object' && typeof (s as Record<string, unknown>).prompt === 'string');
+}
+
+/** Indices of scenes with empty or whitespace-only voiceover (scene-lock and per-scene TTS need every one). */
+export function scenesMissingVoiceover(script: ScriptData): number[] {
+  return script.scenes
+    .map((s, i) => ({ i, v: String(s.voiceover ?? '').trim() }))
+    .filter(({ v }) => !v)
+    .map(({ i }) => i);
+}
+
+/** Every rule the pipeline enforces before steps 2–4, as one message for an API response; null when the script is usable. */
+export function scriptValidationError(script: unknown): string | null {
+  if (!validateScriptData(script)) return 'Script needs a non-empty voiceover and at least one scene with a prompt';
+  const missing = scenesMissingVoiceover(script);
+  if (missing.length > 0) return `Every scene must have a non-empty voiceover; missing in scene(s): ${missing.join(', ')}`;
+  const badDuration = script.scenes.findIndex(
+    (s) => s.duration !== undefined && !(typeof s.duration === 'number' && s.duration > 0 && s.duration <= MAX_SCENE_DURATION_SEC)
+  );
+  if (badDuration >= 0) return `Scene ${badDuration} duration must be a number of seconds between 0 and ${MAX_SCENE_DURATION_SEC}`;
+  return null;
+}
@@ -0,0 +1,204 @@
+/**
+ * Thumbnail stage helpers: candidate frames from the rendered video (one per scene) or the scene images, and the
+ * final thumbnail with a title from youtube_meta.json drawn over the chosen candidate.
+ */
+import fs from 'fs';
+import path from 'path';
+import { toFfmpegColor } from './captionStyles';
+const ffmpeg = require('fluent-ffmpeg') as typeof import('fluent-ffmpeg');
+
+export type ThumbnailStyle = {
+  /** TTF/OTF for the title; unset uses FFmpeg's default font. Env THUMBNAIL_FONT_FILE sets the server default. */
+  fontFile?: string;
+  /** Font size on the thumbnail canvas. */
+  fontSize: number;
+  fontColor: string;
+  outlineColor: string;
+  outline: number;
+  position: 'top' | 'center' | 'bottom';
+  uppercase: boolean;
+  /** Band behind the text (#RRGGBB); null for none. */
+  boxColor: string | null;
+  /** Wrap the title at about this many characters per line. */
+  maxCharsPerLine: number;
+};
+
+export const DEFAULT_THUMBNAIL_STYLE: ThumbnailStyle = {
+  fontSize: 96,
+  fontColor: '#FFFF00',
+  outlineColor: '#000000',
+  outline: 6,
+  position: 'top',
+  uppercase: true,
+  boxColor: null,
+  maxCharsPerLine: 16
+};
+
+export const MAX_THUMBNAIL_CANDIDATES = 8;
+
+export type ThumbnailCandidateSource = { source: 'frame'; timeSec: number; sceneIndex?: number } | { source: 'image'; imagePath: string; sceneIndex: number };
+
+const HEX_COLOR = /^#[0-9a-fA-F]{6}$/;
+
+/** Validate a partial style from an API body. Returns the error message for the first bad field. */
+export function parseThumbnailStyle(value: unknown): { ok: true; style: Partial<ThumbnailStyle> } | { ok: false; error: string } {
+  if (!value || typeof value !== 'object' || Array.isArray(value)) return { ok: false, error: 'style must be an object' };
+  const v = value as Record<string, unknown>;
+  const style: Partial<ThumbnailStyle> = {};
+  if (v.fontSize !== undefined) {
+    if (typeof v.fontSize !== 'number' || v.fontSize < 24 || v.fontSize > 240) return { ok: false, error: 'style.fontSize must be 24–240' };
+    style.fontSize = Math.round(v.fontSize);
+  }
+  for (const key of ['fontColor', 'outlineColor'] as const) {
+    if (v[key] === undefined) continue;
+    if (typeof v[key] !== 'string' || !HEX_COLOR.test(v[key] as string)) return { ok: false, error: `style.${key} must be #RRGGBB` };
+    style[key] = v[key] as string;
+  }
+  if (v.boxColor !== undefined) {
+    if (v.boxColor !== null && (typeof v.boxColor !== 'string' || !HEX_COLOR.test(v.boxColor))) {
+      return { ok: false, error: 'style.boxColor must be #RRGGBB or null' };
+    }
+    style.boxColor = v.boxColor as string | null;
+  }
+  if (v.outline !== undefined) {
+    if (typeof v.outline !== 'number' || v.outline < 0 || v.outline > 20) return { ok: false, error: 'style.outline must be 0–20' };
+    style.outline = Math.round(v.outline);
+  }
+  if (v.position !== undefined) {
+    if (v.position !== 'top' && v.position !== 'center' && v.position !== 'bottom') return { ok: false, error: 'style.position must be top, center or bottom' };
+    style.position = v.position;
+  }
+  if (v.uppercase !== undefined) style.uppercase = !!v.uppercase;
+  if (v.maxCharsPerLine !== undefined) {
+    if (typeof v.maxCharsPerLine !== 'number' || v.maxCharsPerLine < 6 || v.maxCharsPerLine > 40) {
+      return { ok: false, error: 'style.maxCharsPerLine must be 6–40' };
+    }
+    style.maxCharsPerLine = Math.round(v.maxCharsPerLine);
+  }
+  return { ok: true, style };
+}
+
+/**
+ * Where to grab candidates: the middle of each scene from clip_segment_map.json, else evenly through the video.
+ * Scene images are added as their own candidates.
+ */
+export function pickCandidateSources(
+  durationSec: number,
+  segments: Array<{ startSec: number; endSec: number }>,
+  imagePaths: Array<{ sceneIndex: number; imagePath: string }>
+): ThumbnailCandidateSource[] {
+  const out: ThumbnailCandidateSource[] = [];
+  const usable = segments.filter((s) => s.endSec > s.startSec && s.startSec < durationSec);
+  if (usable.length > 0) {
+    usable.forEach((s, i) => out.push({ source: 'frame', timeSec: Number(((s.startSec + Math.min(s.endSec, durationSec)) / 2).toFixed(2)), sceneIndex: i }));
+  } else if (durationSec > 0) {
+    const count = 5;
+    for (let i = 0; i < count; i++) out.push({ source: 'frame', timeSec: Number(((durationSec * (i + 0.5)) / count).toFixed(2)) });
+  }
+  for (const img of imagePaths) out.push({ source: 'image', imagePath: img.imagePath, sceneIndex: img.sceneIndex });
+  return out.slice(0, MAX_THUMBNAIL_CANDIDATES);
+}
+
+function coverFilter(width: number, height: number): string {
+  return `scale=${width}:${height}:force_original_aspect_ratio=increase,crop=${width}:${height}`;
+}
+
+/** Write one candidate as a JPEG at the thumbnail size. */
+export function writeCandidateImage(
+  candidate: ThumbnailCandidateSource,
+  videoPath: string,
+  outPath: string,
+  width: number,
+  height: number
+): Promise<void> {
+  return new Promise((resolve, reject) => {
+    const chain = candidate.source === 'frame' ? ffmpeg(videoPath).seekInput(candidate.timeSec) : ffmpeg(candidate.imagePath);
+    chain
+      .videoFilters(coverFilter(width, height))
+      .outputOptions(['-frames:v', '1', '-q:v', '2'])
+      .output(outPath)
+      .on('end', () => resolve())
+      .on('error', (err: Error) => reject(err))
+      .run();
+  });
+}
+
+export function wrapTitle(title: string, maxChars: number): string[] {
+  const lines: string[] = [];
+  let line = '';
+  for (const word of title.split(/\s+/).filter(Boolean)) {
+    if (line && (line + ' ' + word).length > maxChars) {
+      lines.push(line);
+      line = word;
+    } else {
+      line = line ? `${line} ${word}` : word;
+    }
+  }
+  if (line) lines.push(line);
+  return lines.slice(0, 4);
+}
+
+/** Draw the title over `sourcePath` (already at thumbnail size) and write `outPath`. */
+export function renderThumbnail(
+  sourcePath: string,
+  title: string,
+  style: ThumbnailStyle,
+  outPath: string,
+  width: number,
+  height: number
+): Promise<void> {
+  const text = style.uppercase ? title.toUpperCase() : title;
+  const lines = wrapTitle(text, style.maxCharsPerLine);
+  const lineHeight = Math.round(style.fontSize * 1.2);
+  const blockHeight = lines.length * lineHeight;
+  const margin = Math.round(height * 0.06);
+  const top = style.position === 'top' ? margin : style.position === 'center' ? Math.round((height - blockHeight) / 2) : height - margin - blockHeight;
+  // Each line goes through its own textfile, so quotes, colons and commas in titles need no escaping.
+  const dir = path.dirname(outPath);
+  const parts = [coverFilter(width, height)];
+  if (style.boxColor && lines.length) {
+    const pad = Math.round(style.fontSize * 0.35);
+    parts.push(`drawbox=x=0:y=${Math.max(0, top - pad)}:w=iw:h=${blockHeight + pad * 2}:color=${toFfmpegColor(style.boxColor)}@0.75:t=fill`);
+  }
+  lines.forEach((line, i) => {
+    const textFile = path.join(dir, `thumbnail_line_${i}.txt`);
+    fs.writeFileSync(textFile, line, 'utf-8');
+    parts.push(
+      [
+        `drawtext=textfile='${textFile.replace(/\\/g, '/').replace(/'/g, "\\'").replace(/:/g, '\\:')}'`,
+        ...(style.fontFile ? [`fontfile='${style.fontFile.replace(/\\/g, '/').replace(/:/g, '\\:')}'`] : []),
+        `fontsize=${style.fontSize}`,
+        `fontcolor=${toFfmpegColor(style.fontColor)}`,
+        `borderw=${style.outline}`,
+        `bordercolor=${toFfmpegColor(style.outlineColor)}`,
+        'x=(w-text_w)/2',
+        `y=${top + i * lineHeight}`
+      ].join(':')
+    );
+  });
+  return new Promise((resolve, reject) => {
+    ffmpeg(sourcePath)
+      .videoFilters(parts.join(','))
+      .outputOptions(['-frames:v', '1', '-q:v', '2'])
+      .output(outPath)
+      .on('end', () => {
+        lines.forEach((_, i) => fs.rmSync(path.join(dir, `thumbnail_line_${i}.txt`), { force: true }));
+        resolve();
+      })
+      .on('error', (err: Error) => reject(err))
+      .run();
+  });
+}
+
+/** Thumbnail canvas for a video format: vertical for shorts, 1280x720 for long-form. */
+export function thumbnailSize(videoFormat: string | undefined): { width: number; height: number } {
+  return videoFormat === '5min' || videoFormat === '11min' ? { width: 1280, height: 720 } : { width: 1080, height: 1920 };
+}
+
+export function probeDurationSec(filePath: string): Promise<number> {
+  return new Promise((resolve) => {
+    ffmpeg.ffprobe(filePath, (err: Error | null, data: { format?: { duration?: number } }) => {
+      resolve(err ? 0 : Number(data?.format?.duration) || 0);
+    });
+  });
+}
@@ -0,0 +1,63 @@
+/**
+ * Transitions between scene clips at assembly. A project sets the default (ProjectDoc.transition, env TRANSITION);
+ * a scene in script.json can override the transition into the next scene with `"transition": "<id>"`.
+ * Anything other than a cut overlaps the two clips (FFmpeg xfade) and their narration (acrossfade).
+ */
+
+export type TransitionId = 'cut' | 'crossfade' | 'dip_to_black' | 'whip' | 'slide' | 'glitch';
+
+export type TransitionDef = {
+  id: TransitionId;
+  label: string;
+  /** FFmpeg xfade transition name; unset for a hard cut. */
+  xfade?: string;
+  /** Overlap between the two scenes in seconds. */
+  durationSec: number;
+};
+
+export const TRANSITIONS: Record<TransitionId, TransitionDef> = {
+  cut: { id: 'cut', label: 'Hard cut', durationSec: 0 },
+  crossfade: { id: 'crossfade', label: 'Crossfade', xfade: 'fade', durationSec: 0.5 },
+  dip_to_black: { id: 'dip_to_black', label: 'Dip to black', xfade: 'fadeblack', durationSec: 0.6 },
+  whip: { id: 'whip', label: 'Whip pan', xfade: 'hblur', durationSec: 0.3 },
+  slide: { id: 'slide', label: 'Slide', xfade: 'slideleft', durationSec: 0.4 },
+  glitch: { id: 'glitch', label: 'Glitch', xfade: 'pixelize', durationSec: 0.25 }
+};
+
+export const TRANSITION_IDS = Object.keys(TRANSITIONS) as TransitionId[];
+
+export const DEFAULT_TRANSITION: TransitionId = 'cut';
+
+/** Never overlap more than this share of the shorter neighbouring scene, so short scenes stay readable. */
+const MAX_OVERLAP_SHARE = 0.4;
+
+export function isTransitionId(value: unknown): value is TransitionId {
+  return typeof value === 'string' && (TRANSITION_IDS as string[]).includes(value);
+}
+
+export function getTransition(id: string | undefined): TransitionDef {
+  return isTransitionId(id) ? TRANSITIONS[id] : TRANSITIONS[DEFAULT_TRANSITION];
+}
+
+/** The transition applied between segment i and i+1, with its overlap clamped to the neighbouring durations. */
+export type SegmentTransition = { id: TransitionId; xfade?: string; durationSec: number };
+
+/**
+ * Resolve the transitions between consecutive segments: `perSegment[i]` (a scene override, if any) wins over the
+ * project default. Returns one entry per boundary (length = durations.length - 1).
+ */
+export function resolveSegmentTransitions(
+  durations: number[],
+  projectDefault: TransitionId,
+  perSegment: Array<string | undefined> = []
+): SegmentTransition[] {
+  const out: SegmentTransition[] = [];
+  for (let i = 0; i < durations.length - 1; i++) {
+    const def = isTransitionId(perSegment[i]) ? TRANSITIONS[perSegment[i] as TransitionId] : TRANSITIONS[projectDefault];
+    const cap = Math.min(durations[i], durations[i + 1]) * MAX_OVERLAP_SHARE;
+    const durationSec = def.xfade ? Number(Math.min(def.durationSec, cap).toFixed(3)) : 0;
+    // Too short to render as a transition: fall back to a cut.
+    out.push(durationSec >= 0.05 ? { id: def.id, xfade: def.xfade, durationSec } : { id: 'cut', durationSec: 0 });
+  }
+  return out;
+}
@@ -0,0 +1,301 @@
+import fs from 'fs';
+import { execFileSync } from 'child_process';
+import OpenAI from 'openai';
+import { ElevenLabsClient } from 'elevenlabs';
+import { wordsFromCharacterAlignment, type WordTiming } from './wordTimings';
+import { resolveTtsProviderId, type TtsProviderId } from './ttsProviderIds';
+const ffmpeg = require('fluent-ffmpeg') as typeof import('fluent-ffmpeg');
+
+/**
+ * Text-to-speech providers used by automate_shorts.js for scene voiceovers. Every provider writes an
+ * MP3 file so per-scene files can be concatenated with `-c copy` regardless of where they came from.
+ */
+
+export { resolveTtsProviderId, TTS_PROVIDER_IDS, type TtsProviderId } from './ttsProviderIds';
+
+/** Provider-neutral voice settings (0-1 except speed, where 1 is normal pace). Providers ignore what they cannot use. */
+export type TtsVoiceSettings = {
+  stability?: number;
+  similarity?: number;
+  style?: number;
+  speed?: number;
+};
+
+const VOICE_SETTING_RANGES: Record<keyof TtsVoiceSettings, [number, number]> = {
+  stability: [0, 1],
+  similarity: [0, 1],
+  style: [0, 1],
+  speed: [0.5, 2]
+};
+
+/** Validate user-supplied voice settings (API body or TTS_VOICE_SETTINGS); unknown keys are rejected. */
+export function parseVoiceSettings(
+  value: unknown
+): { ok: true; settings: TtsVoiceSettings } | { ok: false; error: string } {
+  if (!value || typeof value !== 'object' || Array.isArray(value)) {
+    return { ok: false, error: 'voiceSettings must be an object' };
+  }
+  const settings: TtsVoiceSettings = {};
+  for (const [key, raw] of Object.entries(value as Record<string, unknown>)) {
+    if (!(key in VOICE_SETTING_RANGES)) return { ok: false, error: `Unknown voice setting: ${key}` };
+    if (raw === null || raw === undefined) continue;
+    const [min, max] = VOICE_SETTING_RANGES[key as keyof TtsVoiceSettings];
+    const n = typeof raw === 'number' ? raw : parseFloat(String(raw));
+    if (!Number.isFinite(n) || n < min || n > max) {
+      return { ok: false, error: `voiceSettings.${key} must be a number between ${min} and ${max}` };
+    }
+    settings[key as keyof TtsVoiceSettings] = n;
+  }
+  return { ok: true, settings };
+}
+
+export type TtsVoice = {
+  id: string;
+  name: string;
+  description?: string;
+  previewUrl?: string;
+};
+
+export type TtsRequest = {
+  text: string;
+  /** Provider-specific voice id/name; the provider default when omitted. */
+  voiceId?: string;
+  settings?: TtsVoiceSettings;
+  /** Neighbouring narration, used by providers that condition prosody on context (ElevenLabs). */
+  previousText?: string;
+  nextText?: string;
+};
+
+export type TtsResult = {
+  /** Per-word timestamps relative to the start of the file, when the provider returns an alignment. */
+  words?: WordTiming[];
+};
+
+export interface TtsProvider {
+  id: TtsProviderId;
+  label: string;
+  /** False for providers that run entirely on this machine. */
+  requiresNetwork: boolean;
+  defaultVoiceId: string;
+  /** Env var that must be set for this provider, if any (checked before the voiceover step). */
+  requiredEnv?: { name: string; value: string | undefined };
+  synthesize(request: TtsRequest, outputPath: string): Promise<TtsResult>;
+  listVoices(): Promise<TtsVoice[]>;
+}
+
+function normalizeEnvValue(value: string | undefined): string | undefined {
+  if (!value) return undefined;
+  const trimmed = value.trim();
+  if (!trimmed) return undefined;
+  return trimmed.replace(/^['"]|['"]$/g, '');
+}
+
+// ——— ElevenLabs ———
+
+const ELEVEN_KEYS = Array.from(
+  new Set(
+    [normalizeEnvValue(process.env.ELEVEN_API_KEY), normalizeEnvValue(process.env.ELEVENLABS_API_KEY)]
+      .filter((v): v is string => !!v)
+  )
+);
+const ELEVEN_MODEL_ID = normalizeEnvValue(process.env.ELEVEN_MODEL_ID) ?? 'eleven_multilingual_v2';
+
+function isElevenUnauthorized(err: unknown): boolean {
+  const e = err as {
+    statusCode?: number;
+    status?: number;
+    response?: { status?: number };
+    message?: string;
+  };
+  const status = e.statusCode ?? e.status ?? e.response?.status;
+  if (status === 401) return true;
+  const msg = String(e.message ?? '');
+  return /(^|\s)401(\s|$)|unauthorized|invalid api key/i.test(msg);
+}
+
+let elevenClients: ElevenLabsClient[] | null = null;
+
+function getElevenClients(): ElevenLabsClient[] {
+  if (ELEVEN_KEYS.length === 0) {
+    throw new Error('Missing ElevenLabs API key (set ELEVEN_API_KEY or ELEVENLABS_API_KEY).');
+  }
+  elevenClients ??= ELEVEN_KEYS.map((apiKey) => new ElevenLabsClient({ apiKey }));
+  return elevenClients;
+}
+
+const elevenLabsProvider: TtsProvider = {
+  id: 'elevenlabs',
+  label: 'ElevenLabs',
+  requiresNetwork: true,
+  defaultVoiceId: normalizeEnvValue(process.env.ELEVEN_VOICE_ID) ?? 'PlmstgXEUNQWiPyS27i2',
+  requiredEnv: { name: 'ELEVEN_API_KEY or ELEVENLABS_API_KEY', value: ELEVEN_KEYS[0] },
+  async synthesize(request, outputPath) {
+    const clients = getElevenClients();
+    const s = request.settings ?? {};
+    const voiceId = request.voiceId || this.defaultVoiceId;
+    const payload: Record<string, unknown> = {
+      text: request.text,
+      model_id: ELEVEN_MODEL_ID,
+      voice_settings: {
+        stability: s.stability ?? 0.5,
+        similarity_boost: s.similarity ?? 0.4,
+        style: s.style ?? 0,
+        use_speaker_boost: true,
+        // ElevenLabs accepts 0.7-1.2; the neutral range is wider so other providers can go further.
+        speed: Math.max(0.7, Math.min(1.2, s.speed ?? 1))
+      }
+    };
+    if (request.previousText) payload.previous_text = request.previousText;
+    if (request.nextText) payload.next_text = request.nextText;
+    // A second key (ELEVENLABS_API_KEY) is tried when the first is rejected with 401.
+    // The with-timestamps endpoint returns the audio plus a per-character alignment used for caption timing.
+    let lastErr: unknown;
+    for (let i = 0; i < clients.length; i++) {
+      try {
+        const res = await clients[i].textToSpeech.convertWithTimestamps(voiceId, payload as never);
+        fs.writeFileSync(outputPath, Buffer.from(res.audio_base64, 'base64'));
+        return { words: res.alignment ? wordsFromCharacterAlignment(res.alignment) : undefined };
+      } catch (err) {
+        lastErr = err;
+        if (i < clients.length - 1 && isElevenUnauthorized(err)) continue;
+        throw err;
+      }
+    }
+    throw lastErr instanceof Error ? lastErr : new Error(String(lastErr ?? 'ElevenLabs text-to-speech failed'));
+  },
+  async listVoices() {
+    const { voices } = await getElevenClients()[0].voices.getAll();
+    return voices.map((v) => ({
+      id: v.voice_id,
+      name: v.name ?? v.voice_id,
+      description: v.labels ? Object.values(v.labels).join(', ') : undefined,
+      previewUrl: v.preview_url
+    }));
+  }
+};
+
+// ——— OpenAI ———
+
+const OPENAI_KEY = normalizeEnvValue(process.env.OPENAI_API_KEY);
+const OPENAI_TTS_MODEL = normalizeEnvValue(process.env.OPENAI_TTS_MODEL) ?? 'gpt-4o-mini-tts';
+let openaiClient: OpenAI | null = null;
+const OPENAI_VOICES = ['alloy', 'ash', 'ballad', 'coral', 'echo', 'fable', 'nova', 'onyx', 'sage', 'shimmer', 'verse'];
+
+const openAiProvider: TtsProvider = {
+  id: 'openai',
+  label: 'OpenAI',
+  requiresNetwork: true,
+  defaultVoiceId: normalizeEnvValue(process.env.OPENAI_TTS_VOICE) ?? 'onyx',
+  requiredEnv: { name: 'OPENAI_API_KEY', value: OPENAI_KEY },
+  async synthesize(request, outputPath) {
+    if (!OPENAI_KEY) throw new Error('Missing OPENAI_API_KEY for OpenAI text-to-speech.');
+    openaiClient ??= new OpenAI({ apiKey: OPENAI_KEY });
+    const speed = request.settings?.speed;
+    const response = await openaiClient.audio.speech.create({
+      model: OPENAI_TTS_MODEL,
+      voice: request.voiceId || this.defaultVoiceId,
+      input: request.text,
+      response_format: 'mp3',
+      ...(speed != null ? { speed: Math.max(0.25, Math.min(4, speed)) } : {})
+    });
+    fs.writeFileSync(outputPath, Buffer.from(await response.arrayBuffer()));
+    return {};
+  },
+  async listVoices() {
+    // The speech API has no voice listing endpoint; these are the built-in voices.
+    return OPENAI_VOICES.map((id) => ({ id, name: id.charAt(0).toUpperCase() + id.slice(1) }));
+  }
+};
+
+// ——— Local (offline) ———
+
+/** Narration pace used to size placeholder tones (words per second at speed 1). */
+const LOCAL_TONE_WORDS_PER_SEC = 2.6;
+
+let espeakBinary: string | null | undefined;
+
+/** espeak-ng or espeak when installed; LOCAL_TTS_ENGINE=tone skips detection and always renders a tone. */
+function findEspeak(): string | null {
+  if (espeakBinary !== undefined) return espeakBinary;
+  espeakBinary = null;
+  if ((process.env.LOCAL_TTS_ENGINE ?? '').toLowerCase() === 'tone') return espeakBinary;
+  for (const bin of ['espeak-ng', 'espeak']) {
+    try {
+      execFileSync(bin, ['--version'], { stdio: 'ignore' });
+      espeakBinary = bin;
+      break;
+    } catch {
+      /* not installed */
+    }
+  }
+  return espeakBinary;
+}
+
+function encodeMp3(input: { path?: string; lavfi?: string }, outputPath: string): Promise<void> {
+  return new Promise((resolve, reject) => {
+    const chain = ffmpeg();
+    if (input.lavfi) chain.input(input.lavfi).inputFormat('lavfi');
+    else chain.input(input.path!);
+    chain
+      .audioCodec('libmp3lame')
+      .audioFrequency(44100)
+      .audioChannels(1)
+      .audioBitrate('128k')
+      .save(outputPath)
+      .on('end', () => resolve())
+      .on('error', (err: Error) => reject(err));
+  });
+}
+
+const localProvider: TtsProvider = {
+  id: 'local',
+  label: 'Local (offline)',
+  requiresNetwork: false,
+  defaultVoiceId: normalizeEnvValue(process.env.LOCAL_TTS_VOICE) ?? 'en-us',
+  async synthesize(request, outputPath) {
+    const speed = Math.max(0.5, Math.min(2, request.settings?.speed ?? 1));
+    const espeak = findEspeak();
+    if (espeak) {
+      const wavPath = `${outputPath}.wav`;
+      execFileSync(espeak, [
+        '-v', request.voiceId || this.defaultVoiceId,
+        '-s', String(Math.round(165 * speed)),
+        '-w', wavPath,
+        request.text
+      ], { stdio: 'ignore' });
+      try {
+        await encodeMp3({ path: wavPath }, outputPath);
+      } finally {
+        fs.rmSync(wavPath, { force: true });
+      }
+      return {};
+    }
+    // No speech engine: a quiet tone sized like real narration keeps timing, captions and assembly testable.
+    const words = request.text.trim().split(/\s+/).filter(Boolean).length;
+    const durationSec = Math.max(0.5, words / (LOCAL_TONE_WORDS_PER_SEC * speed));
+    await encodeMp3({ lavfi: `sine=frequency=220:sample_rate=44100:duration=${durationSec.toFixed(2)},volume=0.2` }, outputPath);
+    return {};
+  },
+  async listVoices() {
+    const espeak = findEspeak();
+    if (!espeak) return [{ id: this.defaultVoiceId, name: 'Placeholder tone (no speech engine installed)' }];
+    // `espeak --voices` columns: Pty Language Age/Gender VoiceName File Other
+    const out = execFileSync(espeak, ['--voices'], { encoding: 'utf-8' });
+    return out
+      .split('\n')
+      .slice(1)
+      .map((line) => line.trim().split(/\s+/))
+      .filter((cols) => cols.length >= 4)
+      .map((cols) => ({ id: cols[1], name: cols[3].replace(/_/g, ' '), description: cols[2] }));
+  }
+};
+
+const PROVIDERS: Record<TtsProviderId, TtsProvider> = {
+  elevenlabs: elevenLabsProvider,
+  openai: openAiProvider,
+  local: localProvider
+};
+
+export function getTtsProvider(id: string | undefined): TtsProvider {
+  return PROVIDERS[resolveTtsProviderId(id)];
+}
@@ -0,0 +1,12 @@
+/**
+ * TTS provider ids without the provider clients, so config can resolve the default provider without loading them.
+ */
+
+export type TtsProviderId = 'elevenlabs' | 'openai' | 'local';
+
+export const TTS_PROVIDER_IDS: TtsProviderId[] = ['elevenlabs', 'openai', 'local'];
+
+export function resolveTtsProviderId(raw: string | undefined): TtsProviderId {
+  const v = (raw ?? '').trim().toLowerCase();
+  return (TTS_PROVIDER_IDS as string[]).includes(v) ? (v as TtsProviderId) : 'elevenlabs';
+}
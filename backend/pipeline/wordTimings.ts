@@ -0,0 +1,154 @@
+import fs from 'fs';
+const ffmpeg = require('fluent-ffmpeg') as typeof import('fluent-ffmpeg');
+
+/**
+ * Per-word timestamps for a narration file, relative to the start of that file. They come from the TTS
+ * provider when it returns an alignment (ElevenLabs with timestamps); otherwise they are estimated locally
+ * by fitting the words into the speech regions FFmpeg's silencedetect finds in the audio.
+ * Stored next to the audio as `<name>.words.json` so captions can be cued on the spoken words.
+ */
+
+export type WordTiming = { word: string; startSec: number; endSec: number };
+
+export type WordTimingSource = 'tts' | 'estimated';
+
+export type WordTimingsFile = { source: WordTimingSource; durationSec: number; words: WordTiming[] };
+
+/** Character alignment as returned by ElevenLabs `/with-timestamps`. */
+export type CharacterAlignment = {
+  characters: string[];
+  character_start_times_seconds: number[];
+  character_end_times_seconds: number[];
+};
+
+const round3 = (n: number) => Number(n.toFixed(3));
+
+/** Group a character alignment into whitespace-separated words. */
+export function wordsFromCharacterAlignment(alignment: CharacterAlignment): WordTiming[] {
+  const { characters, character_start_times_seconds: starts, character_end_times_seconds: ends } = alignment;
+  const words: WordTiming[] = [];
+  let current: WordTiming | null = null;
+  for (let i = 0; i < characters.length; i++) {
+    const ch = characters[i];
+    if (/\s/.test(ch)) {
+      if (current) words.push(current);
+      current = null;
+      continue;
+    }
+    const start: number = starts[i] ?? current?.endSec ?? 0;
+    const end = ends[i] ?? start;
+    if (!current) current = { word: ch, startSec: round3(start), endSec: round3(end) };
+    else {
+      current.word += ch;
+      current.endSec = round3(Math.max(current.endSec, end));
+    }
+  }
+  if (current) words.push(current);
+  return words;
+}
+
+/** Rough spoken weight of a word: letters plus a pause after clause/sentence punctuation. */
+function wordWeight(word: string): number {
+  const letters = word.replace(/[^\p{L}\p{N}]/gu, '').length;
+  const pause = /[.!?]$/.test(word) ? 3 : /[,;:]$/.test(word) ? 1.5 : 0;
+  return Math.max(1, letters) + 1 + pause;
+}
+
+/**
+ * Spread words over the speech regions of an audio file (or the whole duration when none are known),
+ * proportionally to their length, so no word is cued inside a pause.
+ */
+export function estimateWordTimings(
+  text: string,
+  durationSec: number,
+  speechRegions?: Array<{ startSec: number; endSec: number }>
+): WordTiming[] {
+  const words = text.trim().split(/\s+/).filter(Boolean);
+  if (words.length === 0 || !(durationSec > 0)) return [];
+  const regions = (speechRegions ?? []).filter((r) => r.endSec > r.startSec);
+  if (regions.length === 0) regions.push({ startSec: 0, endSec: durationSec });
+  const speechSec = regions.reduce((s, r) => s + (r.endSec - r.startSec), 0);
+
+  // Map a position on the concatenated speech timeline back to the audio timeline.
+  const toAudioTime = (speechPos: number): number => {
+    let remaining = speechPos;
+    for (const r of regions) {
+      const len = r.endSec - r.startSec;
+      if (remaining <= len) return r.startSec + remaining;
+      remaining -= len;
+    }
+    return regions[regions.length - 1].endSec;
+  };
+
+  const weights = words.map(wordWeight);
+  const total = weights.reduce((s, w) => s + w, 0);
+  const out: WordTiming[] = [];
+  let acc = 0;
+  for (let i = 0; i < words.length; i++) {
+    const start = toAudioTime((acc / total) * speechSec);
+    acc += weights[i];
+    const end = toAudioTime((acc / total) * speechSec);
+    out.push({ word: words[i], startSec: round3(start), endSec: round3(Math.max(start, end)) });
+  }
+  return out;
+}
+
+/** Non-silent regions of an audio file via FFmpeg silencedetect. */
+export function detectSpeechRegions(
+  audioPath: string,
+  durationSec: number,
+  opts?: { noiseDb?: number; minSilenceSec?: number }
+): Promise<Array<{ startSec: number; endSec: number }>> {
+  const noise = opts?.noiseDb ?? -35;
+  const minSilence = opts?.minSilenceSec ?? 0.15;
+  return new Promise((resolve, reject) => {
+    const silences: Array<{ start: number; end: number }> = [];
+    let pendingStart: number | null = null;
+    ffmpeg(audioPath)
+      .audioFilters(`silencedetect=noise=${noise}dB:d=${minSilence}`)
+      .format('null')
+      .output('-')
+      .on('stderr', (line: string) => {
+        const s = /silence_start:\s*(-?[\d.]+)/.exec(line);
+        if (s) pendingStart = Math.max(0, parseFloat(s[1]));
+        const e = /silence_end:\s*([\d.]+)/.exec(line);
+        if (e && pendingStart !== null) {
+          silences.push({ start: pendingStart, end: parseFloat(e[1]) });
+          pendingStart = null;
+        }
+      })
+      .on('end', () => {
+        if (pendingStart !== null) silences.push({ start: pendingStart, end: durationSec });
+        const regions: Array<{ startSec: number; endSec: number }> = [];
+        let cursor = 0;
+        for (const sil of silences) {
+          if (sil.start > cursor) regions.push({ startSec: cursor, endSec: sil.start });
+          cursor = Math.max(cursor, sil.end);
+        }
+        if (cursor < durationSec) regions.push({ startSec: cursor, endSec: durationSec });
+        resolve(regions);
+      })
+      .on('error', (err: Error) => reject(err))
+      .run();
+  });
+}
+
+export function wordTimingsPathFor(audioPath: string): string {
+  return audioPath.replace(/\.[^./\\]+$/, '') + '.words.json';
+}
+
+export function writeWordTimings(audioPath: string, data: WordTimingsFile): void {
+  fs.writeFileSync(wordTimingsPathFor(audioPath), JSON.stringify(data, null, 2));
+}
+
+/** Word timings saved next to an audio file, or null when missing or unreadable. */
+export function readWordTimings(audioPath: string): WordTimingsFile | null {
+  const p = wordTimingsPathFor(audioPath);
+  if (!fs.existsSync(p)) return null;
+  try {
+    const data = JSON.parse(fs.readFileSync(p, 'utf-8')) as WordTimingsFile;
+    return Array.isArray(data?.words) ? data : null;
+  } catch {
+    return null;
+  }
+}
@@ -0,0 +1,46 @@
+import { EventEmitter } from 'events';
+import type { PipelineProgressEvent } from './pipeline/progress';
+import type { ProjectStatus } from './db';
+
+/**
+ * In-process fan-out of live project events to SSE subscribers. The job worker runs in the API
+ * process, so pipeline progress and stage changes are published here and streamed by routes/projects.
+ */
+export type ProjectEvent =
+  | ({ type: 'progress'; at: string } & PipelineProgressEvent)
+  | { type: 'stage'; at: string; stage: string; status: string; detail?: string }
+  | { type: 'status'; at: string; status: ProjectStatus; currentStage?: string; errorMessage?: string };
+
+type ProjectEventInput =
+  | ({ type: 'progress' } & PipelineProgressEvent)
+  | { type: 'stage'; stage: string; status: string; detail?: string }
+  | { type: 'status'; status: ProjectStatus; currentStage?: string; errorMessage?: string };
+
+const emitter = new EventEmitter();
+emitter.setMaxListeners(0);
+
+/** Last progress event per project so a client that connects mid-step gets the current bar immediately. */
+const lastProgress = new Map<string, ProjectEvent>();
+
+export function publishProjectEvent(projectId: string, input: ProjectEventInput): void {
+  const event = { ...input, at: new Date().toISOString() } as ProjectEvent;
+  if (event.type === 'progress') lastProgress.set(projectId, event);
+  else if (event.type === 'status') lastProgress.delete(projectId);
+  emitter.emit(projectId, event);
+}
+
+export function getLastProjectProgress(projectId: string): ProjectEvent | null {
+  return lastProgress.get(projectId) ?? null;
+}
+
+export function subscribeProjectEvents(projectId: string, listener: (event: ProjectEvent) => void): () => void {
+  emitter.on(projectId, listener);
+  return () => {
+    emitter.off(projectId, listener);
+  };
+}
+
+/** Adapter for RunShortOptions.onProgress. */
+export function projectProgressListener(projectId: string): (event: PipelineProgressEvent) => void {
+  return (event) => publishProjectEvent(projectId, { type: 'progress', ...event });
+}
@@ -1,18 +1,48 @@
 import fs from 'fs';
 import path from 'path';
-import { runShortPipeline, type RunShortOptions } from './pipeline/index';
+import {
+  runShortPipeline,
+  isPipelineCancelled,
+  PIPELINE_CANCELLED_PREFIX,
+  type RunShortOptions,
+  type SceneActionKind
+} from './pipeline/index';
 import {
   getProjectWorkspaceDir,
   getProjectOutputDir,
   syncR2ToWorkspace,
   uploadProjectFile,
   uploadWorkspaceToR2,
+  uploadCaptionTracks,
   updateProject,
   pushStageHistory,
   getProjectByProjectId
 } from './projects';
-import { CompetitorIntelSnapshot, ProjectDoc } from './db';
+import { config } from './config';
+import { translateScriptScenes } from './localizationService';
+import { CompetitorIntelSnapshot, PipelineJobKind, ProjectDoc, ProjectStatus, type PublishState, type ThumbnailCandidate } from './db';
+import { downloadToFile, getObjectJson, isR2Enabled } from './r2';
+import { getMediaAsset, pickLibraryMusic } from './mediaLibrary';
+import { ensureScriptVersionBaseline, recordScriptFileVersion } from './scriptVersions';
+import {
+  DEFAULT_THUMBNAIL_STYLE,
+  pickCandidateSources,
+  probeDurationSec,
+  renderThumbnail,
+  thumbnailSize,
+  writeCandidateImage,
+  type ThumbnailStyle
+} from './pipeline/thumbnails';
 import { getWebResearchContext } from './webResearchService';
+import { enqueueJob, isShutdownAbort, registerJobHandler, type JobHandler } from './jobQueue';
+import { getCompetitorIntelForUser } from './userIntel';
+import { finishCalendarPublish } from './contentCalendar';
+import { projectProgressListener, publishProjectEvent } from './progressEvents';
+import { getYoutubeAccessToken, insertCaptionTrack, setVideoThumbnail, startResumableUpload, uploadVideoFile } from './youtubePublisher';
+import { captionLanguageName } from './pipeline/captionTracks';
+import { exportFileName, type ExportProfileId } from './pipeline/exportProfiles';
+
+const PREVIOUS_SCRIPT_FILE = 'script.previous.json';
 
 /** Fallback when fs.rmSync(..., { recursive: true }) fails (e.g. locked files). */
 function rmDirRecursive(dir: string): void {
@@ -32,7 +62,8 @@ export async function runProjectPipeline(
   testMode: boolean,
   developmentsContext?: string,
   competitorIntel?: CompetitorIntelSnapshot | null,
-  useWebResearch = false
+  useWebResearch = false,
+  signal?: AbortSignal
 ): Promise<void> {
   const workspace = getProjectWorkspaceDir(projectId);
   const outputDir = getProjectOutputDir(projectId);
@@ -96,13 +127,17 @@ export async function runProjectPipeline(
     projectTempDir: workspace,
     projectOutputDir: outputDir,
     videoFormat,
-    ...(project.scriptProvider === 'grok' ? { scriptProvider: 'grok' as const } : {})
+    ...(project.scriptProvider === 'grok' ? { scriptProvider: 'grok' as const } : {}),
+    onProgress: projectProgressListener(projectId),
+    signal
   };
 
   // Step 1: script
   try {
     await runShortPipeline({ ...runOpts, runStep: 1, reuseTemp: false });
   } catch (err) {
+    // Cancellation is recorded by restoreProjectAfterCancel; the project is not in error.
+    if (isPipelineCancelled(err)) throw err;
     await updateProject(projectId, userId, {
       status: 'error',
       currentStage: 'script',
@@ -120,6 +155,7 @@ export async function runProjectPipeline(
   const scriptPath = path.join(workspace, 'script.json');
   if (fs.existsSync(scriptPath)) {
     const key = await uploadProjectFile(userId, projectId, 'script.json', scriptPath);
+    await recordScriptFileVersion(projectId, userId, scriptPath, { reason: 'generated', author: 'pipeline' });
     await updateProject(projectId, userId, {
       status: 'script_generated',
       currentStage: 'script',
@@ -143,7 +179,8 @@ export async function runProjectPipeline(
 export async function regenerateProjectScript(
   userId: string,
   projectId: string,
-  remarks?: string
+  remarks?: string,
+  signal?: AbortSignal
 ): Promise<void> {
   const project = await getProjectByProjectId(projectId, userId);
   if (!project) throw new Error('Project not found');
@@ -177,7 +214,15 @@ export async function regenerateProjectScript(
   }
 
   const scriptPath = path.join(workspace, 'script.json');
-  if (fs.existsSync(scriptPath)) fs.unlinkSync(scriptPath);
+  if (fs.existsSync(scriptPath)) {
+    try {
+      await ensureScriptVersionBaseline(projectId, userId, JSON.parse(fs.readFileSync(scriptPath, 'utf-8')));
+    } catch {
+      /* unreadable script: nothing worth keeping */
+    }
+  }
+  // Keep the current script until the new one exists, so a cancelled regeneration can put it back.
+  if (fs.existsSync(scriptPath)) fs.renameSync(scriptPath, path.join(workspace, PREVIOUS_SCRIPT_FILE));
 
   const videoFormat: RunShortOptions['videoFormat'] =
     (project.videoFormat === '5min' || project.videoFormat === '11min') ? project.videoFormat : 'short';
@@ -192,12 +237,16 @@ export async function regenerateProjectScript(
     projectTempDir: workspace,
     projectOutputDir: outputDir,
     videoFormat,
-    ...(project.scriptProvider === 'grok' ? { scriptProvider: 'grok' as const } : {})
+    ...(project.scriptProvider === 'grok' ? { scriptProvider: 'grok' as const } : {}),
+    onProgress: projectProgressListener(projectId),
+    signal
   };
 
   try {
     await runShortPipeline({ ...runOpts, runStep: 1, reuseTemp: true });
   } catch (err) {
+    // Cancellation is recorded by restoreProjectAfterCancel; the project is not in error.
+    if (isPipelineCancelled(err)) throw err;
     await updateProject(projectId, userId, {
       status: 'error',
       currentStage: 'script',
@@ -213,7 +262,14 @@ export async function regenerateProjectScript(
   }
 
   if (fs.existsSync(scriptPath)) {
+    fs.rmSync(path.join(workspace, PREVIOUS_SCRIPT_FILE), { force: true });
     const key = await uploadProjectFile(userId, projectId, 'script.json', scriptPath);
+    // Remarks are feedback on the draft being replaced.
+    await recordScriptFileVersion(projectId, userId, scriptPath, {
+      reason: remarks?.trim() ? 'reject_feedback' : 'regenerate',
+      author: 'pipeline',
+      note: remarks?.trim() || undefined
+    });
     await updateProject(projectId, userId, {
       status: 'script_generated',
       currentStage: 'script',
@@ -227,10 +283,11 @@ export async function regenerateProjectScript(
   }
 }
 
-export async function runProjectAfterScriptApproval(
+export async function runProjectAudio(
   userId: string,
   projectId: string,
-  testMode = false
+  testMode = false,
+  signal?: AbortSignal
 ): Promise<void> {
   const project = await getProjectByProjectId(projectId, userId);
   if (!project) throw new Error('Project not found');
@@ -252,28 +309,33 @@ export async function runProjectAfterScriptApproval(
     clipKeys: project.clipKeys,
     imageKeys: project.imageKeys,
     segmentMapKey: project.segmentMapKey,
-    segmentAlignmentKey: project.segmentAlignmentKey
+    segmentAlignmentKey: project.segmentAlignmentKey,
+    audioManifestKey: project.audioManifestKey
   });
 
   const videoFormat: RunShortOptions['videoFormat'] =
     (project.videoFormat === '5min' || project.videoFormat === '11min') ? project.videoFormat : 'short';
 
-  const runOpts: Omit<RunShortOptions, 'runStep' | 'reuseTemp'> & {
-    topic: string;
-    projectTempDir: string;
-    projectOutputDir: string;
-  } = {
-    topic: project.topic,
-    testMode,
-    projectTempDir: workspace,
-    projectOutputDir: outputDir,
-    videoFormat
-  };
-
   // Step 2: audio
   try {
-    await runShortPipeline({ ...runOpts, runStep: 2, reuseTemp: true });
+    await runShortPipeline({
+      topic: project.topic,
+      testMode,
+      projectTempDir: workspace,
+      projectOutputDir: outputDir,
+      videoFormat,
+      runStep: 2,
+      reuseTemp: true,
+      ttsProvider: project.ttsProvider,
+      voiceId: project.voiceId,
+      voiceSettings: project.voiceSettings,
+      language: project.language,
+      onProgress: projectProgressListener(projectId),
+      signal
+    });
   } catch (err) {
+    // Cancellation is recorded by restoreProjectAfterCancel; the project is not in error.
+    if (isPipelineCancelled(err)) throw err;
     await updateProject(projectId, userId, {
       status: 'error',
       currentStage: 'audio',
@@ -292,7 +354,8 @@ export async function runProjectAfterScriptApproval(
   await updateProject(projectId, userId, {
     status: 'audio_generated',
     currentStage: 'audio',
-    audioKeys: uploaded.audioKeys
+    audioKeys: uploaded.audioKeys,
+    audioManifestKey: uploaded.audioManifestKey
   });
   await pushStageHistory(projectId, userId, {
     stage: 'audio',
@@ -300,9 +363,47 @@ export async function runProjectAfterScriptApproval(
     at: new Date().toISOString()
   });
 
+  await enqueueJob({ userId, projectId, kind: 'clips' });
+}
+
+export async function runProjectClips(userId: string, projectId: string, signal?: AbortSignal): Promise<void> {
+  const project = await getProjectByProjectId(projectId, userId);
+  if (!project) throw new Error('Project not found');
+  // waiting_for_clips: an automatic provider fills the clips a manual project is still missing.
+  if (project.status !== 'audio_generated' && project.status !== 'waiting_for_clips') {
+    throw new Error('Project is not in audio_generated state');
+  }
+
+  const workspace = getProjectWorkspaceDir(projectId);
+  const outputDir = getProjectOutputDir(projectId);
+  if (!fs.existsSync(workspace)) fs.mkdirSync(workspace, { recursive: true });
+  if (!fs.existsSync(outputDir)) fs.mkdirSync(outputDir, { recursive: true });
+
+  await syncR2ToWorkspace(projectId, userId, {
+    scriptKey: project.scriptKey,
+    audioKeys: project.audioKeys,
+    clipKeys: project.clipKeys,
+    imageKeys: project.imageKeys,
+    segmentMapKey: project.segmentMapKey,
+    segmentAlignmentKey: project.segmentAlignmentKey
+  });
+
+  const videoFormat: RunShortOptions['videoFormat'] =
+    (project.videoFormat === '5min' || project.videoFormat === '11min') ? project.videoFormat : 'short';
+
   // Step 3: clips (may exit with waiting_for_clips)
   try {
-    const result = await runShortPipeline({ ...runOpts, runStep: 3, reuseTemp: true });
+    const result = await runShortPipeline({
+      topic: project.topic,
+      projectTempDir: workspace,
+      projectOutputDir: outputDir,
+      videoFormat,
+      runStep: 3,
+      reuseTemp: true,
+      clipProvider: project.clipProvider,
+      onProgress: projectProgressListener(projectId),
+      signal
+    });
     if (result.status === 'waiting_for_clips') {
       await updateProject(projectId, userId, {
         status: 'waiting_for_clips',
@@ -318,6 +419,8 @@ export async function runProjectAfterScriptApproval(
       return;
     }
   } catch (err) {
+    // Cancellation is recorded by restoreProjectAfterCancel; the project is not in error.
+    if (isPipelineCancelled(err)) throw err;
     await updateProject(projectId, userId, {
       status: 'error',
       currentStage: 'clips',
@@ -332,15 +435,88 @@ export async function runProjectAfterScriptApproval(
     throw err;
   }
 
-  // All clips present: upload clips to R2, then run assembly (step 4)
+  // All clips present: upload clips to R2, then queue assembly (step 4)
   const clipUploads = await uploadWorkspaceToR2(userId, projectId, workspace);
-  if (clipUploads.clipKeys?.length) {
-    await updateProject(projectId, userId, { clipKeys: clipUploads.clipKeys });
+  await updateProject(projectId, userId, {
+    status: 'waiting_for_clips',
+    currentStage: 'clips',
+    requiredFiles: [],
+    ...(clipUploads.clipKeys?.length ? { clipKeys: clipUploads.clipKeys } : {})
+  });
+  await pushStageHistory(projectId, userId, {
+    stage: 'clips',
+    status: 'done',
+    at: new Date().toISOString()
+  });
+  await enqueueJob({ userId, projectId, kind: 'assembly' });
+}
+
+/**
+ * Background music for a project without an uploaded track: the previous auto pick if it is still in the library,
+ * else the library track that best fits the script's mood and the narration length. Downloads it into the
+ * workspace and returns its path, or null when auto music is off or there is nothing to pick. Auto music is opt-in,
+ * so projects created before it keep the default background music.
+ */
+async function resolveAutoMusic(project: ProjectDoc, userId: string, workspace: string): Promise<string | null> {
+  if (project.autoMusic !== true || !isR2Enabled()) return null;
+  const projectId = project.projectId;
+  let asset = project.musicSelection ? await getMediaAsset(project.musicSelection.assetId, userId) : null;
+  if (!asset) {
+    let voiceover = '';
+    try {
+      voiceover = (JSON.parse(fs.readFileSync(path.join(workspace, 'script.json'), 'utf-8')) as { voiceover?: string }).voiceover ?? '';
+    } catch {
+      /* no script: pick on topic alone */
+    }
+    const audioPath = path.join(workspace, 'audio.mp3');
+    const targetSec = fs.existsSync(audioPath) ? await probeDurationSec(audioPath) : 60;
+    const picked = await pickLibraryMusic(userId, projectId, `${project.topic}\n${voiceover}`, targetSec);
+    if (!picked) return null;
+    asset = picked.asset;
+    await updateProject(projectId, userId, {
+      musicSelection: {
+        assetId: asset.assetId,
+        title: asset.title ?? asset.fileName,
+        scriptMoods: picked.scriptMoods,
+        score: picked.score,
+        selectedAt: new Date().toISOString()
+      }
+    });
   }
-  await runProjectAssembly(userId, projectId);
+  const ext = asset.fileName.split('.').pop()?.toLowerCase() || 'mp3';
+  const dest = path.join(workspace, `library_music.${ext}`);
+  if (!fs.existsSync(dest)) await downloadToFile(asset.key, dest);
+  return dest;
 }
 
-export async function runProjectAssembly(userId: string, projectId: string): Promise<void> {
+/** Step 4 settings shared by the final render and the preview: the project's look, sound and music. */
+async function assemblyRunOptions(project: ProjectDoc, userId: string, workspace: string, outputDir: string): Promise<RunShortOptions> {
+  const projectId = project.projectId;
+  const backgroundMusicPath = project.backgroundMusicKey
+    ? path.join(workspace, 'background_music.mp3')
+    : await resolveAutoMusic(project, userId, workspace);
+  return {
+    topic: project.topic,
+    projectTempDir: workspace,
+    projectOutputDir: outputDir,
+    runStep: 4,
+    reuseTemp: true,
+    ttsProvider: project.ttsProvider,
+    voiceId: project.voiceId,
+    voiceSettings: project.voiceSettings,
+    captionStyle: project.captionStyle,
+    transition: project.transition,
+    loudnessTargetLufs: project.loudnessTargetLufs,
+    chapterCards: project.chapterCards,
+    captionLanguages: project.captionLanguages,
+    language: project.language,
+    onProgress: projectProgressListener(projectId),
+    videoFormat: (project.videoFormat === '5min' || project.videoFormat === '11min') ? project.videoFormat : 'short',
+    ...(backgroundMusicPath ? { backgroundMusicPath, backgroundMusicStartSec: project.backgroundMusicStartSec ?? 0 } : {})
+  };
+}
+
+export async function runProjectAssembly(userId: string, projectId: string, signal?: AbortSignal): Promise<void> {
   const project = await getProjectByProjectId(projectId, userId);
   if (!project) throw new Error('Project not found');
   if (project.status !== 'waiting_for_clips') {
@@ -356,24 +532,21 @@ export async function runProjectAssembly(userId: string, projectId: string): Pro
     imageKeys: project.imageKeys,
     segmentMapKey: project.segmentMapKey,
     segmentAlignmentKey: project.segmentAlignmentKey,
+    audioManifestKey: project.audioManifestKey,
     backgroundMusicKey: project.backgroundMusicKey
   });
 
   try {
     const result = await runShortPipeline({
-      topic: project.topic,
-      projectTempDir: workspace,
-      projectOutputDir: outputDir,
-      runStep: 4,
-      reuseTemp: true,
-      videoFormat: (project.videoFormat === '5min' || project.videoFormat === '11min') ? project.videoFormat : 'short',
-      ...(project.backgroundMusicKey ? { backgroundMusicPath: path.join(workspace, 'background_music.mp3'), backgroundMusicStartSec: project.backgroundMusicStartSec } : {})
+      ...(await assemblyRunOptions(project, userId, workspace, outputDir)),
+      signal
     });
 
     const finalPath = path.join(outputDir, 'final_short.mp4');
     const metaPath = path.join(outputDir, 'youtube_meta.json');
     const segmentMapPath = path.join(outputDir, 'clip_segment_map.json');
     const segmentAlignmentPath = path.join(outputDir, 'segment_alignment.json');
+    const renderReportPath = path.join(outputDir, 'render_report.json');
     const finalKey = fs.existsSync(finalPath)
       ? await uploadProjectFile(userId, projectId, 'final_short.mp4', finalPath)
       : null;
@@ -386,6 +559,10 @@ export async function runProjectAssembly(userId: string, projectId: string): Pro
     const segmentAlignmentKey = fs.existsSync(segmentAlignmentPath)
       ? await uploadProjectFile(userId, projectId, 'segment_alignment.json', segmentAlignmentPath)
       : null;
+    const renderReportKey = fs.existsSync(renderReportPath)
+      ? await uploadProjectFile(userId, projectId, 'render_report.json', renderReportPath)
+      : null;
+    const captionTracks = await uploadCaptionTracks(userId, projectId, outputDir, project.language);
     const workspaceUploads = await uploadWorkspaceToR2(userId, projectId, workspace);
 
     await updateProject(projectId, userId, {
@@ -395,7 +572,10 @@ export async function runProjectAssembly(userId: string, projectId: string): Pro
       youtubeMetaKey: metaKey ?? undefined,
       segmentMapKey: segmentMapKey ?? undefined,
       segmentAlignmentKey: segmentAlignmentKey ?? undefined,
+      renderReportKey: renderReportKey ?? undefined,
+      captionTracks: captionTracks.length ? captionTracks : undefined,
       audioKeys: workspaceUploads.audioKeys ?? project.audioKeys,
+      audioManifestKey: workspaceUploads.audioManifestKey ?? project.audioManifestKey,
       requiredFiles: undefined,
       errorMessage: undefined
     });
@@ -424,7 +604,10 @@ export async function runProjectAssembly(userId: string, projectId: string): Pro
         }
       }
     }
+    // New render, new frames: re-pick candidates but keep a title the user already chose.
+    await enqueueJob({ userId, projectId, kind: 'thumbnail', payload: { refreshCandidates: true } });
   } catch (err) {
+    if (isPipelineCancelled(err)) throw err;
     const message = (err as Error).message || '';
     if (message.startsWith('ALIGNMENT_BLOCKED:')) {
       let payload: { reasons?: string[]; requiredFiles?: string[] } = {};
@@ -461,3 +644,675 @@ export async function runProjectAssembly(userId: string, projectId: string): Pro
     throw err;
   }
 }
+
+/**
+ * Preview render while clips are still being collected: low resolution, fast preset, watermark, and placeholder
+ * cards for scenes that have no clip or image yet. Only preview.mp4 is kept; the project's status, segment map and
+ * workspace files are left for the final assembly.
+ */
+export async function runProjectPreview(userId: string, projectId: string, signal?: AbortSignal): Promise<void> {
+  const project = await getProjectByProjectId(projectId, userId);
+  if (!project) throw new Error('Project not found');
+  if (project.status !== 'waiting_for_clips') throw new Error('Previews are rendered while the project is waiting for clips');
+
+  const workspace = getProjectWorkspaceDir(projectId);
+  const outputDir = getProjectOutputDir(projectId);
+  if (!fs.existsSync(workspace)) fs.mkdirSync(workspace, { recursive: true });
+  if (!fs.existsSync(outputDir)) fs.mkdirSync(outputDir, { recursive: true });
+  await syncR2ToWorkspace(projectId, userId, {
+    scriptKey: project.scriptKey,
+    audioKeys: project.audioKeys,
+    clipKeys: project.clipKeys,
+    imageKeys: project.imageKeys,
+    audioManifestKey: project.audioManifestKey,
+    backgroundMusicKey: project.backgroundMusicKey
+  });
+  const sceneCount = readWorkspaceSceneCount(workspace);
+  const hasVisuals = (i: number) =>
+    fs.existsSync(path.join(workspace, `clip_${i}.mp4`)) ||
+    fs.readdirSync(workspace).some((n) => new RegExp(`^image_${i}\\.(jpg|jpeg|png|webp)$`, 'i').test(n));
+  const placeholderScenes = Array.from({ length: sceneCount }, (_, i) => i).filter((i) => !hasVisuals(i));
+
+  await pushStageHistory(projectId, userId, { stage: 'preview', status: 'started', at: new Date().toISOString() });
+  try {
+    await runShortPipeline({
+      ...(await assemblyRunOptions(project, userId, workspace, outputDir)),
+      preview: true,
+      signal
+    });
+    const previewPath = path.join(outputDir, 'preview.mp4');
+    if (!fs.existsSync(previewPath)) throw new Error('Preview render produced no video');
+    const videoKey = await uploadProjectFile(userId, projectId, 'preview.mp4', previewPath);
+    await updateProject(projectId, userId, {
+      preview: { ...(videoKey ? { videoKey } : {}), placeholderScenes, renderedAt: new Date().toISOString() }
+    });
+    await pushStageHistory(projectId, userId, {
+      stage: 'preview',
+      status: 'done',
+      at: new Date().toISOString(),
+      ...(placeholderScenes.length ? { detail: `placeholders for scene(s) ${placeholderScenes.join(', ')}` } : {})
+    });
+    if (videoKey) fs.rmSync(previewPath, { force: true });
+  } catch (err) {
+    if (isPipelineCancelled(err)) throw err;
+    // A failed preview says nothing about the project itself, which keeps waiting for clips.
+    await pushStageHistory(projectId, userId, {
+      stage: 'preview',
+      status: 'error',
+      at: new Date().toISOString(),
+      detail: (err as Error).message
+    });
+    throw err;
+  }
+}
+
+/**
+ * Re-render an assembled project into other aspect ratios (export_<profile>.mp4), one profile after another, from
+ * the script, scene audio and clips it was assembled from. Each finished export is stored right away under
+ * ProjectDoc.exports, so a failure in a later profile keeps the earlier ones.
+ */
+export async function runProjectExports(
+  userId: string,
+  projectId: string,
+  profiles: ExportProfileId[],
+  signal?: AbortSignal
+): Promise<void> {
+  const project = await getProjectByProjectId(projectId, userId);
+  if (!project) throw new Error('Project not found');
+  if (project.status !== 'assembly_done') throw new Error('Project must be assembled before exporting');
+
+  const workspace = getProjectWorkspaceDir(projectId);
+  const outputDir = getProjectOutputDir(projectId);
+  if (!fs.existsSync(workspace)) fs.mkdirSync(workspace, { recursive: true });
+  if (!fs.existsSync(outputDir)) fs.mkdirSync(outputDir, { recursive: true });
+  await syncR2ToWorkspace(projectId, userId, {
+    scriptKey: project.scriptKey,
+    audioKeys: project.audioKeys,
+    clipKeys: project.clipKeys,
+    imageKeys: project.imageKeys,
+    audioManifestKey: project.audioManifestKey,
+    backgroundMusicKey: project.backgroundMusicKey
+  });
+  if (!fs.existsSync(path.join(workspace, 'script.json'))) throw new Error('Project files are not available for export');
+
+  const exports = { ...(project.exports ?? {}) };
+  const runOpts = await assemblyRunOptions(project, userId, workspace, outputDir);
+  try {
+    for (const profile of profiles) {
+      await pushStageHistory(projectId, userId, { stage: 'export', status: 'started', at: new Date().toISOString(), detail: profile });
+      try {
+        await runShortPipeline({ ...runOpts, exportProfile: profile, signal });
+        const fileName = exportFileName(profile);
+        const exportPath = path.join(outputDir, fileName);
+        if (!fs.existsSync(exportPath)) throw new Error(`Export ${profile} produced no video`);
+        const videoKey = await uploadProjectFile(userId, projectId, fileName, exportPath);
+        exports[profile] = { ...(videoKey ? { videoKey } : {}), renderedAt: new Date().toISOString() };
+        await updateProject(projectId, userId, { exports });
+        await pushStageHistory(projectId, userId, { stage: 'export', status: 'done', at: new Date().toISOString(), detail: profile });
+        if (videoKey) fs.rmSync(exportPath, { force: true });
+      } catch (err) {
+        if (isPipelineCancelled(err)) throw err;
+        // The assembled video is unaffected, so only the stage history records the failure.
+        await pushStageHistory(projectId, userId, {
+          stage: 'export',
+          status: 'error',
+          at: new Date().toISOString(),
+          detail: `${profile}: ${(err as Error).message}`
+        });
+        throw err;
+      }
+    }
+  } finally {
+    // As after assembly, R2 holds everything durable; the synced workspace is only needed while rendering.
+    if (isR2Enabled()) fs.rmSync(workspace, { recursive: true, force: true });
+  }
+}
+
+const LOCAL_CAPTION_SRT = /^captions(?:\.([A-Za-z]{2,3}(?:-[A-Za-z0-9]{2,8})*))?\.srt$/;
+
+/**
+ * Upload the assembled video to the user's linked YouTube channel with the metadata stored in ProjectDoc.publish,
+ * then set its thumbnail and caption tracks. The resumable session URL is saved before any bytes are sent, so a
+ * reclaimed job continues the same upload. Thumbnail and caption failures do not fail the publish; they are kept
+ * as warnings (custom thumbnails, for one, need a verified channel). Once the video is on YouTube a cancel only
+ * skips what is left of the extras: the publish still counts, so a retry never uploads a duplicate.
+ */
+export async function runProjectPublish(userId: string, projectId: string, signal?: AbortSignal): Promise<void> {
+  const project = await getProjectByProjectId(projectId, userId);
+  if (!project) throw new Error('Project not found');
+  if (project.status !== 'assembly_done') throw new Error('Project must be assembled before publishing');
+  const request = project.publish;
+  if (!request) throw new Error('No publish request on this project');
+
+  const outputDir = getProjectOutputDir(projectId);
+  if (!fs.existsSync(outputDir)) fs.mkdirSync(outputDir, { recursive: true });
+  const ensureLocal = async (fileName: string, key: string | undefined): Promise<string | null> => {
+    const local = path.join(outputDir, fileName);
+    if (fs.existsSync(local)) return local;
+    if (key && (await downloadToFile(key, local))) return local;
+    return null;
+  };
+  const setPublish = async (fields: Partial<PublishState>) => {
+    Object.assign(request, fields, { updatedAt: new Date().toISOString() });
+    await updateProject(projectId, userId, { publish: request });
+  };
+  const checkCancelled = () => {
+    if (signal?.aborted) throw new Error(`${PIPELINE_CANCELLED_PREFIX} publish cancelled`);
+  };
+  const skippedExtras = 'Stopped before all extras were added; set the rest in YouTube Studio';
+
+  await pushStageHistory(projectId, userId, { stage: 'publish', status: 'started', at: new Date().toISOString() });
+  try {
+    const videoPath = await ensureLocal('final_short.mp4', project.finalVideoKey);
+    if (!videoPath) throw new Error('Final video is not available');
+    const { accessToken, channelId } = await getYoutubeAccessToken(userId);
+    await setPublish({ status: 'uploading', channelId, error: undefined });
+    const meta = {
+      title: request.title,
+      description: request.description,
+      tags: request.tags,
+      categoryId: request.categoryId,
+      privacyStatus: request.privacyStatus,
+      ...(request.publishAt ? { publishAt: request.publishAt } : {}),
+      ...(project.language ? { defaultLanguage: project.language } : {})
+    };
+    const onProgress = (sent: number, total: number) =>
+      publishProjectEvent(projectId, {
+        type: 'progress',
+        step: 'publish',
+        message: `Uploading to YouTube ${Math.floor((sent / total) * 100)}%`,
+        percent: Math.floor((sent / total) * 100)
+      });
+    let video = request.uploadUrl ? await uploadVideoFile(accessToken, request.uploadUrl, videoPath, { signal, onProgress }) : null;
+    if (!video) {
+      checkCancelled();
+      const uploadUrl = await startResumableUpload(accessToken, meta, fs.statSync(videoPath).size);
+      await setPublish({ uploadUrl });
+      video = await uploadVideoFile(accessToken, uploadUrl, videoPath, { signal, onProgress });
+      if (!video) throw new Error('YouTube upload session expired');
+    }
+    await updateProject(projectId, userId, { youtubeVideoId: video.id });
+    await setPublish({ uploadUrl: undefined });
+
+    const warnings: string[] = [];
+    // The video is on YouTube from here on: nothing below may turn the publish into a failure.
+    try {
+      const thumbnailPath = signal?.aborted ? null : await ensureLocal('thumbnail.jpg', project.thumbnailKey);
+      if (thumbnailPath) {
+        await setVideoThumbnail(accessToken, video.id, thumbnailPath).catch((err) => warnings.push(`Thumbnail: ${(err as Error).message}`));
+      }
+      const sourceLanguage = project.language ?? config.captions.sourceLanguage;
+      const tracks = project.captionTracks?.length
+        ? project.captionTracks.map((t) => ({ language: t.language, fileName: path.basename(t.srtKey), key: t.srtKey as string | undefined }))
+        : (fs.readdirSync(outputDir)
+            .map((name) => ({ name, m: LOCAL_CAPTION_SRT.exec(name) }))
+            .filter((f) => f.m)
+            .map((f) => ({ language: f.m![1] ?? sourceLanguage, fileName: f.name, key: undefined })));
+      for (const track of tracks) {
+        if (signal?.aborted) break;
+        const filePath = await ensureLocal(track.fileName, track.key);
+        if (!filePath) continue;
+        await insertCaptionTrack(accessToken, video.id, { language: track.language, name: captionLanguageName(track.language), filePath })
+          .catch((err) => warnings.push(`Captions (${track.language}): ${(err as Error).message}`));
+      }
+    } catch (err) {
+      warnings.push(`Extras: ${(err as Error).message}`);
+    }
+    if (signal?.aborted) warnings.push(skippedExtras);
+    await setPublish({
+      status: request.publishAt ? 'scheduled' : 'published',
+      publishedAt: new Date().toISOString(),
+      warnings: warnings.length ? warnings : undefined
+    });
+    await pushStageHistory(projectId, userId, {
+      stage: 'publish',
+      status: 'done',
+      at: new Date().toISOString(),
+      detail: `youtube.com/watch?v=${video.id}${warnings.length ? ` (${warnings.length} warning(s))` : ''}`
+    });
+  } catch (err) {
+    // Shutdown: the job is requeued and the next worker resumes the saved upload session.
+    if (signal && isShutdownAbort(signal)) throw err;
+    const cancelled = isPipelineCancelled(err) || !!signal?.aborted;
+    await setPublish({ status: 'failed', error: cancelled ? 'Cancelled by user' : (err as Error).message });
+    if (cancelled) throw isPipelineCancelled(err) ? err : new Error(`${PIPELINE_CANCELLED_PREFIX} publish cancelled`);
+    await pushStageHistory(projectId, userId, {
+      stage: 'publish',
+      status: 'error',
+      at: new Date().toISOString(),
+      detail: (err as Error).message
+    });
+    throw err;
+  } finally {
+    // Same as after assembly: with R2 the downloaded video, thumbnail and captions are only a cache.
+    if (isR2Enabled()) fs.rmSync(outputDir, { recursive: true, force: true, maxRetries: 3 });
+  }
+}
+
+function readWorkspaceSceneCount(workspace: string): number {
+  try {
+    const script = JSON.parse(fs.readFileSync(path.join(workspace, 'script.json'), 'utf-8')) as { scenes?: unknown[] };
+    return Array.isArray(script.scenes) ? script.scenes.length : 0;
+  } catch {
+    return 0;
+  }
+}
+
+/** Statuses with per-scene audio on record: after the audio stage and until (and after) assembly. */
+export const SCENE_ACTION_STATUSES: ProjectStatus[] = ['audio_generated', 'waiting_for_clips', 'assembly_done'];
+
+/**
+ * One-scene fix: re-voice scene `index`, regenerate its clip with the project's clip provider, or refresh after its
+ * clip was replaced. audio.mp3, the segment map and alignment are rebuilt; other scenes keep their files. An
+ * assembled project goes back to waiting_for_clips so the next continue renders the fixed scene.
+ */
+export async function runProjectScene(
+  userId: string,
+  projectId: string,
+  sceneAction: { action: SceneActionKind; index: number },
+  signal?: AbortSignal
+): Promise<void> {
+  const project = await getProjectByProjectId(projectId, userId);
+  if (!project) throw new Error('Project not found');
+  if (!SCENE_ACTION_STATUSES.includes(project.status)) {
+    throw new Error(`Scenes can be regenerated once audio exists; project is ${project.status}`);
+  }
+
+  const workspace = getProjectWorkspaceDir(projectId);
+  const outputDir = getProjectOutputDir(projectId);
+  if (!fs.existsSync(workspace)) fs.mkdirSync(workspace, { recursive: true });
+  if (!fs.existsSync(outputDir)) fs.mkdirSync(outputDir, { recursive: true });
+  await syncR2ToWorkspace(projectId, userId, {
+    scriptKey: project.scriptKey,
+    audioKeys: project.audioKeys,
+    clipKeys: project.clipKeys,
+    imageKeys: project.imageKeys,
+    segmentMapKey: project.segmentMapKey,
+    segmentAlignmentKey: project.segmentAlignmentKey,
+    audioManifestKey: project.audioManifestKey
+  });
+
+  const detail = `${sceneAction.action} scene ${sceneAction.index}`;
+  await pushStageHistory(projectId, userId, { stage: 'scene', status: 'started', at: new Date().toISOString(), detail });
+  try {
+    await runShortPipeline({
+      topic: project.topic,
+      projectTempDir: workspace,
+      projectOutputDir: outputDir,
+      videoFormat: (project.videoFormat === '5min' || project.videoFormat === '11min') ? project.videoFormat : 'short',
+      sceneAction,
+      ttsProvider: project.ttsProvider,
+      voiceId: project.voiceId,
+      voiceSettings: project.voiceSettings,
+      clipProvider: project.clipProvider,
+      transition: project.transition,
+      language: project.language,
+      onProgress: projectProgressListener(projectId),
+      signal
+    });
+  } catch (err) {
+    if (isPipelineCancelled(err)) throw err;
+    // Only the one scene failed; the project keeps its state and files.
+    await pushStageHistory(projectId, userId, {
+      stage: 'scene',
+      status: 'error',
+      at: new Date().toISOString(),
+      detail: `${detail}: ${(err as Error).message}`
+    });
+    throw err;
+  }
+
+  const uploads = await uploadWorkspaceToR2(userId, projectId, workspace);
+  const segmentMapPath = path.join(outputDir, 'clip_segment_map.json');
+  const segmentAlignmentPath = path.join(outputDir, 'segment_alignment.json');
+  const segmentMapKey = fs.existsSync(segmentMapPath)
+    ? await uploadProjectFile(userId, projectId, 'clip_segment_map.json', segmentMapPath)
+    : null;
+  const segmentAlignmentKey = fs.existsSync(segmentAlignmentPath)
+    ? await uploadProjectFile(userId, projectId, 'segment_alignment.json', segmentAlignmentPath)
+    : null;
+  await updateProject(projectId, userId, {
+    audioKeys: uploads.audioKeys ?? project.audioKeys,
+    audioManifestKey: uploads.audioManifestKey ?? project.audioManifestKey,
+    clipKeys: uploads.clipKeys ?? project.clipKeys,
+    // A regenerated clip replaces the scene's still image.
+    imageKeys: sceneAction.action === 'audio' ? project.imageKeys : uploads.imageKeys,
+    segmentMapKey: segmentMapKey ?? project.segmentMapKey,
+    segmentAlignmentKey: segmentAlignmentKey ?? project.segmentAlignmentKey,
+    ...(project.status === 'assembly_done' ? { status: 'waiting_for_clips', currentStage: 'clips', requiredFiles: [] } : {})
+  });
+  await pushStageHistory(projectId, userId, { stage: 'scene', status: 'done', at: new Date().toISOString(), detail });
+}
+
+/**
+ * Thumbnail stage (queued after assembly, or from POST /thumbnail): grab candidate stills from the final video and
+ * scene images once, then draw the chosen youtube_meta.json title over the chosen candidate as thumbnail.jpg.
+ */
+export async function runProjectThumbnail(
+  userId: string,
+  projectId: string,
+  opts: { candidateIndex?: number; title?: string; style?: Partial<ThumbnailStyle>; refreshCandidates?: boolean } = {},
+  signal?: AbortSignal
+): Promise<void> {
+  const project = await getProjectByProjectId(projectId, userId);
+  if (!project) throw new Error('Project not found');
+  if (project.status !== 'assembly_done') throw new Error('Project must be assembled before making a thumbnail');
+  // A style change is kept only with the thumbnail rendered from it.
+  const thumbnailStyle = { ...(project.thumbnailStyle ?? {}), ...(opts.style ?? {}) };
+
+  const outputDir = getProjectOutputDir(projectId);
+  if (!fs.existsSync(outputDir)) fs.mkdirSync(outputDir, { recursive: true });
+  const { width, height } = thumbnailSize(project.videoFormat);
+  const checkCancelled = () => {
+    if (signal?.aborted) throw new Error(`${PIPELINE_CANCELLED_PREFIX} thumbnail cancelled`);
+  };
+  // Assembly clears the output dir once everything is in R2, so pull back what this stage needs.
+  const ensureLocal = async (fileName: string, key: string | undefined): Promise<string | null> => {
+    const local = path.join(outputDir, fileName);
+    if (fs.existsSync(local)) return local;
+    if (key && (await downloadToFile(key, local))) return local;
+    return null;
+  };
+
+  await pushStageHistory(projectId, userId, { stage: 'thumbnail', status: 'started', at: new Date().toISOString() });
+  try {
+    let candidates: ThumbnailCandidate[] = project.thumbnailCandidates ?? [];
+    if (candidates.length === 0 || opts.refreshCandidates) {
+      const videoPath = await ensureLocal('final_short.mp4', project.finalVideoKey);
+      if (!videoPath) throw new Error('Final video is not available');
+      const segmentMap = (await ensureLocal('clip_segment_map.json', project.segmentMapKey))
+        ? (JSON.parse(fs.readFileSync(path.join(outputDir, 'clip_segment_map.json'), 'utf-8')) as { segments?: Array<{ startSec: number; endSec: number }> })
+        : null;
+      const images: Array<{ sceneIndex: number; imagePath: string }> = [];
+      for (const key of project.imageKeys ?? []) {
+        const m = key ? /image_(\d+)\.(jpg|jpeg|png|webp)$/i.exec(key) : null;
+        if (!m) continue;
+        const imagePath = await ensureLocal(m[0], key);
+        if (imagePath) images.push({ sceneIndex: parseInt(m[1], 10), imagePath });
+      }
+      const sources = pickCandidateSources(await probeDurationSec(videoPath), segmentMap?.segments ?? [], images);
+      if (sources.length === 0) throw new Error('No thumbnail candidates found');
+      candidates = [];
+      for (let i = 0; i < sources.length; i++) {
+        checkCancelled();
+        const fileName = `thumbnail_candidate_${i}.jpg`;
+        const candidatePath = path.join(outputDir, fileName);
+        await writeCandidateImage(sources[i], videoPath, candidatePath, width, height);
+        const key = await uploadProjectFile(userId, projectId, fileName, candidatePath);
+        const src = sources[i];
+        candidates.push({
+          index: i,
+          source: src.source,
+          ...(src.source === 'frame' ? { timeSec: src.timeSec } : {}),
+          ...(src.sceneIndex !== undefined ? { sceneIndex: src.sceneIndex } : {}),
+          fileName,
+          ...(key ? { key } : {})
+        });
+      }
+    }
+    checkCancelled();
+
+    const candidateIndex = opts.candidateIndex ?? project.thumbnailSelection?.candidateIndex ?? 0;
+    const candidate = candidates.find((c) => c.index === candidateIndex) ?? candidates[0];
+    const candidatePath = await ensureLocal(candidate.fileName, candidate.key);
+    if (!candidatePath) throw new Error(`Thumbnail candidate ${candidate.index} is not available`);
+
+    let title = opts.title?.trim() || project.thumbnailSelection?.title;
+    if (!title) {
+      const metaPath = path.join(outputDir, 'youtube_meta.json');
+      const meta = fs.existsSync(metaPath)
+        ? (JSON.parse(fs.readFileSync(metaPath, 'utf-8')) as { titles?: string[] })
+        : project.youtubeMetaKey
+          ? await getObjectJson<{ titles?: string[] }>(project.youtubeMetaKey)
+          : null;
+      title = meta?.titles?.find((t) => typeof t === 'string' && t.trim())?.trim() || project.topic;
+    }
+
+    const style = {
+      ...DEFAULT_THUMBNAIL_STYLE,
+      ...(process.env.THUMBNAIL_FONT_FILE ? { fontFile: process.env.THUMBNAIL_FONT_FILE } : {}),
+      ...thumbnailStyle
+    };
+    const thumbnailPath = path.join(outputDir, 'thumbnail.jpg');
+    await renderThumbnail(candidatePath, title, style, thumbnailPath, width, height);
+    const thumbnailKey = await uploadProjectFile(userId, projectId, 'thumbnail.jpg', thumbnailPath);
+
+    await updateProject(projectId, userId, {
+      thumbnailCandidates: candidates,
+      thumbnailKey: thumbnailKey ?? undefined,
+      thumbnailSelection: { candidateIndex: candidate.index, title },
+      ...(opts.style ? { thumbnailStyle } : {})
+    });
+    await pushStageHistory(projectId, userId, {
+      stage: 'thumbnail',
+      status: 'done',
+      at: new Date().toISOString(),
+      detail: `candidate ${candidate.index}`
+    });
+    // Same as after assembly: once the files are in R2 the local copies are only a cache.
+    if (thumbnailKey) fs.rmSync(outputDir, { recursive: true, force: true, maxRetries: 3 });
+  } catch (err) {
+    if (isPipelineCancelled(err)) throw err;
+    // The video itself is fine, so the project stays assembled; the failure is only recorded on the stage.
+    await pushStageHistory(projectId, userId, {
+      stage: 'thumbnail',
+      status: 'error',
+      at: new Date().toISOString(),
+      detail: (err as Error).message
+    });
+    throw err;
+  }
+}
+
+const LOCALIZE_COPY_FILE = /^(script\.json|clip_\d+\.mp4|image_\d+\.(jpg|jpeg|png|webp)|background_music\.mp3)$/i;
+
+/**
+ * Prepare a dubbed language variant: translate the parent's approved script scene by scene and give the variant
+ * the parent's clips and images, then continue with the normal audio → clips → assembly chain. Step 3 finds every
+ * clip already present, so the original clips are reused and only narration, alignment and captions are redone.
+ */
+export async function runProjectLocalization(userId: string, projectId: string, signal?: AbortSignal): Promise<void> {
+  const project = await getProjectByProjectId(projectId, userId);
+  if (!project) throw new Error('Project not found');
+  if (!project.parentProjectId || !project.language) throw new Error('Project is not a language variant');
+  const language = project.language;
+  const parent = await getProjectByProjectId(project.parentProjectId, userId);
+  if (!parent) throw new Error('Parent project not found');
+
+  const workspace = getProjectWorkspaceDir(projectId);
+  const outputDir = getProjectOutputDir(projectId);
+  if (!fs.existsSync(workspace)) fs.mkdirSync(workspace, { recursive: true });
+  if (!fs.existsSync(outputDir)) fs.mkdirSync(outputDir, { recursive: true });
+
+  await updateProject(projectId, userId, { status: 'draft', currentStage: 'localize', errorMessage: undefined });
+  await pushStageHistory(projectId, userId, { stage: 'localize', status: 'started', at: new Date().toISOString(), detail: language });
+
+  try {
+    // Parent assets come from R2 when enabled, else from the parent's workspace if it is still on disk.
+    await syncR2ToWorkspace(projectId, userId, {
+      scriptKey: parent.scriptKey,
+      clipKeys: parent.clipKeys,
+      imageKeys: parent.imageKeys,
+      backgroundMusicKey: parent.backgroundMusicKey
+    });
+    const parentWorkspace = getProjectWorkspaceDir(parent.projectId);
+    if (fs.existsSync(parentWorkspace)) {
+      for (const name of fs.readdirSync(parentWorkspace)) {
+        const dest = path.join(workspace, name);
+        if (LOCALIZE_COPY_FILE.test(name) && !fs.existsSync(dest)) fs.copyFileSync(path.join(parentWorkspace, name), dest);
+      }
+    }
+    const scriptPath = path.join(workspace, 'script.json');
+    if (!fs.existsSync(scriptPath)) throw new Error('Parent script is not available');
+    const script = JSON.parse(fs.readFileSync(scriptPath, 'utf-8'));
+    const hasVisuals = (i: number) =>
+      fs.existsSync(path.join(workspace, `clip_${i}.mp4`)) ||
+      fs.readdirSync(workspace).some((n) => new RegExp(`^image_${i}\\.(jpg|jpeg|png|webp)$`, 'i').test(n));
+    const sceneCount = Array.isArray(script.scenes) ? script.scenes.length : 0;
+    const missing = Array.from({ length: sceneCount }, (_, i) => i).filter((i) => !hasVisuals(i));
+    if (missing.length > 0) throw new Error(`Parent clips are not available for scene(s) ${missing.join(', ')}`);
+
+    const translated = await translateScriptScenes(script, language);
+    if (signal?.aborted) throw new Error(`${PIPELINE_CANCELLED_PREFIX} localization cancelled`);
+    fs.writeFileSync(scriptPath, JSON.stringify(translated, null, 2));
+
+    const scriptKey = await uploadProjectFile(userId, projectId, 'script.json', scriptPath);
+    await recordScriptFileVersion(projectId, userId, scriptPath, { reason: 'localize', author: 'pipeline', note: language });
+    await updateProject(projectId, userId, {
+      status: 'script_generated',
+      // Already approved on the parent: go straight to voiceover.
+      currentStage: 'audio',
+      scriptKey: scriptKey ?? undefined,
+      clipKeys: parent.clipKeys,
+      imageKeys: parent.imageKeys
+    });
+    await pushStageHistory(projectId, userId, { stage: 'localize', status: 'done', at: new Date().toISOString(), detail: language });
+  } catch (err) {
+    if (isPipelineCancelled(err)) throw err;
+    await updateProject(projectId, userId, {
+      status: 'error',
+      currentStage: 'localize',
+      errorMessage: (err as Error).message
+    });
+    await pushStageHistory(projectId, userId, {
+      stage: 'localize',
+      status: 'error',
+      at: new Date().toISOString(),
+      detail: (err as Error).message
+    });
+    throw err;
+  }
+
+  await enqueueJob({ userId, projectId, kind: 'audio' });
+}
+
+/** Where each stage's job falls back to when cancelled: the state the project was in before the stage started. */
+const STABLE_STATE_BEFORE: Partial<Record<PipelineJobKind, { stage: string; status: ProjectStatus; currentStage: string }>> = {
+  script: { stage: 'script', status: 'draft', currentStage: 'script' },
+  regenerate_script: { stage: 'script', status: 'script_generated', currentStage: 'script' },
+  localize: { stage: 'localize', status: 'draft', currentStage: 'localize' },
+  audio: { stage: 'audio', status: 'script_generated', currentStage: 'script' },
+  clips: { stage: 'clips', status: 'audio_generated', currentStage: 'audio' },
+  assembly: { stage: 'assembly', status: 'waiting_for_clips', currentStage: 'clips' },
+  thumbnail: { stage: 'thumbnail', status: 'assembly_done', currentStage: 'assembly' },
+  publish: { stage: 'publish', status: 'assembly_done', currentStage: 'assembly' }
+};
+
+/**
+ * Record a cancelled stage and move the project back to the last stable status so it can be edited and
+ * continued. The cancel route calls this for a stage that never started; a running stage calls it itself once
+ * it has unwound (see registerProjectStage).
+ */
+export async function restoreProjectAfterCancel(userId: string, projectId: string, kind: PipelineJobKind): Promise<void> {
+  const stable = STABLE_STATE_BEFORE[kind];
+  if (!stable) return;
+  if (kind === 'regenerate_script') {
+    const workspace = getProjectWorkspaceDir(projectId);
+    const scriptPath = path.join(workspace, 'script.json');
+    const previousPath = path.join(workspace, PREVIOUS_SCRIPT_FILE);
+    if (fs.existsSync(previousPath)) {
+      if (fs.existsSync(scriptPath)) fs.unlinkSync(previousPath);
+      else fs.renameSync(previousPath, scriptPath);
+    }
+  }
+  // A publish request that never reached YouTube is no longer pending; one that did stays published.
+  const current = kind === 'publish' ? await getProjectByProjectId(projectId, userId) : null;
+  const publish = current && !current.youtubeVideoId ? current.publish : undefined;
+  await updateProject(projectId, userId, {
+    status: stable.status,
+    currentStage: stable.currentStage,
+    errorMessage: undefined,
+    ...(publish && (publish.status === 'queued' || publish.status === 'uploading')
+      ? { publish: { ...publish, status: 'failed' as const, error: 'Cancelled by user', updatedAt: new Date().toISOString() } }
+      : {})
+  });
+  await pushStageHistory(projectId, userId, {
+    stage: stable.stage,
+    status: 'cancelled',
+    at: new Date().toISOString(),
+    detail: 'Cancelled by user'
+  });
+}
+
+/**
+ * Register a stage runner whose cancellation restores the project. The restore runs after the runner has unwound
+ * and its pipeline child has exited, so none of the stage's own writes can land after it. A shutdown abort is not a
+ * cancel: the job goes back to the queue and the project keeps its in-progress status.
+ */
+function registerProjectStage(kind: PipelineJobKind, run: JobHandler): void {
+  registerJobHandler(kind, async (job, signal) => {
+    try {
+      return await run(job, signal);
+    } catch (err) {
+      if (signal.aborted && !isShutdownAbort(signal) && job.projectId) {
+        await restoreProjectAfterCancel(String(job.userId), job.projectId, kind);
+      }
+      throw err;
+    }
+  });
+}
+
+/** Wire each queued job kind to its stage runner. Called once at server start, before the worker starts. */
+export function registerPipelineJobHandlers(): void {
+  registerProjectStage('script', async (job, signal) => {
+    const userId = String(job.userId);
+    const projectId = job.projectId!;
+    const project = await getProjectByProjectId(projectId, userId);
+    if (!project) throw new Error('Project not found');
+    const payload = (job.payload ?? {}) as { testMode?: boolean; developmentsContext?: string };
+    const competitorIntel = project.useCompetitorIntel ? await getCompetitorIntelForUser(userId) : null;
+    await runProjectPipeline(
+      userId,
+      projectId,
+      project.topic,
+      !!payload.testMode,
+      payload.developmentsContext,
+      competitorIntel,
+      !!project.useWebResearch,
+      signal
+    );
+  });
+  registerProjectStage('regenerate_script', async (job, signal) => {
+    const payload = (job.payload ?? {}) as { remarks?: string };
+    await regenerateProjectScript(String(job.userId), job.projectId!, payload.remarks, signal);
+  });
+  registerProjectStage('localize', async (job, signal) => {
+    await runProjectLocalization(String(job.userId), job.projectId!, signal);
+  });
+  registerProjectStage('audio', async (job, signal) => {
+    const payload = (job.payload ?? {}) as { testMode?: boolean };
+    await runProjectAudio(String(job.userId), job.projectId!, !!payload.testMode, signal);
+  });
+  registerProjectStage('clips', async (job, signal) => {
+    await runProjectClips(String(job.userId), job.projectId!, signal);
+  });
+  registerProjectStage('assembly', async (job, signal) => {
+    await runProjectAssembly(String(job.userId), job.projectId!, signal);
+  });
+  registerProjectStage('scene', async (job, signal) => {
+    const payload = (job.payload ?? {}) as { action: SceneActionKind; index: number };
+    await runProjectScene(String(job.userId), job.projectId!, { action: payload.action, index: payload.index }, signal);
+  });
+  registerProjectStage('preview', async (job, signal) => {
+    await runProjectPreview(String(job.userId), job.projectId!, signal);
+  });
+  registerProjectStage('export', async (job, signal) => {
+    const payload = (job.payload ?? {}) as { profiles?: ExportProfileId[] };
+    await runProjectExports(String(job.userId), job.projectId!, payload.profiles ?? [], signal);
+  });
+  registerProjectStage('publish', async (job, signal) => {
+    try {
+      await runProjectPublish(String(job.userId), job.projectId!, signal);
+    } catch (err) {
+      if (!isShutdownAbort(signal)) {
+        await finishCalendarPublish(job.jobId, { status: 'failed', error: isPipelineCancelled(err) ? 'Publish cancelled' : (err as Error).message });
+      }
+      throw err;
+    }
+    await finishCalendarPublish(job.jobId, { status: 'released' });
+  });
+  registerProjectStage('thumbnail', async (job, signal) => {
+    const payload = (job.payload ?? {}) as { candidateIndex?: number; title?: string; style?: Partial<ThumbnailStyle>; refreshCandidates?: boolean };
+    await runProjectThumbnail(String(job.userId), job.projectId!, payload, signal);
+  });
+}
@@ -1,7 +1,16 @@
 import { ObjectId } from 'mongodb';
 import { nanoid } from 'nanoid';
 import path from 'path';
-import { getDb, ProjectDoc, StageEntry, PROJECTS_COLL } from './db';
+import { getDb, CaptionTrack, ProjectDoc, StageEntry, PROJECTS_COLL } from './db';
+import type { TtsProviderId, TtsVoiceSettings } from './pipeline/tts';
+import type { ClipProviderId } from './pipeline/clipProviders';
+import type { CaptionStyleId } from './pipeline/captionStyles';
+import type { TransitionId } from './pipeline/transitions';
+import { CAPTION_FILE_PATTERN } from './pipeline/captionTracks';
+import { deleteScriptVersions } from './scriptVersions';
+import { deleteCalendarItems } from './contentCalendar';
+import { deleteVideoStats } from './videoStats';
+import { cancelProjectJobsAndWait } from './jobQueue';
 import {
   isR2Enabled,
   projectKey,
@@ -11,6 +20,7 @@ import {
   deleteProjectAssets
 } from './r2';
 import { config } from './config';
+import { publishProjectEvent } from './progressEvents';
 
 const TEMP_BASE = path.join(config.workspaceRoot, 'temp');
 const OUTPUT_BASE = path.join(config.workspaceRoot, 'output');
@@ -25,15 +35,30 @@ export function getProjectOutputDir(projectId: string): string {
   return path.join(OUTPUT_BASE, 'projects', projectId);
 }
 
+/** Settings chosen when a project is created; everything left out uses the server default. */
+export type CreateProjectOptions = {
+  idempotencyKey?: string;
+  videoFormat?: 'short' | '5min' | '11min';
+  useCompetitorIntel?: boolean;
+  useWebResearch?: boolean;
+  scriptProvider?: 'openai' | 'grok';
+  ttsProvider?: TtsProviderId;
+  voiceId?: string;
+  voiceSettings?: TtsVoiceSettings;
+  captionStyle?: CaptionStyleId;
+  captionLanguages?: string[];
+  transition?: TransitionId;
+  loudnessTargetLufs?: number;
+  clipProvider?: ClipProviderId;
+  autoMusic?: boolean;
+};
+
 export async function createProject(
   userId: string,
   topic: string,
-  idempotencyKey?: string,
-  videoFormat?: 'short' | '5min' | '11min',
-  useCompetitorIntel?: boolean,
-  useWebResearch?: boolean,
-  scriptProvider?: 'openai' | 'grok'
+  opts: CreateProjectOptions = {}
 ): Promise<{ project: ProjectDoc; created: boolean }> {
+  const { idempotencyKey, videoFormat, scriptProvider, captionLanguages } = opts;
   const db = await getDb();
   const coll = db.collection<ProjectDoc>(PROJECTS_COLL);
   const uid = new ObjectId(userId);
@@ -62,9 +87,18 @@ export async function createProject(
     requiredFiles: undefined,
     errorMessage: undefined,
     videoFormat: videoFormat && ['short', '5min', '11min'].includes(videoFormat) ? videoFormat : undefined,
-    useCompetitorIntel: !!useCompetitorIntel,
-    useWebResearch: !!useWebResearch,
+    useCompetitorIntel: !!opts.useCompetitorIntel,
+    useWebResearch: !!opts.useWebResearch,
     scriptProvider: scriptProvider === 'grok' ? 'grok' : undefined,
+    ttsProvider: opts.ttsProvider,
+    voiceId: opts.voiceId,
+    voiceSettings: opts.voiceSettings,
+    captionStyle: opts.captionStyle,
+    captionLanguages: captionLanguages?.length ? captionLanguages : undefined,
+    transition: opts.transition,
+    loudnessTargetLufs: opts.loudnessTargetLufs,
+    clipProvider: opts.clipProvider,
+    autoMusic: opts.autoMusic,
     createdAt: now,
     updatedAt: now
   };
@@ -100,12 +134,21 @@ export async function listProjects(userId: string): Promise<ProjectDoc[]> {
   const db = await getDb();
   const coll = db.collection<ProjectDoc>(PROJECTS_COLL);
   return coll
-    .find({ userId: new ObjectId(userId) })
+    .find({ userId: new ObjectId(userId), parentProjectId: { $exists: false } })
     .sort({ updatedAt: -1 })
     .limit(100)
     .toArray();
 }
 
+/** Projects that are on YouTube (including dubbed variants), for one user or all users. */
+export async function listPublishedProjects(userId?: string): Promise<ProjectDoc[]> {
+  const db = await getDb();
+  const coll = db.collection<ProjectDoc>(PROJECTS_COLL);
+  return coll
+    .find({ youtubeVideoId: { $gt: '' }, ...(userId ? { userId: new ObjectId(userId) } : {}) })
+    .toArray();
+}
+
 export async function listProjectsPaginated(
   userId: string,
   page: number,
@@ -115,7 +158,8 @@ export async function listProjectsPaginated(
   const coll = db.collection<ProjectDoc>(PROJECTS_COLL);
   const safePageSize = Math.max(1, Math.min(50, Math.floor(pageSize || 10)));
   const safePage = Math.max(1, Math.floor(page || 1));
-  const query = { userId: new ObjectId(userId) };
+  // Language variants are listed under their parent (listProjectVariants), not at the top level.
+  const query = { userId: new ObjectId(userId), parentProjectId: { $exists: false } };
   const total = await coll.countDocuments(query);
   const totalPages = Math.max(1, Math.ceil(total / safePageSize));
   const pageClamped = Math.min(safePage, totalPages);
@@ -134,10 +178,58 @@ export async function listProjectsPaginated(
   };
 }
 
+/**
+ * Create a dubbed language variant of `parent`. It starts as a draft carrying the parent's format, voice,
+ * caption and music settings; the localize job fills in the translated script and the parent's clips.
+ */
+export async function createVariantProject(parent: ProjectDoc, language: string): Promise<ProjectDoc> {
+  const db = await getDb();
+  const coll = db.collection<ProjectDoc>(PROJECTS_COLL);
+  const now = new Date();
+  const doc: ProjectDoc = {
+    _id: new ObjectId(),
+    projectId: nanoid(),
+    userId: parent.userId,
+    topic: parent.topic,
+    status: 'draft',
+    currentStage: undefined,
+    stageHistory: [],
+    videoFormat: parent.videoFormat,
+    scriptProvider: parent.scriptProvider,
+    ttsProvider: parent.ttsProvider,
+    clipProvider: parent.clipProvider,
+    // espeak voices are named by language; hosted providers use multilingual voices.
+    voiceId: parent.ttsProvider === 'local' ? language : parent.voiceId,
+    voiceSettings: parent.voiceSettings,
+    captionStyle: parent.captionStyle,
+    transition: parent.transition,
+    loudnessTargetLufs: parent.loudnessTargetLufs,
+    backgroundMusicKey: parent.backgroundMusicKey,
+    backgroundMusicStartSec: parent.backgroundMusicStartSec,
+    autoMusic: parent.autoMusic,
+    musicSelection: parent.musicSelection,
+    parentProjectId: parent.projectId,
+    language,
+    createdAt: now,
+    updatedAt: now
+  };
+  await coll.insertOne(doc);
+  return doc;
+}
+
+export async function listProjectVariants(parentProjectId: string, userId: string): Promise<ProjectDoc[]> {
+  const db = await getDb();
+  const coll = db.collection<ProjectDoc>(PROJECTS_COLL);
+  return coll
+    .find({ userId: new ObjectId(userId), parentProjectId })
+    .sort({ createdAt: 1 })
+    .toArray();
+}
+
 export async function updateProject(
   projectId: string,
   userId: string,
-  update: Partial<Pick<ProjectDoc, 'status' | 'currentStage' | 'stageHistory' | 'scriptKey' | 'audioKeys' | 'clipKeys' | 'imageKeys' | 'finalVideoKey' | 'youtubeMetaKey' | 'segmentMapKey' | 'segmentAlignmentKey' | 'backgroundMusicKey' | 'backgroundMusicStartSec' | 'requiredFiles' | 'errorMessage'>>
+  update: Partial<Pick<ProjectDoc, 'status' | 'currentStage' | 'stageHistory' | 'scriptKey' | 'audioKeys' | 'clipKeys' | 'imageKeys' | 'finalVideoKey' | 'youtubeMetaKey' | 'segmentMapKey' | 'segmentAlignmentKey' | 'audioManifestKey' | 'renderReportKey' | 'preview' | 'exports' | 'youtubeVideoId' | 'publish' | 'topicCategory' | 'backgroundMusicKey' | 'backgroundMusicStartSec' | 'autoMusic' | 'musicSelection' | 'requiredFiles' | 'errorMessage' | 'ttsProvider' | 'clipProvider' | 'voiceId' | 'voiceSettings' | 'captionStyle' | 'captionLanguages' | 'captionTracks' | 'transition' | 'loudnessTargetLufs' | 'chapterCards' | 'thumbnailCandidates' | 'thumbnailKey' | 'thumbnailSelection' | 'thumbnailStyle'>>
 ): Promise<ProjectDoc | null> {
   const db = await getDb();
   const coll = db.collection<ProjectDoc>(PROJECTS_COLL);
@@ -147,6 +239,14 @@ export async function updateProject(
     { $set: { ...update, updatedAt: now } },
     { returnDocument: 'after' }
   );
+  if (result && update.status) {
+    publishProjectEvent(projectId, {
+      type: 'status',
+      status: result.status,
+      currentStage: result.currentStage,
+      errorMessage: result.errorMessage
+    });
+  }
   return result ?? null;
 }
 
@@ -164,6 +264,7 @@ export async function pushStageHistory(
       $set: { updatedAt: new Date() }
     }
   );
+  publishProjectEvent(projectId, { type: 'stage', stage: entry.stage, status: entry.status, detail: entry.detail });
 }
 
 // ——— Sync workspace ↔ R2 ———
@@ -176,6 +277,7 @@ export async function syncR2ToWorkspace(projectId: string, userId: string, keys:
   imageKeys?: string[];
   segmentMapKey?: string;
   segmentAlignmentKey?: string;
+  audioManifestKey?: string;
   backgroundMusicKey?: string;
 }): Promise<void> {
   const fs = await import('fs');
@@ -219,6 +321,9 @@ export async function syncR2ToWorkspace(projectId: string, userId: string, keys:
     if (!fs.existsSync(outputDir)) fs.mkdirSync(outputDir, { recursive: true });
     await downloadToFile(keys.segmentAlignmentKey, path.join(outputDir, 'segment_alignment.json'));
   }
+  if (keys.audioManifestKey) {
+    await downloadToFile(keys.audioManifestKey, path.join(workspace, 'audio_scenes.json'));
+  }
   if (keys.backgroundMusicKey) {
     const dest = path.join(workspace, 'background_music.mp3');
     await downloadToFile(keys.backgroundMusicKey, dest);
@@ -246,11 +351,12 @@ export async function uploadWorkspaceToR2(
 ): Promise<{
   scriptKey?: string;
   audioKeys?: string[];
+  audioManifestKey?: string;
   clipKeys?: string[];
   imageKeys?: string[];
  }> {
   const fs = await import('fs');
-  const out: { scriptKey?: string; audioKeys?: string[]; clipKeys?: string[]; imageKeys?: string[] } = {};
+  const out: { scriptKey?: string; audioKeys?: string[]; audioManifestKey?: string; clipKeys?: string[]; imageKeys?: string[] } = {};
   const scriptPath = path.join(workspaceDir, 'script.json');
   if (fs.existsSync(scriptPath)) {
     const k = await uploadProjectFile(userId, projectId, 'script.json', scriptPath);
@@ -274,6 +380,11 @@ export async function uploadWorkspaceToR2(
     audioSceneIndex += 1;
   }
   if (audioKeys.length) out.audioKeys = audioKeys;
+  const manifestPath = path.join(workspaceDir, 'audio_scenes.json');
+  if (fs.existsSync(manifestPath)) {
+    const k = await uploadProjectFile(userId, projectId, 'audio_scenes.json', manifestPath);
+    if (k) out.audioManifestKey = k;
+  }
   let i = 0;
   const clipKeys: string[] = [];
   while (fs.existsSync(path.join(workspaceDir, `clip_${i}.mp4`))) {
@@ -297,6 +408,40 @@ export async function uploadWorkspaceToR2(
   return out;
 }
 
+/** Upload captions*.srt / captions*.vtt sidecars from the output dir; only tracks with both formats are returned. */
+export async function uploadCaptionTracks(
+  userId: string,
+  projectId: string,
+  outputDir: string,
+  sourceLanguage: string = config.captions.sourceLanguage
+): Promise<CaptionTrack[]> {
+  const fs = await import('fs');
+  if (!fs.existsSync(outputDir)) return [];
+  const byLanguage = new Map<string, { srtKey?: string; vttKey?: string }>();
+  for (const name of fs.readdirSync(outputDir).sort()) {
+    const m = CAPTION_FILE_PATTERN.exec(name);
+    if (!m) continue;
+    const key = await uploadProjectFile(userId, projectId, name, path.join(outputDir, name));
+    if (!key) continue;
+    const language = m[1] ?? '';
+    const entry = byLanguage.get(language) ?? {};
+    if (m[2] === 'srt') entry.srtKey = key;
+    else entry.vttKey = key;
+    byLanguage.set(language, entry);
+  }
+  const tracks: CaptionTrack[] = [];
+  for (const [language, keys] of byLanguage) {
+    if (!keys.srtKey || !keys.vttKey) continue;
+    tracks.push({
+      language: language || sourceLanguage,
+      translated: !!language,
+      srtKey: keys.srtKey,
+      vttKey: keys.vttKey
+    });
+  }
+  return tracks.sort((a, b) => Number(a.translated) - Number(b.translated));
+}
+
 /** Get presigned URL for a stored key; if R2 disabled and key not set, return null. */
 export async function getAssetUrl(key: string | undefined): Promise<string | null> {
   if (!key || !isR2Enabled()) return null;
@@ -312,7 +457,17 @@ export async function deleteProject(
   if (!project) {
     return null;
   }
+  // Variants share the parent's script and clips, so they go with it. Their jobs stop first, so a running pipeline
+  // does not keep spending provider credits or writing into storage that is being deleted.
+  const variants = await listProjectVariants(projectId, userId);
+  await cancelProjectJobsAndWait([projectId, ...variants.map((v) => v.projectId)], userId);
+  for (const variant of variants) {
+    await deleteProject(variant.projectId, userId);
+  }
   await deleteProjectAssets(userId, projectId);
+  await deleteScriptVersions(projectId, userId);
+  await deleteCalendarItems(projectId, userId);
+  await deleteVideoStats(projectId, userId);
   const db = await getDb();
   const coll = db.collection<ProjectDoc>(PROJECTS_COLL);
   const result = await coll.findOneAndDelete({
@@ -4,7 +4,8 @@ import {
   GetObjectCommand,
   HeadObjectCommand,
   ListObjectsV2Command,
-  DeleteObjectCommand
+  DeleteObjectCommand,
+  CopyObjectCommand
 } from '@aws-sdk/client-s3';
 import { getSignedUrl } from '@aws-sdk/s3-request-presigner';
 import { Readable } from 'stream';
@@ -36,6 +37,11 @@ export function projectKey(userId: string, projectId: string, fileName: string):
   return `users/${userId}/projects/${projectId}/${fileName}`;
 }
 
+/** Key: users/<userId>/media/<assetId>/<fileName> (user media library, shared across projects) */
+export function mediaKey(userId: string, assetId: string, fileName: string): string {
+  return `users/${userId}/media/${assetId}/${fileName}`;
+}
+
 export async function uploadFile(
   key: string,
   localPath: string
@@ -125,6 +131,20 @@ export async function getPresignedUrl(key: string, expiresIn = 3600): Promise<st
   return getSignedUrl(client, cmd, { expiresIn });
 }
 
+/** Server-side copy inside the bucket (library asset → project file). */
+export async function copyObject(sourceKey: string, destKey: string): Promise<boolean> {
+  const client = getClient();
+  if (!client) return false;
+  await client.send(
+    new CopyObjectCommand({
+      Bucket: bucketName!,
+      CopySource: `${bucketName}/${encodeURIComponent(sourceKey).replace(/%2F/g, '/')}`,
+      Key: destKey
+    })
+  );
+  return true;
+}
+
 /** Delete a single object by key. */
 export async function deleteObject(key: string): Promise<boolean> {
   const client = getClient();
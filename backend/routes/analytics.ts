@@ -0,0 +1,88 @@
+import { Router, Response } from 'express';
+import { authMiddleware, AuthRequest } from '../middleware';
+import { logger } from '../logger';
+import { getProjectByProjectId, listPublishedProjects } from '../projects';
+import {
+  ANALYTICS_DIMENSIONS,
+  comparePerformance,
+  isAnalyticsDimension,
+  latestVideoStatsByProject,
+  listVideoStats,
+  releasedAt,
+  retentionAtHalf,
+  type AnalyticsDimension,
+  type PerformanceGroup
+} from '../videoStats';
+import { ingestVideoStats } from '../analyticsIngestion';
+import { isYoutubeConfigured } from '../youtubePublisher';
+
+const router = Router();
+
+router.use(authMiddleware);
+
+/**
+ * GET /?dimensions=topicCategory,voice — the user's published videos compared by topic category, format, voice
+ * and caption style (all four by default), using each video's latest snapshot.
+ */
+router.get('/', async (req: AuthRequest, res: Response) => {
+  const userId = req.user!.id;
+  const requested = typeof req.query.dimensions === 'string' ? req.query.dimensions.split(',').map((d) => d.trim()).filter(Boolean) : [];
+  if (!requested.every(isAnalyticsDimension)) {
+    return res.status(400).json({ error: `dimensions must be a comma-separated list of: ${ANALYTICS_DIMENSIONS.join(', ')}` });
+  }
+  const dimensions: readonly AnalyticsDimension[] = requested.length ? (requested as AnalyticsDimension[]) : ANALYTICS_DIMENSIONS;
+  try {
+    const [projects, latest] = await Promise.all([listPublishedProjects(userId), latestVideoStatsByProject(userId)]);
+    const comparison: Partial<Record<AnalyticsDimension, PerformanceGroup[]>> = {};
+    for (const dimension of dimensions) comparison[dimension] = comparePerformance(projects, latest, dimension);
+    const captured = [...latest.values()].map((s) => s.capturedAt.getTime());
+    res.json({
+      publishedVideos: projects.length,
+      videosWithStats: latest.size,
+      lastCapturedAt: captured.length ? new Date(Math.max(...captured)).toISOString() : null,
+      dimensions: comparison
+    });
+  } catch (err) {
+    logger.error('Analytics comparison failed', err as Error);
+    res.status(500).json({ error: 'Failed to load analytics' });
+  }
+});
+
+/** GET /projects/:projectId — the project's stats time series, oldest first, and its latest retention curve. */
+router.get('/projects/:projectId', async (req: AuthRequest, res: Response) => {
+  const userId = req.user!.id;
+  const project = await getProjectByProjectId(req.params.projectId, userId);
+  if (!project) return res.status(404).json({ error: 'Project not found' });
+  const series = await listVideoStats(project.projectId, userId);
+  const last = series[series.length - 1];
+  return res.json({
+    projectId: project.projectId,
+    youtubeVideoId: project.youtubeVideoId ?? null,
+    topicCategory: project.topicCategory ?? null,
+    releasedAt: releasedAt(project)?.toISOString() ?? null,
+    series: series.map((s) => ({
+      capturedAt: s.capturedAt.toISOString(),
+      views: s.views,
+      likes: s.likes,
+      comments: s.comments,
+      averageViewDurationSec: s.averageViewDurationSec,
+      averageViewPercentage: s.averageViewPercentage,
+      retentionAtHalf: retentionAtHalf(s.retention)
+    })),
+    retention: last?.retention ?? null
+  });
+});
+
+/** POST /ingest — take a snapshot of the user's published videos now instead of waiting for the next run. */
+router.post('/ingest', async (req: AuthRequest, res: Response) => {
+  if (!isYoutubeConfigured()) return res.status(503).json({ error: 'YouTube is not configured on this server' });
+  try {
+    const result = await ingestVideoStats({ userId: req.user!.id, force: true });
+    res.json(result);
+  } catch (err) {
+    logger.error('Analytics ingest failed', err as Error);
+    res.status(500).json({ error: 'Failed to ingest video stats' });
+  }
+});
+
+export default router;
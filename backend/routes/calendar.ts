@@ -0,0 +1,172 @@
+import { Router, Response } from 'express';
+import { authMiddleware, AuthRequest } from '../middleware';
+import { logger } from '../logger';
+import type { CalendarItemDoc, ContentCalendar, YoutubePrivacyStatus } from '../db';
+import { getProjectByProjectId } from '../projects';
+import {
+  addCalendarItem,
+  CALENDAR_RELEASE_MODES,
+  freeSlotTimes,
+  getCalendarItemForProject,
+  getContentCalendar,
+  listCalendarItems,
+  MAX_CALENDAR_SLOTS,
+  parseCalendarSlot,
+  removeCalendarItem,
+  rescheduleCalendarItem,
+  reorderCalendarItems,
+  saveContentCalendar
+} from '../contentCalendar';
+import { YOUTUBE_PRIVACY_STATUSES } from '../youtubePublisher';
+import { checkWebhookUrl } from '../webhooks';
+
+const router = Router();
+
+router.use(authMiddleware);
+
+const UPCOMING_SLOT_COUNT = 10;
+const DEFAULT_CALENDAR: Omit<ContentCalendar, 'updatedAt'> = { slots: [], release: 'youtube', privacyStatus: 'public' };
+
+async function toItemResponse(item: CalendarItemDoc, userId: string) {
+  const project = await getProjectByProjectId(item.projectId, userId);
+  return {
+    itemId: item.itemId,
+    projectId: item.projectId,
+    topic: project?.topic ?? null,
+    projectStatus: project?.status ?? null,
+    releaseAt: item.releaseAt.toISOString(),
+    status: item.status,
+    releasedVia: item.releasedVia ?? null,
+    releasedAt: item.releasedAt?.toISOString() ?? null,
+    error: item.error ?? null,
+    publishStatus: project?.publish?.status ?? null,
+    youtubeVideoId: project?.youtubeVideoId ?? null
+  };
+}
+
+function parseReleaseAt(value: unknown): Date | string {
+  const at = typeof value === 'string' ? Date.parse(value) : NaN;
+  if (!Number.isFinite(at) || at <= Date.now()) return 'releaseAt must be an ISO date in the future';
+  return new Date(at);
+}
+
+/** GET / — calendar settings, the next free slot times and the scheduled items (?past=1 adds released and failed ones). */
+router.get('/', async (req: AuthRequest, res: Response) => {
+  const userId = req.user!.id;
+  try {
+    const calendar = await getContentCalendar(userId);
+    const items = await listCalendarItems(userId, { includePast: req.query.past === '1' });
+    res.json({
+      calendar: { ...DEFAULT_CALENDAR, ...(calendar ?? {}), handoffWebhookUrl: calendar?.handoffWebhookUrl ?? null },
+      upcomingSlots: (await freeSlotTimes(userId, calendar, UPCOMING_SLOT_COUNT)).map((d) => d.toISOString()),
+      items: await Promise.all(items.map((i) => toItemResponse(i, userId)))
+    });
+  } catch (err) {
+    logger.error('Calendar load failed', err as Error);
+    res.status(500).json({ error: 'Failed to load calendar' });
+  }
+});
+
+/**
+ * PUT /  body: { slots: string[], release?, privacyStatus?, handoffWebhookUrl? }
+ * Slots look like "daily 18:00 Europe/Berlin" or "mon,thu 09:30 America/New_York". Scheduled items keep their times.
+ */
+router.put('/', async (req: AuthRequest, res: Response) => {
+  const userId = req.user!.id;
+  const body = (req.body ?? {}) as { slots?: unknown; release?: unknown; privacyStatus?: unknown; handoffWebhookUrl?: unknown };
+  if (!Array.isArray(body.slots) || !body.slots.every((s) => typeof s === 'string') || body.slots.length > MAX_CALENDAR_SLOTS) {
+    return res.status(400).json({ error: `slots must be an array of at most ${MAX_CALENDAR_SLOTS} slot strings` });
+  }
+  const slots: string[] = [];
+  for (const spec of body.slots as string[]) {
+    if (!spec.trim()) continue;
+    const parsed = parseCalendarSlot(spec);
+    if (typeof parsed === 'string') return res.status(400).json({ error: parsed });
+    slots.push(parsed.spec);
+  }
+  const existing = (await getContentCalendar(userId)) ?? DEFAULT_CALENDAR;
+  const release = body.release ?? existing.release;
+  if (!CALENDAR_RELEASE_MODES.includes(release as ContentCalendar['release'])) {
+    return res.status(400).json({ error: `release must be one of: ${CALENDAR_RELEASE_MODES.join(', ')}` });
+  }
+  const privacyStatus = body.privacyStatus ?? existing.privacyStatus;
+  if (!YOUTUBE_PRIVACY_STATUSES.includes(privacyStatus as YoutubePrivacyStatus)) {
+    return res.status(400).json({ error: `privacyStatus must be one of: ${YOUTUBE_PRIVACY_STATUSES.join(', ')}` });
+  }
+  const webhook = body.handoffWebhookUrl === undefined ? existing.handoffWebhookUrl : body.handoffWebhookUrl;
+  if (webhook !== undefined && webhook !== null && webhook !== '') {
+    // Only public targets: the server makes this request, so internal addresses must not be reachable through it.
+    const problem = typeof webhook === 'string' ? await checkWebhookUrl(webhook) : 'must be an http(s) URL';
+    if (problem) return res.status(400).json({ error: `handoffWebhookUrl ${problem}` });
+  }
+  try {
+    const calendar = await saveContentCalendar(userId, {
+      slots,
+      release: release as ContentCalendar['release'],
+      privacyStatus: privacyStatus as YoutubePrivacyStatus,
+      ...(typeof webhook === 'string' && webhook ? { handoffWebhookUrl: webhook } : {})
+    });
+    res.json({
+      calendar: { ...calendar, handoffWebhookUrl: calendar.handoffWebhookUrl ?? null },
+      upcomingSlots: (await freeSlotTimes(userId, calendar, UPCOMING_SLOT_COUNT)).map((d) => d.toISOString())
+    });
+  } catch (err) {
+    logger.error('Calendar save failed', err as Error);
+    res.status(500).json({ error: 'Failed to save calendar' });
+  }
+});
+
+/** POST /items  body: { projectId, releaseAt? } — schedule an assembled project at the next free slot, or at releaseAt. */
+router.post('/items', async (req: AuthRequest, res: Response) => {
+  const userId = req.user!.id;
+  const body = (req.body ?? {}) as { projectId?: unknown; releaseAt?: unknown };
+  if (typeof body.projectId !== 'string' || !body.projectId) return res.status(400).json({ error: 'projectId is required' });
+  const project = await getProjectByProjectId(body.projectId, userId);
+  if (!project) return res.status(404).json({ error: 'Project not found' });
+  if (project.status !== 'assembly_done') {
+    return res.status(400).json({ error: 'Only assembled projects can be scheduled' });
+  }
+  let releaseAt: Date | undefined;
+  if (body.releaseAt !== undefined && body.releaseAt !== null) {
+    const parsed = parseReleaseAt(body.releaseAt);
+    if (typeof parsed === 'string') return res.status(400).json({ error: parsed });
+    releaseAt = parsed;
+  }
+  const current = await getCalendarItemForProject(project.projectId, userId);
+  if (current && (current.status === 'scheduled' || current.status === 'releasing')) {
+    return res.status(409).json({ error: 'Project is already on the calendar', itemId: current.itemId });
+  }
+  const item = await addCalendarItem(userId, project.projectId, releaseAt);
+  if (!item) return res.status(400).json({ error: 'Add publish slots to the calendar first, or pass releaseAt' });
+  return res.status(201).json({ item: await toItemResponse(item, userId) });
+});
+
+/** PUT /items/order  body: { itemIds } — all scheduled items in their new order; they swap times, earliest first. */
+router.put('/items/order', async (req: AuthRequest, res: Response) => {
+  const userId = req.user!.id;
+  const itemIds = (req.body as { itemIds?: unknown })?.itemIds;
+  if (!Array.isArray(itemIds) || !itemIds.every((id) => typeof id === 'string')) {
+    return res.status(400).json({ error: 'itemIds must be an array of item ids' });
+  }
+  const result = await reorderCalendarItems(userId, itemIds as string[]);
+  if (typeof result === 'string') return res.status(400).json({ error: result });
+  return res.json({ items: await Promise.all(result.map((i) => toItemResponse(i, userId))) });
+});
+
+/** PATCH /items/:itemId  body: { releaseAt } — move a scheduled item to another time. */
+router.patch('/items/:itemId', async (req: AuthRequest, res: Response) => {
+  const userId = req.user!.id;
+  const releaseAt = parseReleaseAt((req.body as { releaseAt?: unknown })?.releaseAt);
+  if (typeof releaseAt === 'string') return res.status(400).json({ error: releaseAt });
+  const item = await rescheduleCalendarItem(req.params.itemId, userId, releaseAt);
+  if (!item) return res.status(404).json({ error: 'Scheduled item not found' });
+  return res.json({ item: await toItemResponse(item, userId) });
+});
+
+router.delete('/items/:itemId', async (req: AuthRequest, res: Response) => {
+  const removed = await removeCalendarItem(req.params.itemId, req.user!.id);
+  if (!removed) return res.status(404).json({ error: 'Scheduled item not found' });
+  return res.json({ ok: true });
+});
+
+export default router;
@@ -0,0 +1,17 @@
+import { Router, Response } from 'express';
+import { authMiddleware, AuthRequest } from '../middleware';
+import { CAPTION_STYLES, CAPTION_STYLE_IDS, DEFAULT_CAPTION_STYLE } from '../pipeline/captionStyles';
+
+const router = Router();
+
+router.use(authMiddleware);
+
+/**
+ * GET /api/caption-styles
+ * Response: { default, styles: CaptionStyle[] } — presets a project can select with `captionStyle`.
+ */
+router.get('/', (_req: AuthRequest, res: Response) => {
+  res.json({ default: DEFAULT_CAPTION_STYLE, styles: CAPTION_STYLE_IDS.map((id) => CAPTION_STYLES[id]) });
+});
+
+export default router;
@@ -0,0 +1,29 @@
+import { Router, Response } from 'express';
+import { authMiddleware, AuthRequest } from '../middleware';
+import { CLIP_PROVIDER_IDS, getClipProvider, getStockLibrary } from '../pipeline/clipProviders';
+import { config } from '../config';
+
+const router = Router();
+
+router.use(authMiddleware);
+
+/**
+ * GET /api/clip-providers
+ * Response: { default, providers: { id, label, automatic, requiresNetwork, configured }[], stockLibrary: { clipCount } }
+ * `configured` is false when the provider's env var (XAI_API_KEY, STOCK_FOOTAGE_DIR) is missing.
+ */
+router.get('/', (_req: AuthRequest, res: Response) => {
+  const providers = CLIP_PROVIDER_IDS.map((id) => {
+    const p = getClipProvider(id);
+    return {
+      id: p.id,
+      label: p.label,
+      automatic: p.automatic,
+      requiresNetwork: p.requiresNetwork,
+      configured: !p.requiredEnv || !!p.requiredEnv.value
+    };
+  });
+  res.json({ default: config.clips.provider, providers, stockLibrary: { clipCount: getStockLibrary().length } });
+});
+
+export default router;
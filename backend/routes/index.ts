@@ -5,6 +5,13 @@ import jobs from './jobs';
 import projects from './projects';
 import topics from './topics';
 import competitors from './competitors';
+import voices from './voices';
+import captionStyles from './captionStyles';
+import clipProviders from './clipProviders';
+import media from './media';
+import youtube from './youtube';
+import calendar from './calendar';
+import analytics from './analytics';
 
 const router = Router();
 
@@ -14,5 +21,12 @@ router.use('/api/jobs', jobs);
 router.use('/api/projects', projects);
 router.use('/api/topics', topics);
 router.use('/api/competitors', competitors);
+router.use('/api/voices', voices);
+router.use('/api/caption-styles', captionStyles);
+router.use('/api/clip-providers', clipProviders);
+router.use('/api/media', media);
+router.use('/api/youtube', youtube);
+router.use('/api/calendar', calendar);
+router.use('/api/analytics', analytics);
 
 export default router;
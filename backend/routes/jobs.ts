@@ -1,156 +1,134 @@
-import { Router, Request, Response } from 'express';
+import { Router, Response } from 'express';
 import path from 'path';
-import { runShortPipeline, RunShortOptions, RunShortResult } from '../pipeline/index';
+import { runShortPipeline, RunShortOptions } from '../pipeline/index';
 import { authMiddleware, AuthRequest } from '../middleware';
-import { logger } from '../logger';
-
-type JobStatus = 'queued' | 'running' | 'done' | 'error' | 'waiting_for_clips';
-
-type Job = {
-  id: string;
-  status: JobStatus;
-  topic: string;
-  startedAt: string;
-  finishedAt?: string;
-  outputPath?: string;
-  youtubeMetaPath?: string | null;
-  errorMessage?: string;
-  requiredFiles?: string[];
-};
-
-const jobs = new Map<string, Job>();
-
-function createJobId(): string {
-  return Date.now().toString(36) + Math.random().toString(36).slice(2, 8);
+import { PipelineJobDoc, PipelineJobStatus } from '../db';
+import { cancelJob, enqueueJob, getJob, getQueueStats, listJobs, registerJobHandler, requeueJob } from '../jobQueue';
+
+type LegacyJobStatus = PipelineJobStatus | 'waiting_for_clips';
+
+/** Legacy (non-project) runs go through the same queue so they share concurrency limits and leases. */
+export function registerLegacyJobHandler(): void {
+  registerJobHandler('legacy', async (job, signal) => {
+    const result = await runShortPipeline({ ...(job.payload ?? {}), signal } as RunShortOptions);
+    return {
+      status: result.status,
+      topic: result.topic,
+      outputPath: result.outputPath,
+      youtubeMetaPath: result.youtubeMetaPath,
+      requiredFiles: result.requiredFiles ?? []
+    };
+  });
 }
 
-async function startJob(opts: RunShortOptions): Promise<Job> {
-  const id = createJobId();
-  const job: Job = {
-    id,
-    status: 'queued',
-    topic: opts.topic ?? '',
-    startedAt: new Date().toISOString()
-  };
-  jobs.set(id, job);
-
-  (async () => {
-    job.status = 'running';
-    try {
-      const result: RunShortResult = await runShortPipeline(opts);
-      if (result.status === 'waiting_for_clips') {
-        job.status = 'waiting_for_clips';
-        job.finishedAt = new Date().toISOString();
-        job.topic = result.topic || job.topic;
-        job.requiredFiles = result.requiredFiles ?? [];
-      } else {
-        job.status = 'done';
-        job.finishedAt = new Date().toISOString();
-        job.topic = result.topic || job.topic;
-        job.outputPath = result.outputPath;
-        job.youtubeMetaPath = result.youtubeMetaPath;
-      }
-    } catch (err) {
-      job.status = 'error';
-      job.finishedAt = new Date().toISOString();
-      job.errorMessage = (err as Error).message;
-      logger.error('Job failed', err, { jobId: id });
-    }
-  })();
+function legacyStatus(job: PipelineJobDoc): LegacyJobStatus {
+  if (job.status === 'done' && job.result?.status === 'waiting_for_clips') return 'waiting_for_clips';
+  return job.status;
+}
 
-  return job;
+function legacyTopic(job: PipelineJobDoc): string {
+  const fromResult = job.result?.topic;
+  if (typeof fromResult === 'string' && fromResult) return fromResult;
+  const fromPayload = job.payload?.topic;
+  return typeof fromPayload === 'string' ? fromPayload : '';
 }
 
 const router = Router();
 router.use(authMiddleware);
 
-router.post('/', async (req: Request, res: Response) => {
+router.post('/', async (req: AuthRequest, res: Response) => {
   const body = req.body as { topic?: string; reuseTemp?: boolean };
   try {
-    const job = await startJob({
-      topic: body.topic,
-      reuseTemp: body.reuseTemp ?? false,
-      testMode: false
+    const { job } = await enqueueJob({
+      userId: req.user!.id,
+      kind: 'legacy',
+      payload: { topic: body.topic, reuseTemp: body.reuseTemp ?? false, testMode: false }
     });
-    res.status(202).json({ jobId: job.id, status: job.status, topic: job.topic });
+    res.status(202).json({ jobId: job.jobId, status: job.status, topic: legacyTopic(job) });
   } catch (err) {
     res.status(500).json({ error: (err as Error).message });
   }
 });
 
-router.get('/', (_req: Request, res: Response) => {
-  const list = Array.from(jobs.values())
-    .sort((a, b) => (a.startedAt < b.startedAt ? 1 : -1))
-    .slice(0, 20)
-    .map((j) => ({
-      id: j.id,
-      status: j.status,
-      topic: j.topic,
-      startedAt: j.startedAt,
-      finishedAt: j.finishedAt
-    }));
-  res.json(list);
+router.get('/', async (req: AuthRequest, res: Response) => {
+  try {
+    const jobs = await listJobs(req.user!.id, {
+      projectId: typeof req.query.projectId === 'string' ? req.query.projectId : undefined,
+      limit: parseInt(String(req.query.limit ?? '20'), 10) || 20
+    });
+    res.json(
+      jobs.map((j) => ({
+        id: j.jobId,
+        kind: j.kind,
+        projectId: j.projectId ?? null,
+        status: legacyStatus(j),
+        topic: legacyTopic(j),
+        startedAt: (j.startedAt ?? j.createdAt).toISOString(),
+        finishedAt: j.finishedAt?.toISOString()
+      }))
+    );
+  } catch (err) {
+    res.status(500).json({ error: (err as Error).message });
+  }
 });
 
-router.get('/:id', (req: Request, res: Response) => {
-  const job = jobs.get(req.params.id);
+router.get('/stats', async (req: AuthRequest, res: Response) => {
+  try {
+    res.json(await getQueueStats(req.user!.id));
+  } catch (err) {
+    res.status(500).json({ error: (err as Error).message });
+  }
+});
+
+router.get('/:id', async (req: AuthRequest, res: Response) => {
+  const job = await getJob(req.params.id, req.user!.id);
   if (!job) return res.status(404).json({ error: 'Job not found' });
 
-  const mediaUrl =
-    job.status === 'done' && job.outputPath
-      ? `/media/${path.basename(job.outputPath)}`
-      : null;
-  const metaUrl =
-    job.status === 'done' && job.youtubeMetaPath
-      ? `/media/${path.basename(job.youtubeMetaPath)}`
-      : null;
+  const outputPath = typeof job.result?.outputPath === 'string' ? job.result.outputPath : null;
+  const youtubeMetaPath = typeof job.result?.youtubeMetaPath === 'string' ? job.result.youtubeMetaPath : null;
+  const status = legacyStatus(job);
+  const mediaUrl = status === 'done' && outputPath ? `/media/${path.basename(outputPath)}` : null;
+  const metaUrl = status === 'done' && youtubeMetaPath ? `/media/${path.basename(youtubeMetaPath)}` : null;
 
   return res.json({
-    id: job.id,
-    status: job.status,
-    topic: job.topic,
-    startedAt: job.startedAt,
-    finishedAt: job.finishedAt,
+    id: job.jobId,
+    kind: job.kind,
+    projectId: job.projectId ?? null,
+    status,
+    topic: legacyTopic(job),
+    attempts: job.attempts,
+    startedAt: (job.startedAt ?? job.createdAt).toISOString(),
+    finishedAt: job.finishedAt?.toISOString(),
     errorMessage: job.errorMessage,
-    requiredFiles: job.requiredFiles,
+    requiredFiles: Array.isArray(job.result?.requiredFiles) ? job.result.requiredFiles : undefined,
     mediaUrl,
     metaUrl
   });
 });
 
-router.post('/:id/continue', async (req: Request, res: Response) => {
-  const job = jobs.get(req.params.id);
+router.post('/:id/continue', async (req: AuthRequest, res: Response) => {
+  const job = await getJob(req.params.id, req.user!.id);
   if (!job) return res.status(404).json({ error: 'Job not found' });
-  if (job.status !== 'waiting_for_clips') {
+  if (job.kind !== 'legacy' || legacyStatus(job) !== 'waiting_for_clips') {
     return res.status(400).json({
       error: 'Job is not waiting for clips. Only jobs with status waiting_for_clips can be continued.'
     });
   }
 
-  job.status = 'running';
-  job.finishedAt = undefined;
-  job.errorMessage = undefined;
+  const requeued = await requeueJob(job.jobId, req.user!.id, { ...job.payload, runStep: 4, reuseTemp: true });
+  if (!requeued) return res.status(409).json({ error: 'Job is already queued or running' });
+  return res.status(202).json({ id: requeued.jobId, status: requeued.status });
+});
 
-  try {
-    const result = await runShortPipeline({ runStep: 4, reuseTemp: true });
-    job.status = 'done';
-    job.finishedAt = new Date().toISOString();
-    job.outputPath = result.outputPath;
-    job.youtubeMetaPath = result.youtubeMetaPath;
-    job.requiredFiles = undefined;
-    return res.json({
-      id: job.id,
-      status: job.status,
-      mediaUrl: `/media/${path.basename(result.outputPath)}`,
-      metaUrl: result.youtubeMetaPath ? `/media/${path.basename(result.youtubeMetaPath)}` : null
-    });
-  } catch (err) {
-    job.status = 'error';
-    job.finishedAt = new Date().toISOString();
-    job.errorMessage = (err as Error).message;
-    logger.error('Continue failed', err, { jobId: job.id });
-    return res.status(500).json({ error: (err as Error).message });
+router.post('/:id/cancel', async (req: AuthRequest, res: Response) => {
+  const job = await getJob(req.params.id, req.user!.id);
+  if (!job) return res.status(404).json({ error: 'Job not found' });
+  if (job.projectId) {
+    return res.status(400).json({ error: 'Project jobs are cancelled with POST /api/projects/:projectId/cancel' });
   }
+  const cancelled = await cancelJob(job.jobId, req.user!.id);
+  if (!cancelled) return res.status(409).json({ error: 'Job is not queued or running' });
+  return res.json({ id: job.jobId, status: 'cancelled' });
 });
 
 export default router;
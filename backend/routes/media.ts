@@ -0,0 +1,165 @@
+import { Router, Response } from 'express';
+import path from 'path';
+import fs from 'fs';
+import multer from 'multer';
+import { authMiddleware, AuthRequest } from '../middleware';
+import { config } from '../config';
+import { logger } from '../logger';
+import { isR2Enabled } from '../r2';
+import { getAssetUrl } from '../projects';
+import type { MediaAssetDoc } from '../db';
+import {
+  createMediaAsset,
+  deleteMediaAsset,
+  encodeMediaCursor,
+  getMediaAsset,
+  listMediaAssets,
+  parseMediaCursor,
+  parseMediaTags,
+  parseMusicMoods,
+  updateMediaAsset
+} from '../mediaLibrary';
+import { isMediaKind, MEDIA_EXTENSIONS, MEDIA_KINDS, mediaKindForFile } from '../pipeline/mediaProbe';
+import { isMusicMood, MUSIC_MOODS, type MusicMood } from '../pipeline/musicAnalysis';
+
+const router = Router();
+const upload = multer({ dest: path.join(config.workspaceRoot, 'temp', 'uploads') });
+
+router.use(authMiddleware);
+
+const MAX_TITLE_LENGTH = 200;
+const MOODS_ERROR = `moods must be comma-separated values from: ${MUSIC_MOODS.join(', ')}`;
+
+async function toAssetResponse(asset: MediaAssetDoc) {
+  return {
+    assetId: asset.assetId,
+    kind: asset.kind,
+    fileName: asset.fileName,
+    title: asset.title ?? null,
+    tags: asset.tags,
+    durationSec: asset.durationSec ?? null,
+    width: asset.width ?? null,
+    height: asset.height ?? null,
+    music: asset.music ? { bpm: asset.music.bpm ?? null, energy: asset.music.energy ?? null, moods: asset.music.moods } : null,
+    sizeBytes: asset.sizeBytes,
+    usageCount: asset.usageCount,
+    lastUsedAt: asset.lastUsedAt?.toISOString() ?? null,
+    url: await getAssetUrl(asset.key),
+    thumbnailUrl: await getAssetUrl(asset.thumbnailKey),
+    createdAt: asset.createdAt.toISOString()
+  };
+}
+
+/**
+ * POST /api/media  multipart: file, kind?, title?, tags? (comma-separated), moods? (music only, comma-separated)
+ * Adds a clip (.mp4), image or music track to the user's library. The kind is taken from the extension when omitted.
+ * Music is analyzed for tempo and energy; moods default to mood tags or a suggestion from the analysis.
+ */
+router.post('/', upload.single('file'), async (req: AuthRequest, res: Response) => {
+  const userId = req.user!.id;
+  const file = (req as { file?: Express.Multer.File }).file;
+  if (!file) return res.status(400).json({ error: 'No file uploaded' });
+  try {
+    if (!isR2Enabled()) return res.status(503).json({ error: 'Media library requires R2 storage' });
+    const body = (req.body ?? {}) as { kind?: unknown; title?: unknown; tags?: unknown; moods?: unknown };
+    const detected = mediaKindForFile(file.originalname ?? '');
+    if (body.kind !== undefined && !isMediaKind(body.kind)) {
+      return res.status(400).json({ error: `kind must be one of: ${MEDIA_KINDS.join(', ')}` });
+    }
+    const kind = (body.kind as typeof detected) ?? detected;
+    if (!kind || detected !== kind) {
+      const allowed = MEDIA_KINDS.map((k) => `${k}: ${MEDIA_EXTENSIONS[k].join('/')}`).join('; ');
+      return res.status(400).json({ error: `Unsupported file type for ${kind ?? 'the library'} (${allowed})` });
+    }
+    const tags = body.tags === undefined || body.tags === '' ? [] : parseMediaTags(body.tags);
+    if (!tags) return res.status(400).json({ error: 'tags must be at most 20 comma-separated tags of up to 40 characters' });
+    if (body.title !== undefined && (typeof body.title !== 'string' || body.title.length > MAX_TITLE_LENGTH)) {
+      return res.status(400).json({ error: `title must be a string of at most ${MAX_TITLE_LENGTH} characters` });
+    }
+    const moods = body.moods === undefined || body.moods === '' ? undefined : parseMusicMoods(body.moods);
+    if (moods === null) return res.status(400).json({ error: MOODS_ERROR });
+    const asset = await createMediaAsset(userId, {
+      localPath: file.path,
+      fileName: file.originalname,
+      kind,
+      title: typeof body.title === 'string' && body.title.trim() ? body.title.trim() : undefined,
+      tags,
+      ...(kind === 'music' && moods ? { moods } : {})
+    });
+    return res.status(201).json(await toAssetResponse(asset));
+  } catch (err) {
+    logger.error('Media upload failed', err as Error);
+    return res.status(500).json({ error: (err as Error).message });
+  } finally {
+    fs.rmSync(file.path, { force: true });
+  }
+});
+
+/**
+ * GET /api/media?kind=clip|image|music&q=ocean&tags=storm,night&mood=dark&limit=30&before=<cursor>
+ * Response: { assets, nextBefore } — newest first; pass nextBefore back as `before` for the next page.
+ */
+router.get('/', async (req: AuthRequest, res: Response) => {
+  const userId = req.user!.id;
+  const { kind, q, tags, mood, limit, before } = req.query as Record<string, string | undefined>;
+  if (kind !== undefined && !isMediaKind(kind)) {
+    return res.status(400).json({ error: `kind must be one of: ${MEDIA_KINDS.join(', ')}` });
+  }
+  if (mood !== undefined && !isMusicMood(mood)) {
+    return res.status(400).json({ error: `mood must be one of: ${MUSIC_MOODS.join(', ')}` });
+  }
+  const tagList = tags ? parseMediaTags(tags) : [];
+  if (!tagList) return res.status(400).json({ error: 'tags must be comma-separated' });
+  const cursor = before ? parseMediaCursor(before) : undefined;
+  if (cursor === null) return res.status(400).json({ error: 'before must be a nextBefore cursor' });
+  const assets = await listMediaAssets(userId, {
+    kind: kind as MediaAssetDoc['kind'] | undefined,
+    q,
+    tags: tagList,
+    mood: mood as MusicMood | undefined,
+    limit: limit ? parseInt(limit, 10) || undefined : undefined,
+    before: cursor
+  });
+  return res.json({
+    assets: await Promise.all(assets.map(toAssetResponse)),
+    nextBefore: assets.length ? encodeMediaCursor(assets[assets.length - 1]) : null
+  });
+});
+
+router.get('/:assetId', async (req: AuthRequest, res: Response) => {
+  const asset = await getMediaAsset(req.params.assetId, req.user!.id);
+  if (!asset) return res.status(404).json({ error: 'Asset not found' });
+  return res.json(await toAssetResponse(asset));
+});
+
+/**
+ * PATCH /api/media/:assetId  body: { title?, tags?, moods? } — `title: null` clears it; tags and moods replace the
+ * existing lists. Moods apply to music only.
+ */
+router.patch('/:assetId', async (req: AuthRequest, res: Response) => {
+  const body = (req.body ?? {}) as { title?: unknown; tags?: unknown; moods?: unknown };
+  const tags = body.tags !== undefined ? parseMediaTags(body.tags) : undefined;
+  if (tags === null) return res.status(400).json({ error: 'tags must be at most 20 tags of up to 40 characters' });
+  const moods = body.moods !== undefined ? parseMusicMoods(body.moods) : undefined;
+  if (moods === null) return res.status(400).json({ error: MOODS_ERROR });
+  if (body.title !== undefined && body.title !== null && (typeof body.title !== 'string' || body.title.length > MAX_TITLE_LENGTH)) {
+    return res.status(400).json({ error: `title must be a string of at most ${MAX_TITLE_LENGTH} characters` });
+  }
+  const title = body.title === undefined ? undefined : typeof body.title === 'string' && body.title.trim() ? body.title.trim() : null;
+  if (moods) {
+    const existing = await getMediaAsset(req.params.assetId, req.user!.id);
+    if (!existing) return res.status(404).json({ error: 'Asset not found' });
+    if (existing.kind !== 'music') return res.status(400).json({ error: 'moods can only be set on music' });
+  }
+  const asset = await updateMediaAsset(req.params.assetId, req.user!.id, { title, tags, moods });
+  if (!asset) return res.status(404).json({ error: 'Asset not found' });
+  return res.json(await toAssetResponse(asset));
+});
+
+router.delete('/:assetId', async (req: AuthRequest, res: Response) => {
+  const deleted = await deleteMediaAsset(req.params.assetId, req.user!.id);
+  if (!deleted) return res.status(404).json({ error: 'Asset not found' });
+  return res.json({ deleted: true });
+});
+
+export default router;
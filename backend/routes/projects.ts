@@ -15,43 +15,159 @@ import {
   updateProject,
   pushStageHistory,
   uploadProjectFile,
-  deleteProject
+  deleteProject,
+  createVariantProject,
+  listProjectVariants
 } from '../projects';
 import { getObjectJson } from '../r2';
-import { runProjectPipeline, runProjectAfterScriptApproval, runProjectAssembly, regenerateProjectScript } from '../projectRunner';
+import type { ProjectDoc, PublishState, ScriptVersionDoc, YoutubePrivacyStatus } from '../db';
+import {
+  enqueueJob,
+  getActiveJobForProject,
+  toJobSummary,
+  cancelProjectJobs,
+  listJobs
+} from '../jobQueue';
+import { restoreProjectAfterCancel, SCENE_ACTION_STATUSES } from '../projectRunner';
 import { authMiddleware, AuthRequest } from '../middleware';
 import { logger } from '../logger';
 import { config } from '../config';
 import { suggestFreshTitles } from '../titleService';
-import { getCompetitorIntelForUser } from '../userIntel';
+import { getLastProjectProgress, subscribeProjectEvents } from '../progressEvents';
+import type { SceneActionKind } from '../pipeline/index';
+import { TTS_PROVIDER_IDS, parseVoiceSettings, type TtsProviderId, type TtsVoiceSettings } from '../pipeline/tts';
+import { CAPTION_STYLE_IDS, DEFAULT_CAPTION_STYLE, isCaptionStyleId, type CaptionStyleId } from '../pipeline/captionStyles';
+import { isTopicCategory, TOPIC_CATEGORIES, type TopicCategory } from '../topicCategories';
+import { CAPTION_FILE_PATTERN, MAX_CAPTION_LANGUAGES, parseCaptionLanguages } from '../pipeline/captionTracks';
+import { DEFAULT_TRANSITION, isTransitionId, TRANSITION_IDS, type TransitionId } from '../pipeline/transitions';
+import { isMotionPresetId, MOTION_PRESET_IDS, parseMotionIntensity } from '../pipeline/imageMotion';
+import { isLoudnessTarget, MAX_LOUDNESS_TARGET_LUFS, MIN_LOUDNESS_TARGET_LUFS } from '../pipeline/loudness';
+import { DEFAULT_THUMBNAIL_STYLE, parseThumbnailStyle } from '../pipeline/thumbnails';
+import { EXPORT_PROFILE_IDS, EXPORT_PROFILES, exportFileName, isExportProfileId, type ExportProfileId } from '../pipeline/exportProfiles';
+import { attachMediaAsset, createMediaAsset, getMediaAsset, parseMediaTags } from '../mediaLibrary';
+import { isR2Enabled } from '../r2';
+import { getCalendarItemForProject } from '../contentCalendar';
+import { buildPublishRequest, getYoutubeLink, isYoutubeConfigured, YOUTUBE_PRIVACY_STATUSES } from '../youtubePublisher';
+import { mediaKindForFile } from '../pipeline/mediaProbe';
+import { CLIP_PROVIDER_IDS, getClipProvider, isClipProviderId, type ClipProviderId } from '../pipeline/clipProviders';
+import { MAX_SCENE_DURATION_SEC, scriptValidationError, type ScriptData, type ScriptScene } from '../pipeline/scriptValidation';
+import {
+  diffScripts,
+  ensureScriptVersionBaseline,
+  getLatestScriptVersion,
+  getScriptVersion,
+  listScriptVersions,
+  recordScriptVersion
+} from '../scriptVersions';
+
+const MAX_VARIANTS_PER_REQUEST = 5;
+const MAX_SCENE_PROMPT_LENGTH = 4000;
+const LOUDNESS_TARGET_ERROR = `loudnessTargetLufs must be a number from ${MIN_LOUDNESS_TARGET_LUFS} to ${MAX_LOUDNESS_TARGET_LUFS} (e.g. -14 for YouTube)`;
 
 const router = Router();
 
-type DownloadTokenPayload = {
+type ProjectTokenPurpose = 'project_download' | 'project_events';
+
+type ProjectTokenPayload = {
   userId: string;
   projectId: string;
-  purpose: 'project_download';
+  purpose: ProjectTokenPurpose;
 };
 
-function signDownloadToken(payload: DownloadTokenPayload): string {
+function signProjectToken(payload: ProjectTokenPayload): string {
   return jwt.sign(payload, config.jwt.secret, { expiresIn: '5m' } as jwt.SignOptions);
 }
 
-function verifyDownloadToken(token: string): DownloadTokenPayload | null {
+function verifyProjectToken(token: string, purpose: ProjectTokenPurpose): ProjectTokenPayload | null {
   try {
-    const decoded = jwt.verify(token, config.jwt.secret) as DownloadTokenPayload;
-    if (!decoded || decoded.purpose !== 'project_download') return null;
+    const decoded = jwt.verify(token, config.jwt.secret) as ProjectTokenPayload;
+    if (!decoded || decoded.purpose !== purpose) return null;
     return decoded;
   } catch {
     return null;
   }
 }
 
+function isTtsProviderId(value: unknown): value is TtsProviderId {
+  return typeof value === 'string' && (TTS_PROVIDER_IDS as string[]).includes(value);
+}
+
+/** Validate voiceId / voiceSettings from a create or PATCH body; `null` clears a field on PATCH. */
+function parseVoiceFields(body: { voiceId?: unknown; voiceSettings?: unknown }):
+  | { ok: true; voiceId?: string | null; voiceSettings?: TtsVoiceSettings | null }
+  | { ok: false; error: string } {
+  const out: { ok: true; voiceId?: string | null; voiceSettings?: TtsVoiceSettings | null } = { ok: true };
+  if (body.voiceId !== undefined) {
+    if (body.voiceId === null || body.voiceId === '') out.voiceId = null;
+    else if (typeof body.voiceId !== 'string' || body.voiceId.trim().length > 200) {
+      return { ok: false, error: 'voiceId must be a string' };
+    } else out.voiceId = body.voiceId.trim();
+  }
+  if (body.voiceSettings !== undefined) {
+    if (body.voiceSettings === null) out.voiceSettings = null;
+    else {
+      const parsed = parseVoiceSettings(body.voiceSettings);
+      if (!parsed.ok) return { ok: false, error: parsed.error };
+      out.voiceSettings = parsed.settings;
+    }
+  }
+  return out;
+}
+
+/** captionLanguages from a create or PATCH body: array of language tags; `null` or [] clears on PATCH. */
+function parseCaptionLanguagesField(value: unknown): { ok: true; languages: string[] } | { ok: false; error: string } {
+  if (value === null) return { ok: true, languages: [] };
+  const languages = Array.isArray(value) ? parseCaptionLanguages(value) : null;
+  if (!languages) return { ok: false, error: 'captionLanguages must be an array of language codes like "es" or "pt-BR"' };
+  if (languages.length > MAX_CAPTION_LANGUAGES) {
+    return { ok: false, error: `captionLanguages allows at most ${MAX_CAPTION_LANGUAGES} languages` };
+  }
+  return { ok: true, languages };
+}
+
+function writeSse(res: Response, event: string, data: unknown): void {
+  res.write(`event: ${event}\ndata: ${JSON.stringify(data)}\n\n`);
+}
+
+// EventSource cannot send an Authorization header, so the stream is authorized with a short-lived token (see events-token).
+router.get('/:projectId/events', async (req, res: Response) => {
+  const { projectId } = req.params;
+  const token = String(req.query.token || '');
+  if (!token) return res.status(400).json({ error: 'token is required' });
+  const payload = verifyProjectToken(token, 'project_events');
+  if (!payload || payload.projectId !== projectId) return res.status(401).json({ error: 'Invalid or expired events token' });
+
+  const project = await getProjectByProjectId(projectId, payload.userId);
+  if (!project) return res.status(404).json({ error: 'Project not found' });
+  const activeJob = await getActiveJobForProject(projectId);
+
+  res.setHeader('Content-Type', 'text/event-stream');
+  res.setHeader('Cache-Control', 'no-cache');
+  res.setHeader('Connection', 'keep-alive');
+  res.setHeader('X-Accel-Buffering', 'no');
+  res.flushHeaders();
+
+  writeSse(res, 'snapshot', {
+    status: project.status,
+    currentStage: project.currentStage,
+    activeJob: activeJob ? toJobSummary(activeJob) : null
+  });
+  const last = getLastProjectProgress(projectId);
+  if (last) writeSse(res, last.type, last);
+
+  const unsubscribe = subscribeProjectEvents(projectId, (event) => writeSse(res, event.type, event));
+  const keepAlive = setInterval(() => res.write(': keep-alive\n\n'), 25000);
+  req.on('close', () => {
+    clearInterval(keepAlive);
+    unsubscribe();
+  });
+});
+
 router.get('/:projectId/download', async (req, res: Response) => {
   const { projectId } = req.params;
   const token = String(req.query.token || '');
   if (!token) return res.status(400).json({ error: 'token is required' });
-  const payload = verifyDownloadToken(token);
+  const payload = verifyProjectToken(token, 'project_download');
   if (!payload || payload.projectId !== projectId) return res.status(401).json({ error: 'Invalid or expired download token' });
 
   const project = await getProjectByProjectId(projectId, payload.userId);
@@ -84,11 +200,6 @@ router.use(authMiddleware);
 
 const upload = multer({ dest: path.join(config.workspaceRoot, 'temp', 'uploads') });
 
-interface ScriptData {
-  voiceover: string;
-  scenes: Array<{ prompt: string; voiceover?: string; duration?: number }>;
-}
-
 async function loadProjectScriptData(projectId: string, project: { scriptKey?: string }): Promise<ScriptData | null> {
   const scriptPath = path.join(getProjectWorkspaceDir(projectId), 'script.json');
   const scriptPathExists = fs.existsSync(scriptPath);
@@ -124,6 +235,22 @@ async function loadProjectScriptData(projectId: string, project: { scriptKey?: s
   return script;
 }
 
+/** Write script.json to the workspace and R2, and keep it as a new version (a user edit or a restore). */
+async function saveProjectScriptData(
+  userId: string,
+  projectId: string,
+  script: ScriptData,
+  version: { reason: 'manual_edit' | 'restore'; note: string; restoredFrom?: number }
+): Promise<void> {
+  const workspace = getProjectWorkspaceDir(projectId);
+  if (!fs.existsSync(workspace)) fs.mkdirSync(workspace, { recursive: true });
+  const scriptPath = path.join(workspace, 'script.json');
+  fs.writeFileSync(scriptPath, JSON.stringify(script, null, 2));
+  const scriptKey = await uploadProjectFile(userId, projectId, 'script.json', scriptPath);
+  if (scriptKey) await updateProject(projectId, userId, { scriptKey });
+  await recordScriptVersion(projectId, userId, script, { ...version, author: 'user' });
+}
+
 router.post('/', async (req: AuthRequest, res: Response) => {
   const userId = req.user!.id;
   const body = req.body as {
@@ -134,6 +261,15 @@ router.post('/', async (req: AuthRequest, res: Response) => {
     useCompetitorIntel?: boolean;
     useWebResearch?: boolean;
     scriptProvider?: string;
+    ttsProvider?: string;
+    clipProvider?: unknown;
+    voiceId?: unknown;
+    voiceSettings?: unknown;
+    captionStyle?: unknown;
+    captionLanguages?: unknown;
+    transition?: unknown;
+    loudnessTargetLufs?: unknown;
+    autoMusic?: unknown;
   };
   const topic = body.topic?.trim();
   if (!topic) return res.status(400).json({ error: 'topic is required' });
@@ -143,35 +279,55 @@ router.post('/', async (req: AuthRequest, res: Response) => {
   const useCompetitorIntel = !!body.useCompetitorIntel;
   const useWebResearch = !!body.useWebResearch;
   const scriptProvider = body.scriptProvider === 'grok' ? 'grok' as const : undefined;
+  if (body.ttsProvider !== undefined && !isTtsProviderId(body.ttsProvider)) {
+    return res.status(400).json({ error: `ttsProvider must be one of: ${TTS_PROVIDER_IDS.join(', ')}` });
+  }
+  const ttsProvider = body.ttsProvider as TtsProviderId | undefined;
+  if (body.clipProvider !== undefined && !isClipProviderId(body.clipProvider)) {
+    return res.status(400).json({ error: `clipProvider must be one of: ${CLIP_PROVIDER_IDS.join(', ')}` });
+  }
+  const voice = parseVoiceFields(body);
+  if (!voice.ok) return res.status(400).json({ error: voice.error });
+  if (body.captionStyle !== undefined && !isCaptionStyleId(body.captionStyle)) {
+    return res.status(400).json({ error: `captionStyle must be one of: ${CAPTION_STYLE_IDS.join(', ')}` });
+  }
+  const captionLanguages = body.captionLanguages !== undefined ? parseCaptionLanguagesField(body.captionLanguages) : null;
+  if (captionLanguages && !captionLanguages.ok) return res.status(400).json({ error: captionLanguages.error });
+  if (body.transition !== undefined && !isTransitionId(body.transition)) {
+    return res.status(400).json({ error: `transition must be one of: ${TRANSITION_IDS.join(', ')}` });
+  }
+  if (body.loudnessTargetLufs !== undefined && !isLoudnessTarget(body.loudnessTargetLufs)) {
+    return res.status(400).json({ error: LOUDNESS_TARGET_ERROR });
+  }
+  if (body.autoMusic !== undefined && typeof body.autoMusic !== 'boolean') {
+    return res.status(400).json({ error: 'autoMusic must be a boolean' });
+  }
   const idempotencyKey = body.idempotencyKey ?? (req.headers['idempotency-key'] as string | undefined);
   try {
-    const { project, created } = await createProject(
-      userId,
-      topic,
+    const { project, created } = await createProject(userId, topic, {
       idempotencyKey,
       videoFormat,
       useCompetitorIntel,
       useWebResearch,
-      scriptProvider
-    );
-    if (created) {
-      (async () => {
-        try {
-          const competitorIntel = useCompetitorIntel ? await getCompetitorIntelForUser(userId) : null;
-          await runProjectPipeline(
-            userId,
-            project.projectId,
-            project.topic,
-            false,
-            developmentsContext,
-            competitorIntel,
-            useWebResearch
-          );
-        } catch (err) {
-          logger.error('Project pipeline failed', err, { projectId: project.projectId });
-        }
-      })();
-    }
+      scriptProvider,
+      ttsProvider,
+      voiceId: voice.voiceId ?? undefined,
+      voiceSettings: voice.voiceSettings ?? undefined,
+      captionStyle: body.captionStyle as CaptionStyleId | undefined,
+      captionLanguages: captionLanguages?.ok ? captionLanguages.languages : undefined,
+      transition: body.transition as TransitionId | undefined,
+      loudnessTargetLufs: body.loudnessTargetLufs as number | undefined,
+      clipProvider: body.clipProvider as ClipProviderId | undefined,
+      autoMusic: body.autoMusic as boolean | undefined
+    });
+    const job = created
+      ? (await enqueueJob({
+          userId,
+          projectId: project.projectId,
+          kind: 'script',
+          payload: { testMode: false, developmentsContext }
+        })).job
+      : null;
     res.status(created ? 201 : 200).json({
       projectId: project.projectId,
       topic: project.topic,
@@ -179,7 +335,8 @@ router.post('/', async (req: AuthRequest, res: Response) => {
       currentStage: project.currentStage,
       updatedAt: project.updatedAt.toISOString(),
       finalVideoUrl: null,
-      existing: !created
+      existing: !created,
+      jobId: job?.jobId ?? null
     });
   } catch (err) {
     res.status(500).json({ error: (err as Error).message });
@@ -247,10 +404,287 @@ router.get('/:projectId/download-token', async (req: AuthRequest, res: Response)
   const project = await getProjectByProjectId(projectId, userId);
   if (!project) return res.status(404).json({ error: 'Project not found' });
   if (project.status !== 'assembly_done') return res.status(400).json({ error: 'Final video is not ready yet' });
-  const token = signDownloadToken({ userId, projectId, purpose: 'project_download' });
+  const token = signProjectToken({ userId, projectId, purpose: 'project_download' });
+  return res.json({ token, expiresInSeconds: 300 });
+});
+
+router.get('/:projectId/events-token', async (req: AuthRequest, res: Response) => {
+  const userId = req.user!.id;
+  const { projectId } = req.params;
+  const project = await getProjectByProjectId(projectId, userId);
+  if (!project) return res.status(404).json({ error: 'Project not found' });
+  const token = signProjectToken({ userId, projectId, purpose: 'project_events' });
   return res.json({ token, expiresInSeconds: 300 });
 });
 
+/**
+ * PUT /:projectId/scene-transitions  body: { transitions: ["crossfade", null, "glitch"] }
+ * Sets each scene's transition into the next scene in script.json (null = use the project default).
+ * Takes effect at the next assembly.
+ */
+router.put('/:projectId/scene-transitions', async (req: AuthRequest, res: Response) => {
+  const userId = req.user!.id;
+  const { projectId } = req.params;
+  const project = await getProjectByProjectId(projectId, userId);
+  if (!project) return res.status(404).json({ error: 'Project not found' });
+  if (await getActiveJobForProject(projectId)) {
+    return res.status(409).json({ error: 'Project has a job in progress; try again when it finishes.' });
+  }
+  const transitions = (req.body as { transitions?: unknown })?.transitions;
+  if (!Array.isArray(transitions) || transitions.some((t) => t !== null && !isTransitionId(t))) {
+    return res.status(400).json({ error: `transitions must be an array of null or one of: ${TRANSITION_IDS.join(', ')}` });
+  }
+  const script = await loadProjectScriptData(projectId, project);
+  if (!script) return res.status(404).json({ error: 'Script not found' });
+  await ensureScriptVersionBaseline(projectId, userId, script);
+  if (transitions.length > script.scenes.length) {
+    return res.status(400).json({ error: `Script has ${script.scenes.length} scene(s)` });
+  }
+  script.scenes = script.scenes.map((scene, i) => {
+    if (i >= transitions.length) return scene;
+    const { transition: _previous, ...rest } = scene;
+    return transitions[i] ? { ...rest, transition: transitions[i] as TransitionId } : rest;
+  });
+  await saveProjectScriptData(userId, projectId, script, { reason: 'manual_edit', note: 'scene transitions' });
+  return res.json({ projectId, scenes: script.scenes.map((s, i) => ({ index: i, transition: s.transition ?? null })) });
+});
+
+/**
+ * Script edits go through here: only while the script awaits confirmation (audio is generated from it next) and
+ * no job is running. Sends the error response and returns null otherwise.
+ */
+async function loadScriptForEdit(projectId: string, userId: string, res: Response): Promise<ScriptData | null> {
+  const project = await getProjectByProjectId(projectId, userId);
+  if (!project) {
+    res.status(404).json({ error: 'Project not found' });
+    return null;
+  }
+  if (project.status !== 'script_generated' || project.currentStage !== 'script') {
+    res.status(400).json({ error: 'Script can only be edited while it is awaiting confirmation.' });
+    return null;
+  }
+  if (await getActiveJobForProject(projectId)) {
+    res.status(409).json({ error: 'Project has a job in progress; try again when it finishes.' });
+    return null;
+  }
+  const script = await loadProjectScriptData(projectId, project);
+  if (!script) res.status(404).json({ error: 'Script not found' });
+  else await ensureScriptVersionBaseline(projectId, userId, script);
+  return script;
+}
+
+/** Validate with the pipeline's rules, then persist to the workspace and R2 as a new version. Sends the response either way. */
+async function saveEditedScript(userId: string, projectId: string, script: ScriptData, note: string, res: Response) {
+  const error = scriptValidationError(script);
+  if (error) return res.status(400).json({ error });
+  await saveProjectScriptData(userId, projectId, script, { reason: 'manual_edit', note });
+  return res.json({ projectId, voiceover: script.voiceover, scenes: script.scenes });
+}
+
+/** Scene voiceovers concatenated are the full voiceover; scene edits keep it that way. */
+function joinSceneVoiceovers(scenes: ScriptScene[]): string {
+  return scenes.map((s) => String(s.voiceover ?? '').trim()).filter(Boolean).join(' ');
+}
+
+/** prompt / voiceover / duration from a request body; `duration: null` drops the scene's own duration. */
+function parseSceneFields(
+  body: Record<string, unknown>
+): { ok: true; fields: Partial<Pick<ScriptScene, 'prompt' | 'voiceover'>> & { duration?: number | null } } | { ok: false; error: string } {
+  const fields: Partial<Pick<ScriptScene, 'prompt' | 'voiceover'>> & { duration?: number | null } = {};
+  if (body.prompt !== undefined) {
+    if (typeof body.prompt !== 'string' || !body.prompt.trim() || body.prompt.length > MAX_SCENE_PROMPT_LENGTH) {
+      return { ok: false, error: `prompt must be a non-empty string of at most ${MAX_SCENE_PROMPT_LENGTH} characters` };
+    }
+    fields.prompt = body.prompt.trim();
+  }
+  if (body.voiceover !== undefined) {
+    if (typeof body.voiceover !== 'string' || !body.voiceover.trim()) return { ok: false, error: 'voiceover must be a non-empty string' };
+    fields.voiceover = body.voiceover.trim();
+  }
+  if (body.duration !== undefined) {
+    if (body.duration !== null && (typeof body.duration !== 'number' || !(body.duration > 0 && body.duration <= MAX_SCENE_DURATION_SEC))) {
+      return { ok: false, error: `duration must be a number of seconds between 0 and ${MAX_SCENE_DURATION_SEC}, or null` };
+    }
+    fields.duration = body.duration as number | null;
+  }
+  return { ok: true, fields };
+}
+
+function applySceneFields(scene: ScriptScene, fields: Partial<Pick<ScriptScene, 'prompt' | 'voiceover'>> & { duration?: number | null }): ScriptScene {
+  const { duration, ...rest } = fields;
+  const next: ScriptScene = { ...scene, ...rest };
+  if (duration === null) delete next.duration;
+  else if (duration !== undefined) next.duration = duration;
+  return next;
+}
+
+function parseSceneIndex(raw: string, sceneCount: number): number | null {
+  const idx = Number(raw);
+  return Number.isInteger(idx) && idx >= 0 && idx < sceneCount ? idx : null;
+}
+
+/**
+ * PATCH /:projectId/script  body: { voiceover }
+ * Replaces the full voiceover. Scene voiceovers are left as they are; edit them per scene to keep scene-lock in step.
+ */
+router.patch('/:projectId/script', async (req: AuthRequest, res: Response) => {
+  const userId = req.user!.id;
+  const { projectId } = req.params;
+  const voiceover = (req.body as { voiceover?: unknown })?.voiceover;
+  if (typeof voiceover !== 'string' || !voiceover.trim()) return res.status(400).json({ error: 'voiceover must be a non-empty string' });
+  const script = await loadScriptForEdit(projectId, userId, res);
+  if (!script) return;
+  return saveEditedScript(userId, projectId, { ...script, voiceover: voiceover.trim() }, 'full voiceover', res);
+});
+
+/**
+ * PATCH /:projectId/script/scenes/:index  body: { prompt?, voiceover?, duration? }
+ * Edits one scene (0-based). A new scene voiceover also rebuilds the full voiceover from the scenes.
+ */
+router.patch('/:projectId/script/scenes/:index', async (req: AuthRequest, res: Response) => {
+  const userId = req.user!.id;
+  const { projectId } = req.params;
+  const parsed = parseSceneFields((req.body ?? {}) as Record<string, unknown>);
+  if (!parsed.ok) return res.status(400).json({ error: parsed.error });
+  if (Object.keys(parsed.fields).length === 0) return res.status(400).json({ error: 'Nothing to update: send prompt, voiceover or duration' });
+  const script = await loadScriptForEdit(projectId, userId, res);
+  if (!script) return;
+  const idx = parseSceneIndex(req.params.index, script.scenes.length);
+  if (idx === null) return res.status(404).json({ error: `Scene not found; script has ${script.scenes.length} scene(s)` });
+  const scenes = script.scenes.map((scene, i) => (i === idx ? applySceneFields(scene, parsed.fields) : scene));
+  const voiceover = parsed.fields.voiceover !== undefined ? joinSceneVoiceovers(scenes) : script.voiceover;
+  return saveEditedScript(userId, projectId, { ...script, voiceover, scenes }, `scene ${idx} edited (${Object.keys(parsed.fields).join(', ')})`, res);
+});
+
+/**
+ * POST /:projectId/script/scenes  body: { index?, prompt, voiceover, duration? }
+ * Inserts a scene before `index` (default: at the end) and rebuilds the full voiceover.
+ */
+router.post('/:projectId/script/scenes', async (req: AuthRequest, res: Response) => {
+  const userId = req.user!.id;
+  const { projectId } = req.params;
+  const body = (req.body ?? {}) as Record<string, unknown>;
+  if (body.prompt === undefined || body.voiceover === undefined) return res.status(400).json({ error: 'prompt and voiceover are required' });
+  const parsed = parseSceneFields(body);
+  if (!parsed.ok) return res.status(400).json({ error: parsed.error });
+  const script = await loadScriptForEdit(projectId, userId, res);
+  if (!script) return;
+  const index = body.index === undefined ? script.scenes.length : body.index;
+  if (typeof index !== 'number' || !Number.isInteger(index) || index < 0 || index > script.scenes.length) {
+    return res.status(400).json({ error: `index must be an integer from 0 to ${script.scenes.length}` });
+  }
+  // New scenes take the script's usual length unless one is given.
+  const template = script.scenes.find((s) => typeof s.duration === 'number');
+  const scene = applySceneFields({ prompt: '', ...(template ? { duration: template.duration } : {}) }, parsed.fields);
+  const scenes = [...script.scenes.slice(0, index), scene, ...script.scenes.slice(index)];
+  return saveEditedScript(userId, projectId, { ...script, voiceover: joinSceneVoiceovers(scenes), scenes }, `scene ${index} inserted`, res);
+});
+
+/** DELETE /:projectId/script/scenes/:index — removes a scene and rebuilds the full voiceover. The last scene cannot be removed. */
+router.delete('/:projectId/script/scenes/:index', async (req: AuthRequest, res: Response) => {
+  const userId = req.user!.id;
+  const { projectId } = req.params;
+  const script = await loadScriptForEdit(projectId, userId, res);
+  if (!script) return;
+  const idx = parseSceneIndex(req.params.index, script.scenes.length);
+  if (idx === null) return res.status(404).json({ error: `Scene not found; script has ${script.scenes.length} scene(s)` });
+  const scenes = script.scenes.filter((_, i) => i !== idx);
+  return saveEditedScript(userId, projectId, { ...script, voiceover: joinSceneVoiceovers(scenes), scenes }, `scene ${idx} deleted`, res);
+});
+
+/**
+ * PUT /:projectId/script/scene-order  body: { order: [2, 0, 1] }
+ * `order` lists every current scene index once, in the new order. Rebuilds the full voiceover.
+ */
+router.put('/:projectId/script/scene-order', async (req: AuthRequest, res: Response) => {
+  const userId = req.user!.id;
+  const { projectId } = req.params;
+  const order = (req.body as { order?: unknown })?.order;
+  const script = await loadScriptForEdit(projectId, userId, res);
+  if (!script) return;
+  const n = script.scenes.length;
+  if (
+    !Array.isArray(order) ||
+    order.length !== n ||
+    new Set(order).size !== n ||
+    order.some((i) => typeof i !== 'number' || !Number.isInteger(i) || i < 0 || i >= n)
+  ) {
+    return res.status(400).json({ error: `order must list each scene index from 0 to ${n - 1} exactly once` });
+  }
+  const scenes = (order as number[]).map((i) => script.scenes[i]);
+  return saveEditedScript(userId, projectId, { ...script, voiceover: joinSceneVoiceovers(scenes), scenes }, 'scenes reordered', res);
+});
+
+function toVersionSummary(v: ScriptVersionDoc) {
+  return {
+    version: v.version,
+    reason: v.reason,
+    author: v.author,
+    note: v.note ?? null,
+    restoredFrom: v.restoredFrom ?? null,
+    sceneCount: v.script.scenes.length,
+    voiceoverChars: v.script.voiceover.length,
+    createdAt: v.createdAt.toISOString()
+  };
+}
+
+/** GET /:projectId/script/versions — newest first, without the script bodies. */
+router.get('/:projectId/script/versions', async (req: AuthRequest, res: Response) => {
+  const userId = req.user!.id;
+  const { projectId } = req.params;
+  const project = await getProjectByProjectId(projectId, userId);
+  if (!project) return res.status(404).json({ error: 'Project not found' });
+  const versions = await listScriptVersions(projectId, userId);
+  return res.json({ projectId, current: versions[0]?.version ?? null, versions: versions.map(toVersionSummary) });
+});
+
+router.get('/:projectId/script/versions/:version', async (req: AuthRequest, res: Response) => {
+  const userId = req.user!.id;
+  const { projectId } = req.params;
+  const project = await getProjectByProjectId(projectId, userId);
+  if (!project) return res.status(404).json({ error: 'Project not found' });
+  const version = await getScriptVersion(projectId, userId, Number(req.params.version));
+  if (!version) return res.status(404).json({ error: 'Script version not found' });
+  return res.json({ ...toVersionSummary(version), script: version.script });
+});
+
+/**
+ * GET /:projectId/script/diff?from=2&to=5  (to defaults to the latest version)
+ * Scene-level diff: each scene is unchanged, changed (with the fields that differ), added or removed.
+ */
+router.get('/:projectId/script/diff', async (req: AuthRequest, res: Response) => {
+  const userId = req.user!.id;
+  const { projectId } = req.params;
+  const project = await getProjectByProjectId(projectId, userId);
+  if (!project) return res.status(404).json({ error: 'Project not found' });
+  const { from, to } = req.query as Record<string, string | undefined>;
+  if (!from) return res.status(400).json({ error: 'from is required (a version number)' });
+  const fromVersion = await getScriptVersion(projectId, userId, Number(from));
+  const toVersion = to ? await getScriptVersion(projectId, userId, Number(to)) : await getLatestScriptVersion(projectId, userId);
+  if (!fromVersion || !toVersion) return res.status(404).json({ error: 'Script version not found' });
+  return res.json({ from: fromVersion.version, to: toVersion.version, ...diffScripts(fromVersion.script, toVersion.script) });
+});
+
+/**
+ * POST /:projectId/script/versions/:version/restore
+ * Makes an earlier version the current script (recorded as a new version). Only before the script is approved.
+ */
+router.post('/:projectId/script/versions/:version/restore', async (req: AuthRequest, res: Response) => {
+  const userId = req.user!.id;
+  const { projectId } = req.params;
+  const current = await loadScriptForEdit(projectId, userId, res);
+  if (!current) return;
+  const version = await getScriptVersion(projectId, userId, Number(req.params.version));
+  if (!version) return res.status(404).json({ error: 'Script version not found' });
+  await saveProjectScriptData(userId, projectId, version.script, {
+    reason: 'restore',
+    note: `restored version ${version.version}`,
+    restoredFrom: version.version
+  });
+  const latest = await getLatestScriptVersion(projectId, userId);
+  return res.json({ projectId, current: latest?.version ?? version.version, voiceover: version.script.voiceover, scenes: version.script.scenes });
+});
+
 router.post('/:projectId/confirm-script', async (req: AuthRequest, res: Response) => {
   const userId = req.user!.id;
   const { projectId } = req.params;
@@ -261,6 +695,9 @@ router.post('/:projectId/confirm-script', async (req: AuthRequest, res: Response
       error: 'Project is not awaiting script confirmation.'
     });
   }
+  if (await getActiveJobForProject(projectId)) {
+    return res.status(409).json({ error: 'Project has a job in progress; try again when it finishes.' });
+  }
 
   await updateProject(projectId, userId, {
     currentStage: 'audio',
@@ -272,16 +709,10 @@ router.post('/:projectId/confirm-script', async (req: AuthRequest, res: Response
     at: new Date().toISOString()
   });
 
-  // Fire and forget to avoid long request durations.
-  (async () => {
-    try {
-      await runProjectAfterScriptApproval(userId, projectId, false);
-    } catch (err) {
-      logger.error('Project continuation after script confirm failed', err, { projectId });
-    }
-  })();
+  // Queued so the audio/clips/assembly chain survives restarts and respects concurrency limits.
+  const { job } = await enqueueJob({ userId, projectId, kind: 'audio', payload: { testMode: false } });
 
-  return res.json({ ok: true, projectId, status: 'script_generated', currentStage: 'audio' });
+  return res.json({ ok: true, projectId, status: 'script_generated', currentStage: 'audio', jobId: job.jobId });
 });
 
 router.post('/:projectId/reject-script', async (req: AuthRequest, res: Response) => {
@@ -294,6 +725,9 @@ router.post('/:projectId/reject-script', async (req: AuthRequest, res: Response)
       error: 'Project is not awaiting script confirmation.'
     });
   }
+  if (await getActiveJobForProject(projectId)) {
+    return res.status(409).json({ error: 'Project has a job in progress; try again when it finishes.' });
+  }
 
   const updated = await updateProject(projectId, userId, {
     status: 'rejected',
@@ -321,13 +755,18 @@ router.post('/:projectId/regenerate-script', async (req: AuthRequest, res: Respo
   if (project.status !== 'script_generated' || project.currentStage !== 'script') {
     return res.status(400).json({ error: 'Project is not awaiting script decision.' });
   }
-  try {
-    await regenerateProjectScript(userId, projectId, typeof body.remarks === 'string' ? body.remarks : undefined);
-    return res.json({ ok: true });
-  } catch (err) {
-    logger.error('Regenerate script failed', err as Error, { projectId });
-    return res.status(500).json({ error: (err as Error).message });
+  const active = await getActiveJobForProject(projectId);
+  if (active && active.kind !== 'regenerate_script') {
+    return res.status(409).json({ error: 'Project has a job in progress; try again when it finishes.' });
   }
+  // Progress and the new draft arrive over the project's event stream; the script is replaced when the job is done.
+  const { job } = await enqueueJob({
+    userId,
+    projectId,
+    kind: 'regenerate_script',
+    payload: { remarks: typeof body.remarks === 'string' ? body.remarks : undefined }
+  });
+  return res.status(202).json({ ok: true, projectId, jobId: job.jobId });
 });
 
 router.get('/:projectId', async (req: AuthRequest, res: Response) => {
@@ -365,9 +804,40 @@ router.get('/:projectId', async (req: AuthRequest, res: Response) => {
     (fs.existsSync(path.join(outputDir, 'segment_alignment.json'))
       ? `/api/projects/${projectId}/media/segment_alignment.json`
       : null);
+  const thumbnailUrl =
+    (await getAssetUrl(project.thumbnailKey)) ??
+    (fs.existsSync(path.join(outputDir, 'thumbnail.jpg')) ? `/api/projects/${projectId}/media/thumbnail.jpg` : null);
+  const renderReportUrl =
+    (await getAssetUrl(project.renderReportKey)) ??
+    (fs.existsSync(path.join(outputDir, 'render_report.json'))
+      ? `/api/projects/${projectId}/media/render_report.json`
+      : null);
   const audioSegmentUrls = await Promise.all(
     (project.audioKeys ?? []).slice(1).map((k) => getAssetUrl(k))
   );
+  const preview = project.preview
+    ? {
+        url:
+          (await getAssetUrl(project.preview.videoKey)) ??
+          (fs.existsSync(path.join(outputDir, 'preview.mp4')) ? `/api/projects/${projectId}/media/preview.mp4` : null),
+        placeholderScenes: project.preview.placeholderScenes,
+        renderedAt: project.preview.renderedAt
+      }
+    : null;
+  const exports = await projectExportUrls(projectId, project.exports, outputDir);
+  // Closed-caption sidecars: R2 tracks from the last assembly, else files still in the local output dir.
+  const captionTracks = project.captionTracks?.length
+    ? await Promise.all(
+        project.captionTracks.map(async (t) => ({
+          language: t.language,
+          translated: t.translated,
+          srtUrl: await getAssetUrl(t.srtKey),
+          vttUrl: await getAssetUrl(t.vttKey)
+        }))
+      )
+    : localCaptionTracks(projectId, outputDir, project.language ?? config.captions.sourceLanguage);
+  const activeJob = await getActiveJobForProject(projectId);
+  const calendarItem = await getCalendarItemForProject(projectId, userId);
 
   res.json({
     projectId: project.projectId,
@@ -385,12 +855,58 @@ router.get('/:projectId', async (req: AuthRequest, res: Response) => {
     requiredFiles: project.requiredFiles,
     errorMessage: project.errorMessage,
     videoFormat: project.videoFormat ?? 'short',
+    ttsProvider: project.ttsProvider ?? config.tts.provider,
+    clipProvider: project.clipProvider ?? config.clips.provider,
+    voiceId: project.voiceId ?? null,
+    voiceSettings: project.voiceSettings ?? null,
+    captionStyle: project.captionStyle ?? DEFAULT_CAPTION_STYLE,
+    captionLanguages: project.captionLanguages ?? [],
+    captionTracks,
+    transition: project.transition ?? DEFAULT_TRANSITION,
+    loudnessTargetLufs: project.loudnessTargetLufs ?? null,
+    chapterCards: project.chapterCards === true,
+    topicCategory: project.topicCategory ?? null,
+    renderReportUrl,
+    thumbnailUrl,
+    preview,
+    exports,
+    youtubeVideoId: project.youtubeVideoId ?? null,
+    youtubeUrl: project.youtubeVideoId ? `https://www.youtube.com/watch?v=${project.youtubeVideoId}` : null,
+    publish: toPublishResponse(project.publish),
+    calendarItem: calendarItem
+      ? { itemId: calendarItem.itemId, releaseAt: calendarItem.releaseAt.toISOString(), status: calendarItem.status, error: calendarItem.error ?? null }
+      : null,
+    parentProjectId: project.parentProjectId ?? null,
+    language: project.language ?? null,
     backgroundMusicStartSec: project.backgroundMusicStartSec ?? 0,
+    autoMusic: project.autoMusic === true,
+    musicSelection: project.musicSelection ?? null,
+    activeJob: activeJob ? toJobSummary(activeJob) : null,
     updatedAt: project.updatedAt.toISOString(),
     createdAt: project.createdAt.toISOString()
   });
 });
 
+function localCaptionTracks(
+  projectId: string,
+  outputDir: string,
+  sourceLanguage: string
+): Array<{ language: string; translated: boolean; srtUrl: string | null; vttUrl: string | null }> {
+  if (!fs.existsSync(outputDir)) return [];
+  const tracks = new Map<string, { language: string; translated: boolean; srtUrl: string | null; vttUrl: string | null }>();
+  for (const name of fs.readdirSync(outputDir).sort()) {
+    const m = CAPTION_FILE_PATTERN.exec(name);
+    if (!m) continue;
+    const language = m[1] ?? sourceLanguage;
+    const track = tracks.get(language) ?? { language, translated: !!m[1], srtUrl: null, vttUrl: null };
+    const url = `/api/projects/${projectId}/media/${name}`;
+    if (m[2] === 'srt') track.srtUrl = url;
+    else track.vttUrl = url;
+    tracks.set(language, track);
+  }
+  return [...tracks.values()].sort((a, b) => Number(a.translated) - Number(b.translated));
+}
+
 async function loadProjectJsonAsset(
   projectId: string,
   r2Key: string | undefined,
@@ -427,6 +943,244 @@ router.get('/:projectId/segments', async (req: AuthRequest, res: Response) => {
   return res.json(payload);
 });
 
+/** GET /:projectId/thumbnail — the current thumbnail, its candidates and the titles it can use. */
+router.get('/:projectId/thumbnail', async (req: AuthRequest, res: Response) => {
+  const userId = req.user!.id;
+  const { projectId } = req.params;
+  const project = await getProjectByProjectId(projectId, userId);
+  if (!project) return res.status(404).json({ error: 'Project not found' });
+  const outputDir = getProjectOutputDir(projectId);
+  const localUrl = (fileName: string) =>
+    fs.existsSync(path.join(outputDir, fileName)) ? `/api/projects/${projectId}/media/${fileName}` : null;
+  const candidates = await Promise.all(
+    (project.thumbnailCandidates ?? []).map(async (c) => ({
+      index: c.index,
+      source: c.source,
+      timeSec: c.timeSec ?? null,
+      sceneIndex: c.sceneIndex ?? null,
+      url: (await getAssetUrl(c.key)) ?? localUrl(c.fileName)
+    }))
+  );
+  const meta = await loadProjectJsonAsset(projectId, project.youtubeMetaKey, 'youtube_meta.json');
+  const activeJob = await getActiveJobForProject(projectId);
+  return res.json({
+    projectId,
+    thumbnailUrl: (await getAssetUrl(project.thumbnailKey)) ?? localUrl('thumbnail.jpg'),
+    selection: project.thumbnailSelection ?? null,
+    candidates,
+    titles: Array.isArray(meta?.titles) ? meta.titles : [],
+    style: { ...DEFAULT_THUMBNAIL_STYLE, ...(project.thumbnailStyle ?? {}) },
+    activeJob: activeJob ? toJobSummary(activeJob) : null
+  });
+});
+
+/**
+ * POST /:projectId/thumbnail  body: { candidateIndex?, title?, style?, refreshCandidates? }
+ * Re-renders the thumbnail from a chosen candidate and title. `style` (font size, colours, position, …) is saved
+ * on the project with the thumbnail rendered from it; `refreshCandidates` grabs new stills from the final video first.
+ */
+router.post('/:projectId/thumbnail', async (req: AuthRequest, res: Response) => {
+  const userId = req.user!.id;
+  const { projectId } = req.params;
+  const project = await getProjectByProjectId(projectId, userId);
+  if (!project) return res.status(404).json({ error: 'Project not found' });
+  if (project.status !== 'assembly_done') {
+    return res.status(400).json({ error: 'Project must be assembled before making a thumbnail' });
+  }
+  const body = (req.body ?? {}) as { candidateIndex?: unknown; title?: unknown; style?: unknown; refreshCandidates?: unknown };
+  if (body.candidateIndex !== undefined) {
+    const known = (project.thumbnailCandidates ?? []).some((c) => c.index === body.candidateIndex);
+    if (!known && !body.refreshCandidates) return res.status(400).json({ error: 'candidateIndex does not match a thumbnail candidate' });
+  }
+  if (body.title !== undefined && (typeof body.title !== 'string' || !body.title.trim() || body.title.length > 120)) {
+    return res.status(400).json({ error: 'title must be a non-empty string of at most 120 characters' });
+  }
+  const style = body.style !== undefined ? parseThumbnailStyle(body.style) : null;
+  if (style && !style.ok) return res.status(400).json({ error: style.error });
+  const { job, created } = await enqueueJob({
+    userId,
+    projectId,
+    kind: 'thumbnail',
+    payload: {
+      ...(typeof body.candidateIndex === 'number' ? { candidateIndex: body.candidateIndex } : {}),
+      ...(typeof body.title === 'string' ? { title: body.title.trim() } : {}),
+      ...(style ? { style: style.style } : {}),
+      ...(body.refreshCandidates ? { refreshCandidates: true } : {})
+    }
+  });
+  if (!created) return res.status(409).json({ error: 'A thumbnail is already being rendered; try again when it finishes.', jobId: job.jobId });
+  return res.status(202).json({ ok: true, projectId, jobId: job.jobId });
+});
+
+/**
+ * POST /:projectId/preview
+ * Quick low-resolution, watermarked render while waiting for clips; scenes without a clip show a placeholder card.
+ * The project stays in waiting_for_clips; the result is returned as `preview` by GET /:projectId.
+ */
+router.post('/:projectId/preview', async (req: AuthRequest, res: Response) => {
+  const userId = req.user!.id;
+  const { projectId } = req.params;
+  const project = await getProjectByProjectId(projectId, userId);
+  if (!project) return res.status(404).json({ error: 'Project not found' });
+  if (project.status !== 'waiting_for_clips') {
+    return res.status(400).json({ error: 'Previews are rendered while the project is waiting for clips' });
+  }
+  if (await getActiveJobForProject(projectId)) {
+    return res.status(409).json({ error: 'Project has a job in progress; try again when it finishes.' });
+  }
+  const { job } = await enqueueJob({ userId, projectId, kind: 'preview' });
+  return res.status(202).json({ ok: true, projectId, jobId: job.jobId });
+});
+
+/** Export URLs by profile: R2 when uploaded, else the file still in the local output dir. */
+async function projectExportUrls(
+  projectId: string,
+  exports: ProjectDoc['exports'],
+  outputDir: string
+): Promise<Partial<Record<ExportProfileId, { url: string | null; renderedAt: string }>>> {
+  const urls: Partial<Record<ExportProfileId, { url: string | null; renderedAt: string }>> = {};
+  for (const id of EXPORT_PROFILE_IDS) {
+    const exp = exports?.[id];
+    if (!exp) continue;
+    const fileName = exportFileName(id);
+    urls[id] = {
+      url:
+        (await getAssetUrl(exp.videoKey)) ??
+        (fs.existsSync(path.join(outputDir, fileName)) ? `/api/projects/${projectId}/media/${fileName}` : null),
+      renderedAt: exp.renderedAt
+    };
+  }
+  return urls;
+}
+
+/** GET /:projectId/exports — the export profiles and the exports rendered so far. */
+router.get('/:projectId/exports', async (req: AuthRequest, res: Response) => {
+  const userId = req.user!.id;
+  const { projectId } = req.params;
+  const project = await getProjectByProjectId(projectId, userId);
+  if (!project) return res.status(404).json({ error: 'Project not found' });
+  res.json({
+    profiles: EXPORT_PROFILE_IDS.map((id) => EXPORT_PROFILES[id]),
+    exports: await projectExportUrls(projectId, project.exports, getProjectOutputDir(projectId))
+  });
+});
+
+/**
+ * POST /:projectId/exports  body: { profiles: ["square", "landscape"] }
+ * Re-renders the assembled project in each profile's aspect ratio from its existing script, audio and clips.
+ * Captions are refitted to the frame. Results appear under `exports` in GET /:projectId.
+ */
+router.post('/:projectId/exports', async (req: AuthRequest, res: Response) => {
+  const userId = req.user!.id;
+  const { projectId } = req.params;
+  const project = await getProjectByProjectId(projectId, userId);
+  if (!project) return res.status(404).json({ error: 'Project not found' });
+  if (project.status !== 'assembly_done') {
+    return res.status(400).json({ error: 'Project must be assembled before exporting' });
+  }
+  const profiles = (req.body as { profiles?: unknown })?.profiles;
+  if (!Array.isArray(profiles) || profiles.length === 0 || !profiles.every(isExportProfileId)) {
+    return res.status(400).json({ error: `profiles must be a non-empty array of: ${EXPORT_PROFILE_IDS.join(', ')}` });
+  }
+  if (await getActiveJobForProject(projectId)) {
+    return res.status(409).json({ error: 'Project has a job in progress; try again when it finishes.' });
+  }
+  const unique = Array.from(new Set(profiles));
+  const { job } = await enqueueJob({ userId, projectId, kind: 'export', payload: { profiles: unique } });
+  return res.status(202).json({ ok: true, projectId, profiles: unique, jobId: job.jobId });
+});
+
+/**
+ * POST /:projectId/publish  body: { title?, description?, tags?, privacyStatus?, publishAt?, categoryId?, force? }
+ * Upload the final video to the user's linked YouTube channel. Missing fields come from youtube_meta.json (first
+ * suggested title, description with chapters, tags). `publishAt` (ISO, future) schedules the release: the video
+ * stays private until then. A project already on YouTube is only uploaded again with `force`.
+ */
+router.post('/:projectId/publish', async (req: AuthRequest, res: Response) => {
+  const userId = req.user!.id;
+  const { projectId } = req.params;
+  const project = await getProjectByProjectId(projectId, userId);
+  if (!project) return res.status(404).json({ error: 'Project not found' });
+  if (project.status !== 'assembly_done') {
+    return res.status(400).json({ error: 'Project must be assembled before publishing' });
+  }
+  if (!isYoutubeConfigured()) return res.status(503).json({ error: 'YouTube publishing is not configured on this server' });
+  if (!(await getYoutubeLink(userId))) return res.status(400).json({ error: 'Link a YouTube account first' });
+
+  const body = (req.body ?? {}) as {
+    title?: unknown;
+    description?: unknown;
+    tags?: unknown;
+    privacyStatus?: unknown;
+    publishAt?: unknown;
+    categoryId?: unknown;
+    force?: unknown;
+  };
+  if (body.title !== undefined && (typeof body.title !== 'string' || !body.title.trim())) {
+    return res.status(400).json({ error: 'title must be a non-empty string' });
+  }
+  if (body.description !== undefined && typeof body.description !== 'string') {
+    return res.status(400).json({ error: 'description must be a string' });
+  }
+  if (body.tags !== undefined && (!Array.isArray(body.tags) || !body.tags.every((t) => typeof t === 'string'))) {
+    return res.status(400).json({ error: 'tags must be an array of strings' });
+  }
+  const privacyStatus = body.privacyStatus ?? 'private';
+  if (!YOUTUBE_PRIVACY_STATUSES.includes(privacyStatus as YoutubePrivacyStatus)) {
+    return res.status(400).json({ error: `privacyStatus must be one of: ${YOUTUBE_PRIVACY_STATUSES.join(', ')}` });
+  }
+  let publishAt: string | undefined;
+  if (body.publishAt !== undefined && body.publishAt !== null && body.publishAt !== '') {
+    const at = typeof body.publishAt === 'string' ? Date.parse(body.publishAt) : NaN;
+    if (!Number.isFinite(at) || at <= Date.now()) {
+      return res.status(400).json({ error: 'publishAt must be an ISO date in the future' });
+    }
+    publishAt = new Date(at).toISOString();
+  }
+  if (body.categoryId !== undefined && (typeof body.categoryId !== 'string' || !/^\d+$/.test(body.categoryId))) {
+    return res.status(400).json({ error: 'categoryId must be a numeric YouTube category id' });
+  }
+  if (project.youtubeVideoId && body.force !== true) {
+    return res.status(409).json({ error: 'Project is already on YouTube; pass force to upload it again', youtubeVideoId: project.youtubeVideoId });
+  }
+  if (await getActiveJobForProject(projectId)) {
+    return res.status(409).json({ error: 'Project has a job in progress; try again when it finishes.' });
+  }
+
+  const meta = await loadProjectJsonAsset(projectId, project.youtubeMetaKey, 'youtube_meta.json');
+  const publish = buildPublishRequest(project, meta, {
+    title: body.title as string | undefined,
+    description: body.description as string | undefined,
+    tags: body.tags as string[] | undefined,
+    categoryId: body.categoryId as string | undefined,
+    privacyStatus: privacyStatus as YoutubePrivacyStatus,
+    publishAt
+  });
+  if (!publish.title) return res.status(400).json({ error: 'title is empty after removing characters YouTube rejects' });
+  await updateProject(projectId, userId, { publish });
+  const { job } = await enqueueJob({ userId, projectId, kind: 'publish' });
+  return res.status(202).json({ ok: true, projectId, publish: toPublishResponse(publish), jobId: job.jobId });
+});
+
+/** Publish state for clients; the resumable upload URL is a credential for the upload and stays server-side. */
+function toPublishResponse(publish: PublishState | undefined) {
+  if (!publish) return null;
+  const { uploadUrl: _uploadUrl, ...rest } = publish;
+  return { ...rest, warnings: rest.warnings ?? [] };
+}
+
+/** GET /:projectId/render-report — music ducking and measured/normalized loudness from the last assembly. */
+router.get('/:projectId/render-report', async (req: AuthRequest, res: Response) => {
+  const userId = req.user!.id;
+  const { projectId } = req.params;
+  const project = await getProjectByProjectId(projectId, userId);
+  if (!project) return res.status(404).json({ error: 'Project not found' });
+
+  const payload = await loadProjectJsonAsset(projectId, project.renderReportKey, 'render_report.json');
+  if (!payload) return res.status(404).json({ error: 'Render report not found' });
+  return res.json(payload);
+});
+
 router.get('/:projectId/segments/detailed', async (req: AuthRequest, res: Response) => {
   const userId = req.user!.id;
   const { projectId } = req.params;
@@ -520,30 +1274,255 @@ router.post('/:projectId/continue', async (req: AuthRequest, res: Response) => {
   const { projectId } = req.params;
   const project = await getProjectByProjectId(projectId, userId);
   if (!project) return res.status(404).json({ error: 'Project not found' });
-  if (project.status !== 'waiting_for_clips') {
+  // Besides assembly after clip upload, continue resumes a stage that was cancelled before it finished.
+  let kind: 'script' | 'localize' | 'clips' | 'assembly';
+  let payload: Record<string, unknown> | undefined;
+  if (project.parentProjectId && (project.status === 'draft' || (project.status === 'error' && project.currentStage === 'localize'))) {
+    kind = 'localize';
+  } else if (project.status === 'waiting_for_clips') {
+    // Clips still missing and the project now has an automatic provider (e.g. switched to stock): fill them first.
+    const missingClips = (project.requiredFiles?.length ?? 0) > 0;
+    kind = missingClips && getClipProvider(project.clipProvider ?? config.clips.provider).automatic ? 'clips' : 'assembly';
+  } else if (project.status === 'audio_generated') {
+    kind = 'clips';
+  } else if (project.status === 'draft') {
+    kind = 'script';
+    const [lastScriptJob] = (await listJobs(userId, { projectId })).filter((j) => j.kind === 'script');
+    payload = lastScriptJob?.payload ?? { testMode: false };
+  } else {
     return res.status(400).json({
-      error: 'Project is not waiting for clips. Only projects with status waiting_for_clips can be continued.'
+      error: `Project cannot be continued from status ${project.status}. Continue works for waiting_for_clips, audio_generated and draft projects.`
+    });
+  }
+  try {
+    const { job, created } = await enqueueJob({ userId, projectId, kind, payload });
+    return res.status(202).json({
+      projectId,
+      status: project.status,
+      jobId: job.jobId,
+      jobStatus: job.status,
+      existing: !created
     });
+  } catch (err) {
+    return res.status(500).json({ error: (err as Error).message });
+  }
+});
+
+/**
+ * POST /:projectId/localize  body: { languages: ["es", "de", "hi"] }
+ * Creates one dubbed variant per language (skipping languages that already have a working variant) and queues
+ * its localize job. The parent must be assembled: variants reuse its approved script and clips.
+ */
+router.post('/:projectId/localize', async (req: AuthRequest, res: Response) => {
+  const userId = req.user!.id;
+  const { projectId } = req.params;
+  const project = await getProjectByProjectId(projectId, userId);
+  if (!project) return res.status(404).json({ error: 'Project not found' });
+  if (project.parentProjectId) return res.status(400).json({ error: 'Localize the original project, not a variant' });
+  if (project.status !== 'assembly_done') {
+    return res.status(400).json({ error: 'Project must be assembled before it can be localized' });
+  }
+  const languages = parseCaptionLanguages((req.body as { languages?: unknown })?.languages);
+  if (!languages || languages.length === 0) {
+    return res.status(400).json({ error: 'languages must be a non-empty array of language codes like "es" or "pt-BR"' });
+  }
+  if (languages.length > MAX_VARIANTS_PER_REQUEST) {
+    return res.status(400).json({ error: `At most ${MAX_VARIANTS_PER_REQUEST} languages per request` });
   }
   try {
-    await runProjectAssembly(userId, projectId);
+    const existing = await listProjectVariants(projectId, userId);
+    const queued: Array<{ projectId: string; language: string; jobId: string }> = [];
+    const skipped: Array<{ language: string; reason: string; projectId?: string }> = [];
+    for (const language of languages) {
+      if (language === config.captions.sourceLanguage) {
+        skipped.push({ language, reason: 'same as the original narration' });
+        continue;
+      }
+      const current = existing.find((v) => v.language === language);
+      // A variant whose localize step failed is retried in place; any other existing variant is left alone.
+      if (current && !(current.status === 'error' && current.currentStage === 'localize')) {
+        skipped.push({ language, reason: 'variant already exists', projectId: current.projectId });
+        continue;
+      }
+      const variant = current ?? (await createVariantProject(project, language));
+      const { job } = await enqueueJob({ userId, projectId: variant.projectId, kind: 'localize' });
+      queued.push({ projectId: variant.projectId, language, jobId: job.jobId });
+    }
+    return res.status(202).json({ projectId, queued, skipped });
+  } catch (err) {
+    logger.error('Project localize failed', err, { projectId });
+    return res.status(500).json({ error: (err as Error).message });
+  }
+});
+
+/** GET /:projectId/variants — dubbed language variants with their own final video and YouTube metadata. */
+router.get('/:projectId/variants', async (req: AuthRequest, res: Response) => {
+  const userId = req.user!.id;
+  const { projectId } = req.params;
+  const project = await getProjectByProjectId(projectId, userId);
+  if (!project) return res.status(404).json({ error: 'Project not found' });
+  const variants = await listProjectVariants(projectId, userId);
+  const items = await Promise.all(
+    variants.map(async (v) => {
+      const activeJob = await getActiveJobForProject(v.projectId);
+      return {
+        projectId: v.projectId,
+        language: v.language ?? null,
+        status: v.status,
+        currentStage: v.currentStage,
+        errorMessage: v.errorMessage,
+        finalVideoUrl: await getAssetUrl(v.finalVideoKey),
+        youtubeMetaUrl: await getAssetUrl(v.youtubeMetaKey),
+        activeJob: activeJob ? toJobSummary(activeJob) : null,
+        updatedAt: v.updatedAt.toISOString()
+      };
+    })
+  );
+  return res.json({ projectId, variants: items });
+});
+
+router.post('/:projectId/cancel', async (req: AuthRequest, res: Response) => {
+  const userId = req.user!.id;
+  const { projectId } = req.params;
+  const project = await getProjectByProjectId(projectId, userId);
+  if (!project) return res.status(404).json({ error: 'Project not found' });
+  try {
+    const cancelled = await cancelProjectJobs(projectId, userId);
+    if (cancelled.length === 0) {
+      return res.status(409).json({ error: 'Nothing to cancel: no stage is queued or running for this project.' });
+    }
+    // A stage running under a live lease restores the project itself once its child has exited. Otherwise nothing
+    // is running (or its worker died), so restore from the earliest cancelled stage: the state before this run began.
+    const now = new Date();
+    const restoring = cancelled.some((j) => j.status === 'running' && !!j.leaseExpiresAt && j.leaseExpiresAt > now);
+    if (!restoring) await restoreProjectAfterCancel(userId, projectId, cancelled[0].kind);
     const updated = await getProjectByProjectId(projectId, userId);
-    if (!updated) return res.status(500).json({ error: 'Project not found after continue' });
-    const [finalVideoUrl, youtubeMetaUrl] = await Promise.all([
-      getAssetUrl(updated.finalVideoKey),
-      getAssetUrl(updated.youtubeMetaKey)
-    ]);
     return res.json({
-      projectId: updated.projectId,
-      status: updated.status,
-      finalVideoUrl,
-      youtubeMetaUrl
+      ok: true,
+      projectId,
+      restoring,
+      status: updated?.status ?? project.status,
+      currentStage: updated?.currentStage ?? project.currentStage,
+      cancelledJobs: cancelled.map(toJobSummary)
     });
   } catch (err) {
+    logger.error('Project cancel failed', err, { projectId });
     return res.status(500).json({ error: (err as Error).message });
   }
 });
 
+/**
+ * Scene actions need per-scene audio (audio stage done) and no running job. Sends the error response and
+ * returns null otherwise.
+ */
+async function loadProjectForSceneAction(
+  projectId: string,
+  userId: string,
+  rawIndex: string,
+  res: Response
+): Promise<{ project: NonNullable<Awaited<ReturnType<typeof getProjectByProjectId>>>; index: number } | null> {
+  const project = await getProjectByProjectId(projectId, userId);
+  if (!project) {
+    res.status(404).json({ error: 'Project not found' });
+    return null;
+  }
+  if (!SCENE_ACTION_STATUSES.includes(project.status)) {
+    res.status(400).json({ error: `Scenes can be regenerated once audio is generated (status: ${SCENE_ACTION_STATUSES.join(', ')}).` });
+    return null;
+  }
+  if (await getActiveJobForProject(projectId)) {
+    res.status(409).json({ error: 'Project has a job in progress; try again when it finishes.' });
+    return null;
+  }
+  const script = await loadProjectScriptData(projectId, project);
+  if (!script) {
+    res.status(404).json({ error: 'Script not found' });
+    return null;
+  }
+  const index = parseSceneIndex(rawIndex, script.scenes.length);
+  if (index === null) {
+    res.status(400).json({ error: `Scene index must be from 0 to ${script.scenes.length - 1}` });
+    return null;
+  }
+  return { project, index };
+}
+
+async function queueSceneAction(
+  userId: string,
+  projectId: string,
+  action: SceneActionKind,
+  index: number,
+  res: Response
+): Promise<Response> {
+  const { job, created } = await enqueueJob({ userId, projectId, kind: 'scene', payload: { action, index } });
+  if (!created) return res.status(409).json({ error: 'A scene is already being regenerated; try again when it finishes.', jobId: job.jobId });
+  return res.status(202).json({ ok: true, projectId, sceneIndex: index, action, jobId: job.jobId });
+}
+
+/**
+ * POST /:projectId/scenes/:index/regenerate-audio
+ * Re-voices one scene (e.g. a mispronounced line) and rebuilds audio.mp3, the segment map and alignment.
+ * Other scenes keep their audio, also at the next assembly. An assembled project returns to waiting_for_clips.
+ */
+router.post('/:projectId/scenes/:index/regenerate-audio', async (req: AuthRequest, res: Response) => {
+  const userId = req.user!.id;
+  const { projectId } = req.params;
+  const loaded = await loadProjectForSceneAction(projectId, userId, req.params.index, res);
+  if (!loaded) return;
+  return queueSceneAction(userId, projectId, 'audio', loaded.index, res);
+});
+
+/** POST /:projectId/scenes/:index/regenerate-clip — new clip for one scene from the project's automatic clip provider. */
+router.post('/:projectId/scenes/:index/regenerate-clip', async (req: AuthRequest, res: Response) => {
+  const userId = req.user!.id;
+  const { projectId } = req.params;
+  const loaded = await loadProjectForSceneAction(projectId, userId, req.params.index, res);
+  if (!loaded) return;
+  const provider = getClipProvider(loaded.project.clipProvider ?? config.clips.provider);
+  if (!provider.automatic) {
+    return res.status(400).json({ error: `${provider.label} clips are uploaded; replace the clip with PUT /scenes/:index/clip instead.` });
+  }
+  return queueSceneAction(userId, projectId, 'clip', loaded.index, res);
+});
+
+/**
+ * PUT /:projectId/scenes/:index/clip  multipart: file (.mp4), optional saveToLibrary / libraryTags
+ * Replaces one scene's clip (and drops its still image, if any), then rebuilds the segment map and alignment.
+ */
+router.put('/:projectId/scenes/:index/clip', upload.single('file'), async (req: AuthRequest, res: Response) => {
+  const userId = req.user!.id;
+  const { projectId } = req.params;
+  const file = (req as { file?: Express.Multer.File }).file;
+  const loaded = await loadProjectForSceneAction(projectId, userId, req.params.index, res);
+  if (!loaded || !file || !/\.mp4$/i.test(file.originalname || '')) {
+    if (file) fs.rmSync(file.path, { force: true });
+    if (loaded) res.status(400).json({ error: 'Upload the new clip as an .mp4 file in field "file"' });
+    return;
+  }
+  const { project, index } = loaded;
+  const workspace = getProjectWorkspaceDir(projectId);
+  if (!fs.existsSync(workspace)) fs.mkdirSync(workspace, { recursive: true });
+  const dest = path.join(workspace, `clip_${index}.mp4`);
+  try {
+    fs.renameSync(file.path, dest);
+  } catch {
+    fs.copyFileSync(file.path, dest);
+    fs.rmSync(file.path, { force: true });
+  }
+  const key = await uploadProjectFile(userId, projectId, `clip_${index}.mp4`, dest);
+  const clipKeys: string[] = [...(project.clipKeys ?? [])];
+  if (key) clipKeys[index] = key;
+  // A still image takes precedence over the clip at assembly, so the upload replaces it.
+  const imagePattern = new RegExp(`(^|/)image_${index}\\.(jpg|jpeg|png|webp)$`, 'i');
+  for (const name of fs.readdirSync(workspace).filter((n) => imagePattern.test(n))) fs.rmSync(path.join(workspace, name), { force: true });
+  const imageKeys = (project.imageKeys ?? []).filter((k) => k && !imagePattern.test(k));
+  await updateProject(projectId, userId, { clipKeys, imageKeys: imageKeys.length ? imageKeys : undefined });
+  await saveUploadsToLibrary(userId, project.topic, (req.body ?? {}) as Record<string, unknown>, [
+    { dest, originalName: file.originalname, sceneIndex: index }
+  ]);
+  return queueSceneAction(userId, projectId, 'refresh', index, res);
+});
+
 router.post('/:projectId/clips', upload.any(), async (req: AuthRequest, res: Response) => {
   const userId = req.user!.id;
   const { projectId } = req.params;
@@ -554,11 +1533,23 @@ router.post('/:projectId/clips', upload.any(), async (req: AuthRequest, res: Res
   }
   const files = (req as { files?: Express.Multer.File[] }).files;
   if (!files?.length) return res.status(400).json({ error: 'No files uploaded' });
+  // Optional camera motion for uploaded images: `motion` / `motionIntensity` for all of them, or `motion_N` / `motionIntensity_N` per image.
+  const fields = (req.body ?? {}) as Record<string, unknown>;
+  for (const [name, value] of Object.entries(fields)) {
+    if (/^motion(_\d+)?$/.test(name) && value !== '' && value !== 'auto' && !isMotionPresetId(value)) {
+      return res.status(400).json({ error: `${name} must be auto or one of: ${MOTION_PRESET_IDS.join(', ')}` });
+    }
+    if (/^motionIntensity(_\d+)?$/.test(name) && value !== '' && parseMotionIntensity(value) === null) {
+      return res.status(400).json({ error: `${name} must be a number between 0.1 and 1` });
+    }
+  }
 
   const workspace = getProjectWorkspaceDir(projectId);
   if (!fs.existsSync(workspace)) fs.mkdirSync(workspace, { recursive: true });
   const clipKeys: string[] = [...(project.clipKeys ?? [])];
   const imageKeys: string[] = [...(project.imageKeys ?? [])];
+  const uploadedImageIndices: number[] = [];
+  const libraryCopies: Array<{ dest: string; originalName: string; sceneIndex: number }> = [];
   let acceptedFiles = 0;
   for (const f of files) {
     const clipMatch = f.originalname?.match(/^clip_(\d+)\.mp4$/i);
@@ -579,6 +1570,7 @@ router.post('/:projectId/clips', upload.any(), async (req: AuthRequest, res: Res
       }
       const key = await uploadProjectFile(userId, projectId, `clip_${idx}.mp4`, dest);
       if (key) clipKeys[idx] = key;
+      libraryCopies.push({ dest, originalName: f.originalname, sceneIndex: idx });
     } else if (imageMatch) {
       acceptedFiles += 1;
       const idx = parseInt(imageMatch[1], 10);
@@ -596,6 +1588,8 @@ router.post('/:projectId/clips', upload.any(), async (req: AuthRequest, res: Res
       }
       const imageKey = await uploadProjectFile(userId, projectId, `image_${idx}.${ext}`, dest);
       if (imageKey) imageKeys[idx] = imageKey;
+      uploadedImageIndices.push(idx);
+      libraryCopies.push({ dest, originalName: f.originalname, sceneIndex: idx });
     }
   }
   if (acceptedFiles === 0) {
@@ -604,7 +1598,105 @@ router.post('/:projectId/clips', upload.any(), async (req: AuthRequest, res: Res
     });
   }
   await updateProject(projectId, userId, { clipKeys, imageKeys: imageKeys.filter(Boolean).length ? imageKeys : undefined });
-  res.json({ ok: true, clipKeys: clipKeys.filter(Boolean) });
+  const motionRequested = uploadedImageIndices.some(
+    (idx) => (fields[`motion_${idx}`] ?? fields.motion) !== undefined || (fields[`motionIntensity_${idx}`] ?? fields.motionIntensity) !== undefined
+  );
+  const script = motionRequested ? await loadProjectScriptData(projectId, project) : null;
+  if (script) await ensureScriptVersionBaseline(projectId, userId, script);
+  if (script) {
+    for (const idx of uploadedImageIndices) {
+      const scene = script.scenes[idx];
+      if (!scene) continue;
+      const motion = fields[`motion_${idx}`] ?? fields.motion;
+      const intensity = fields[`motionIntensity_${idx}`] ?? fields.motionIntensity;
+      if (motion !== undefined) {
+        if (isMotionPresetId(motion)) scene.motion = motion;
+        else delete scene.motion;
+      }
+      if (intensity !== undefined) {
+        const n = parseMotionIntensity(intensity);
+        if (n !== null) scene.motionIntensity = n;
+        else delete scene.motionIntensity;
+      }
+    }
+    await saveProjectScriptData(userId, projectId, script, { reason: 'manual_edit', note: 'image motion' });
+  }
+  const libraryAssetIds = await saveUploadsToLibrary(userId, project.topic, fields, libraryCopies);
+  res.json({ ok: true, clipKeys: clipKeys.filter(Boolean), ...(libraryAssetIds ? { libraryAssetIds } : {}) });
+});
+
+/**
+ * With `saveToLibrary=1` in the form, project uploads are also added to the user's media library
+ * (tagged with `libraryTags`). Library failures are logged; the project upload itself has already succeeded.
+ */
+async function saveUploadsToLibrary(
+  userId: string,
+  topic: string,
+  fields: Record<string, unknown>,
+  files: Array<{ dest: string; originalName: string; sceneIndex?: number }>
+): Promise<string[] | null> {
+  if (fields.saveToLibrary !== '1' && fields.saveToLibrary !== 'true') return null;
+  if (!isR2Enabled()) return null;
+  const tags = parseMediaTags(fields.libraryTags ?? '') ?? [];
+  const assetIds: string[] = [];
+  for (const f of files) {
+    const kind = mediaKindForFile(f.originalName) ?? mediaKindForFile(f.dest);
+    if (!kind) continue;
+    try {
+      const asset = await createMediaAsset(userId, {
+        localPath: f.dest,
+        fileName: f.originalName,
+        kind,
+        title: f.sceneIndex !== undefined ? `${topic} — scene ${f.sceneIndex + 1}` : topic,
+        tags
+      });
+      assetIds.push(asset.assetId);
+    } catch (err) {
+      logger.error('Saving upload to media library failed', err as Error, { fileName: f.originalName });
+    }
+  }
+  return assetIds;
+}
+
+/**
+ * POST /:projectId/library-assets  body: { assetId, sceneIndex?, backgroundMusicStartSec? }
+ * Copies a media library asset into the project: a clip or image for scene `sceneIndex`, or music as the background track.
+ */
+router.post('/:projectId/library-assets', async (req: AuthRequest, res: Response) => {
+  const userId = req.user!.id;
+  const { projectId } = req.params;
+  const project = await getProjectByProjectId(projectId, userId);
+  if (!project) return res.status(404).json({ error: 'Project not found' });
+  if (project.status !== 'waiting_for_clips') {
+    return res.status(400).json({ error: 'Library assets can only be attached when the project is waiting for clips' });
+  }
+  const body = (req.body ?? {}) as { assetId?: unknown; sceneIndex?: unknown; backgroundMusicStartSec?: unknown };
+  if (typeof body.assetId !== 'string') return res.status(400).json({ error: 'assetId is required' });
+  const asset = await getMediaAsset(body.assetId, userId);
+  if (!asset) return res.status(404).json({ error: 'Asset not found' });
+  let sceneIndex: number | undefined;
+  if (asset.kind !== 'music') {
+    const script = await loadProjectScriptData(projectId, project);
+    const sceneCount = script?.scenes?.length ?? 0;
+    if (typeof body.sceneIndex !== 'number' || !Number.isInteger(body.sceneIndex) || body.sceneIndex < 0 || body.sceneIndex >= sceneCount) {
+      return res.status(400).json({ error: `sceneIndex must be an integer from 0 to ${Math.max(0, sceneCount - 1)}` });
+    }
+    sceneIndex = body.sceneIndex;
+  }
+  let backgroundMusicStartSec: number | undefined;
+  if (body.backgroundMusicStartSec !== undefined) {
+    if (typeof body.backgroundMusicStartSec !== 'number' || !(body.backgroundMusicStartSec >= 0)) {
+      return res.status(400).json({ error: 'backgroundMusicStartSec must be a number >= 0' });
+    }
+    backgroundMusicStartSec = Math.round(body.backgroundMusicStartSec);
+  }
+  try {
+    const fileName = await attachMediaAsset(userId, asset, project, { sceneIndex, backgroundMusicStartSec });
+    return res.json({ ok: true, projectId, assetId: asset.assetId, fileName });
+  } catch (err) {
+    logger.error('Attach library asset failed', err as Error, { projectId, assetId: asset.assetId });
+    return res.status(500).json({ error: (err as Error).message });
+  }
 });
 
 router.post('/:projectId/background-music', upload.single('file'), async (req: AuthRequest, res: Response) => {
@@ -639,8 +1731,20 @@ router.post('/:projectId/background-music', upload.single('file'), async (req: A
   const backgroundMusicStartSec = typeof startSecRaw === 'number' && !Number.isNaN(startSecRaw) && startSecRaw >= 0
     ? Math.round(startSecRaw)
     : undefined;
-  await updateProject(projectId, userId, { backgroundMusicKey: key, ...(backgroundMusicStartSec !== undefined ? { backgroundMusicStartSec } : {}) });
-  res.json({ ok: true, backgroundMusicKey: key, ...(backgroundMusicStartSec !== undefined ? { backgroundMusicStartSec } : {}) });
+  await updateProject(projectId, userId, {
+    backgroundMusicKey: key,
+    musicSelection: undefined,
+    ...(backgroundMusicStartSec !== undefined ? { backgroundMusicStartSec } : {})
+  });
+  const libraryAssetIds = await saveUploadsToLibrary(userId, project.topic, (req.body ?? {}) as Record<string, unknown>, [
+    { dest, originalName: file.originalname || 'background_music.mp3' }
+  ]);
+  res.json({
+    ok: true,
+    backgroundMusicKey: key,
+    ...(backgroundMusicStartSec !== undefined ? { backgroundMusicStartSec } : {}),
+    ...(libraryAssetIds ? { libraryAssetIds } : {})
+  });
 });
 
 router.patch('/:projectId', async (req: AuthRequest, res: Response) => {
@@ -648,14 +1752,96 @@ router.patch('/:projectId', async (req: AuthRequest, res: Response) => {
   const { projectId } = req.params;
   const project = await getProjectByProjectId(projectId, userId);
   if (!project) return res.status(404).json({ error: 'Project not found' });
-  const body = req.body as { backgroundMusicStartSec?: unknown };
+  const body = req.body as {
+    backgroundMusicStartSec?: unknown;
+    autoMusic?: unknown;
+    musicSelection?: unknown;
+    ttsProvider?: unknown;
+    clipProvider?: unknown;
+    voiceId?: unknown;
+    voiceSettings?: unknown;
+    captionStyle?: unknown;
+    captionLanguages?: unknown;
+    transition?: unknown;
+    loudnessTargetLufs?: unknown;
+    chapterCards?: unknown;
+    topicCategory?: unknown;
+  };
+  if (body.ttsProvider !== undefined && !isTtsProviderId(body.ttsProvider)) {
+    return res.status(400).json({ error: `ttsProvider must be one of: ${TTS_PROVIDER_IDS.join(', ')}` });
+  }
+  if (body.clipProvider !== undefined && !isClipProviderId(body.clipProvider)) {
+    return res.status(400).json({ error: `clipProvider must be one of: ${CLIP_PROVIDER_IDS.join(', ')}` });
+  }
+  if (body.transition !== undefined && !isTransitionId(body.transition)) {
+    return res.status(400).json({ error: `transition must be one of: ${TRANSITION_IDS.join(', ')}` });
+  }
+  if (body.loudnessTargetLufs !== undefined && body.loudnessTargetLufs !== null && !isLoudnessTarget(body.loudnessTargetLufs)) {
+    return res.status(400).json({ error: LOUDNESS_TARGET_ERROR });
+  }
+  if (body.captionStyle !== undefined && !isCaptionStyleId(body.captionStyle)) {
+    return res.status(400).json({ error: `captionStyle must be one of: ${CAPTION_STYLE_IDS.join(', ')}` });
+  }
+  const captionLanguages = body.captionLanguages !== undefined ? parseCaptionLanguagesField(body.captionLanguages) : null;
+  if (captionLanguages && !captionLanguages.ok) return res.status(400).json({ error: captionLanguages.error });
+  const voice = parseVoiceFields(body);
+  if (!voice.ok) return res.status(400).json({ error: voice.error });
+  if (body.autoMusic !== undefined && typeof body.autoMusic !== 'boolean') {
+    return res.status(400).json({ error: 'autoMusic must be a boolean' });
+  }
+  if (body.chapterCards !== undefined && typeof body.chapterCards !== 'boolean') {
+    return res.status(400).json({ error: 'chapterCards must be a boolean' });
+  }
+  if (body.topicCategory !== undefined && !isTopicCategory(body.topicCategory)) {
+    return res.status(400).json({ error: `topicCategory must be one of: ${TOPIC_CATEGORIES.join(', ')}` });
+  }
+  if (body.musicSelection !== undefined && body.musicSelection !== null) {
+    return res.status(400).json({ error: 'musicSelection can only be cleared (null) so the next assembly picks again' });
+  }
+  if (
+    body.autoMusic !== undefined ||
+    body.musicSelection !== undefined ||
+    body.ttsProvider !== undefined ||
+    body.clipProvider !== undefined ||
+    body.captionStyle !== undefined ||
+    body.transition !== undefined ||
+    body.loudnessTargetLufs !== undefined ||
+    body.chapterCards !== undefined ||
+    body.topicCategory !== undefined ||
+    captionLanguages !== null ||
+    voice.voiceId !== undefined ||
+    voice.voiceSettings !== undefined
+  ) {
+    await updateProject(projectId, userId, {
+      ...(body.autoMusic !== undefined ? { autoMusic: body.autoMusic as boolean } : {}),
+      ...(body.musicSelection !== undefined ? { musicSelection: undefined } : {}),
+      ...(body.ttsProvider !== undefined ? { ttsProvider: body.ttsProvider as TtsProviderId } : {}),
+      ...(body.clipProvider !== undefined ? { clipProvider: body.clipProvider as ClipProviderId } : {}),
+      ...(body.captionStyle !== undefined ? { captionStyle: body.captionStyle as CaptionStyleId } : {}),
+      ...(body.transition !== undefined ? { transition: body.transition as TransitionId } : {}),
+      // null clears the project target so LOUDNESS_TARGET_LUFS applies again.
+      ...(body.loudnessTargetLufs !== undefined ? { loudnessTargetLufs: (body.loudnessTargetLufs as number | null) ?? undefined } : {}),
+      ...(body.chapterCards !== undefined ? { chapterCards: body.chapterCards as boolean } : {}),
+      ...(body.topicCategory !== undefined ? { topicCategory: body.topicCategory as TopicCategory } : {}),
+      ...(captionLanguages?.ok ? { captionLanguages: captionLanguages.languages } : {}),
+      ...(voice.voiceId !== undefined ? { voiceId: voice.voiceId ?? undefined } : {}),
+      ...(voice.voiceSettings !== undefined ? { voiceSettings: voice.voiceSettings ?? undefined } : {})
+    });
+  }
   if (body.backgroundMusicStartSec !== undefined) {
-    const n = typeof body.backgroundMusicStartSec === 'number' ? body.backgroundMusicStartSec : parseFloat(String(body.backgroundMusicStartSec));
-    const backgroundMusicStartSec = !Number.isNaN(n) && n >= 0 ? Math.round(n) : 0;
-    await updateProject(projectId, userId, { backgroundMusicStartSec });
+    // 'auto' opts in to a phrase-aligned offset picked by assembly; null goes back to the start of the track.
+    if (body.backgroundMusicStartSec === 'auto') {
+      await updateProject(projectId, userId, { backgroundMusicStartSec: 'auto' });
+    } else if (body.backgroundMusicStartSec === null) {
+      await updateProject(projectId, userId, { backgroundMusicStartSec: undefined });
+    } else {
+      const n = typeof body.backgroundMusicStartSec === 'number' ? body.backgroundMusicStartSec : parseFloat(String(body.backgroundMusicStartSec));
+      const backgroundMusicStartSec = !Number.isNaN(n) && n >= 0 ? Math.round(n) : 0;
+      await updateProject(projectId, userId, { backgroundMusicStartSec });
+    }
   }
-  const updated = await getProjectByProjectId(projectId, userId);
-  return res.json(updated ?? project);
+  const updated = (await getProjectByProjectId(projectId, userId)) ?? project;
+  return res.json({ ...updated, publish: toPublishResponse(updated.publish) });
 });
 
 router.delete('/:projectId', async (req: AuthRequest, res: Response) => {
@@ -0,0 +1,36 @@
+import { Router, Response } from 'express';
+import { authMiddleware, AuthRequest } from '../middleware';
+import { getTtsProvider, TTS_PROVIDER_IDS } from '../pipeline/tts';
+import { config } from '../config';
+import { logger } from '../logger';
+
+const router = Router();
+
+router.use(authMiddleware);
+
+/**
+ * GET /api/voices?provider=elevenlabs|openai|local
+ * Response: { provider, defaultVoiceId, providers, voices: { id, name, description?, previewUrl? }[] }
+ * Defaults to the server's TTS_PROVIDER.
+ */
+router.get('/', async (req: AuthRequest, res: Response) => {
+  const requested = typeof req.query.provider === 'string' ? req.query.provider : undefined;
+  if (requested && !(TTS_PROVIDER_IDS as string[]).includes(requested)) {
+    return res.status(400).json({ error: `provider must be one of: ${TTS_PROVIDER_IDS.join(', ')}` });
+  }
+  const provider = getTtsProvider(requested ?? config.tts.provider);
+  try {
+    const voices = await provider.listVoices();
+    return res.json({
+      provider: provider.id,
+      defaultVoiceId: provider.defaultVoiceId,
+      providers: TTS_PROVIDER_IDS,
+      voices
+    });
+  } catch (err) {
+    logger.error('Voice listing failed', err as Error, { provider: provider.id });
+    return res.status(503).json({ error: 'Voice listing unavailable' });
+  }
+});
+
+export default router;
@@ -0,0 +1,78 @@
+import { Router, Request, Response } from 'express';
+import { authMiddleware, AuthRequest } from '../middleware';
+import { config } from '../config';
+import { logger } from '../logger';
+import {
+  buildYoutubeAuthUrl,
+  getYoutubeLink,
+  isYoutubeConfigured,
+  linkYoutubeAccount,
+  unlinkYoutubeAccount,
+  verifyYoutubeLinkState
+} from '../youtubePublisher';
+
+const router = Router();
+
+/**
+ * Google redirects the browser here after consent, without our Authorization header; the signed `state`
+ * from GET /connect identifies the user. Ends on YOUTUBE_LINKED_REDIRECT_URL with ?youtube=linked|error when set.
+ */
+router.get('/callback', async (req: Request, res: Response) => {
+  const finish = (ok: boolean, message: string) => {
+    if (config.youtube.linkedRedirectUrl) {
+      const url = new URL(config.youtube.linkedRedirectUrl);
+      url.searchParams.set('youtube', ok ? 'linked' : 'error');
+      if (!ok) url.searchParams.set('message', message);
+      return res.redirect(url.toString());
+    }
+    return res.status(ok ? 200 : 400).type('text/plain').send(message);
+  };
+  const userId = typeof req.query.state === 'string' ? verifyYoutubeLinkState(req.query.state) : null;
+  if (!userId) return finish(false, 'Link request expired or invalid; start again from the app.');
+  if (typeof req.query.error === 'string') return finish(false, `YouTube linking was not completed: ${req.query.error}`);
+  if (typeof req.query.code !== 'string' || !req.query.code) return finish(false, 'Missing authorization code');
+  try {
+    const link = await linkYoutubeAccount(userId, req.query.code);
+    return finish(true, `Linked YouTube channel ${link.channelTitle}. You can close this tab.`);
+  } catch (err) {
+    logger.error('YouTube account link failed', err as Error);
+    return finish(false, (err as Error).message || 'Failed to link YouTube account');
+  }
+});
+
+router.use(authMiddleware);
+
+router.get('/status', async (req: AuthRequest, res: Response) => {
+  try {
+    const link = await getYoutubeLink(req.user!.id);
+    res.json({
+      configured: isYoutubeConfigured(),
+      linked: !!link,
+      channelId: link?.channelId ?? null,
+      channelTitle: link?.channelTitle ?? null,
+      linkedAt: link?.linkedAt ?? null
+    });
+  } catch (err) {
+    logger.error('YouTube status failed', err as Error);
+    res.status(500).json({ error: 'Failed to load YouTube link' });
+  }
+});
+
+/** Consent URL for the signed-in user; the client opens it in a new tab. */
+router.get('/connect', (req: AuthRequest, res: Response) => {
+  if (!isYoutubeConfigured()) return res.status(503).json({ error: 'YouTube publishing is not configured on this server' });
+  res.json({ url: buildYoutubeAuthUrl(req.user!.id) });
+});
+
+router.delete('/link', async (req: AuthRequest, res: Response) => {
+  try {
+    const removed = await unlinkYoutubeAccount(req.user!.id);
+    if (!removed) return res.status(404).json({ error: 'No linked YouTube account' });
+    res.json({ ok: true });
+  } catch (err) {
+    logger.error('YouTube unlink failed', err as Error);
+    res.status(500).json({ error: 'Failed to unlink YouTube account' });
+  }
+});
+
+export default router;
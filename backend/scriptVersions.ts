@@ -0,0 +1,160 @@
+import fs from 'fs';
+import { ObjectId } from 'mongodb';
+import { getDb, SCRIPT_VERSIONS_COLL, ScriptVersionDoc, ScriptVersionReason } from './db';
+import { validateScriptData, type ScriptData, type ScriptScene } from './pipeline/scriptValidation';
+
+async function versionsColl() {
+  const db = await getDb();
+  return db.collection<ScriptVersionDoc>(SCRIPT_VERSIONS_COLL);
+}
+
+export const SCRIPT_VERSION_REASONS: ScriptVersionReason[] = ['generated', 'regenerate', 'reject_feedback', 'manual_edit', 'restore', 'localize'];
+
+export async function getLatestScriptVersion(projectId: string, userId: string): Promise<ScriptVersionDoc | null> {
+  const coll = await versionsColl();
+  return coll.findOne({ projectId, userId: new ObjectId(userId) }, { sort: { version: -1 } });
+}
+
+/**
+ * Store `script` as the project's next version. Skipped (returns null) when it is identical to the latest version,
+ * so saving an unchanged script does not add noise to the history.
+ */
+export async function recordScriptVersion(
+  projectId: string,
+  userId: string,
+  script: ScriptData,
+  meta: { reason: ScriptVersionReason; author: ScriptVersionDoc['author']; note?: string; restoredFrom?: number }
+): Promise<ScriptVersionDoc | null> {
+  const coll = await versionsColl();
+  for (let attempt = 0; attempt < 3; attempt++) {
+    const latest = await getLatestScriptVersion(projectId, userId);
+    if (latest && JSON.stringify(latest.script) === JSON.stringify(script)) return null;
+    const doc: ScriptVersionDoc = {
+      _id: new ObjectId(),
+      projectId,
+      userId: new ObjectId(userId),
+      version: (latest?.version ?? 0) + 1,
+      reason: meta.reason,
+      author: meta.author,
+      ...(meta.note ? { note: meta.note } : {}),
+      ...(meta.restoredFrom !== undefined ? { restoredFrom: meta.restoredFrom } : {}),
+      script,
+      createdAt: new Date()
+    };
+    try {
+      await coll.insertOne(doc);
+      return doc;
+    } catch (err) {
+      // Another writer took this version number; read the latest again.
+      if ((err as { code?: number }).code !== 11000) throw err;
+    }
+  }
+  throw new Error('Could not record script version: too many concurrent writes');
+}
+
+/** Record the script file on disk as a version; ignored when the file is missing or not a valid script. */
+export async function recordScriptFileVersion(
+  projectId: string,
+  userId: string,
+  scriptPath: string,
+  meta: Parameters<typeof recordScriptVersion>[3]
+): Promise<ScriptVersionDoc | null> {
+  let script: unknown;
+  try {
+    script = JSON.parse(fs.readFileSync(scriptPath, 'utf-8'));
+  } catch {
+    return null;
+  }
+  return validateScriptData(script) ? recordScriptVersion(projectId, userId, script, meta) : null;
+}
+
+/**
+ * Projects created before version history have a script but no versions: keep the current script as version 1
+ * before anything replaces it.
+ */
+export async function ensureScriptVersionBaseline(projectId: string, userId: string, script: ScriptData): Promise<void> {
+  if (await getLatestScriptVersion(projectId, userId)) return;
+  await recordScriptVersion(projectId, userId, script, { reason: 'generated', author: 'pipeline' });
+}
+
+export async function listScriptVersions(projectId: string, userId: string): Promise<ScriptVersionDoc[]> {
+  const coll = await versionsColl();
+  return coll.find({ projectId, userId: new ObjectId(userId) }).sort({ version: -1 }).toArray();
+}
+
+export async function getScriptVersion(projectId: string, userId: string, version: number): Promise<ScriptVersionDoc | null> {
+  const coll = await versionsColl();
+  return coll.findOne({ projectId, userId: new ObjectId(userId), version });
+}
+
+export async function deleteScriptVersions(projectId: string, userId: string): Promise<void> {
+  const coll = await versionsColl();
+  await coll.deleteMany({ projectId, userId: new ObjectId(userId) });
+}
+
+type SceneField = 'prompt' | 'voiceover' | 'duration' | 'transition' | 'motion' | 'motionIntensity';
+const SCENE_FIELDS: SceneField[] = ['prompt', 'voiceover', 'duration', 'transition', 'motion', 'motionIntensity'];
+
+export type SceneDiff =
+  | { status: 'unchanged'; fromIndex: number; toIndex: number }
+  | { status: 'changed'; fromIndex: number; toIndex: number; fields: SceneField[]; from: ScriptScene; to: ScriptScene }
+  | { status: 'added'; toIndex: number; to: ScriptScene }
+  | { status: 'removed'; fromIndex: number; from: ScriptScene };
+
+export type ScriptDiff = {
+  voiceover: { changed: false } | { changed: true; from: string; to: string };
+  scenes: SceneDiff[];
+};
+
+function sameScene(a: ScriptScene, b: ScriptScene): boolean {
+  return SCENE_FIELDS.every((f) => a[f] === b[f]);
+}
+
+/**
+ * Scene-level diff: identical scenes are matched in order (longest common subsequence); between matches,
+ * scenes in the same position are reported as changed with the fields that differ, the rest as added or removed.
+ */
+export function diffScripts(from: ScriptData, to: ScriptData): ScriptDiff {
+  const a = from.scenes;
+  const b = to.scenes;
+  const lcs: number[][] = Array.from({ length: a.length + 1 }, () => new Array<number>(b.length + 1).fill(0));
+  for (let i = a.length - 1; i >= 0; i--) {
+    for (let j = b.length - 1; j >= 0; j--) {
+      lcs[i][j] = sameScene(a[i], b[j]) ? lcs[i + 1][j + 1] + 1 : Math.max(lcs[i + 1][j], lcs[i][j + 1]);
+    }
+  }
+  const scenes: SceneDiff[] = [];
+  let removed: number[] = [];
+  let added: number[] = [];
+  const flushGap = () => {
+    const paired = Math.min(removed.length, added.length);
+    for (let k = 0; k < paired; k++) {
+      const x = a[removed[k]];
+      const y = b[added[k]];
+      scenes.push({ status: 'changed', fromIndex: removed[k], toIndex: added[k], fields: SCENE_FIELDS.filter((f) => x[f] !== y[f]), from: x, to: y });
+    }
+    for (const i of removed.slice(paired)) scenes.push({ status: 'removed', fromIndex: i, from: a[i] });
+    for (const j of added.slice(paired)) scenes.push({ status: 'added', toIndex: j, to: b[j] });
+    removed = [];
+    added = [];
+  };
+  let i = 0;
+  let j = 0;
+  while (i < a.length || j < b.length) {
+    if (i < a.length && j < b.length && sameScene(a[i], b[j])) {
+      flushGap();
+      scenes.push({ status: 'unchanged', fromIndex: i, toIndex: j });
+      i++;
+      j++;
+    } else if (j >= b.length || (i < a.length && lcs[i + 1][j] >= lcs[i][j + 1])) {
+      removed.push(i++);
+    } else {
+      added.push(j++);
+    }
+  }
+  flushGap();
+  return {
+    voiceover: from.voiceover === to.voiceover ? { changed: false } : { changed: true, from: from.voiceover, to: to.voiceover },
+    scenes
+  };
+}
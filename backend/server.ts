@@ -2,6 +2,11 @@ import app from './app';
 import { config } from './config';
 import { getDb, closeDb } from './db';
 import { logger } from './logger';
+import { startJobWorker, stopJobWorker } from './jobQueue';
+import { registerPipelineJobHandlers } from './projectRunner';
+import { registerLegacyJobHandler } from './routes/jobs';
+import { startCalendarScheduler, stopCalendarScheduler } from './calendarScheduler';
+import { startAnalyticsIngestion, stopAnalyticsIngestion } from './analyticsIngestion';
 
 async function main(): Promise<void> {
   try {
@@ -10,17 +15,30 @@ async function main(): Promise<void> {
     logger.warn('MongoDB not connected at startup', { message: (err as Error).message });
   }
 
+  registerPipelineJobHandlers();
+  registerLegacyJobHandler();
+  startJobWorker();
+  startCalendarScheduler();
+  startAnalyticsIngestion();
+
   const server = app.listen(config.port, () => {
     logger.info(`Listening on http://localhost:${config.port}`, { env: config.env });
   });
 
   const shutdown = (signal: string) => () => {
     logger.info(`Received ${signal}, shutting down`);
-    server.close(async () => {
-      await closeDb();
-      process.exit(0);
-    });
-    setTimeout(() => process.exit(1), 10000);
+    setTimeout(() => process.exit(1), 15000);
+    stopCalendarScheduler();
+    stopAnalyticsIngestion();
+    // Running jobs are aborted and their pipeline children waited for before the jobs are requeued.
+    stopJobWorker()
+      .catch((err) => logger.error('Stopping the job worker failed', err))
+      .finally(() =>
+        server.close(async () => {
+          await closeDb();
+          process.exit(0);
+        })
+      );
   };
 
   process.on('SIGTERM', shutdown('SIGTERM'));
@@ -0,0 +1,70 @@
+import OpenAI from 'openai';
+
+/** Broad subjects used to compare how published videos perform; every project gets exactly one. */
+export const TOPIC_CATEGORIES = [
+  'history',
+  'true_crime',
+  'mystery',
+  'science',
+  'technology',
+  'nature',
+  'space',
+  'biography',
+  'war',
+  'business',
+  'culture',
+  'health',
+  'other'
+] as const;
+
+export type TopicCategory = (typeof TOPIC_CATEGORIES)[number];
+
+export function isTopicCategory(value: unknown): value is TopicCategory {
+  return typeof value === 'string' && (TOPIC_CATEGORIES as readonly string[]).includes(value);
+}
+
+const OPENAI_KEY = process.env.OPENAI_API_KEY?.trim();
+const openai = OPENAI_KEY ? new OpenAI({ apiKey: OPENAI_KEY }) : null;
+
+/** Used without an OpenAI key or when the model answers off-list; first match wins. Whole words only, inflections listed. */
+const KEYWORDS: Array<[TopicCategory, RegExp]> = [
+  ['true_crime', /\b(murders?|murder(ed|er|ers)|killers?|crimes?|criminals?|heists?|robber(y|ies)|kidnap(ped|ping|pings)?|detectives?|trials?|prisons?|serial)\b/i],
+  ['mystery', /\b(myster(y|ies|ious)|unsolved|vanish(ed|es|ing)?|disappear(ed|s|ing|ance|ances)?|ghosts?|haunt(ed|ing|s)?|cursed?|unexplained|secrets?)\b/i],
+  ['war', /\b(wars?|wartime|battles?|arm(y|ies)|soldiers?|military|invasions?|sieges?|nazis?|ww(i|ii|1|2))\b/i],
+  ['space', /\b(space|planets?|nasa|astronauts?|galax(y|ies)|stars?|moons?|mars|orbits?|cosmic|cosmos|universe)\b/i],
+  ['technology', /\b(tech|technolog(y|ies|ical)|computers?|computing|software|ai|robots?|robotics|internet|invent(ed|ion|ions)?|engineer(s|ed|ing)?|machines?)\b/i],
+  ['science', /\b(science|sciences|scientific|scientists?|physics|physicists?|chemistry|chemicals?|chemists?|biology|biological|experiments?|discover(y|ies|ed)?|research(ers)?|atoms?|atomic|quantum)\b/i],
+  ['nature', /\b(animals?|oceans?|forests?|wildlife|species|volcano(es|s)?|earthquakes?|storms?|climate|nature)\b/i],
+  ['health', /\b(health|healthy|diseases?|medicine|medical|medications?|doctors?|virus(es)?|pandemics?|brains?|body|bodies|sleep|diets?)\b/i],
+  ['business', /\b(compan(y|ies)|business(es)?|brands?|billions?|billionaires?|markets?|startups?|econom(y|ies|ic)|money|banks?|banking|ceos?)\b/i],
+  ['biography', /\b(life of|story of|who was|biograph(y|ies)|kings?|queens?|emperors?|presidents?|inventors?)\b/i],
+  ['history', /\b(history|historical|historic|ancient|medieval|century|centuries|empires?|civili[sz]ations?|pharaohs?|romans?)\b/i],
+  ['culture', /\b(music|musicians?|films?|movies?|art|arts|artists?|religions?|religious|traditions?|traditional|food|foods|languages?|festivals?|sports?)\b/i]
+];
+
+function keywordCategory(topic: string): TopicCategory {
+  return KEYWORDS.find(([, re]) => re.test(topic))?.[0] ?? 'other';
+}
+
+/** One category for a project topic; falls back to keyword matching when the model is unavailable or unsure. */
+export async function classifyTopicCategory(topic: string): Promise<TopicCategory> {
+  if (!openai) return keywordCategory(topic);
+  try {
+    const completion = await openai.chat.completions.create({
+      model: 'gpt-4o-mini',
+      temperature: 0,
+      response_format: { type: 'json_object' },
+      messages: [
+        {
+          role: 'system',
+          content: `You file video topics into one category. Return ONLY JSON: { "category": "<one of: ${TOPIC_CATEGORIES.join(', ')}>" }.`
+        },
+        { role: 'user', content: topic.slice(0, 500) }
+      ]
+    });
+    const parsed = JSON.parse(completion.choices[0]?.message?.content ?? '{}') as { category?: unknown };
+    return isTopicCategory(parsed.category) ? parsed.category : keywordCategory(topic);
+  } catch {
+    return keywordCategory(topic);
+  }
+}
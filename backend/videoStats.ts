@@ -0,0 +1,140 @@
+import { ObjectId } from 'mongodb';
+import { config } from './config';
+import { getDb, ProjectDoc, VIDEO_STATS_COLL, VideoStatsDoc } from './db';
+import { DEFAULT_CAPTION_STYLE } from './pipeline/captionStyles';
+
+async function statsColl() {
+  const db = await getDb();
+  return db.collection<VideoStatsDoc>(VIDEO_STATS_COLL);
+}
+
+export async function recordVideoStats(stats: Omit<VideoStatsDoc, '_id'>): Promise<VideoStatsDoc> {
+  const doc: VideoStatsDoc = { _id: new ObjectId(), ...stats };
+  const coll = await statsColl();
+  await coll.insertOne(doc);
+  return doc;
+}
+
+export async function getLatestVideoStats(projectId: string): Promise<VideoStatsDoc | null> {
+  const coll = await statsColl();
+  return coll.findOne({ projectId }, { sort: { capturedAt: -1 } });
+}
+
+/** A project's snapshots, oldest first. */
+export async function listVideoStats(projectId: string, userId: string, limit = 500): Promise<VideoStatsDoc[]> {
+  const coll = await statsColl();
+  const latest = await coll.find({ projectId, userId: new ObjectId(userId) }).sort({ capturedAt: -1 }).limit(limit).toArray();
+  return latest.reverse();
+}
+
+/** The newest snapshot of each of the user's videos. */
+export async function latestVideoStatsByProject(userId: string): Promise<Map<string, VideoStatsDoc>> {
+  const coll = await statsColl();
+  const rows = await coll
+    .aggregate<{ _id: string; doc: VideoStatsDoc }>([
+      { $match: { userId: new ObjectId(userId) } },
+      { $sort: { capturedAt: -1 } },
+      { $group: { _id: '$projectId', doc: { $first: '$$ROOT' } } }
+    ])
+    .toArray();
+  return new Map(rows.map((r) => [r._id, r.doc]));
+}
+
+export async function deleteVideoStats(projectId: string, userId: string): Promise<void> {
+  const coll = await statsColl();
+  await coll.deleteMany({ projectId, userId: new ObjectId(userId) });
+}
+
+// ——— Comparison ———
+
+export const ANALYTICS_DIMENSIONS = ['topicCategory', 'videoFormat', 'voice', 'captionStyle'] as const;
+export type AnalyticsDimension = (typeof ANALYTICS_DIMENSIONS)[number];
+
+export function isAnalyticsDimension(value: unknown): value is AnalyticsDimension {
+  return typeof value === 'string' && (ANALYTICS_DIMENSIONS as readonly string[]).includes(value);
+}
+
+/** The group a project falls in; unset settings count as the defaults the render used. */
+function dimensionKey(project: ProjectDoc, dimension: AnalyticsDimension): string {
+  switch (dimension) {
+    case 'topicCategory':
+      return project.topicCategory ?? 'uncategorized';
+    case 'videoFormat':
+      return project.videoFormat ?? 'short';
+    case 'voice':
+      return `${project.ttsProvider ?? config.tts.provider}:${project.voiceId ?? 'default'}`;
+    case 'captionStyle':
+      return project.captionStyle ?? DEFAULT_CAPTION_STYLE;
+  }
+}
+
+/** When the video went public: the scheduled release or the upload. */
+export function releasedAt(project: ProjectDoc): Date | null {
+  const at = project.publish?.publishAt ?? project.publish?.publishedAt;
+  return at ? new Date(at) : null;
+}
+
+/** Share of viewers still watching halfway through, read off the retention curve. */
+export function retentionAtHalf(retention: VideoStatsDoc['retention']): number | null {
+  if (!retention?.length) return null;
+  return retention.reduce((best, p) => (Math.abs(p.at - 0.5) < Math.abs(best.at - 0.5) ? p : best)).watchRatio;
+}
+
+export type PerformanceGroup = {
+  key: string;
+  videos: number;
+  totalViews: number;
+  avgViews: number;
+  /** Views per day since release, averaged over the group; fairer than raw views when video ages differ. */
+  avgViewsPerDay: number;
+  /** Likes over views across the group; null when no video exposes likes. */
+  likeRate: number | null;
+  avgViewDurationSec: number | null;
+  avgViewPercentage: number | null;
+  avgRetentionAtHalf: number | null;
+};
+
+const mean = (values: Array<number | null>): number | null => {
+  const known = values.filter((v): v is number => v !== null);
+  return known.length ? known.reduce((a, b) => a + b, 0) / known.length : null;
+};
+const round = (v: number | null, digits = 2) => (v === null ? null : Math.round(v * 10 ** digits) / 10 ** digits);
+
+/** Published projects grouped by `dimension` with their latest stats; best views per day first. */
+export function comparePerformance(
+  projects: ProjectDoc[],
+  latest: Map<string, VideoStatsDoc>,
+  dimension: AnalyticsDimension,
+  now = new Date()
+): PerformanceGroup[] {
+  const groups = new Map<string, Array<{ project: ProjectDoc; stats: VideoStatsDoc }>>();
+  for (const project of projects) {
+    const stats = latest.get(project.projectId);
+    if (!stats) continue;
+    const key = dimensionKey(project, dimension);
+    groups.set(key, [...(groups.get(key) ?? []), { project, stats }]);
+  }
+  const out: PerformanceGroup[] = [];
+  for (const [key, rows] of groups) {
+    const totalViews = rows.reduce((sum, r) => sum + r.stats.views, 0);
+    const withLikes = rows.filter((r) => r.stats.likes !== null);
+    const likeViews = withLikes.reduce((sum, r) => sum + r.stats.views, 0);
+    const viewsPerDay = rows.map((r) => {
+      const start = releasedAt(r.project) ?? r.project.updatedAt;
+      const days = Math.max(1, (now.getTime() - start.getTime()) / 86400000);
+      return r.stats.views / days;
+    });
+    out.push({
+      key,
+      videos: rows.length,
+      totalViews,
+      avgViews: round(totalViews / rows.length, 1)!,
+      avgViewsPerDay: round(mean(viewsPerDay), 1)!,
+      likeRate: withLikes.length && likeViews > 0 ? round(withLikes.reduce((sum, r) => sum + (r.stats.likes ?? 0), 0) / likeViews, 4) : null,
+      avgViewDurationSec: round(mean(rows.map((r) => r.stats.averageViewDurationSec)), 1),
+      avgViewPercentage: round(mean(rows.map((r) => r.stats.averageViewPercentage)), 1),
+      avgRetentionAtHalf: round(mean(rows.map((r) => retentionAtHalf(r.stats.retention))), 3)
+    });
+  }
+  return out.sort((a, b) => b.avgViewsPerDay - a.avgViewsPerDay);
+}
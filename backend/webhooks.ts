@@ -0,0 +1,124 @@
+import dns from 'dns';
+import http from 'http';
+import https from 'https';
+import net from 'net';
+
+/**
+ * Outgoing webhooks to user-supplied URLs. Targets must be public: loopback, private, link-local (cloud metadata)
+ * and other reserved addresses are refused, both when the URL is saved and when the request connects, so a
+ * hostname that later resolves somewhere internal is still blocked. Redirects are not followed.
+ */
+
+const BLOCKED = new net.BlockList();
+for (const [net4, prefix] of [
+  ['0.0.0.0', 8],
+  ['10.0.0.0', 8],
+  ['100.64.0.0', 10],
+  ['127.0.0.0', 8],
+  ['169.254.0.0', 16],
+  ['172.16.0.0', 12],
+  ['192.0.0.0', 24],
+  ['192.0.2.0', 24],
+  ['192.168.0.0', 16],
+  ['198.18.0.0', 15],
+  ['198.51.100.0', 24],
+  ['203.0.113.0', 24],
+  ['224.0.0.0', 3]
+] as const) {
+  BLOCKED.addSubnet(net4, prefix, 'ipv4');
+}
+for (const [net6, prefix] of [
+  ['::', 128],
+  ['::1', 128],
+  ['64:ff9b::', 96],
+  ['100::', 64],
+  ['2001:db8::', 32],
+  ['fc00::', 7],
+  ['fe80::', 10],
+  ['ff00::', 8]
+] as const) {
+  BLOCKED.addSubnet(net6, prefix, 'ipv6');
+}
+
+export function isPublicAddress(address: string): boolean {
+  const mapped = /^::ffff:(\d+\.\d+\.\d+\.\d+)$/i.exec(address)?.[1];
+  if (mapped) return isPublicAddress(mapped);
+  const family = net.isIP(address);
+  if (family === 0) return false;
+  return !BLOCKED.check(address, family === 4 ? 'ipv4' : 'ipv6');
+}
+
+function hostOf(url: URL): string {
+  return url.hostname.replace(/^\[|\]$/g, '').toLowerCase();
+}
+
+/** Error message for a URL that may not be used as a webhook, or null when it may (before DNS). */
+function webhookUrlError(value: string): string | null {
+  let url: URL;
+  try {
+    url = new URL(value);
+  } catch {
+    return 'must be an http(s) URL';
+  }
+  if (url.protocol !== 'http:' && url.protocol !== 'https:') return 'must be an http(s) URL';
+  if (url.username || url.password) return 'must not contain credentials';
+  const host = hostOf(url);
+  if (host === 'localhost' || host.endsWith('.localhost') || (net.isIP(host) && !isPublicAddress(host))) {
+    return 'must point to a public address';
+  }
+  return null;
+}
+
+/** Validate a webhook URL, resolving its host: null when usable, else the reason it is not. */
+export async function checkWebhookUrl(value: string): Promise<string | null> {
+  const error = webhookUrlError(value);
+  if (error) return error;
+  const host = hostOf(new URL(value));
+  if (net.isIP(host)) return null;
+  try {
+    const addresses = await dns.promises.lookup(host, { all: true });
+    return addresses.every((a) => isPublicAddress(a.address)) ? null : 'must point to a public address';
+  } catch {
+    return 'host does not resolve';
+  }
+}
+
+/** dns.lookup that fails for non-public addresses, so the check holds for the address actually connected to. */
+const publicLookup: net.LookupFunction = (hostname, options, callback) => {
+  dns.lookup(hostname, { ...options, all: true }, (err, addresses) => {
+    if (err) return callback(err, '', 0);
+    const list = addresses as dns.LookupAddress[];
+    if (!list.length || !list.every((a) => isPublicAddress(a.address))) {
+      return callback(Object.assign(new Error(`${hostname} resolves to a non-public address`), { code: 'EBLOCKED' }), '', 0);
+    }
+    if (options.all) return (callback as unknown as (e: null, a: dns.LookupAddress[]) => void)(null, list);
+    callback(null, list[0].address, list[0].family);
+  });
+};
+
+/** POST JSON to a webhook; resolves with the HTTP status. Throws when the target is refused or unreachable. */
+export function postWebhook(value: string, payload: unknown, timeoutMs: number): Promise<number> {
+  const error = webhookUrlError(value);
+  if (error) return Promise.reject(new Error(`Webhook URL ${error}`));
+  const url = new URL(value);
+  const body = JSON.stringify(payload);
+  return new Promise<number>((resolve, reject) => {
+    const req = (url.protocol === 'https:' ? https : http).request(
+      url,
+      {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json', 'Content-Length': Buffer.byteLength(body) },
+        lookup: publicLookup
+      },
+      (res) => {
+        res.resume();
+        res.on('end', () => resolve(res.statusCode ?? 0));
+        res.on('error', reject);
+      }
+    );
+    const timer = setTimeout(() => req.destroy(new Error('Webhook timed out')), timeoutMs);
+    req.on('close', () => clearTimeout(timer));
+    req.on('error', reject);
+    req.end(body);
+  });
+}
@@ -0,0 +1,427 @@
+import fs from 'fs';
+import path from 'path';
+import jwt from 'jsonwebtoken';
+import { ObjectId } from 'mongodb';
+import { config } from './config';
+import { getDb, USERS_COLL, UserDoc, YoutubeAccountLink, YoutubePrivacyStatus, type ProjectDoc, type PublishState } from './db';
+
+/**
+ * Upload videos, set thumbnails and captions (captions.insert needs force-ssl), and read the channel's analytics for
+ * published videos. Links made before analytics was added lack the last scope; their analytics metrics stay empty.
+ */
+const YOUTUBE_SCOPES = [
+  'https://www.googleapis.com/auth/youtube.upload',
+  'https://www.googleapis.com/auth/youtube.force-ssl',
+  'https://www.googleapis.com/auth/yt-analytics.readonly'
+];
+/** Refresh the access token when it has less than this left, so a request never starts with a dying token. */
+const TOKEN_REFRESH_MARGIN_MS = 2 * 60 * 1000;
+
+export const YOUTUBE_PRIVACY_STATUSES: YoutubePrivacyStatus[] = ['public', 'unlisted', 'private'];
+export const MAX_YOUTUBE_TITLE_CHARS = 100;
+export const MAX_YOUTUBE_DESCRIPTION_BYTES = 5000;
+/** YouTube counts the tags' characters plus separators (and quotes around tags with spaces) against this limit. */
+export const MAX_YOUTUBE_TAGS_CHARS = 500;
+
+export function isYoutubeConfigured(): boolean {
+  return !!(config.youtube.clientId && config.youtube.clientSecret);
+}
+
+async function usersColl() {
+  const db = await getDb();
+  return db.collection<UserDoc>(USERS_COLL);
+}
+
+// ——— Account linking (OAuth 2.0 authorization code flow) ———
+
+type LinkState = { userId: string; purpose: 'youtube_link' };
+
+/** Google consent screen URL. `state` is a short-lived signed token naming the user, checked by the callback. */
+export function buildYoutubeAuthUrl(userId: string): string {
+  const state = jwt.sign({ userId, purpose: 'youtube_link' } satisfies LinkState, config.jwt.secret, { expiresIn: '10m' } as jwt.SignOptions);
+  const params = new URLSearchParams({
+    client_id: config.youtube.clientId,
+    redirect_uri: config.youtube.redirectUri,
+    response_type: 'code',
+    scope: YOUTUBE_SCOPES.join(' '),
+    access_type: 'offline',
+    // Without consent Google only returns a refresh token the first time an account is linked.
+    prompt: 'consent',
+    include_granted_scopes: 'true',
+    state
+  });
+  return `${config.youtube.authUrl}?${params.toString()}`;
+}
+
+export function verifyYoutubeLinkState(state: string): string | null {
+  try {
+    const decoded = jwt.verify(state, config.jwt.secret) as LinkState;
+    return decoded?.purpose === 'youtube_link' && decoded.userId ? decoded.userId : null;
+  } catch {
+    return null;
+  }
+}
+
+type TokenResponse = { access_token: string; refresh_token?: string; expires_in?: number; scope?: string };
+
+async function requestToken(params: Record<string, string>): Promise<TokenResponse> {
+  const res = await fetch(config.youtube.tokenUrl, {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/x-www-form-urlencoded' },
+    body: new URLSearchParams({ client_id: config.youtube.clientId, client_secret: config.youtube.clientSecret, ...params }).toString()
+  });
+  const body = (await res.json().catch(() => ({}))) as TokenResponse & { error?: string; error_description?: string };
+  if (!res.ok || !body.access_token) {
+    throw new Error(`YouTube sign-in failed: ${body.error_description || body.error || `HTTP ${res.status}`}`);
+  }
+  return body;
+}
+
+function expiresAt(token: TokenResponse): string {
+  return new Date(Date.now() + (token.expires_in ?? 3600) * 1000).toISOString();
+}
+
+/** Exchange the callback's code for tokens and store the link with the channel it belongs to. */
+export async function linkYoutubeAccount(userId: string, code: string): Promise<YoutubeAccountLink> {
+  const token = await requestToken({ code, grant_type: 'authorization_code', redirect_uri: config.youtube.redirectUri });
+  const existing = await getYoutubeLink(userId);
+  const refreshToken = token.refresh_token ?? existing?.refreshToken;
+  if (!refreshToken) throw new Error('YouTube did not grant offline access; remove the app from your Google account and link again.');
+  const channels = await youtubeJson<{ items?: Array<{ id: string; snippet?: { title?: string } }> }>(
+    token.access_token,
+    `${config.youtube.apiBaseUrl}/youtube/v3/channels?part=snippet&mine=true`
+  );
+  const channel = channels.items?.[0];
+  if (!channel) throw new Error('This Google account has no YouTube channel');
+  const link: YoutubeAccountLink = {
+    channelId: channel.id,
+    channelTitle: channel.snippet?.title ?? channel.id,
+    accessToken: token.access_token,
+    refreshToken,
+    accessTokenExpiresAt: expiresAt(token),
+    scope: token.scope ?? YOUTUBE_SCOPES.join(' '),
+    linkedAt: new Date().toISOString()
+  };
+  const coll = await usersColl();
+  await coll.updateOne({ _id: new ObjectId(userId) }, { $set: { youtube: link } });
+  return link;
+}
+
+export async function getYoutubeLink(userId: string): Promise<YoutubeAccountLink | null> {
+  if (!ObjectId.isValid(userId)) return null;
+  const coll = await usersColl();
+  const user = await coll.findOne({ _id: new ObjectId(userId) }, { projection: { youtube: 1 } });
+  return user?.youtube ?? null;
+}
+
+/** Forget the link and revoke the grant at Google (best effort: the link is removed either way). */
+export async function unlinkYoutubeAccount(userId: string): Promise<boolean> {
+  const link = await getYoutubeLink(userId);
+  if (!link) return false;
+  await fetch(`${config.youtube.revokeUrl}?token=${encodeURIComponent(link.refreshToken)}`, { method: 'POST' }).catch(() => undefined);
+  const coll = await usersColl();
+  await coll.updateOne({ _id: new ObjectId(userId) }, { $unset: { youtube: '' } });
+  return true;
+}
+
+/** A working access token for the user's linked channel, refreshed and stored when it is about to expire. */
+export async function getYoutubeAccessToken(userId: string): Promise<{ accessToken: string; channelId: string }> {
+  const link = await getYoutubeLink(userId);
+  if (!link) throw new Error('No YouTube account linked');
+  if (Date.parse(link.accessTokenExpiresAt) - Date.now() > TOKEN_REFRESH_MARGIN_MS) {
+    return { accessToken: link.accessToken, channelId: link.channelId };
+  }
+  const token = await requestToken({ refresh_token: link.refreshToken, grant_type: 'refresh_token' });
+  const coll = await usersColl();
+  await coll.updateOne(
+    { _id: new ObjectId(userId) },
+    {
+      $set: {
+        'youtube.accessToken': token.access_token,
+        'youtube.accessTokenExpiresAt': expiresAt(token),
+        ...(token.refresh_token ? { 'youtube.refreshToken': token.refresh_token } : {})
+      }
+    }
+  );
+  return { accessToken: token.access_token, channelId: link.channelId };
+}
+
+// ——— Data API calls ———
+
+async function youtubeError(res: Response): Promise<Error> {
+  const body = (await res.json().catch(() => null)) as { error?: { message?: string } } | null;
+  return new Error(`YouTube API error ${res.status}: ${body?.error?.message ?? res.statusText}`);
+}
+
+async function youtubeJson<T>(accessToken: string, url: string, init: RequestInit = {}): Promise<T> {
+  const res = await fetch(url, { ...init, headers: { ...(init.headers as Record<string, string>), Authorization: `Bearer ${accessToken}` } });
+  if (!res.ok) throw await youtubeError(res);
+  return (await res.json()) as T;
+}
+
+export type YoutubeVideoMetadata = {
+  title: string;
+  description: string;
+  tags: string[];
+  categoryId: string;
+  privacyStatus: YoutubePrivacyStatus;
+  /** Scheduled release (ISO); requires privacyStatus private until then. */
+  publishAt?: string;
+  defaultLanguage?: string;
+};
+
+/** Title, description and tags cut to YouTube's limits (angle brackets are rejected in titles and descriptions). */
+export function fitYoutubeMetadata(meta: { title: string; description: string; tags: string[] }): { title: string; description: string; tags: string[] } {
+  const clean = (s: string) => s.replace(/[<>]/g, '');
+  const title = clean(meta.title).replace(/\s+/g, ' ').trim().slice(0, MAX_YOUTUBE_TITLE_CHARS);
+  let description = clean(meta.description);
+  while (Buffer.byteLength(description, 'utf8') > MAX_YOUTUBE_DESCRIPTION_BYTES) description = description.slice(0, -1);
+  const tags: string[] = [];
+  let used = 0;
+  for (const raw of meta.tags) {
+    const tag = clean(raw).replace(/,/g, ' ').trim();
+    if (!tag || tags.includes(tag)) continue;
+    const cost = tag.length + (tag.includes(' ') ? 2 : 0) + (tags.length ? 1 : 0);
+    if (used + cost > MAX_YOUTUBE_TAGS_CHARS) break;
+    tags.push(tag);
+    used += cost;
+  }
+  return { title, description, tags };
+}
+
+/** Education; the pipeline makes explainers. Any numeric YouTube category id can be passed instead. */
+export const DEFAULT_YOUTUBE_CATEGORY_ID = '27';
+
+/**
+ * A queued publish request for an assembled project. Fields left out come from its youtube_meta.json (first suggested
+ * title, description with chapters, tags). A failed upload of the same metadata keeps its resumable session, so
+ * retrying continues from the bytes YouTube already has.
+ */
+export function buildPublishRequest(
+  project: Pick<ProjectDoc, 'topic' | 'publish' | 'youtubeVideoId'>,
+  meta: Record<string, unknown> | null,
+  input: { title?: string; description?: string; tags?: string[]; categoryId?: string; privacyStatus: YoutubePrivacyStatus; publishAt?: string }
+): PublishState {
+  const suggestedTitle = Array.isArray(meta?.titles) && typeof meta.titles[0] === 'string' ? meta.titles[0] : project.topic;
+  const fitted = fitYoutubeMetadata({
+    title: input.title ?? suggestedTitle,
+    description: input.description ?? (typeof meta?.description === 'string' ? meta.description : ''),
+    tags: input.tags ?? (Array.isArray(meta?.tags) ? (meta.tags as unknown[]).filter((t): t is string => typeof t === 'string') : [])
+  });
+  const now = new Date().toISOString();
+  const publish: PublishState = {
+    status: 'queued',
+    ...fitted,
+    categoryId: input.categoryId ?? DEFAULT_YOUTUBE_CATEGORY_ID,
+    privacyStatus: input.privacyStatus,
+    ...(input.publishAt ? { publishAt: input.publishAt } : {}),
+    requestedAt: now,
+    updatedAt: now
+  };
+  const previous = project.publish;
+  const sameVideo = (p: PublishState) => JSON.stringify([p.title, p.description, p.tags, p.categoryId, p.privacyStatus, p.publishAt]);
+  if (previous?.status === 'failed' && previous.uploadUrl && !project.youtubeVideoId && sameVideo(previous) === sameVideo(publish)) {
+    publish.uploadUrl = previous.uploadUrl;
+  }
+  return publish;
+}
+
+function videoResource(meta: YoutubeVideoMetadata): Record<string, unknown> {
+  return {
+    snippet: {
+      title: meta.title,
+      description: meta.description,
+      tags: meta.tags,
+      categoryId: meta.categoryId,
+      ...(meta.defaultLanguage ? { defaultLanguage: meta.defaultLanguage, defaultAudioLanguage: meta.defaultLanguage } : {})
+    },
+    status: {
+      privacyStatus: meta.publishAt ? 'private' : meta.privacyStatus,
+      ...(meta.publishAt ? { publishAt: meta.publishAt } : {})
+    }
+  };
+}
+
+/** Open a resumable upload session; the returned URL takes the video bytes. */
+export async function startResumableUpload(accessToken: string, meta: YoutubeVideoMetadata, sizeBytes: number): Promise<string> {
+  const res = await fetch(`${config.youtube.apiBaseUrl}/upload/youtube/v3/videos?uploadType=resumable&part=snippet,status`, {
+    method: 'POST',
+    headers: {
+      Authorization: `Bearer ${accessToken}`,
+      'Content-Type': 'application/json; charset=UTF-8',
+      'X-Upload-Content-Type': 'video/mp4',
+      'X-Upload-Content-Length': String(sizeBytes)
+    },
+    body: JSON.stringify(videoResource(meta))
+  });
+  if (!res.ok) throw await youtubeError(res);
+  const location = res.headers.get('location');
+  if (!location) throw new Error('YouTube did not return an upload URL');
+  return location;
+}
+
+/**
+ * Bytes the session already has: 308 with a Range header while incomplete. Returns null when the session is gone
+ * (expired or unknown), and the video resource when the upload had already finished.
+ */
+async function queryUploadOffset(
+  accessToken: string,
+  uploadUrl: string,
+  sizeBytes: number
+): Promise<{ offset: number } | { video: { id: string } } | null> {
+  const res = await fetch(uploadUrl, {
+    method: 'PUT',
+    headers: { Authorization: `Bearer ${accessToken}`, 'Content-Range': `bytes */${sizeBytes}`, 'Content-Length': '0' }
+  });
+  if (res.status === 200 || res.status === 201) return { video: (await res.json()) as { id: string } };
+  if (res.status === 308) return { offset: rangeEnd(res.headers.get('range')) };
+  if (res.status === 404 || res.status === 410) return null;
+  throw await youtubeError(res);
+}
+
+/** "bytes=0-1048575" → 1048576 (next byte to send); no header means nothing was received. */
+function rangeEnd(range: string | null): number {
+  const m = range?.match(/bytes=\d+-(\d+)/);
+  return m ? parseInt(m[1], 10) + 1 : 0;
+}
+
+/**
+ * Send the file to a resumable session in chunks, continuing from whatever the session already has.
+ * Returns null when the session no longer exists, so the caller can open a new one.
+ */
+export async function uploadVideoFile(
+  accessToken: string,
+  uploadUrl: string,
+  filePath: string,
+  opts: { signal?: AbortSignal; onProgress?: (sentBytes: number, totalBytes: number) => void } = {}
+): Promise<{ id: string } | null> {
+  const size = fs.statSync(filePath).size;
+  const state = await queryUploadOffset(accessToken, uploadUrl, size);
+  if (!state) return null;
+  if ('video' in state) return state.video;
+  let offset = state.offset;
+  const fd = fs.openSync(filePath, 'r');
+  try {
+    while (offset < size) {
+      if (opts.signal?.aborted) throw new Error('Upload cancelled');
+      const length = Math.min(config.youtube.uploadChunkBytes, size - offset);
+      const chunk = Buffer.alloc(length);
+      fs.readSync(fd, chunk, 0, length, offset);
+      const res = await fetch(uploadUrl, {
+        method: 'PUT',
+        headers: {
+          Authorization: `Bearer ${accessToken}`,
+          'Content-Length': String(length),
+          'Content-Range': `bytes ${offset}-${offset + length - 1}/${size}`
+        },
+        body: chunk,
+        signal: opts.signal
+      });
+      if (res.status === 200 || res.status === 201) {
+        opts.onProgress?.(size, size);
+        return (await res.json()) as { id: string };
+      }
+      if (res.status !== 308) throw await youtubeError(res);
+      offset = rangeEnd(res.headers.get('range'));
+      opts.onProgress?.(offset, size);
+    }
+  } finally {
+    fs.closeSync(fd);
+  }
+  // Every byte was acknowledged but the final response went missing; ask the session for the result.
+  const final = await queryUploadOffset(accessToken, uploadUrl, size);
+  if (final && 'video' in final) return final.video;
+  throw new Error('YouTube upload did not complete');
+}
+
+export async function setVideoThumbnail(accessToken: string, videoId: string, imagePath: string): Promise<void> {
+  await youtubeJson(accessToken, `${config.youtube.apiBaseUrl}/upload/youtube/v3/thumbnails/set?videoId=${encodeURIComponent(videoId)}`, {
+    method: 'POST',
+    headers: { 'Content-Type': /\.png$/i.test(imagePath) ? 'image/png' : 'image/jpeg' },
+    body: fs.readFileSync(imagePath)
+  });
+}
+
+/** Add a caption track (SRT or VTT file) to the video. */
+export async function insertCaptionTrack(
+  accessToken: string,
+  videoId: string,
+  track: { language: string; name: string; filePath: string }
+): Promise<void> {
+  const boundary = `caption_${Date.now().toString(36)}`;
+  const snippet = JSON.stringify({ snippet: { videoId, language: track.language, name: track.name, isDraft: false } });
+  const body = Buffer.concat([
+    Buffer.from(`--${boundary}\r\nContent-Type: application/json; charset=UTF-8\r\n\r\n${snippet}\r\n`),
+    Buffer.from(`--${boundary}\r\nContent-Type: ${path.extname(track.filePath) === '.vtt' ? 'text/vtt' : 'application/x-subrip'}\r\n\r\n`),
+    fs.readFileSync(track.filePath),
+    Buffer.from(`\r\n--${boundary}--\r\n`)
+  ]);
+  await youtubeJson(accessToken, `${config.youtube.apiBaseUrl}/upload/youtube/v3/captions?uploadType=multipart&part=snippet`, {
+    method: 'POST',
+    headers: { 'Content-Type': `multipart/related; boundary=${boundary}` },
+    body
+  });
+}
+
+// ——— Statistics ———
+
+export type YoutubeVideoStatistics = { views: number; likes: number | null; comments: number | null };
+
+/** Public counters for up to 50 videos per request; videos YouTube no longer returns (deleted, private) are missing. */
+export async function fetchVideoStatistics(accessToken: string, videoIds: string[]): Promise<Map<string, YoutubeVideoStatistics>> {
+  const out = new Map<string, YoutubeVideoStatistics>();
+  const count = (v: string | undefined) => (v === undefined ? null : parseInt(v, 10) || 0);
+  for (let i = 0; i < videoIds.length; i += 50) {
+    const ids = videoIds.slice(i, i + 50);
+    const data = await youtubeJson<{ items?: Array<{ id: string; statistics?: { viewCount?: string; likeCount?: string; commentCount?: string } }> }>(
+      accessToken,
+      `${config.youtube.apiBaseUrl}/youtube/v3/videos?part=statistics&id=${encodeURIComponent(ids.join(','))}`
+    );
+    for (const item of data.items ?? []) {
+      out.set(item.id, { views: count(item.statistics?.viewCount) ?? 0, likes: count(item.statistics?.likeCount), comments: count(item.statistics?.commentCount) });
+    }
+  }
+  return out;
+}
+
+export type YoutubeVideoAnalytics = {
+  averageViewDurationSec: number | null;
+  averageViewPercentage: number | null;
+  /** Audience retention curve: share of the video elapsed (0-1) and how many viewers are still watching relative to the start. */
+  retention: Array<{ at: number; watchRatio: number }> | null;
+};
+
+type AnalyticsReport = { columnHeaders?: Array<{ name: string }>; rows?: Array<Array<number | string>> };
+
+async function analyticsReport(accessToken: string, params: Record<string, string>): Promise<AnalyticsReport | null> {
+  const res = await fetch(`${config.youtube.analyticsBaseUrl}/v2/reports?${new URLSearchParams({ ids: 'channel==MINE', ...params }).toString()}`, {
+    headers: { Authorization: `Bearer ${accessToken}` }
+  });
+  // Missing analytics scope, or the video is not on this channel any more.
+  if (res.status === 401 || res.status === 403) return null;
+  if (!res.ok) throw await youtubeError(res);
+  return (await res.json()) as AnalyticsReport;
+}
+
+/**
+ * View duration and audience retention from the YouTube Analytics API, since `since` (YYYY-MM-DD). YouTube reports these
+ * with a delay of a day or two, so fresh videos and links without the analytics scope come back with nulls.
+ */
+export async function fetchVideoAnalytics(accessToken: string, videoId: string, since: string): Promise<YoutubeVideoAnalytics> {
+  const range = { startDate: since, endDate: new Date().toISOString().slice(0, 10), filters: `video==${videoId}` };
+  const summary = await analyticsReport(accessToken, { ...range, metrics: 'averageViewDuration,averageViewPercentage' });
+  const column = (report: AnalyticsReport | null, name: string) => report?.columnHeaders?.findIndex((h) => h.name === name) ?? -1;
+  const row = summary?.rows?.[0];
+  const value = (name: string) => {
+    const i = column(summary, name);
+    return row && i !== -1 && typeof row[i] === 'number' ? (row[i] as number) : null;
+  };
+  const curve = await analyticsReport(accessToken, { ...range, metrics: 'audienceWatchRatio', dimensions: 'elapsedVideoTimeRatio' });
+  const atIndex = column(curve, 'elapsedVideoTimeRatio');
+  const ratioIndex = column(curve, 'audienceWatchRatio');
+  const retention =
+    curve?.rows?.length && atIndex !== -1 && ratioIndex !== -1
+      ? curve.rows.map((r) => ({ at: Number(r[atIndex]), watchRatio: Number(r[ratioIndex]) })).filter((p) => Number.isFinite(p.at) && Number.isFinite(p.watchRatio))
+      : null;
+  return { averageViewDurationSec: value('averageViewDuration'), averageViewPercentage: value('averageViewPercentage'), retention };
+}